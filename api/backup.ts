@@ -0,0 +1,78 @@
+// Backups saved as JSON files next to the database, plus the optional schedule
+// that takes them automatically. Only the newest few are kept. Document vault
+// files aren't included, only their metadata (see BACKUP_TABLES in db.ts).
+import path from 'path';
+import os from 'os';
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import { BackupService } from './db.js';
+import type { Backup, SavedBackup } from './types.js';
+
+const BACKUP_DIR = path.join(os.homedir(), 'clawd', 'data', 'backups');
+
+// uni-tracker-<timestamp>-<reason>.json; the timestamp has ':' and '.' swapped for '-'
+const FILE_PATTERN = /^uni-tracker-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)-(scheduled|manual|pre-restore)\.json$/;
+
+export const DEFAULT_BACKUP_KEEP = 10;
+
+function parseFileName(file: string): Pick<SavedBackup, 'reason' | 'createdAt'> | undefined {
+  const match = FILE_PATTERN.exec(file);
+  if (!match) return undefined;
+  const [date, time] = match[1].split('T');
+  const [hours, minutes, seconds, millis] = time.replace('Z', '').split('-');
+  return { createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`, reason: match[2] as SavedBackup['reason'] };
+}
+
+// Newest first
+export async function listBackups(): Promise<SavedBackup[]> {
+  await mkdir(BACKUP_DIR, { recursive: true });
+  const backups: SavedBackup[] = [];
+  for (const file of await readdir(BACKUP_DIR)) {
+    const parsed = parseFileName(file);
+    if (!parsed) continue;
+    const { size } = await stat(path.join(BACKUP_DIR, file));
+    backups.push({ file, ...parsed, size });
+  }
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Delete all but the newest `keep` backups
+async function rotateBackups(keep: number) {
+  const backups = await listBackups();
+  for (const backup of backups.slice(keep)) {
+    await unlink(path.join(BACKUP_DIR, backup.file));
+  }
+}
+
+export async function saveBackup(reason: SavedBackup['reason'], keep = DEFAULT_BACKUP_KEEP): Promise<SavedBackup> {
+  await mkdir(BACKUP_DIR, { recursive: true });
+  const backup = await BackupService.create();
+  const file = `uni-tracker-${backup.createdAt.replace(/[:.]/g, '-')}-${reason}.json`;
+  const contents = JSON.stringify(backup, null, 2);
+  await writeFile(path.join(BACKUP_DIR, file), contents);
+  await rotateBackups(keep);
+  return { file, reason, createdAt: backup.createdAt, size: Buffer.byteLength(contents) };
+}
+
+// undefined when no saved backup has that name (names never contain a path)
+export async function readBackup(file: string): Promise<Backup | undefined> {
+  if (!parseFileName(file)) return undefined;
+  try {
+    return JSON.parse(await readFile(path.join(BACKUP_DIR, file), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// Save a backup every `intervalHours`. Failures are logged and retried next time round.
+export function startBackupSchedule(intervalHours: number, keep = DEFAULT_BACKUP_KEEP) {
+  const timer = setInterval(async () => {
+    try {
+      const saved = await saveBackup('scheduled', keep);
+      console.log(`💾 Saved scheduled backup ${saved.file}`);
+    } catch (error) {
+      console.error('Scheduled backup failed:', error);
+    }
+  }, intervalHours * 60 * 60 * 1000);
+  timer.unref();
+  console.log(`💾 Automatic backups every ${intervalHours}h, keeping the latest ${keep}`);
+}
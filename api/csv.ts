@@ -0,0 +1,259 @@
+// CSV import/export for the university list. Parsing follows RFC 4180 (quoted
+// fields, doubled quotes, CRLF or LF line endings); column headers are matched
+// loosely so spreadsheets with "SAT Min" or "Early Deadline" map cleanly.
+import { universityFields, validate, validateRequirement, TEST_TYPES, GPA_SCALES, type FieldError, type TestType } from './validation.js';
+import { TESTS, formatScore } from './scores.js';
+import { GPA_SCALE_DEFINITIONS, DEFAULT_GPA_SCALE, checkGpa } from './gpa.js';
+import type { University, ImportPreview, ImportRow, TestRequirement, UniversityRequirements } from './types.js';
+
+// Exported in this order; importing accepts the same headers back
+export const UNIVERSITY_CSV_COLUMNS = [
+  'name', 'country', 'program', 'major', 'status', 'priority',
+  'ranking', 'rankingAI', 'rankingCS', 'rankingDataAnalytics',
+  'deadlineEarly', 'deadlineRegular', 'deadlineTransfer', 'gpaMin', 'gpaScale',
+  'essaysRequired', 'recLettersRequired', 'interviewRequired',
+  'tuitionAmount', 'currency', 'applicationPortal', 'applicationUrl',
+  'applicationSubmitted', 'decisionReceived', 'decisionResult', 'notes',
+] as const;
+
+// Spreadsheet-style headers, keyed by their normalized form
+const HEADER_ALIASES: Record<string, string> = {
+  university: 'name',
+  universityname: 'name',
+  school: 'name',
+  earlydeadline: 'deadlineEarly',
+  regulardeadline: 'deadlineRegular',
+  transferdeadline: 'deadlineTransfer',
+  gpa: 'gpaMin',
+  gpascale: 'gpaScale',
+  essays: 'essaysRequired',
+  recommendations: 'recLettersRequired',
+  recletters: 'recLettersRequired',
+  interview: 'interviewRequired',
+  tuition: 'tuitionAmount',
+  portal: 'applicationPortal',
+  url: 'applicationUrl',
+};
+
+const normalize = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Test requirements go in columns named for the test and setting, e.g. "satMin"
+// or "ieltsAvg", and are stored in the requirements JSON. A bare test name or
+// label ("SAT", "Duolingo English Test") is its minimum.
+const TEST_SETTINGS = { Min: 'minScore', Avg: 'avgScore' } as const;
+type TestColumn = { test: TestType; setting: typeof TEST_SETTINGS[keyof typeof TEST_SETTINGS] };
+
+const TEST_COLUMNS: Record<string, TestColumn> = Object.fromEntries(TEST_TYPES.flatMap(test =>
+  Object.entries(TEST_SETTINGS).map(([suffix, setting]) => [`${test}${suffix}`, { test, setting }])));
+
+const FIELD_BY_HEADER: Record<string, string> = {
+  ...Object.fromEntries(UNIVERSITY_CSV_COLUMNS.map(field => [normalize(field), field])),
+  ...Object.fromEntries(Object.keys(TEST_COLUMNS).map(field => [normalize(field), field])),
+  ...Object.fromEntries(TEST_TYPES.flatMap(test => [[test, `${test}Min`], [normalize(TESTS[test].label), `${test}Min`]])),
+  ...HEADER_ALIASES,
+};
+
+// University field for a CSV header, or null when the column is ignored
+export function fieldForHeader(header: string): string | null {
+  return FIELD_BY_HEADER[normalize(header)] ?? null;
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines (e.g. a trailing newline in a spreadsheet export) carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function escapeCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const requiredTests = (university: University): UniversityRequirements => {
+  const requirements: UniversityRequirements = university.requirements ? JSON.parse(university.requirements) : {};
+  return Object.fromEntries(TEST_TYPES.filter(test => requirements[test]?.required).map(test => [test, requirements[test]]));
+};
+
+// Test columns follow the fixed ones, for the settings any exported university uses
+export function universitiesToCsv(universities: University[]): string {
+  const tests = universities.map(requiredTests);
+  const testColumns = Object.entries(TEST_COLUMNS)
+    .filter(([, { test, setting }]) => tests.some(t => t[test]?.[setting] !== undefined))
+    .map(([column]) => column);
+  const lines = [[...UNIVERSITY_CSV_COLUMNS, ...testColumns].join(',')];
+  universities.forEach((university, i) => {
+    lines.push([
+      ...UNIVERSITY_CSV_COLUMNS.map(column => escapeCell(university[column])),
+      ...testColumns.map(column => {
+        const { test, setting } = TEST_COLUMNS[column];
+        const score = tests[i][test]?.[setting];
+        return escapeCell(score === undefined ? undefined : formatScore(test, score));
+      }),
+    ].join(','));
+  });
+  return lines.join('\r\n') + '\r\n';
+}
+
+// GPA scales by key, label ("5.0 scale", "IB points") or shorthand ("5.0", "%")
+const GPA_SCALE_BY_NAME: Record<string, string> = {
+  ...Object.fromEntries(GPA_SCALES.flatMap(scale => [[scale, scale], [normalize(GPA_SCALE_DEFINITIONS[scale].label), scale]])),
+  '40': 'gpa4',
+  '50': 'gpa5',
+  percent: 'percentage',
+  ib: 'ib',
+};
+
+// Cell text → the JSON value validate() expects. Non-numeric text in a number
+// column is passed through so validation reports it against the field.
+export function cellValue(field: string, cell: string): unknown {
+  const text = cell.trim();
+  if (text === '') return null;
+  const grades = TESTS[TEST_COLUMNS[field]?.test]?.grades;
+  if (grades?.includes(text.toUpperCase())) return TESTS[TEST_COLUMNS[field].test].min + grades.indexOf(text.toUpperCase());
+  const type = field in TEST_COLUMNS ? 'number' : universityFields[field]?.type;
+  if ((type === 'integer' || type === 'number') && !isNaN(Number(text.replace(/,/g, '')))) {
+    return Number(text.replace(/,/g, ''));
+  }
+  if (field === 'status' || field === 'priority') return text.toLowerCase();
+  if (field === 'gpaScale') return GPA_SCALE_BY_NAME[text === '%' ? 'percent' : normalize(text)] ?? text;
+  if (field === 'interviewRequired') {
+    if (/^(yes|y|true)$/i.test(text)) return 1;
+    if (/^(no|n|false)$/i.test(text)) return 0;
+  }
+  return text;
+}
+
+const matchKey = (name: unknown, program: unknown) =>
+  `${String(name ?? '').trim().toLowerCase()}\u0000${String(program ?? '').trim().toLowerCase()}`;
+
+// Work out what importing `text` would do. Rows match existing universities on
+// name + program (case-insensitive); matches become partial updates, the rest
+// are created. Blank cells are skipped, so they never clear a stored value.
+export function planUniversityImport(text: string, existing: University[]): ImportPreview {
+  const [header = [], ...records] = parseCsv(text);
+  const columns = header.map(h => ({ header: h.trim(), field: fieldForHeader(h) }));
+  const preview: ImportPreview = { columns, rows: [], summary: { create: 0, update: 0, invalid: 0 }, errors: [] };
+
+  if (header.length === 0) {
+    preview.errors.push({ field: 'csv', message: 'The file is empty' });
+    return preview;
+  }
+  for (const required of ['name', 'program']) {
+    if (!columns.some(c => c.field === required)) {
+      preview.errors.push({ field: 'csv', message: `Missing a "${required}" column` });
+    }
+  }
+  const seen = new Set<string>();
+  for (const { header: h, field } of columns) {
+    if (field && seen.has(field)) preview.errors.push({ field: 'csv', message: `Column "${h}" maps to ${field}, which appears more than once` });
+    if (field) seen.add(field);
+  }
+  if (preview.errors.length > 0) return preview;
+
+  const byKey = new Map<string, University>();
+  for (const university of existing) {
+    const key = matchKey(university.name, university.program);
+    if (!byKey.has(key)) byKey.set(key, university);
+  }
+  const rowByKey = new Map<string, number>();
+
+  records.forEach((cells, i) => {
+    const body: Record<string, unknown> = {};
+    const errors: FieldError[] = [];
+    columns.forEach(({ field }, col) => {
+      const value = field ? cellValue(field, cells[col] ?? '') : null;
+      if (field && value !== null) body[field] = value;
+    });
+    if (cells.length > columns.length) {
+      errors.push({ field: 'csv', message: `Has ${cells.length} cells but the header has ${columns.length}` });
+    }
+
+    // Test columns become requirements of their own, each marked required
+    const tests: Partial<Record<TestType, Record<string, unknown>>> = {};
+    for (const field of Object.keys(body).filter(f => f in TEST_COLUMNS)) {
+      const { test, setting } = TEST_COLUMNS[field];
+      tests[test] = { ...tests[test], [setting]: body[field] };
+      delete body[field];
+    }
+    const testRequirements: UniversityRequirements = {};
+    for (const [test, settings] of Object.entries(tests) as [TestType, Record<string, unknown>][]) {
+      const requirement = validateRequirement(test, settings);
+      testRequirements[test] = requirement.value as unknown as TestRequirement;
+      // Reported against the column: "sat.minScore" → "satMin"
+      errors.push(...requirement.errors.map(error => ({
+        ...error,
+        field: Object.keys(TEST_COLUMNS).find(column => `${TEST_COLUMNS[column].test}.${TEST_COLUMNS[column].setting}` === error.field) ?? error.field,
+      })));
+    }
+
+    const key = matchKey(body.name, body.program);
+    const match = byKey.get(key);
+    const result = validate<University>(universityFields, body, { partial: Boolean(match) });
+    errors.push(...result.errors);
+    // The minimum is on the row's scale, else the one already stored
+    const gpaMin = result.value.gpaMin ?? match?.gpaMin;
+    const gpaError = gpaMin != null && result.errors.length === 0
+      ? checkGpa(gpaMin, result.value.gpaScale ?? match?.gpaScale ?? DEFAULT_GPA_SCALE)
+      : undefined;
+    if (gpaError) errors.push({ field: 'gpaMin', message: gpaError });
+
+    const duplicateOf = rowByKey.get(key);
+    if (duplicateOf !== undefined) {
+      errors.push({ field: 'name', message: `Same name and program as row ${duplicateOf}` });
+    } else {
+      rowByKey.set(key, i + 1);
+    }
+
+    const row: ImportRow = {
+      row: i + 1,
+      action: errors.length > 0 ? 'invalid' : match ? 'update' : 'create',
+      universityId: match?.id,
+      name: String(body.name ?? ''),
+      program: String(body.program ?? ''),
+      values: result.value,
+      ...(Object.keys(testRequirements).length > 0 && { testRequirements }),
+      errors,
+    };
+    preview.rows.push(row);
+    preview.summary[row.action]++;
+  });
+
+  return preview;
+}
@@ -0,0 +1,78 @@
+// Currency conversion. Every exchange rate is how many units of that currency one
+// US dollar buys, so any two currencies convert through the dollar.
+import { parseCsv } from './csv.js';
+import type { FieldError } from './validation.js';
+
+export const BASE_CURRENCY = 'USD';
+
+export type Rates = Record<string, number>;
+
+// Free-text currency values (" gbp", "USD") as a code; undefined when it isn't one
+export function currencyCode(value: string | null | undefined): string | undefined {
+  const code = value?.trim().toUpperCase();
+  return code && /^[A-Z]{3}$/.test(code) ? code : undefined;
+}
+
+const rateFor = (code: string, rates: Rates) => code === BASE_CURRENCY ? 1 : rates[code];
+
+// undefined when either currency has no rate
+export function convert(amount: number, from: string, to: string, rates: Rates): number | undefined {
+  if (from === to) return amount;
+  const fromRate = rateFor(from, rates);
+  const toRate = rateFor(to, rates);
+  if (!fromRate || !toRate) return undefined;
+  return (amount / fromRate) * toRate;
+}
+
+// A rates file, either JSON or CSV:
+//   {"base": "EUR", "rates": {"USD": 1.08, "GBP": 0.85}}   (the shape most rate APIs return)
+//   {"GBP": 0.79, "SAR": 3.75}                              (per US dollar)
+//   currency,rate\nGBP,0.79\nSAR,3.75                        (per US dollar; header optional)
+// Rates quoted against another base are turned into rates per US dollar.
+export function parseRates(content: string): { rates: Rates; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  let base = BASE_CURRENCY;
+  let entries: [string, unknown][] = [];
+
+  if (content.trim().startsWith('{')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return { rates: {}, errors: [{ field: 'content', message: 'Not valid JSON' }] };
+    }
+    const table = parsed.rates && typeof parsed.rates === 'object' ? parsed.rates : parsed;
+    base = currencyCode(typeof parsed.base === 'string' ? parsed.base : undefined) ?? BASE_CURRENCY;
+    entries = Object.entries(table).filter(([key]) => key !== 'base');
+  } else {
+    const rows = parseCsv(content);
+    // Skip a header row: one whose rate column isn't a number
+    const start = rows[0] && isNaN(Number(rows[0][1])) ? 1 : 0;
+    entries = rows.slice(start).map(row => [row[0] ?? '', row[1]?.trim() === '' ? NaN : Number(row[1])]);
+  }
+
+  const quoted: Rates = {};
+  for (const [key, value] of entries) {
+    const code = currencyCode(key);
+    if (!code) {
+      errors.push({ field: key || 'currency', message: 'Not a three-letter currency code' });
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      errors.push({ field: code, message: 'Rate must be a number greater than 0' });
+    } else {
+      quoted[code] = value;
+    }
+  }
+  if (entries.length === 0) errors.push({ field: 'content', message: 'No rates found' });
+
+  // The dollar is always 1 and isn't stored
+  const dollarsPerBase = base === BASE_CURRENCY ? 1 : quoted[BASE_CURRENCY];
+  if (!dollarsPerBase) {
+    return { rates: {}, errors: [...errors, { field: 'base', message: `Rates are quoted in ${base}, so a ${BASE_CURRENCY} rate is needed to convert them` }] };
+  }
+  // One base unit buys dollarsPerBase dollars, so per dollar every rate is divided by it
+  const rates: Rates = base === BASE_CURRENCY ? {} : { [base]: 1 / dollarsPerBase };
+  for (const [code, rate] of Object.entries(quoted)) {
+    if (code !== BASE_CURRENCY) rates[code] = rate / dollarsPerBase;
+  }
+  return { rates, errors };
+}
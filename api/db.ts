@@ -1,89 +1,37 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 import os from 'os';
 import { mkdir } from 'fs/promises';
+import { universityFields, taskFields, isValidDate, deadlineFields, digestRecipientFields, feeFields, scholarshipFields, documentFields, recommenderFields, essayPromptFields, essayFields, ESSAY_STATUSES, testAttemptFields, TEST_TYPES, APPLICATION_DEADLINE_TYPES } from './validation.js';
+import type { Schema, RequirementType, DeadlineType, VaultDocumentType, LetterStatus, TestType, GpaScale } from './validation.js';
+import type { Applicant, University, Task, Profile, UniversityRequirements, TestRequirement, UniversityQuery, TaskQuery, Page, Readiness, ReadinessItem, UniversityStats, ImportPreview, ImportResult, Backup, HistoryEntry, HistoryEntity, RequirementsUpdate, Deadline, DeadlineQuery, Notification, NotificationEntity, NotificationQuery, DigestRecipient, Fee, FeeQuery, FeeBudget, BudgetLine, ExchangeRate, Scholarship, ScholarshipQuery, NetCost, NetCosts, VaultDocument, VaultDocumentQuery, Recommender, RecommendationLetter, LetterCoverage, EssayPrompt, Essay, EssayVersion, EssayQuery, EssayLibrary, EssayReuse, EssayWarning, TestAttempt, TestAttemptQuery, UniversityScore, UniversityGpa } from './types.js';
+import { planUniversityImport } from './csv.js';
+import { countWords, promptSimilarity, nameTerms, clusterBySimilarity, textOverlap, mentionedUniversities, ESSAY_OVERLAP } from './essays.js';
+import { TESTS, ENGLISH_TESTS, DEFAULT_SCORE_POLICY, POLICY_SCORE_NAMES, formatScore, policyScore } from './scores.js';
+import type { Sitting } from './scores.js';
+import { compareGpa, formatGpa, DEFAULT_GPA_SCALE } from './gpa.js';
+import { timezoneForCountry, zonedTimeToUtc } from './timezones.js';
+import { BASE_CURRENCY, currencyCode, convert } from './currency.js';
+import type { Rates } from './currency.js';
+import { SortColumn, orderBy, afterCursor, encodeCursor, decodeCursor, likePattern, InvalidCursorError } from './query.js';
 
 // Store DB in ~/clawd/data/ for persistence across project moves
 const DB_DIR = path.join(os.homedir(), 'clawd', 'data');
 const DB_PATH = path.join(DB_DIR, 'uni-tracker.db');
 
-export interface University {
-  id: number;
-  name: string;
-  country: string;
-  program: string;
-  major: string;
-  ranking?: number; // Overall university ranking
-  rankingAI?: number; // AI program ranking
-  rankingCS?: number; // CS program ranking
-  rankingDataAnalytics?: number; // Data Analytics/Data Science ranking
-  deadlineEarly?: string;
-  deadlineRegular?: string;
-  deadlineTransfer?: string;
-  satMin?: number;
-  satAvg?: number;
-  ieltsMin?: number;
-  ieltsAvg?: number;
-  toeflMin?: number;
-  gpaMin?: number;
-  applicationPortal?: string;
-  applicationUrl?: string;
-  essaysRequired?: number;
-  recLettersRequired?: number;
-  interviewRequired?: number;
-  tuitionAmount?: number; // Annual tuition cost
-  currency?: string; // USD, GBP, SAR, etc.
-  status: string;
-  priority: string;
-  notes?: string;
-  applicationSubmitted?: string;
-  decisionReceived?: string;
-  decisionResult?: string;
-  requirements?: string; // JSON string
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Task {
-  id: number;
-  universityId?: number;
-  title: string;
-  description?: string;
-  dueDate?: string;
-  status: string;
-  priority: string;
-  profileItemType?: string; // Links to profile field (e.g., 'sat_actual', 'transcript_status')
-  completedAt?: string;
-  createdAt: string;
-}
-
-export interface Profile {
-  id: number;
-  satTarget?: number;
-  satActual?: number;
-  ieltsScore?: number;
-  toeflScore?: number;
-  transcriptStatus: 'missing' | 'requested' | 'received' | 'submitted';
-  recommendationsCount: number;
-  statementStatus: 'not_started' | 'drafting' | 'reviewing' | 'complete';
-  feeBudget?: number;
-  updatedAt: string;
-}
-
-// University requirements structure
-export interface UniversityRequirements {
-  sat?: { required: boolean; minScore?: number; avgScore?: number };
-  ielts?: { required: boolean; minScore?: number };
-  toefl?: { required: boolean; minScore?: number };
-  transcripts?: { required: boolean; count?: number };
-  recommendations?: { required: boolean; count?: number };
-  essays?: { required: boolean; count?: number };
-  interview?: { required: boolean };
-  applicationFee?: { amount?: number; waiverAvailable?: boolean };
+// The connection is shared, so while a transaction is open, statements from outside it
+// (other requests, the schedulers) wait for it to finish rather than becoming part of it
+let openTransaction: Promise<void> | undefined;
+const transactionScope = new AsyncLocalStorage<true>();
+
+async function waitForTransaction() {
+  while (openTransaction && !transactionScope.getStore()) await openTransaction;
 }
 
 // Promise wrapper for sqlite3
-function run(db: sqlite3.Database, sql: string, params: any[] = []): Promise<{ lastID: number; changes: number }> {
+async function run(db: sqlite3.Database, sql: string, params: any[] = []): Promise<{ lastID: number; changes: number }> {
+  await waitForTransaction();
   return new Promise((resolve, reject) => {
     db.run(sql, params, function(err) {
       if (err) reject(err);
@@ -92,7 +40,8 @@ function run(db: sqlite3.Database, sql: string, params: any[] = []): Promise<{ l
   });
 }
 
-function get<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<T | undefined> {
+async function get<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<T | undefined> {
+  await waitForTransaction();
   return new Promise((resolve, reject) => {
     db.get(sql, params, (err, row) => {
       if (err) reject(err);
@@ -101,7 +50,8 @@ function get<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<
   });
 }
 
-function all<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<T[]> {
+async function all<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<T[]> {
+  await waitForTransaction();
   return new Promise((resolve, reject) => {
     db.all(sql, params, (err, rows) => {
       if (err) reject(err);
@@ -110,6 +60,120 @@ function all<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<
   });
 }
 
+// Runs `work` as one transaction, rolled back if any of it fails. Transactions take
+// turns; one started inside another just joins it.
+async function inTransaction<T>(db: sqlite3.Database, work: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) return work();
+  // Checked again after every wait, with nothing awaited in between, so two callers can't both get in
+  while (openTransaction) await openTransaction;
+  let finished!: () => void;
+  openTransaction = new Promise(resolve => { finished = resolve; });
+  try {
+    return await transactionScope.run(true, async () => {
+      await run(db, 'BEGIN IMMEDIATE');
+      try {
+        const result = await work();
+        await run(db, 'COMMIT');
+        return result;
+      } catch (error) {
+        await run(db, 'ROLLBACK');
+        throw error;
+      }
+    });
+  } finally {
+    openTransaction = undefined;
+    finished();
+  }
+}
+
+// Shared by the list queries: counts the matches, then fetches one page in sort
+// order, continuing after `cursor` when given.
+async function queryPage<T extends { id: number }>(options: {
+  select: string;
+  from: string;
+  where: string[];
+  params: any[];
+  sort: string;
+  columns: SortColumn[];
+  limit?: number;
+  cursor?: string;
+}): Promise<Page<T>> {
+  const { select, from, columns, sort, limit } = options;
+  const where = [...options.where];
+  const params = [...options.params];
+
+  const count = await get<{ count: number }>(db, `SELECT COUNT(*) as count FROM ${from} WHERE ${where.join(' AND ')}`, params);
+
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor, sort, columns.length);
+    if (!cursor) throw new InvalidCursorError();
+    const after = afterCursor(columns, 'id', cursor);
+    where.push(after.sql);
+    params.push(...after.params);
+  }
+
+  const sortValues = columns.map((column, i) => `${column.expr} AS _sort${i}`).join(', ');
+  let sql = `SELECT ${select}, ${sortValues} FROM ${from} WHERE ${where.join(' AND ')} ORDER BY ${orderBy(columns, 'id')}`;
+  if (limit) {
+    // One extra row tells us whether another page exists
+    sql += ' LIMIT ?';
+    params.push(limit + 1);
+  }
+
+  const rows = await all<Record<string, any>>(db, sql, params);
+  const hasMore = limit !== undefined && rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  const items = pageRows.map(row => {
+    const item = { ...row };
+    columns.forEach((_, i) => delete item[`_sort${i}`]);
+    return item as T;
+  });
+
+  return {
+    items,
+    total: count?.count || 0,
+    nextCursor: hasMore ? encodeCursor({ sort, values: columns.map((_, i) => last[`_sort${i}`]), id: last.id }) : null,
+  };
+}
+
+// `key` or `-key` → the sort key and direction
+function parseSort(sort: string): { key: string; desc: boolean } {
+  return sort.startsWith('-') ? { key: sort.slice(1), desc: true } : { key: sort, desc: false };
+}
+
+// The fields of `updates` that the schema whitelists, less `except`, as column values.
+// Update statements are built from these keys, so only whitelisted columns ever reach the SQL.
+function updatedColumns(updates: object, schema: Schema, except: string[] = []): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (key in schema && !except.includes(key)) changes[key] = typeof value === 'boolean' ? (value ? 1 : 0) : value;
+  }
+  return changes;
+}
+
+const PRIORITY_RANK = "CASE priority WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END";
+
+// Legacy University columns and the deadline type each one mirrors
+const DEADLINE_COLUMNS: Record<string, DeadlineType> = {
+  deadlineEarly: 'early',
+  deadlineRegular: 'regular',
+  deadlineTransfer: 'transfer',
+};
+
+const APPLICATION_DEADLINE_LIST = APPLICATION_DEADLINE_TYPES.map(type => `'${type}'`).join(', ');
+
+// A university's tuition in US dollars; NULL when its currency has no exchange rate.
+// A missing currency is taken to be dollars, as it is for fees.
+const TUITION_IN_DOLLARS = `(tuitionAmount / CASE
+  WHEN universities.currency IS NULL OR UPPER(TRIM(universities.currency)) IN ('', '${BASE_CURRENCY}') THEN 1
+  ELSE (SELECT r.rate FROM exchange_rates r WHERE r.currency = UPPER(TRIM(universities.currency)))
+END)`;
+
+// A university's earliest application deadline, for sorting and filtering the list
+const FIRST_DEADLINE = `(SELECT MIN(d.date) FROM deadlines d WHERE d.universityId = universities.id AND d.type IN (${APPLICATION_DEADLINE_LIST}))`;
+
 // Initialize database
 let db: sqlite3.Database;
 let initialized = false;
@@ -287,46 +351,621 @@ async function runMigrations() {
     await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [3, new Date().toISOString()]);
     console.log('✅ Migration 3 complete');
   }
-}
-
-async function populateUniversityRequirements() {
-  console.log('🔄 Populating requirements for existing universities...');
   
-  const universities = await all<University>(db, 'SELECT * FROM universities');
+  // Migration 4: Applicants (one install tracks several students)
+  if (currentVersion < 4) {
+    console.log('🔄 Running migration 4: Add applicants...');
+    
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS applicants (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      
+      // Everything tracked so far belongs to the first applicant
+      const now = new Date().toISOString();
+      const result = await run(db, 'INSERT INTO applicants (name, createdAt, updatedAt) VALUES (?, ?, ?)', ['Primary Applicant', now, now]);
+      
+      for (const table of ['universities', 'tasks', 'profile']) {
+        try {
+          await run(db, `ALTER TABLE ${table} ADD COLUMN applicantId INTEGER REFERENCES applicants(id)`);
+          console.log(`✅ Added applicantId column to ${table}`);
+        } catch (e) {
+          console.log(`ℹ️ applicantId column already exists on ${table}`);
+        }
+        await run(db, `UPDATE ${table} SET applicantId = ? WHERE applicantId IS NULL`, [result.lastID]);
+        await run(db, `CREATE INDEX IF NOT EXISTS idx_${table}_applicantId ON ${table}(applicantId)`);
+      }
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [4, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 4 complete');
+  }
   
-  for (const uni of universities) {
-    const requirements: UniversityRequirements = {};
+  // Migration 5: Task lifecycle (suggested/snoozed/dismissed/todo/in_progress/done)
+  if (currentVersion < 5) {
+    console.log('🔄 Running migration 5: Normalize task statuses...');
     
-    if (uni.satAvg || uni.satMin) {
-      requirements.sat = { 
-        required: true, 
-        minScore: uni.satMin || undefined,
-        avgScore: uni.satAvg || undefined
-      };
-    }
+    await inTransaction(db, async () => {
+      try {
+        await run(db, 'ALTER TABLE tasks ADD COLUMN snoozedUntil TEXT');
+        console.log('✅ Added snoozedUntil column to tasks');
+      } catch (e) {
+        console.log('ℹ️ snoozedUntil column already exists on tasks');
+      }
+      
+      // Older screens wrote pending/completed; fold them (and anything unknown) into the lifecycle
+      await run(db, "UPDATE tasks SET status = 'todo' WHERE status IN ('pending', 'open')");
+      await run(db, "UPDATE tasks SET status = 'done' WHERE status IN ('completed', 'complete')");
+      await run(db, "UPDATE tasks SET status = 'todo' WHERE status NOT IN ('suggested', 'snoozed', 'dismissed', 'todo', 'in_progress', 'done')");
+      await run(db, "UPDATE tasks SET completedAt = COALESCE(completedAt, createdAt) WHERE status = 'done'");
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [5, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 5 complete');
+  }
+  
+  // Migration 6: Change history for universities, tasks and profile
+  if (currentVersion < 6) {
+    console.log('🔄 Running migration 6: Add change history...');
     
-    if (uni.ieltsMin || uni.ieltsAvg) {
-      requirements.ielts = { 
-        required: true, 
-        minScore: uni.ieltsMin || uni.ieltsAvg || undefined 
-      };
-    }
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          entityType TEXT NOT NULL,
+          entityId INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          field TEXT,
+          oldValue TEXT,
+          newValue TEXT,
+          changedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_history_entity ON history(entityType, entityId)');
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_history_applicantId ON history(applicantId)');
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [6, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 6 complete');
+  }
+  
+  // Migration 7: Bring requirements JSON back in line with the flat columns (edits
+  // never updated it) and mark transcripts as required, which nothing ever set
+  if (currentVersion < 7) {
+    console.log('🔄 Running migration 7: Sync requirements...');
     
-    if (uni.toeflMin) {
-      requirements.toefl = { required: true, minScore: uni.toeflMin };
-    }
+    await inTransaction(db, async () => {
+      const universities = await all<University>(db, 'SELECT * FROM universities');
+      for (const uni of universities) {
+        const requirements = deriveRequirements(uni, { transcripts: { required: true }, ...parseRequirements(uni) });
+        await run(db, 'UPDATE universities SET requirements = ? WHERE id = ?', [JSON.stringify(requirements), uni.id]);
+      }
+      console.log(`✅ Synced requirements for ${universities.length} universities`);
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [7, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 7 complete');
+  }
+  
+  // Migration 8: Deadlines table (any number of rounds per university)
+  if (currentVersion < 8) {
+    console.log('🔄 Running migration 8: Add deadlines...');
     
-    if (uni.recLettersRequired) {
-      requirements.recommendations = { required: true, count: uni.recLettersRequired };
-    }
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS deadlines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          universityId INTEGER NOT NULL REFERENCES universities(id),
+          type TEXT NOT NULL,
+          label TEXT,
+          date TEXT NOT NULL,
+          time TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_deadlines_universityId ON deadlines(universityId)');
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_deadlines_applicantId_date ON deadlines(applicantId, date)');
+      
+      // Carry the three fixed columns over as rows. They were free text, so anything that
+      // isn't a date ("June-July 2026") goes to the university's notes instead.
+      const now = new Date().toISOString();
+      for (const [column, type] of Object.entries(DEADLINE_COLUMNS)) {
+        const universities = await all<{ id: number; applicantId: number; notes: string | null; value: string }>(db, `
+          SELECT id, applicantId, notes, ${column} as value FROM universities WHERE ${column} IS NOT NULL AND ${column} != ''
+        `);
+        let moved = 0;
+        for (const uni of universities) {
+          if (isValidDate(uni.value)) {
+            await run(db, `
+              INSERT INTO deadlines (applicantId, universityId, type, date, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)
+            `, [uni.applicantId, uni.id, type, uni.value, now, now]);
+            moved++;
+          } else {
+            const note = `${type[0].toUpperCase()}${type.slice(1)} deadline: ${uni.value}`;
+            await run(db, `UPDATE universities SET notes = ?, ${column} = NULL WHERE id = ?`, [
+              uni.notes ? `${uni.notes}\n\n${note}` : note, uni.id,
+            ]);
+            console.log(`⚠️ ${column} of university ${uni.id} is not a date ("${uni.value}"); moved it to the notes`);
+          }
+        }
+        console.log(`✅ Moved ${moved} ${column} values to deadlines`);
+      }
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [8, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 8 complete');
+  }
+  
+  // Migration 9: Deadline timezones and the exact instant each one falls due
+  if (currentVersion < 9) {
+    console.log('🔄 Running migration 9: Add deadline timezones...');
     
-    if (uni.essaysRequired) {
-      requirements.essays = { required: true, count: uni.essaysRequired };
-    }
+    await inTransaction(db, async () => {
+      await run(db, 'ALTER TABLE deadlines ADD COLUMN timezone TEXT');
+      await run(db, 'ALTER TABLE deadlines ADD COLUMN dueAt TEXT');
+      
+      // Existing deadlines were entered in the university's local time. A date that
+      // isn't a real one has no instant, so its dueAt stays NULL until it's corrected.
+      const deadlines = await all<Deadline & { country: string }>(db, `
+        SELECT d.*, u.country FROM deadlines d JOIN universities u ON u.id = d.universityId
+      `);
+      for (const deadline of deadlines) {
+        const timezone = timezoneForCountry(deadline.country);
+        const dueAt = zonedTimeToUtc(deadline.date, deadline.time, timezone);
+        if (!dueAt) console.log(`⚠️ Deadline ${deadline.id} is not a date ("${deadline.date}"); left without a due time`);
+        await run(db, 'UPDATE deadlines SET timezone = ?, dueAt = ? WHERE id = ?', [timezone, dueAt ?? null, deadline.id]);
+      }
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_deadlines_applicantId_dueAt ON deadlines(applicantId, dueAt)');
+      console.log(`✅ Set timezones on ${deadlines.length} deadlines`);
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [9, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 9 complete');
+  }
+  
+  // Migration 10: Notifications raised by the reminder scheduler
+  if (currentVersion < 10) {
+    console.log('🔄 Running migration 10: Add notifications...');
     
-    if (uni.interviewRequired) {
-      requirements.interview = { required: true };
-    }
+    await inTransaction(db, async () => {
+      // One reminder per item and offset, however often the scheduler runs
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS notifications (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          entityType TEXT NOT NULL,
+          entityId INTEGER NOT NULL,
+          universityId INTEGER REFERENCES universities(id),
+          offsetDays INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          message TEXT NOT NULL,
+          dueAt TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          readAt TEXT,
+          UNIQUE (entityType, entityId, offsetDays)
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_notifications_applicantId ON notifications(applicantId, createdAt)');
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [10, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 10 complete');
+  }
+  
+  // Migration 11: Email digest recipients
+  if (currentVersion < 11) {
+    console.log('🔄 Running migration 11: Add digest recipients...');
+    
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS digest_recipients (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          email TEXT NOT NULL,
+          name TEXT,
+          frequency TEXT NOT NULL DEFAULT 'weekly',
+          dayOfWeek INTEGER NOT NULL DEFAULT 0,
+          hour INTEGER NOT NULL DEFAULT 8,
+          timezone TEXT NOT NULL DEFAULT 'UTC',
+          lastSentAt TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_digest_recipients_applicantId ON digest_recipients(applicantId)');
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [11, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 11 complete');
+  }
+  
+  // Migration 12: Application fee ledger
+  if (currentVersion < 12) {
+    console.log('🔄 Running migration 12: Add fees...');
+    
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS fees (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          universityId INTEGER NOT NULL REFERENCES universities(id),
+          label TEXT,
+          amount REAL NOT NULL,
+          currency TEXT NOT NULL,
+          paidDate TEXT,
+          waiverRequested INTEGER NOT NULL DEFAULT 0,
+          waiverGranted INTEGER NOT NULL DEFAULT 0,
+          notes TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_fees_universityId ON fees(universityId)');
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [12, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 12 complete');
+  }
+  
+  // Migration 13: Exchange rates and a display currency per applicant
+  if (currentVersion < 13) {
+    console.log('🔄 Running migration 13: Add exchange rates...');
+    
+    await inTransaction(db, async () => {
+      // Units of `currency` one US dollar buys; shared by every applicant
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS exchange_rates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          currency TEXT NOT NULL UNIQUE,
+          rate REAL NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'ALTER TABLE profile ADD COLUMN displayCurrency TEXT');
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [13, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 13 complete');
+  }
+  
+  // Migration 14: Scholarships, linked to any number of universities
+  if (currentVersion < 14) {
+    console.log('🔄 Running migration 14: Add scholarships...');
+    
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS scholarships (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          name TEXT NOT NULL,
+          provider TEXT,
+          amount REAL,
+          currency TEXT NOT NULL,
+          renewable INTEGER NOT NULL DEFAULT 0,
+          eligibility TEXT,
+          deadline TEXT,
+          requiredDocuments TEXT NOT NULL DEFAULT '[]',
+          status TEXT NOT NULL DEFAULT 'researching',
+          notes TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_scholarships_applicantId ON scholarships(applicantId)');
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS scholarship_universities (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          scholarshipId INTEGER NOT NULL REFERENCES scholarships(id),
+          universityId INTEGER NOT NULL REFERENCES universities(id),
+          UNIQUE (scholarshipId, universityId)
+        )
+      `);
+      await run(db, 'ALTER TABLE tasks ADD COLUMN scholarshipId INTEGER REFERENCES scholarships(id)');
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [14, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 14 complete');
+  }
+  
+  // Migration 15: Document vault. Files are stored on disk; storedName is the
+  // file's name in the applicant's folder there.
+  if (currentVersion < 15) {
+    console.log('🔄 Running migration 15: Add document vault...');
+    
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS documents (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          type TEXT NOT NULL,
+          title TEXT NOT NULL,
+          version INTEGER NOT NULL DEFAULT 1,
+          issuedDate TEXT,
+          tags TEXT NOT NULL DEFAULT '[]',
+          requirementType TEXT,
+          fileName TEXT NOT NULL,
+          storedName TEXT NOT NULL,
+          mimeType TEXT,
+          size INTEGER NOT NULL,
+          notes TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_documents_applicantId ON documents(applicantId)');
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS document_universities (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          documentId INTEGER NOT NULL REFERENCES documents(id),
+          universityId INTEGER NOT NULL REFERENCES universities(id),
+          UNIQUE (documentId, universityId)
+        )
+      `);
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [15, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 15 complete');
+  }
+  
+  // Migration 16: Recommenders and the letters each writes per university, replacing
+  // the profile's recommendationsCount
+  if (currentVersion < 16) {
+    console.log('🔄 Running migration 16: Add recommenders...');
+    
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS recommenders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          name TEXT NOT NULL,
+          role TEXT,
+          subject TEXT,
+          email TEXT,
+          phone TEXT,
+          notes TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_recommenders_applicantId ON recommenders(applicantId)');
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS recommender_universities (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          recommenderId INTEGER NOT NULL REFERENCES recommenders(id),
+          universityId INTEGER NOT NULL REFERENCES universities(id),
+          status TEXT NOT NULL DEFAULT 'asked',
+          updatedAt TEXT NOT NULL,
+          UNIQUE (recommenderId, universityId)
+        )
+      `);
+      await run(db, 'ALTER TABLE tasks ADD COLUMN recommenderId INTEGER REFERENCES recommenders(id)');
+      
+      // The old count had no names, so it becomes placeholder recommenders to fill in
+      const now = new Date().toISOString();
+      const counts = await all<{ applicantId: number; recommendationsCount: number }>(db, 'SELECT applicantId, recommendationsCount FROM profile WHERE recommendationsCount > 0');
+      for (const { applicantId, recommendationsCount } of counts) {
+        for (let i = 1; i <= recommendationsCount; i++) {
+          await run(db, 'INSERT INTO recommenders (applicantId, name, notes, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+            [applicantId, `Recommender ${i}`, 'Added from the earlier recommendation letter count', now, now]);
+        }
+      }
+      await run(db, 'ALTER TABLE profile DROP COLUMN recommendationsCount');
+      await run(db, "UPDATE tasks SET profileItemType = 'recommenders' WHERE profileItemType = 'recommendationsCount'");
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [16, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 16 complete');
+  }
+  
+  // Migration 17: Essay prompts per university, and drafts with their version history
+  if (currentVersion < 17) {
+    console.log('🔄 Running migration 17: Add essays...');
+    
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS essay_prompts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          universityId INTEGER NOT NULL REFERENCES universities(id),
+          title TEXT,
+          prompt TEXT NOT NULL,
+          wordLimit INTEGER,
+          notes TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_essay_prompts_universityId ON essay_prompts(universityId)');
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS essays (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          promptId INTEGER NOT NULL REFERENCES essay_prompts(id),
+          title TEXT,
+          status TEXT NOT NULL DEFAULT 'outline',
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_essays_promptId ON essays(promptId)');
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS essay_versions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          essayId INTEGER NOT NULL REFERENCES essays(id),
+          version INTEGER NOT NULL,
+          content TEXT NOT NULL DEFAULT '',
+          wordCount INTEGER NOT NULL DEFAULT 0,
+          createdAt TEXT NOT NULL,
+          UNIQUE (essayId, version)
+        )
+      `);
+      await run(db, 'ALTER TABLE tasks ADD COLUMN essayPromptId INTEGER REFERENCES essay_prompts(id)');
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [17, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 17 complete');
+  }
+  
+  // Migration 18: Test sittings replace the profile's single SAT, IELTS and TOEFL scores
+  if (currentVersion < 18) {
+    console.log('🔄 Running migration 18: Add test attempts...');
+    
+    await inTransaction(db, async () => {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS test_attempts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          applicantId INTEGER NOT NULL REFERENCES applicants(id),
+          test TEXT NOT NULL,
+          date TEXT NOT NULL,
+          total REAL NOT NULL,
+          sections TEXT,
+          notes TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_test_attempts_applicantId ON test_attempts(applicantId)');
+      
+      // Each recorded score becomes one sitting, dated when the profile last changed
+      const now = new Date().toISOString();
+      const scores = await all<{ applicantId: number; satActual: number | null; ieltsScore: number | null; toeflScore: number | null; updatedAt: string }>(db,
+        'SELECT applicantId, satActual, ieltsScore, toeflScore, updatedAt FROM profile');
+      for (const row of scores) {
+        for (const [test, total] of [['sat', row.satActual], ['ielts', row.ieltsScore], ['toefl', row.toeflScore]] as const) {
+          if (!total) continue;
+          await run(db, 'INSERT INTO test_attempts (applicantId, test, date, total, notes, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            [row.applicantId, test, row.updatedAt.split('T')[0], total, 'Moved from the profile score', now, now]);
+        }
+      }
+      for (const column of ['satActual', 'ieltsScore', 'toeflScore']) {
+        await run(db, `ALTER TABLE profile DROP COLUMN ${column}`);
+      }
+      await run(db, "UPDATE tasks SET profileItemType = 'sat' WHERE profileItemType = 'sat_actual'");
+      await run(db, "UPDATE tasks SET profileItemType = 'ielts' WHERE profileItemType = 'ieltsScore'");
+      await run(db, "UPDATE tasks SET profileItemType = 'toefl' WHERE profileItemType = 'toeflScore'");
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [18, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 18 complete');
+  }
+  
+  // Migration 19: Any registered test can be required or targeted, so the fixed
+  // SAT/IELTS/TOEFL columns give way to the requirements JSON and profile targets
+  if (currentVersion < 19) {
+    console.log('🔄 Running migration 19: Generic test requirements...');
+    
+    await inTransaction(db, async () => {
+      await run(db, 'ALTER TABLE test_attempts ADD COLUMN subject TEXT');
+      
+      await run(db, 'ALTER TABLE profile ADD COLUMN scoreTargets TEXT');
+      await run(db, `UPDATE profile SET scoreTargets = json_object('sat', satTarget) WHERE satTarget IS NOT NULL`);
+      await run(db, 'ALTER TABLE profile DROP COLUMN satTarget');
+      
+      // The JSON already mirrors the columns, except on a new database whose seed
+      // universities were only ever given the columns
+      const universities = await all<{ id: number; requirements: string | null; satMin: number | null; satAvg: number | null; ieltsMin: number | null; ieltsAvg: number | null; toeflMin: number | null }>(db,
+        'SELECT id, requirements, satMin, satAvg, ieltsMin, ieltsAvg, toeflMin FROM universities');
+      for (const uni of universities) {
+        const requirements: UniversityRequirements = parseRequirements(uni);
+        if (!requirements.sat && (uni.satMin || uni.satAvg)) {
+          requirements.sat = { required: true, minScore: uni.satMin || undefined, avgScore: uni.satAvg || undefined };
+        }
+        if (!requirements.ielts && (uni.ieltsMin || uni.ieltsAvg)) {
+          requirements.ielts = { required: true, minScore: uni.ieltsMin || undefined, avgScore: uni.ieltsAvg || undefined };
+        }
+        if (!requirements.toefl && uni.toeflMin) {
+          requirements.toefl = { required: true, minScore: uni.toeflMin };
+        }
+        await run(db, 'UPDATE universities SET requirements = ? WHERE id = ?', [JSON.stringify(requirements), uni.id]);
+      }
+      for (const column of ['satMin', 'satAvg', 'ieltsMin', 'ieltsAvg', 'toeflMin']) {
+        await run(db, `ALTER TABLE universities DROP COLUMN ${column}`);
+      }
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [19, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 19 complete');
+  }
+  
+  // Migration 20: GPAs keep their grading scale, and so do university minimums
+  if (currentVersion < 20) {
+    console.log('🔄 Running migration 20: GPA scales...');
+    
+    await inTransaction(db, async () => {
+      await run(db, 'ALTER TABLE profile ADD COLUMN gpa REAL');
+      await run(db, 'ALTER TABLE profile ADD COLUMN gpaScale TEXT');
+      await run(db, 'ALTER TABLE universities ADD COLUMN gpaScale TEXT');
+      await run(db, `UPDATE universities SET gpaScale = ? WHERE gpaMin IS NOT NULL`, [DEFAULT_GPA_SCALE]);
+      
+      await run(db, 'INSERT INTO schema_migrations (version, appliedAt) VALUES (?, ?)', [20, new Date().toISOString()]);
+    });
+    console.log('✅ Migration 20 complete');
+  }
+}
+
+// Requirement types mirrored by flat columns. Transcripts and the application
+// fee have no column and only live in the JSON.
+const REQUIREMENT_COLUMNS: Partial<Record<RequirementType, (keyof University)[]>> = {
+  recommendations: ['recLettersRequired'],
+  essays: ['essaysRequired'],
+  interview: ['interviewRequired'],
+};
+
+const DERIVED_REQUIREMENTS = Object.keys(REQUIREMENT_COLUMNS) as RequirementType[];
+
+// Requirement types backed by any of the given columns
+const requirementTypesFor = (columns: string[]) =>
+  DERIVED_REQUIREMENTS.filter(type => REQUIREMENT_COLUMNS[type]!.some(column => columns.includes(column)));
+
+const parseRequirements = (uni: Pick<University, 'requirements'>): UniversityRequirements =>
+  uni.requirements ? JSON.parse(uni.requirements) : {};
+
+// Build requirement types (all column-backed ones by default) from a university's
+// flat columns; every other key of `existing` is carried over untouched
+function deriveRequirements(uni: Partial<University>, existing: UniversityRequirements = {}, types = DERIVED_REQUIREMENTS): UniversityRequirements {
+  const requirements: UniversityRequirements = { ...existing };
+  for (const key of types) delete requirements[key];
+  
+  if (types.includes('recommendations') && uni.recLettersRequired) {
+    requirements.recommendations = { required: true, count: uni.recLettersRequired };
+  }
+  
+  if (types.includes('essays') && uni.essaysRequired) {
+    requirements.essays = { required: true, count: uni.essaysRequired };
+  }
+  
+  if (types.includes('interview') && uni.interviewRequired) {
+    requirements.interview = { required: true };
+  }
+  
+  return requirements;
+}
+
+// The reverse of deriveRequirements: flat column values for a requirements object
+function flattenRequirements(requirements: UniversityRequirements): Record<string, number | null> {
+  const { recommendations, essays, interview } = requirements;
+  return {
+    recLettersRequired: recommendations?.required ? recommendations.count ?? 1 : null,
+    essaysRequired: essays?.required ? essays.count ?? 1 : null,
+    interviewRequired: interview ? (interview.required ? 1 : 0) : null,
+  };
+}
+
+async function populateUniversityRequirements() {
+  console.log('🔄 Populating requirements for existing universities...');
+  
+  const universities = await all<University>(db, 'SELECT * FROM universities');
+  
+  for (const uni of universities) {
+    const requirements = deriveRequirements(uni);
     
     await run(db, 'UPDATE universities SET requirements = ? WHERE id = ?', [
       JSON.stringify(requirements),
@@ -453,47 +1092,213 @@ export async function initDatabase() {
   console.log('✅ Database initialized');
 }
 
+// Values are stored as text so one column can hold any field's old and new value
+const historyValue = (value: unknown) => value === null || value === undefined || value === '' ? null : String(value);
+
+async function recordCreated(applicantId: number, entityType: HistoryEntity, entityId: number) {
+  await run(db, 'INSERT INTO history (applicantId, entityType, entityId, action, changedAt) VALUES (?, ?, ?, ?, ?)', [
+    applicantId, entityType, entityId, 'created', new Date().toISOString()
+  ]);
+}
+
+// One history row per field in `fields` whose value differs between the two versions
+async function recordChanges(applicantId: number, entityType: HistoryEntity, entityId: number, before: object, after: object, fields: string[]) {
+  const now = new Date().toISOString();
+  for (const field of fields) {
+    const oldValue = historyValue((before as Record<string, unknown>)[field]);
+    const newValue = historyValue((after as Record<string, unknown>)[field]);
+    if (oldValue === newValue) continue;
+    await run(db, `
+      INSERT INTO history (applicantId, entityType, entityId, action, field, oldValue, newValue, changedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [applicantId, entityType, entityId, 'updated', field, oldValue, newValue, now]);
+  }
+}
+
+async function getSchemaVersion(): Promise<number> {
+  const row = await get<{ maxVersion: number }>(db, 'SELECT MAX(version) as maxVersion FROM schema_migrations');
+  return row?.maxVersion || 0;
+}
+
+// Tables included in a backup, parents before children so a restore can insert in order.
+// Vault documents are backed up as metadata only; their files stay where they are.
+const BACKUP_TABLES = ['applicants', 'universities', 'deadlines', 'fees', 'scholarships', 'scholarship_universities', 'documents', 'document_universities', 'recommenders', 'recommender_universities', 'essay_prompts', 'essays', 'essay_versions', 'test_attempts', 'tasks', 'profile', 'history', 'notifications', 'digest_recipients', 'exchange_rates'] as const;
+export const BACKUP_FORMAT = 'uni-tracker-backup';
+
+// Thrown by restore when a backup is malformed or from another schema version
+export class InvalidBackupError extends Error {}
+
+// Backup Service (whole database, every applicant)
+export const BackupService = {
+  async create(): Promise<Backup> {
+    await ensureInit();
+    const tables: Backup['tables'] = {};
+    for (const table of BACKUP_TABLES) {
+      tables[table] = await all<Record<string, unknown>>(db, `SELECT * FROM ${table} ORDER BY id ASC`);
+    }
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: await getSchemaVersion(),
+      createdAt: new Date().toISOString(),
+      tables,
+    };
+  },
+
+  // Replace every row in the backed-up tables with the backup's. The backup must
+  // come from the same schema version; nothing is changed if any check fails.
+  async restore(backup: unknown): Promise<Record<string, number>> {
+    await ensureInit();
+    const data = backup as Partial<Backup> | null;
+    if (typeof data !== 'object' || data === null || data.format !== BACKUP_FORMAT) {
+      throw new InvalidBackupError('Not a uni-tracker backup');
+    }
+    const schemaVersion = await getSchemaVersion();
+    if (data.schemaVersion !== schemaVersion) {
+      throw new InvalidBackupError(`Backup is from schema version ${data.schemaVersion}, but the database is at version ${schemaVersion}`);
+    }
+
+    const columns: Record<string, string[]> = {};
+    for (const table of BACKUP_TABLES) {
+      const rows = data.tables?.[table];
+      if (!Array.isArray(rows) || rows.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+        throw new InvalidBackupError(`"${table}" must be a list of rows`);
+      }
+      columns[table] = (await all<{ name: string }>(db, `PRAGMA table_info(${table})`)).map(c => c.name);
+      const unknown = rows.flatMap(row => Object.keys(row)).find(key => !columns[table].includes(key));
+      if (unknown) throw new InvalidBackupError(`"${table}" has unknown column "${unknown}"`);
+    }
+
+    const counts: Record<string, number> = {};
+    await inTransaction(db, async () => {
+      for (const table of [...BACKUP_TABLES].reverse()) {
+        await run(db, `DELETE FROM ${table}`);
+      }
+      for (const table of BACKUP_TABLES) {
+        const rows = data.tables![table];
+        for (const [index, row] of rows.entries()) {
+          const keys = Object.keys(row);
+          try {
+            await run(db, `INSERT INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`, Object.values(row));
+          } catch (error) {
+            // A row the schema won't take (a missing name, a repeated id) is the backup's fault
+            const code = (error as { code?: string }).code;
+            if (code === 'SQLITE_CONSTRAINT' || code === 'SQLITE_MISMATCH') {
+              throw new InvalidBackupError(`"${table}" row ${index + 1} can't be restored: ${(error as Error).message.replace(/^SQLITE_\w+: /, '')}`);
+            }
+            throw error;
+          }
+        }
+        counts[table] = rows.length;
+      }
+    });
+    return counts;
+  }
+};
+
+// Applicant Service
+export const ApplicantService = {
+  async getAll(): Promise<Applicant[]> {
+    await ensureInit();
+    return all<Applicant>(db, 'SELECT * FROM applicants ORDER BY id ASC');
+  },
+
+  async getById(id: number): Promise<Applicant | undefined> {
+    await ensureInit();
+    return get<Applicant>(db, 'SELECT * FROM applicants WHERE id = ?', [id]);
+  },
+
+  // First applicant is the default when a request doesn't name one
+  async getDefault(): Promise<Applicant> {
+    await ensureInit();
+    const applicant = await get<Applicant>(db, 'SELECT * FROM applicants ORDER BY id ASC LIMIT 1');
+    return applicant || this.create('Primary Applicant');
+  },
+
+  async create(name: string): Promise<Applicant> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    const result = await run(db, 'INSERT INTO applicants (name, createdAt, updatedAt) VALUES (?, ?, ?)', [name, now, now]);
+    await ProfileService.createDefaultProfile(result.lastID);
+    return (await this.getById(result.lastID))!;
+  },
+
+  async update(id: number, name: string): Promise<Applicant | undefined> {
+    await ensureInit();
+    await run(db, 'UPDATE applicants SET name = ?, updatedAt = ? WHERE id = ?', [name, new Date().toISOString(), id]);
+    return this.getById(id);
+  },
+
+  // Removes the applicant together with everything they track. Their vault files
+  // are removed separately (api/documents.ts).
+  async delete(id: number): Promise<boolean> {
+    await ensureInit();
+    // All or nothing, so a failure can't leave the applicant half-deleted
+    return inTransaction(db, async () => {
+      await run(db, 'DELETE FROM tasks WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM deadlines WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM fees WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM scholarship_universities WHERE scholarshipId IN (SELECT id FROM scholarships WHERE applicantId = ?)', [id]);
+      await run(db, 'DELETE FROM scholarships WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM document_universities WHERE documentId IN (SELECT id FROM documents WHERE applicantId = ?)', [id]);
+      await run(db, 'DELETE FROM documents WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM recommender_universities WHERE recommenderId IN (SELECT id FROM recommenders WHERE applicantId = ?)', [id]);
+      await run(db, 'DELETE FROM recommenders WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM essay_versions WHERE essayId IN (SELECT id FROM essays WHERE applicantId = ?)', [id]);
+      await run(db, 'DELETE FROM essays WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM essay_prompts WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM test_attempts WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM universities WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM profile WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM history WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM notifications WHERE applicantId = ?', [id]);
+      await run(db, 'DELETE FROM digest_recipients WHERE applicantId = ?', [id]);
+      const result = await run(db, 'DELETE FROM applicants WHERE id = ?', [id]);
+      return result.changes > 0;
+    });
+  }
+};
+
 // Profile Service
 export const ProfileService = {
-  async getProfile(): Promise<Profile | undefined> {
+  async getProfile(applicantId: number): Promise<Profile | undefined> {
     await ensureInit();
     const row = await get<{
       id: number;
-      satTarget: number | null;
-      satActual: number | null;
-      ieltsScore: number | null;
-      toeflScore: number | null;
+      applicantId: number;
+      scoreTargets: string | null;
+      gpa: number | null;
+      gpaScale: string | null;
       transcriptStatus: string;
-      recommendationsCount: number;
       statementStatus: string;
       feeBudget: number | null;
+      displayCurrency: string | null;
       updatedAt: string;
-    }>(db, 'SELECT * FROM profile ORDER BY id LIMIT 1');
+    }>(db, 'SELECT * FROM profile WHERE applicantId = ? ORDER BY id LIMIT 1', [applicantId]);
     
     if (!row) return undefined;
     
     return {
       id: row.id,
-      satTarget: row.satTarget || undefined,
-      satActual: row.satActual || undefined,
-      ieltsScore: row.ieltsScore || undefined,
-      toeflScore: row.toeflScore || undefined,
+      applicantId: row.applicantId,
+      scoreTargets: row.scoreTargets || undefined,
+      gpa: row.gpa ?? undefined,
+      gpaScale: (row.gpaScale as GpaScale | null) || undefined,
       transcriptStatus: row.transcriptStatus as Profile['transcriptStatus'],
-      recommendationsCount: row.recommendationsCount,
       statementStatus: row.statementStatus as Profile['statementStatus'],
-      feeBudget: row.feeBudget || undefined,
+      feeBudget: row.feeBudget ?? undefined,
+      displayCurrency: row.displayCurrency || undefined,
       updatedAt: row.updatedAt
     };
   },
 
-  async createDefaultProfile(): Promise<Profile> {
+  async createDefaultProfile(applicantId: number): Promise<Profile> {
     await ensureInit();
     const now = new Date().toISOString();
     
     const result = await run(db, `
-      INSERT INTO profile (transcriptStatus, recommendationsCount, statementStatus, updatedAt)
+      INSERT INTO profile (applicantId, transcriptStatus, statementStatus, updatedAt)
       VALUES (?, ?, ?, ?)
-    `, ['missing', 0, 'not_started', now]);
+    `, [applicantId, 'missing', 'not_started', now]);
     
     return this.getProfileById(result.lastID)!;
   },
@@ -502,14 +1307,14 @@ export const ProfileService = {
     await ensureInit();
     const row = await get<{
       id: number;
-      satTarget: number | null;
-      satActual: number | null;
-      ieltsScore: number | null;
-      toeflScore: number | null;
+      applicantId: number;
+      scoreTargets: string | null;
+      gpa: number | null;
+      gpaScale: string | null;
       transcriptStatus: string;
-      recommendationsCount: number;
       statementStatus: string;
       feeBudget: number | null;
+      displayCurrency: string | null;
       updatedAt: string;
     }>(db, 'SELECT * FROM profile WHERE id = ?', [id]);
     
@@ -517,55 +1322,47 @@ export const ProfileService = {
     
     return {
       id: row.id,
-      satTarget: row.satTarget || undefined,
-      satActual: row.satActual || undefined,
-      ieltsScore: row.ieltsScore || undefined,
-      toeflScore: row.toeflScore || undefined,
+      applicantId: row.applicantId,
+      scoreTargets: row.scoreTargets || undefined,
+      gpa: row.gpa ?? undefined,
+      gpaScale: (row.gpaScale as GpaScale | null) || undefined,
       transcriptStatus: row.transcriptStatus as Profile['transcriptStatus'],
-      recommendationsCount: row.recommendationsCount,
       statementStatus: row.statementStatus as Profile['statementStatus'],
-      feeBudget: row.feeBudget || undefined,
+      feeBudget: row.feeBudget ?? undefined,
+      displayCurrency: row.displayCurrency || undefined,
       updatedAt: row.updatedAt
     };
   },
 
-  async updateProfile(updates: Partial<Omit<Profile, 'id' | 'updatedAt'>>): Promise<Profile> {
+  async updateProfile(applicantId: number, updates: Partial<Omit<Profile, 'id' | 'applicantId' | 'updatedAt'>>): Promise<Profile> {
     await ensureInit();
     
     // Get or create profile
-    let profile = await this.getProfile();
+    let profile = await this.getProfile(applicantId);
     if (!profile) {
-      profile = await this.createDefaultProfile();
+      profile = await this.createDefaultProfile(applicantId);
     }
     
     const now = new Date().toISOString();
     const fields: string[] = [];
     const values: any[] = [];
     
-    if ('satTarget' in updates) {
-      fields.push('satTarget = ?');
-      values.push(updates.satTarget ?? null);
-    }
-    if ('satActual' in updates) {
-      fields.push('satActual = ?');
-      values.push(updates.satActual ?? null);
+    if ('scoreTargets' in updates) {
+      fields.push('scoreTargets = ?');
+      values.push(updates.scoreTargets ?? null);
     }
-    if ('ieltsScore' in updates) {
-      fields.push('ieltsScore = ?');
-      values.push(updates.ieltsScore ?? null);
+    if ('gpa' in updates) {
+      fields.push('gpa = ?');
+      values.push(updates.gpa ?? null);
     }
-    if ('toeflScore' in updates) {
-      fields.push('toeflScore = ?');
-      values.push(updates.toeflScore ?? null);
+    if ('gpaScale' in updates) {
+      fields.push('gpaScale = ?');
+      values.push(updates.gpaScale ?? null);
     }
     if ('transcriptStatus' in updates) {
       fields.push('transcriptStatus = ?');
       values.push(updates.transcriptStatus);
     }
-    if ('recommendationsCount' in updates) {
-      fields.push('recommendationsCount = ?');
-      values.push(updates.recommendationsCount);
-    }
     if ('statementStatus' in updates) {
       fields.push('statementStatus = ?');
       values.push(updates.statementStatus);
@@ -574,6 +1371,10 @@ export const ProfileService = {
       fields.push('feeBudget = ?');
       values.push(updates.feeBudget ?? null);
     }
+    if ('displayCurrency' in updates) {
+      fields.push('displayCurrency = ?');
+      values.push(updates.displayCurrency?.toUpperCase() ?? null);
+    }
     
     if (fields.length === 0) return profile;
     
@@ -583,186 +1384,385 @@ export const ProfileService = {
     
     await run(db, `UPDATE profile SET ${fields.join(', ')} WHERE id = ?`, values);
     
-    return this.getProfileById(profile.id)!;
+    const updated = (await this.getProfileById(profile.id))!;
+    await recordChanges(applicantId, 'profile', profile.id, profile, updated, Object.keys(updates));
+    return updated;
   },
 
   // Calculate overall readiness percentage
-  async getReadinessScore(): Promise<{ score: number; total: number; completed: number; items: Array<{name: string; complete: boolean; status: string}> }> {
+  async getReadinessScore(applicantId: number): Promise<Readiness> {
     await ensureInit();
-    const profile = await this.getProfile();
+    const profile = await this.getProfile(applicantId);
     
     if (!profile) {
       return { score: 0, total: 6, completed: 0, items: [] };
     }
     
     const items = [
-      { name: 'SAT Score', complete: !!profile.satActual, status: profile.satActual ? `Score: ${profile.satActual}` : 'Missing' },
-      { name: 'IELTS/TOEFL', complete: !!(profile.ieltsScore || profile.toeflScore), status: profile.ieltsScore ? `IELTS: ${profile.ieltsScore}` : profile.toeflScore ? `TOEFL: ${profile.toeflScore}` : 'Missing' },
+      ...await testReadiness(applicantId),
+      { name: 'GPA', complete: profile.gpa !== undefined, status: profile.gpa !== undefined ? formatGpa(profile.gpa, profile.gpaScale ?? DEFAULT_GPA_SCALE) : 'Missing' },
       { name: 'Transcripts', complete: profile.transcriptStatus === 'received' || profile.transcriptStatus === 'submitted', status: profile.transcriptStatus },
-      { name: 'Recommendations', complete: profile.recommendationsCount > 0, status: `${profile.recommendationsCount} received` },
-      { name: 'Personal Statement', complete: profile.statementStatus === 'complete', status: profile.statementStatus },
-      { name: 'Application Fee', complete: !!profile.feeBudget, status: profile.feeBudget ? `Budget: $${profile.feeBudget}` : 'No budget set' }
+      await letterReadiness(applicantId),
+      await essayReadiness(applicantId, profile),
+      await feeReadiness(applicantId)
     ];
     
     const completed = items.filter(i => i.complete).length;
     const score = Math.round((completed / items.length) * 100);
     
     return { score, total: items.length, completed, items };
+  },
+
+  // The applicant's GPA against a university's minimum, on the university's scale
+  async getUniversityGpa(applicantId: number, universityId: number): Promise<UniversityGpa | undefined> {
+    await ensureInit();
+    const university = await UniversityService.getById(applicantId, universityId);
+    if (!university) return undefined;
+    const profile = await this.getProfile(applicantId);
+    return compareGpa(profile?.gpa, profile?.gpaScale, university.gpaMin ?? undefined, university.gpaScale ?? undefined);
   }
 };
 
+// Replaces the GPA suggestions at each of these universities; only those with a
+// minimum get new ones
+async function refreshGpaTasks(applicantId: number, universities: University[]): Promise<Task[]> {
+  const tasks: Task[] = [];
+  for (const university of universities) {
+    await run(db, `DELETE FROM tasks WHERE universityId = ? AND profileItemType = 'gpa' AND status IN ('suggested', 'snoozed')`, [university.id]);
+    if (!university.gpaMin) continue;
+    try {
+      tasks.push(...await TaskGenerator.generateTasksForUniversity(applicantId, university.id));
+    } catch (e) {
+      console.log('Failed to generate GPA tasks:', e);
+    }
+  }
+  return tasks;
+}
+
 // Task Generation Logic
 export const TaskGenerator = {
   // Generate tasks based on university requirements vs profile completeness
-  async generateTasksForUniversity(universityId: number): Promise<Task[]> {
+  async generateTasksForUniversity(applicantId: number, universityId: number): Promise<Task[]> {
     await ensureInit();
     
-    const university = await UniversityService.getById(universityId);
+    const university = await UniversityService.getById(applicantId, universityId);
     if (!university) throw new Error('University not found');
     
-    const profile = await ProfileService.getProfile() || await ProfileService.createDefaultProfile();
-    const requirements: UniversityRequirements = university.requirements ? JSON.parse(university.requirements) : {};
+    const profile = await ProfileService.getProfile(applicantId) || await ProfileService.createDefaultProfile(applicantId);
+    const requirements = parseRequirements(university);
     
     const tasks: Task[] = [];
-    const now = new Date().toISOString();
     
-    // Calculate due date (30 days before deadline if available, otherwise 30 days from now)
-    let dueDate: string | undefined;
-    if (university.deadlineEarly || university.deadlineRegular) {
-      const deadline = new Date(university.deadlineEarly || university.deadlineRegular!);
-      deadline.setDate(deadline.getDate() - 30);
-      dueDate = deadline.toISOString().split('T')[0];
-    }
+    // A title that already exists for this university (even dismissed) was suggested before
+    const existingTitles = new Set((await TaskService.getByUniversity(university.id)).map(t => t.title));
+    const suggest = async (task: Omit<Task, 'id' | 'applicantId' | 'createdAt' | 'status'>) => {
+      if (existingTitles.has(task.title)) return;
+      tasks.push(await TaskService.create(applicantId, { ...task, status: 'suggested' }));
+    };
     
-    // Check SAT requirement
-    if (requirements.sat?.required && !profile.satActual) {
-      const task = await TaskService.create({
-        universityId: university.id,
-        title: `Take SAT for ${university.name}`,
-        description: `${university.name} requires SAT${requirements.sat.avgScore ? ` (avg: ${requirements.sat.avgScore})` : ''}${requirements.sat.minScore ? ` (min: ${requirements.sat.minScore})` : ''}. Schedule and take the test.`,
-        dueDate,
-        status: 'suggested',
-        priority: 'high',
-        profileItemType: 'sat_actual'
-      });
-      tasks.push(task);
-    } else if (requirements.sat?.required && profile.satActual && requirements.sat.minScore && profile.satActual < requirements.sat.minScore) {
-      const task = await TaskService.create({
-        universityId: university.id,
-        title: `Retake SAT for ${university.name}`,
-        description: `Your score (${profile.satActual}) is below the minimum required (${requirements.sat.minScore}) for ${university.name}. Consider retaking.`,
-        dueDate,
-        status: 'suggested',
-        priority: 'high',
-        profileItemType: 'sat_actual'
-      });
-      tasks.push(task);
+    // Due 30 days before the next application deadline, if there is one
+    let dueDate: string | undefined;
+    const nextDeadline = await DeadlineService.nextApplicationDeadline(universityId);
+    if (nextDeadline) {
+      const date = new Date(nextDeadline.dueAt!);
+      date.setUTCDate(date.getUTCDate() - 30);
+      dueDate = date.toISOString().split('T')[0];
     }
     
-    // Check IELTS/TOEFL requirement
-    if ((requirements.ielts?.required || requirements.toefl?.required) && !(profile.ieltsScore || profile.toeflScore)) {
-      const task = await TaskService.create({
-        universityId: university.id,
-        title: `Take English Proficiency Test for ${university.name}`,
-        description: `${university.name} requires ${requirements.ielts?.required ? 'IELTS' : 'TOEFL'}${requirements.ielts?.minScore ? ` (min: ${requirements.ielts.minScore})` : requirements.toefl?.minScore ? ` (min: ${requirements.toefl.minScore})` : ''}.`,
-        dueDate,
-        status: 'suggested',
-        priority: 'high',
-        profileItemType: profile.ieltsScore ? 'ieltsScore' : 'toeflScore'
-      });
-      tasks.push(task);
+    // Check each required test against the score the university's policy makes of the sittings
+    const scores = await TestAttemptService.getUniversityScores(applicantId, university.id) ?? [];
+    for (const score of scores.filter(s => TESTS[s.test].category !== 'english')) {
+      const { label, category } = TESTS[score.test];
+      const minimum = score.minScore !== undefined ? formatScore(score.test, score.minScore) : undefined;
+      const subjects = `${score.count} ${label} subject${score.count !== 1 ? 's' : ''}`;
+      if (score.score === undefined) {
+        await suggest({
+          universityId: university.id,
+          title: `Take ${label} for ${university.name}`,
+          description: category === 'subject'
+            ? `${university.name} requires ${subjects}${minimum ? ` at ${minimum} or above` : ''}. Plan which exams to sit.`
+            : `${university.name} requires ${label}${score.avgScore ? ` (avg: ${formatScore(score.test, score.avgScore)})` : ''}${minimum ? ` (min: ${minimum})` : ''}. Schedule and take the test.`,
+          dueDate,
+          priority: 'high',
+          profileItemType: score.test
+        });
+      } else if (score.minScore !== undefined && score.score < score.minScore) {
+        await suggest({
+          universityId: university.id,
+          title: `Retake ${label} for ${university.name}`,
+          description: category === 'subject'
+            ? `${university.name} requires ${subjects} at ${minimum} or above, but your grades only reach ${formatScore(score.test, score.score)}. Consider retaking.`
+            : `Your ${POLICY_SCORE_NAMES[score.policy]} (${formatScore(score.test, score.score)}) is below the minimum required (${minimum}) for ${university.name}. Consider retaking.`,
+          dueDate,
+          priority: 'high',
+          profileItemType: score.test
+        });
+      }
+    }
+    
+    // English tests are alternatives: a sitting of any one the university lists will do
+    const englishScores = scores.filter(s => TESTS[s.test].category === 'english');
+    if (englishScores.length > 0) {
+      const accepted = englishScores.map(s => `${TESTS[s.test].label}${s.minScore !== undefined ? ` (min: ${formatScore(s.test, s.minScore)})` : ''}`).join(' or ');
+      if (englishScores.every(s => s.score === undefined)) {
+        await suggest({
+          universityId: university.id,
+          title: `Take English Proficiency Test for ${university.name}`,
+          description: `${university.name} requires ${accepted}.`,
+          dueDate,
+          priority: 'high',
+          profileItemType: englishScores[0].test
+        });
+      } else if (!englishScores.some(s => s.score !== undefined && (s.minScore === undefined || s.score >= s.minScore))) {
+        await suggest({
+          universityId: university.id,
+          title: `Retake English Proficiency Test for ${university.name}`,
+          description: `Your English test scores are below what ${university.name} requires: ${accepted}. Consider retaking one.`,
+          dueDate,
+          priority: 'high',
+          profileItemType: englishScores[0].test
+        });
+      }
+    }
+    
+    // Check the GPA minimum, with the applicant's GPA converted to the university's scale
+    if (university.gpaMin) {
+      const gpa = compareGpa(profile.gpa, profile.gpaScale, university.gpaMin, university.gpaScale ?? undefined);
+      const minimum = formatGpa(university.gpaMin, gpa.scale);
+      if (gpa.gpa === undefined) {
+        await suggest({
+          universityId: university.id,
+          title: `Add your GPA to compare with ${university.name}`,
+          description: `${university.name} asks for a GPA of at least ${minimum}. Add your GPA and its grading scale to your profile.`,
+          dueDate,
+          priority: 'medium',
+          profileItemType: 'gpa'
+        });
+      } else if (!gpa.meets) {
+        const yours = gpa.gpaScale === gpa.scale
+          ? formatGpa(gpa.gpa, gpa.scale)
+          : `${formatGpa(gpa.gpa, gpa.gpaScale!)} (about ${formatGpa(gpa.converted!, gpa.scale)})`;
+        await suggest({
+          universityId: university.id,
+          title: `Make up for a GPA below ${university.name}'s minimum`,
+          description: `Your GPA of ${yours} is below the ${minimum} ${university.name} asks for. Check whether it considers predicted or improved grades, and let test scores and essays carry more weight.`,
+          dueDate,
+          priority: 'high',
+          profileItemType: 'gpa'
+        });
+      }
     }
     
     // Check Transcripts requirement
     if (requirements.transcripts?.required && profile.transcriptStatus === 'missing') {
-      const task = await TaskService.create({
+      await suggest({
         universityId: university.id,
         title: `Request transcripts for ${university.name}`,
         description: `${university.name} requires transcripts. Contact your school to request official transcripts.`,
         dueDate,
-        status: 'suggested',
         priority: 'high',
         profileItemType: 'transcriptStatus'
       });
-      tasks.push(task);
     }
     
-    // Check Recommendations requirement
+    // Check Recommendations requirement against the letters going to this university
     if (requirements.recommendations?.required) {
       const requiredCount = requirements.recommendations.count || 1;
-      if (profile.recommendationsCount < requiredCount) {
-        const task = await TaskService.create({
+      const letters = await RecommenderService.getLetters(applicantId, university.id);
+      if (letters.length < requiredCount) {
+        await suggest({
           universityId: university.id,
           title: `Request recommendation letters for ${university.name}`,
-          description: `${university.name} requires ${requiredCount} recommendation letter(s). You currently have ${profile.recommendationsCount}. Contact teachers or mentors.`,
+          description: `${university.name} requires ${requiredCount} recommendation letter(s). ${letters.length} recommender(s) are writing for it so far. Contact teachers or mentors.`,
           dueDate,
-          status: 'suggested',
           priority: 'high',
-          profileItemType: 'recommendationsCount'
+          profileItemType: 'recommenders'
         });
-        tasks.push(task);
+      }
+      for (const letter of letters) {
+        if (letter.status === 'asked') {
+          await suggest({
+            universityId: university.id,
+            recommenderId: letter.recommenderId,
+            title: `Follow up with ${letter.recommenderName} about ${university.name}`,
+            description: `You asked ${letter.recommenderName} for a letter to ${university.name} and haven't heard back yet.`,
+            dueDate,
+            priority: 'medium',
+          });
+        } else if (letter.status === 'agreed') {
+          await suggest({
+            universityId: university.id,
+            recommenderId: letter.recommenderId,
+            title: `Send ${university.name}'s submission details to ${letter.recommenderName}`,
+            description: `${letter.recommenderName} agreed to write for ${university.name}. Make sure they have the portal link and the deadline, then mark the letter submitted.`,
+            dueDate,
+            priority: 'medium',
+          });
+        }
       }
     }
     
-    // Check Essays requirement
-    if (requirements.essays?.required && profile.statementStatus === 'not_started') {
-      const task = await TaskService.create({
-        universityId: university.id,
-        title: `Write essays for ${university.name}`,
-        description: `${university.name} requires ${requirements.essays.count || 1} essay(s). Start drafting your personal statement and supplemental essays.`,
-        dueDate,
-        status: 'suggested',
-        priority: 'medium',
-        profileItemType: 'statementStatus'
-      });
-      tasks.push(task);
+    // Check Essays requirement against the prompts recorded for this university and their drafts
+    if (requirements.essays?.required) {
+      const requiredCount = requirements.essays.count || 1;
+      const prompts = await EssayService.getPrompts(applicantId, university.id);
+      const essays = await EssayService.getAll(applicantId, { universityId: university.id });
+      if (prompts.length < requiredCount) {
+        await suggest({
+          universityId: university.id,
+          title: `Add the essay prompts for ${university.name}`,
+          description: `${university.name} requires ${requiredCount} essay(s) and ${prompts.length} prompt(s) are recorded. Add each question with its word limit to start drafting.`,
+          dueDate,
+          priority: 'medium',
+          profileItemType: 'essays'
+        });
+      }
+      // Unstarted prompts point at a draft for a similar question elsewhere
+      const reuse = prompts.some(p => !essays.some(e => e.promptId === p.id))
+        ? (await EssayService.getLibrary(applicantId)).reuse
+        : [];
+      for (const prompt of prompts) {
+        const drafts = essays.filter(e => e.promptId === prompt.id);
+        const overLimit = prompt.wordLimit ? drafts.find(e => e.wordCount > prompt.wordLimit!) : undefined;
+        if (drafts.length === 0) {
+          const reusable = reuse.find(r => r.promptId === prompt.id);
+          const source = reusable && await EssayService.getById(applicantId, reusable.essayId);
+          const sourcePrompt = source && await EssayService.getPrompt(applicantId, source.promptId);
+          const sourceUniversity = source && await UniversityService.getById(applicantId, source.universityId);
+          await suggest({
+            universityId: university.id,
+            essayPromptId: prompt.id,
+            title: `Start the "${promptLabel(prompt)}" essay for ${university.name}`,
+            description: `${prompt.prompt}${prompt.wordLimit ? ` (${prompt.wordLimit} words max)` : ''}` +
+              (sourcePrompt && sourceUniversity ? ` Your "${promptLabel(sourcePrompt)}" draft for ${sourceUniversity.name} answers a similar question and could be adapted.` : ''),
+            dueDate,
+            priority: 'medium',
+          });
+        } else if (overLimit && !drafts.some(e => e.status === 'final')) {
+          await suggest({
+            universityId: university.id,
+            essayPromptId: prompt.id,
+            title: `Cut the "${promptLabel(prompt)}" essay for ${university.name} to ${prompt.wordLimit} words`,
+            description: `The current draft is ${overLimit.wordCount} words, over ${university.name}'s limit of ${prompt.wordLimit}.`,
+            dueDate,
+            priority: 'medium',
+          });
+        }
+      }
     }
     
     // Check Interview requirement
     if (requirements.interview?.required) {
-      const task = await TaskService.create({
+      await suggest({
         universityId: university.id,
         title: `Prepare for interview at ${university.name}`,
         description: `${university.name} requires an interview. Research common questions and practice your responses.`,
         dueDate,
-        status: 'suggested',
         priority: 'medium',
-        profileItemType: undefined
+        profileItemType: 'interview'
+      });
+    }
+    
+    return tasks;
+  },
+
+  // Generate tasks for a scholarship application: its documents and the application
+  // itself while it's open, and keeping a renewable award once it's won
+  async generateTasksForScholarship(applicantId: number, scholarshipId: number): Promise<Task[]> {
+    await ensureInit();
+    
+    const scholarship = await ScholarshipService.getById(applicantId, scholarshipId);
+    if (!scholarship) throw new Error('Scholarship not found');
+    
+    const tasks: Task[] = [];
+    
+    // A title that already exists for this scholarship (even dismissed) was suggested before
+    const existingTitles = new Set((await TaskService.getByScholarship(scholarship.id)).map(t => t.title));
+    // Tasks show under the university too when the scholarship is only for one
+    const universityId = scholarship.universityIds.length === 1 ? scholarship.universityIds[0] : undefined;
+    const suggest = async (task: Omit<Task, 'id' | 'applicantId' | 'createdAt' | 'status' | 'scholarshipId' | 'universityId'>) => {
+      if (existingTitles.has(task.title)) return;
+      tasks.push(await TaskService.create(applicantId, { ...task, universityId, scholarshipId: scholarship.id, status: 'suggested' }));
+    };
+    
+    // Documents are due two weeks before the scholarship deadline, the application a week before
+    const daysBefore = (days: number) => {
+      if (!scholarship.deadline) return undefined;
+      const date = new Date(`${scholarship.deadline}T00:00:00Z`);
+      date.setUTCDate(date.getUTCDate() - days);
+      return date.toISOString().split('T')[0];
+    };
+    const open = scholarship.status === 'researching' || scholarship.status === 'applied';
+    
+    if (scholarship.status === 'researching' && scholarship.eligibility) {
+      await suggest({
+        title: `Check eligibility for ${scholarship.name}`,
+        description: `Eligibility: ${scholarship.eligibility}`,
+        dueDate: daysBefore(30),
+        priority: 'medium',
+      });
+    }
+    
+    if (open) {
+      for (const document of scholarship.requiredDocuments) {
+        await suggest({
+          title: `Prepare ${document} for ${scholarship.name}`,
+          description: `${scholarship.name}${scholarship.provider ? ` (${scholarship.provider})` : ''} asks for ${document}.`,
+          dueDate: daysBefore(14),
+          priority: 'high',
+        });
+      }
+    }
+    
+    if (scholarship.status === 'researching') {
+      await suggest({
+        title: `Apply for ${scholarship.name}`,
+        description: `Submit the ${scholarship.name} application${scholarship.deadline ? ` before the ${scholarship.deadline} deadline` : ''}.`,
+        dueDate: daysBefore(7),
+        priority: 'high',
+      });
+    }
+    
+    if (scholarship.status === 'awarded' && scholarship.renewable) {
+      await suggest({
+        title: `Check renewal conditions for ${scholarship.name}`,
+        description: `${scholarship.name} renews each year. Note the grades or paperwork needed to keep it.`,
+        priority: 'low',
       });
-      tasks.push(task);
     }
     
     return tasks;
   },
 
   // Generate tasks when profile is updated
-  async generateTasksForProfileUpdate(updatedFields: (keyof Profile)[]): Promise<Task[]> {
+  async generateTasksForProfileUpdate(applicantId: number, updatedFields: (keyof Profile)[]): Promise<Task[]> {
     await ensureInit();
     
-    const profile = await ProfileService.getProfile();
+    const profile = await ProfileService.getProfile(applicantId);
     if (!profile) return [];
     
-    const universities = await UniversityService.getAll();
+    const universities = await UniversityService.getAll(applicantId);
     const tasks: Task[] = [];
     
+    // A new GPA replaces earlier suggestions about it rather than waiting on them
+    if (updatedFields.includes('gpa') || updatedFields.includes('gpaScale')) {
+      tasks.push(...await refreshGpaTasks(applicantId, universities));
+    }
+    
     for (const university of universities) {
-      const requirements: UniversityRequirements = university.requirements ? JSON.parse(university.requirements) : {};
+      const requirements = parseRequirements(university);
       let shouldGenerate = false;
       
       // Check if any updated field is related to requirements
-      if (updatedFields.includes('satActual') && requirements.sat?.required) shouldGenerate = true;
-      if ((updatedFields.includes('ieltsScore') || updatedFields.includes('toeflScore')) && (requirements.ielts?.required || requirements.toefl?.required)) shouldGenerate = true;
       if (updatedFields.includes('transcriptStatus') && requirements.transcripts?.required) shouldGenerate = true;
-      if (updatedFields.includes('recommendationsCount') && requirements.recommendations?.required) shouldGenerate = true;
-      if (updatedFields.includes('statementStatus') && requirements.essays?.required) shouldGenerate = true;
       
       if (shouldGenerate) {
-        // Check for existing suggested tasks for this university
+        // Leave universities alone while earlier suggestions are still undecided
         const existingTasks = await TaskService.getByUniversity(university.id);
-        const hasSuggestedTasks = existingTasks.some(t => t.status === 'suggested');
+        const hasSuggestedTasks = existingTasks.some(t => t.status === 'suggested' || t.status === 'snoozed');
         
         if (!hasSuggestedTasks) {
-          const newTasks = await this.generateTasksForUniversity(university.id);
+          const newTasks = await this.generateTasksForUniversity(applicantId, university.id);
           tasks.push(...newTasks);
         }
       }
@@ -773,72 +1773,117 @@ export const TaskGenerator = {
 };
 
 export const UniversityService = {
-  async getAll(): Promise<University[]> {
+  async getAll(applicantId: number): Promise<University[]> {
     await ensureInit();
-    return all<University>(db, 'SELECT * FROM universities ORDER BY ranking ASC, name ASC');
+    return all<University>(db, 'SELECT * FROM universities WHERE applicantId = ? ORDER BY ranking ASC, name ASC', [applicantId]);
   },
 
-  async getById(id: number): Promise<University | undefined> {
+  async getById(applicantId: number, id: number): Promise<University | undefined> {
     await ensureInit();
-    return get<University>(db, 'SELECT * FROM universities WHERE id = ?', [id]);
+    return get<University>(db, 'SELECT * FROM universities WHERE id = ? AND applicantId = ?', [id, applicantId]);
   },
 
-  async getByStatus(status: string): Promise<University[]> {
+  // Filtered, sorted, paginated list for GET /api/universities
+  async query(applicantId: number, filters: UniversityQuery): Promise<Page<University>> {
     await ensureInit();
-    return all<University>(db, 'SELECT * FROM universities WHERE status = ? ORDER BY ranking ASC', [status]);
-  },
+    const where = ['applicantId = ?'];
+    const params: any[] = [applicantId];
+    const deadline = FIRST_DEADLINE;
 
-  async create(university: Omit<University, 'id' | 'createdAt' | 'updatedAt'>): Promise<University> {
-    await ensureInit();
-    const now = new Date().toISOString();
-    
-    // Build requirements JSON from individual fields if provided
-    const requirements: UniversityRequirements = {};
-    if (university.satMin || university.satAvg) {
-      requirements.sat = { required: true, minScore: university.satMin, avgScore: university.satAvg };
-    }
-    if (university.ieltsMin || university.ieltsAvg) {
-      requirements.ielts = { required: true, minScore: university.ieltsMin || university.ieltsAvg };
-    }
-    if (university.toeflMin) {
-      requirements.toefl = { required: true, minScore: university.toeflMin };
+    for (const field of ['status', 'priority', 'country'] as const) {
+      const values = filters[field];
+      if (values?.length) {
+        where.push(`${field} IN (${values.map(() => '?').join(', ')})`);
+        params.push(...values);
+      }
     }
-    if (university.recLettersRequired) {
-      requirements.recommendations = { required: true, count: university.recLettersRequired };
+    if (filters.q) {
+      where.push(`(${['name', 'country', 'program', 'major', 'notes'].map(c => `${c} LIKE ? ESCAPE '\\'`).join(' OR ')})`);
+      params.push(...Array(5).fill(likePattern(filters.q)));
     }
-    if (university.essaysRequired) {
-      requirements.essays = { required: true, count: university.essaysRequired };
+    if (filters.deadlineFrom) {
+      where.push(`${deadline} >= ?`);
+      params.push(filters.deadlineFrom);
     }
-    if (university.interviewRequired) {
-      requirements.interview = { required: true };
+    if (filters.deadlineTo) {
+      where.push(`${deadline} <= ?`);
+      params.push(filters.deadlineTo);
     }
+
+    const sort = filters.sort || 'ranking';
+    const { key, desc } = parseSort(sort);
+    const sortColumns: Record<string, SortColumn[]> = {
+      ranking: [{ expr: 'ranking', desc }, { expr: 'name COLLATE NOCASE' }],
+      name: [{ expr: 'name COLLATE NOCASE', desc }],
+      country: [{ expr: 'country COLLATE NOCASE', desc }, { expr: 'name COLLATE NOCASE' }],
+      deadline: [{ expr: deadline, desc }, { expr: 'name COLLATE NOCASE' }],
+      tuition: [{ expr: TUITION_IN_DOLLARS, desc }, { expr: 'name COLLATE NOCASE' }],
+      priority: [{ expr: PRIORITY_RANK, desc }, { expr: 'ranking' }],
+      // Pipeline order rather than alphabetical
+      status: [{ expr: "CASE status WHEN 'researching' THEN 0 WHEN 'planning' THEN 1 WHEN 'applied' THEN 2 WHEN 'waitlisted' THEN 3 WHEN 'accepted' THEN 4 ELSE 5 END", desc }, { expr: 'ranking' }],
+      createdAt: [{ expr: 'createdAt', desc }],
+      updatedAt: [{ expr: 'updatedAt', desc }],
+    };
+
+    return queryPage<University>({
+      select: '*',
+      from: 'universities',
+      where,
+      params,
+      sort,
+      columns: sortColumns[key],
+      limit: filters.limit,
+      cursor: filters.cursor,
+    });
+  },
+
+  async getByStatus(applicantId: number, status: string): Promise<University[]> {
+    await ensureInit();
+    return all<University>(db, 'SELECT * FROM universities WHERE applicantId = ? AND status = ? ORDER BY ranking ASC', [applicantId, status]);
+  },
+
+  async create(applicantId: number, university: Omit<University, 'id' | 'applicantId' | 'createdAt' | 'updatedAt'>): Promise<University> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    
+    // Column-backed requirements come from the individual fields; transcripts are
+    // assumed required unless the JSON passed in says otherwise
+    const requirements = deriveRequirements(university, { transcripts: { required: true }, ...parseRequirements(university) });
     
     const result = await run(db, `
       INSERT INTO universities (
-        name, country, program, major, ranking, deadlineEarly, deadlineRegular, deadlineTransfer,
-        satMin, satAvg, ieltsMin, ieltsAvg, toeflMin, gpaMin,
+        applicantId, name, country, program, major, ranking, rankingAI, rankingCS, rankingDataAnalytics,
+        deadlineEarly, deadlineRegular, deadlineTransfer, gpaMin, gpaScale,
         applicationPortal, applicationUrl, essaysRequired, recLettersRequired, interviewRequired,
+        tuitionAmount, currency,
         status, priority, notes, applicationSubmitted, decisionReceived, decisionResult,
         requirements, createdAt, updatedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
-      university.name, university.country, university.program, university.major,
-      university.ranking || null, university.deadlineEarly || null, university.deadlineRegular || null, 
-      university.deadlineTransfer || null, university.satMin || null, university.satAvg || null,
-      university.ieltsMin || null, university.ieltsAvg || null, university.toeflMin || null, 
-      university.gpaMin || null, university.applicationPortal || null, university.applicationUrl || null,
+      applicantId, university.name, university.country, university.program, university.major,
+      university.ranking || null, university.rankingAI || null, university.rankingCS || null,
+      university.rankingDataAnalytics || null, university.deadlineEarly || null, university.deadlineRegular || null, 
+      university.deadlineTransfer || null, university.gpaMin || null,
+      university.gpaMin ? university.gpaScale || DEFAULT_GPA_SCALE : null,
+      university.applicationPortal || null, university.applicationUrl || null,
       university.essaysRequired || null, university.recLettersRequired || null, 
-      university.interviewRequired || null, university.status, university.priority,
+      university.interviewRequired || null, university.tuitionAmount || null, university.currency || null,
+      university.status, university.priority,
       university.notes || null, university.applicationSubmitted || null, 
       university.decisionReceived || null, university.decisionResult || null, 
       JSON.stringify(requirements), now, now
     ]);
     
-    const newUni = await this.getById(result.lastID)!;
+    await recordCreated(applicantId, 'university', result.lastID);
+    for (const [column, type] of Object.entries(DEADLINE_COLUMNS)) {
+      const date = university[column as keyof typeof university];
+      if (date) await DeadlineService.create(applicantId, { universityId: result.lastID, type, date: date as string });
+    }
+    const newUni = (await this.getById(applicantId, result.lastID))!;
     
     // Auto-generate tasks for the new university
     try {
-      await TaskGenerator.generateTasksForUniversity(result.lastID);
+      await TaskGenerator.generateTasksForUniversity(applicantId, result.lastID);
     } catch (e) {
       console.log('Failed to generate tasks for new university:', e);
     }
@@ -846,40 +1891,162 @@ export const UniversityService = {
     return newUni;
   },
 
-  async update(id: number, updates: Partial<University>): Promise<University | undefined> {
+  async update(applicantId: number, id: number, updates: Partial<University>): Promise<University | undefined> {
     await ensureInit();
-    const now = new Date().toISOString();
-    const fields: string[] = [];
-    const values: any[] = [];
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
     
-    for (const [key, value] of Object.entries(updates)) {
-      if (key !== 'id' && key !== 'createdAt') {
-        fields.push(`${key} = ?`);
-        values.push(value);
+    const changes = updatedColumns(updates, universityFields);
+    
+    // Flat requirement columns and the requirements JSON move together: a new JSON
+    // overwrites the columns, otherwise edited columns are folded into the JSON
+    if ('requirements' in changes) {
+      const requirements: UniversityRequirements = changes.requirements ? JSON.parse(changes.requirements as string) : {};
+      changes.requirements = JSON.stringify(requirements);
+      Object.assign(changes, flattenRequirements(requirements));
+    } else {
+      const types = requirementTypesFor(Object.keys(changes));
+      if (types.length > 0) {
+        changes.requirements = JSON.stringify(deriveRequirements({ ...current, ...changes }, parseRequirements(current), types));
       }
     }
     
-    if (fields.length === 0) return this.getById(id);
+    // A first minimum without a scale is on the 4.0 scale, as on create
+    if (changes.gpaMin && !changes.gpaScale && !current.gpaScale) changes.gpaScale = DEFAULT_GPA_SCALE;
+    
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0) return current;
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE universities SET ${fields.join(', ')}, updatedAt = ? WHERE id = ? AND applicantId = ?`, values);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'university', id, current, updated, Object.keys(changes));
+    
+    for (const [column, type] of Object.entries(DEADLINE_COLUMNS)) {
+      if (column in changes) await DeadlineService.replaceLegacy(applicantId, id, type, changes[column] as string | null);
+    }
+    
+    // A changed GPA minimum replaces the suggestions about it
+    if (updated.gpaMin !== current.gpaMin || updated.gpaScale !== current.gpaScale) {
+      await refreshGpaTasks(applicantId, [updated]);
+    }
+    
+    // New or stricter requirements may call for new tasks
+    if (updated.requirements !== current.requirements) {
+      try {
+        await TaskGenerator.generateTasksForUniversity(applicantId, id);
+      } catch (e) {
+        console.log('Failed to generate tasks for updated requirements:', e);
+      }
+    }
+    return updated;
+  },
 
-    values.push(now, id);
-    await run(db, `UPDATE universities SET ${fields.join(', ')}, updatedAt = ? WHERE id = ?`, values);
-    return this.getById(id);
+  async getRequirements(applicantId: number, id: number): Promise<UniversityRequirements | undefined> {
+    const university = await this.getById(applicantId, id);
+    return university && parseRequirements(university);
   },
 
-  async delete(id: number): Promise<boolean> {
+  // Replace the requirements JSON (flat columns follow) and report the tasks it generated
+  async saveRequirements(applicantId: number, id: number, requirements: UniversityRequirements): Promise<RequirementsUpdate | undefined> {
     await ensureInit();
-    const result = await run(db, 'DELETE FROM universities WHERE id = ?', [id]);
-    return result.changes > 0;
+    const before = new Set((await TaskService.getByUniversity(id)).map(t => t.id));
+    const updated = await this.update(applicantId, id, { requirements: JSON.stringify(requirements) });
+    if (!updated) return undefined;
+    const tasks = (await TaskService.getByUniversity(id)).filter(t => !before.has(t.id));
+    return { requirements: parseRequirements(updated), tasksCreated: tasks.length, tasks };
+  },
+
+  // Check a CSV against the current list without writing anything
+  async previewImport(applicantId: number, csv: string): Promise<ImportPreview> {
+    await ensureInit();
+    return planUniversityImport(csv, await this.getAll(applicantId));
+  },
+
+  // Create new rows and update matched ones; invalid rows are skipped. Every
+  // row goes through the same requirements derivation and task generation as create.
+  async importCsv(applicantId: number, csv: string): Promise<ImportResult> {
+    await ensureInit();
+    const existing = await this.getAll(applicantId);
+    const plan = planUniversityImport(csv, existing);
+    const countTasks = async () => (await get<{ count: number }>(db, 'SELECT COUNT(*) as count FROM tasks WHERE applicantId = ?', [applicantId]))?.count || 0;
+    const tasksBefore = await countTasks();
+    const result: ImportResult = { created: 0, updated: 0, skipped: 0, tasksCreated: 0 };
+
+    // Test columns are merged into the requirements each university has by then
+    const applyTests = async (university: University, tests?: UniversityRequirements) => {
+      if (!tests) return;
+      const requirements = parseRequirements(university);
+      for (const [test, settings] of Object.entries(tests) as [TestType, TestRequirement][]) {
+        requirements[test] = { ...requirements[test], ...settings };
+      }
+      await this.update(applicantId, university.id, { requirements: JSON.stringify(requirements) });
+    };
+
+    for (const row of plan.rows) {
+      if (row.action === 'create') {
+        const created = await this.create(applicantId, row.values as Omit<University, 'id' | 'applicantId' | 'createdAt' | 'updatedAt'>);
+        await applyTests(created, row.testRequirements);
+        result.created++;
+      } else if (row.action === 'update') {
+        const current = existing.find(u => u.id === row.universityId)!;
+        const updated = await this.update(applicantId, current.id, row.values);
+        await applyTests(updated!, row.testRequirements);
+        try {
+          await TaskGenerator.generateTasksForUniversity(applicantId, current.id);
+        } catch (e) {
+          console.log('Failed to generate tasks for imported university:', e);
+        }
+        result.updated++;
+      } else {
+        result.skipped++;
+      }
+    }
+
+    result.tasksCreated = (await countTasks()) - tasksBefore;
+    return result;
+  },
+
+  // Removes the university together with its tasks, deadlines, fees, essays and the
+  // history of all of them, in one transaction
+  async delete(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    return inTransaction(db, async () => {
+      const result = await run(db, 'DELETE FROM universities WHERE id = ? AND applicantId = ?', [id, applicantId]);
+      if (result.changes === 0) return false;
+      // Before the rows it refers to, which are how it's matched
+      await run(db, `
+        DELETE FROM history WHERE applicantId = ? AND (
+          (entityType = 'university' AND entityId = ?) OR
+          (entityType = 'task' AND entityId IN (SELECT id FROM tasks WHERE universityId = ?)) OR
+          (entityType = 'deadline' AND entityId IN (SELECT id FROM deadlines WHERE universityId = ?)) OR
+          (entityType = 'fee' AND entityId IN (SELECT id FROM fees WHERE universityId = ?)) OR
+          (entityType = 'essay_prompt' AND entityId IN (SELECT id FROM essay_prompts WHERE universityId = ?)) OR
+          (entityType = 'essay' AND entityId IN (SELECT e.id FROM essays e JOIN essay_prompts p ON p.id = e.promptId WHERE p.universityId = ?))
+        )
+      `, [applicantId, id, id, id, id, id, id]);
+      await run(db, 'DELETE FROM notifications WHERE universityId = ?', [id]);
+      await run(db, 'DELETE FROM tasks WHERE universityId = ?', [id]);
+      await run(db, 'DELETE FROM deadlines WHERE universityId = ?', [id]);
+      await run(db, 'DELETE FROM fees WHERE universityId = ?', [id]);
+      await run(db, 'DELETE FROM scholarship_universities WHERE universityId = ?', [id]);
+      await run(db, 'DELETE FROM document_universities WHERE universityId = ?', [id]);
+      await run(db, 'DELETE FROM recommender_universities WHERE universityId = ?', [id]);
+      for (const prompt of await all<{ id: number }>(db, 'SELECT id FROM essay_prompts WHERE universityId = ?', [id])) {
+        await removeEssayPrompt(prompt.id);
+      }
+      return true;
+    });
   },
 
-  async getStats() {
+  async getStats(applicantId: number): Promise<UniversityStats> {
     await ensureInit();
-    const total = await get<{ count: number }>(db, 'SELECT COUNT(*) as count FROM universities');
-    const researching = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE status = 'researching'");
-    const planning = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE status = 'planning'");
-    const applied = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE status = 'applied'");
-    const accepted = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE status = 'accepted'");
-    const rejected = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE status = 'rejected'");
+    const total = await get<{ count: number }>(db, 'SELECT COUNT(*) as count FROM universities WHERE applicantId = ?', [applicantId]);
+    const researching = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE applicantId = ? AND status = 'researching'", [applicantId]);
+    const planning = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE applicantId = ? AND status = 'planning'", [applicantId]);
+    const applied = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE applicantId = ? AND status = 'applied'", [applicantId]);
+    const accepted = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE applicantId = ? AND status = 'accepted'", [applicantId]);
+    const rejected = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM universities WHERE applicantId = ? AND status = 'rejected'", [applicantId]);
 
     return {
       total: total?.count || 0,
@@ -892,12 +2059,20 @@ export const UniversityService = {
   },
 };
 
+// Snoozed suggestions whose date has arrived go back to the suggestion list
+async function wakeSnoozedTasks() {
+  const today = new Date().toISOString().split('T')[0];
+  await run(db, "UPDATE tasks SET status = 'suggested', snoozedUntil = NULL WHERE status = 'snoozed' AND snoozedUntil <= ?", [today]);
+}
+
 export const TaskService = {
-  async getAll(): Promise<Task[]> {
+  async getAll(applicantId: number): Promise<Task[]> {
     await ensureInit();
+    await wakeSnoozedTasks();
     return all<Task>(db, `
       SELECT 
         id,
+        applicantId,
         universityId,
         title,
         description,
@@ -905,21 +2080,83 @@ export const TaskService = {
         status,
         priority,
         profileItemType as profileItemType,
+        scholarshipId,
+        recommenderId,
+        essayPromptId,
+        snoozedUntil,
         completedAt,
         createdAt
       FROM tasks 
+      WHERE applicantId = ?
       ORDER BY 
-        CASE status WHEN 'done' THEN 1 ELSE 0 END,
+        CASE status WHEN 'dismissed' THEN 2 WHEN 'done' THEN 1 ELSE 0 END,
         CASE WHEN dueDate IS NULL THEN 1 ELSE 0 END,
         dueDate ASC
-    `);
+    `, [applicantId]);
+  },
+
+  // Filtered, sorted, paginated list for GET /api/tasks
+  async query(applicantId: number, filters: TaskQuery): Promise<Page<Task>> {
+    await ensureInit();
+    await wakeSnoozedTasks();
+    const where = ['applicantId = ?'];
+    const params: any[] = [applicantId];
+
+    for (const field of ['status', 'priority', 'profileItemType'] as const) {
+      const values = filters[field];
+      if (values?.length) {
+        where.push(`${field} IN (${values.map(() => '?').join(', ')})`);
+        params.push(...values);
+      }
+    }
+    if (filters.universityId) {
+      where.push('universityId = ?');
+      params.push(filters.universityId);
+    }
+    if (filters.q) {
+      where.push("(title LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')");
+      params.push(likePattern(filters.q), likePattern(filters.q));
+    }
+    if (filters.dueFrom) {
+      where.push('dueDate >= ?');
+      params.push(filters.dueFrom);
+    }
+    if (filters.dueTo) {
+      where.push('dueDate <= ?');
+      params.push(filters.dueTo);
+    }
+
+    // Due date and priority sorts keep open work ahead of finished and dismissed tasks
+    const bucket = "CASE status WHEN 'dismissed' THEN 2 WHEN 'done' THEN 1 ELSE 0 END";
+    const sort = filters.sort || 'dueDate';
+    const { key, desc } = parseSort(sort);
+    const sortColumns: Record<string, SortColumn[]> = {
+      dueDate: [{ expr: bucket }, { expr: 'dueDate', desc }],
+      priority: [{ expr: bucket }, { expr: PRIORITY_RANK, desc }, { expr: 'dueDate' }],
+      status: [{ expr: "CASE status WHEN 'in_progress' THEN 0 WHEN 'todo' THEN 1 WHEN 'suggested' THEN 2 WHEN 'snoozed' THEN 3 WHEN 'done' THEN 4 ELSE 5 END", desc }, { expr: 'dueDate' }],
+      title: [{ expr: 'title COLLATE NOCASE', desc }],
+      createdAt: [{ expr: 'createdAt', desc }],
+    };
+
+    return queryPage<Task>({
+      select: 'id, applicantId, universityId, title, description, dueDate, status, priority, profileItemType, scholarshipId, recommenderId, essayPromptId, snoozedUntil, completedAt, createdAt',
+      from: 'tasks',
+      where,
+      params,
+      sort,
+      columns: sortColumns[key],
+      limit: filters.limit,
+      cursor: filters.cursor,
+    });
   },
 
   async getByUniversity(universityId: number): Promise<Task[]> {
     await ensureInit();
+    await wakeSnoozedTasks();
     return all<Task>(db, `
       SELECT 
         id,
+        applicantId,
         universityId,
         title,
         description,
@@ -927,32 +2164,47 @@ export const TaskService = {
         status,
         priority,
         profileItemType as profileItemType,
+        scholarshipId,
+        recommenderId,
+        essayPromptId,
+        snoozedUntil,
         completedAt,
         createdAt
       FROM tasks WHERE universityId = ? ORDER BY dueDate ASC
     `, [universityId]);
   },
 
-  async create(task: Omit<Task, 'id' | 'createdAt'>): Promise<Task> {
+  async getByScholarship(scholarshipId: number): Promise<Task[]> {
+    await ensureInit();
+    await wakeSnoozedTasks();
+    return all<Task>(db, `
+      SELECT id, applicantId, universityId, title, description, dueDate, status, priority, profileItemType, scholarshipId, recommenderId, essayPromptId, snoozedUntil, completedAt, createdAt
+      FROM tasks WHERE scholarshipId = ? ORDER BY dueDate ASC
+    `, [scholarshipId]);
+  },
+
+  async create(applicantId: number, task: Omit<Task, 'id' | 'applicantId' | 'createdAt'>): Promise<Task> {
     await ensureInit();
     const now = new Date().toISOString();
     const result = await run(db, `
-      INSERT INTO tasks (universityId, title, description, dueDate, status, priority, profileItemType, completedAt, createdAt)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO tasks (applicantId, universityId, title, description, dueDate, status, priority, profileItemType, scholarshipId, recommenderId, essayPromptId, snoozedUntil, completedAt, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
-      task.universityId || null, task.title, task.description || null, 
+      applicantId, task.universityId || null, task.title, task.description || null, 
       task.dueDate || null, task.status, task.priority, task.profileItemType || null,
-      task.completedAt || null, now
+      task.scholarshipId || null, task.recommenderId || null, task.essayPromptId || null, task.snoozedUntil || null, task.status === 'done' ? now : null, now
     ]);
     
-    return this.getById(result.lastID)!;
+    await recordCreated(applicantId, 'task', result.lastID);
+    return (await this.getById(applicantId, result.lastID))!;
   },
 
-  async getById(id: number): Promise<Task | undefined> {
+  async getById(applicantId: number, id: number): Promise<Task | undefined> {
     await ensureInit();
     return get<Task>(db, `
       SELECT 
         id,
+        applicantId,
         universityId,
         title,
         description,
@@ -960,36 +2212,1420 @@ export const TaskService = {
         status,
         priority,
         profileItemType as profileItemType,
+        scholarshipId,
+        recommenderId,
+        essayPromptId,
+        snoozedUntil,
         completedAt,
         createdAt
-      FROM tasks WHERE id = ?
-    `, [id]);
+      FROM tasks WHERE id = ? AND applicantId = ?
+    `, [id, applicantId]);
   },
 
-  async update(id: number, updates: Partial<Task>): Promise<Task | undefined> {
+  // Callers check the status change against TASK_TRANSITIONS first
+  async update(applicantId: number, id: number, updates: Partial<Task>): Promise<Task | undefined> {
     await ensureInit();
-    const fields: string[] = [];
-    const values: any[] = [];
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
     
-    for (const [key, value] of Object.entries(updates)) {
-      if (key !== 'id' && key !== 'createdAt') {
-        // Convert camelCase to snake_case for DB
-        const dbField = key === 'profileItemType' ? 'profileItemType' : key;
-        fields.push(`${dbField} = ?`);
-        values.push(value);
-      }
+    const changes = updatedColumns(updates, taskFields);
+    
+    // completedAt and snoozedUntil follow the status rather than being set directly
+    if (updates.status && updates.status !== current.status) {
+      changes.completedAt = updates.status === 'done' ? new Date().toISOString() : null;
+    }
+    if ((updates.status || current.status) !== 'snoozed') {
+      if ('snoozedUntil' in changes || current.snoozedUntil) changes.snoozedUntil = null;
     }
     
-    if (fields.length === 0) return this.getById(id);
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    const values: any[] = Object.values(changes);
+    if (fields.length === 0) return current;
 
-    values.push(id);
-    await run(db, `UPDATE tasks SET ${fields.join(', ')} WHERE id = ?`, values);
-    return this.getById(id);
+    values.push(id, applicantId);
+    await run(db, `UPDATE tasks SET ${fields.join(', ')} WHERE id = ? AND applicantId = ?`, values);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'task', id, current, updated, Object.keys(changes));
+    // Reminders already sent were for the old date; the new one gets its own
+    if (updated.dueDate !== current.dueDate) await deleteNotifications('task', id);
+    return updated;
   },
 
-  async delete(id: number): Promise<boolean> {
+  async delete(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    const result = await run(db, 'DELETE FROM tasks WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    if (result.changes > 0) await deleteNotifications('task', id);
+    return result.changes > 0;
+  },
+};
+
+// History Service (read side of the change log; services record as they write)
+export const HistoryService = {
+  // The university's own changes plus those of its tasks, deadlines, fees and essays, newest first
+  async forUniversity(applicantId: number, universityId: number): Promise<HistoryEntry[]> {
+    await ensureInit();
+    return all<HistoryEntry>(db, `
+      SELECT h.*, COALESCE(t.title, d.label, d.type, f.label, CASE WHEN f.id IS NOT NULL THEN 'Application fee' END, p.title, p.prompt, e.title, ep.title, ep.prompt) as label
+      FROM history h
+      LEFT JOIN tasks t ON h.entityType = 'task' AND t.id = h.entityId
+      LEFT JOIN deadlines d ON h.entityType = 'deadline' AND d.id = h.entityId
+      LEFT JOIN fees f ON h.entityType = 'fee' AND f.id = h.entityId
+      LEFT JOIN essay_prompts p ON h.entityType = 'essay_prompt' AND p.id = h.entityId
+      LEFT JOIN essays e ON h.entityType = 'essay' AND e.id = h.entityId
+      LEFT JOIN essay_prompts ep ON ep.id = e.promptId
+      WHERE h.applicantId = ? AND (
+        (h.entityType = 'university' AND h.entityId = ?) OR
+        (h.entityType = 'task' AND t.universityId = ?) OR
+        (h.entityType = 'deadline' AND d.universityId = ?) OR
+        (h.entityType = 'fee' AND f.universityId = ?) OR
+        (h.entityType = 'essay_prompt' AND p.universityId = ?) OR
+        (h.entityType = 'essay' AND ep.universityId = ?)
+      )
+      ORDER BY h.changedAt DESC, h.id DESC
+    `, [applicantId, universityId, universityId, universityId, universityId, universityId, universityId]);
+  },
+
+  // Profile changes and test sittings, labelled like "SAT 2026-03-14"
+  async forProfile(applicantId: number): Promise<HistoryEntry[]> {
+    await ensureInit();
+    const rows = await all<HistoryEntry & { test: TestType | null; date: string | null }>(db, `
+      SELECT h.*, a.test, a.date FROM history h
+      LEFT JOIN test_attempts a ON h.entityType = 'test_attempt' AND a.id = h.entityId
+      WHERE h.applicantId = ? AND h.entityType IN ('profile', 'test_attempt')
+      ORDER BY h.changedAt DESC, h.id DESC
+    `, [applicantId]);
+    return rows.map(({ test, date, ...entry }) => ({ ...entry, label: test ? `${TESTS[test].label} ${date}` : null }));
+  },
+};
+
+// Deadline Service. The legacy deadlineEarly/Regular/Transfer columns are kept
+// equal to the earliest deadline of their type so older clients still work.
+const DEADLINE_SELECT = `
+  SELECT d.*, u.name as universityName
+  FROM deadlines d JOIN universities u ON u.id = d.universityId
+`;
+
+// Copy the earliest early/regular/transfer dates back onto the university row
+async function syncDeadlineColumns(universityId: number) {
+  const sets = Object.keys(DEADLINE_COLUMNS).map(column => `${column} = (SELECT MIN(date) FROM deadlines WHERE universityId = ? AND type = ?)`);
+  const params = Object.values(DEADLINE_COLUMNS).flatMap(type => [universityId, type]);
+  await run(db, `UPDATE universities SET ${sets.join(', ')} WHERE id = ?`, [...params, universityId]);
+}
+
+export const DeadlineService = {
+  // Soonest first, by the instant each falls due
+  async getAll(applicantId: number, filters: DeadlineQuery = {}): Promise<Deadline[]> {
+    await ensureInit();
+    const where = ['d.applicantId = ?'];
+    const params: any[] = [applicantId];
+    if (filters.universityId) {
+      where.push('d.universityId = ?');
+      params.push(filters.universityId);
+    }
+    if (filters.type?.length) {
+      where.push(`d.type IN (${filters.type.map(() => '?').join(', ')})`);
+      params.push(...filters.type);
+    }
+    if (filters.from) {
+      where.push('d.date >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      where.push('d.date <= ?');
+      params.push(filters.to);
+    }
+    return all<Deadline>(db, `${DEADLINE_SELECT} WHERE ${where.join(' AND ')} ORDER BY d.dueAt ASC, d.id ASC`, params);
+  },
+
+  async getById(applicantId: number, id: number): Promise<Deadline | undefined> {
+    await ensureInit();
+    return get<Deadline>(db, `${DEADLINE_SELECT} WHERE d.id = ? AND d.applicantId = ?`, [id, applicantId]);
+  },
+
+  // The soonest application round that hasn't passed
+  async nextApplicationDeadline(universityId: number): Promise<Deadline | undefined> {
+    await ensureInit();
+    return get<Deadline>(db, `
+      ${DEADLINE_SELECT}
+      WHERE d.universityId = ? AND d.type IN (${APPLICATION_DEADLINE_LIST}) AND d.dueAt >= ?
+      ORDER BY d.dueAt ASC LIMIT 1
+    `, [universityId, new Date().toISOString()]);
+  },
+
+  // Without a timezone the deadline is taken to be in the university's local time
+  async create(applicantId: number, deadline: Pick<Deadline, 'universityId' | 'type' | 'date'> & Partial<Pick<Deadline, 'label' | 'time' | 'timezone'>>): Promise<Deadline> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    let timezone = deadline.timezone;
+    if (!timezone) {
+      const university = await get<Pick<University, 'country'>>(db, 'SELECT country FROM universities WHERE id = ?', [deadline.universityId]);
+      timezone = timezoneForCountry(university?.country);
+    }
+    const dueAt = zonedTimeToUtc(deadline.date, deadline.time, timezone) ?? null;
+    const result = await run(db, `
+      INSERT INTO deadlines (applicantId, universityId, type, label, date, time, timezone, dueAt, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [applicantId, deadline.universityId, deadline.type, deadline.label || null, deadline.date, deadline.time || null, timezone, dueAt, now, now]);
+    await recordCreated(applicantId, 'deadline', result.lastID);
+    await syncDeadlineColumns(deadline.universityId);
+    return (await this.getById(applicantId, result.lastID))!;
+  },
+
+  async update(applicantId: number, id: number, updates: Partial<Deadline>): Promise<Deadline | undefined> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
+    
+    const changes = updatedColumns(updates, deadlineFields);
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0) return current;
+    
+    // Clearing the timezone goes back to the university's
+    if ('timezone' in changes && !changes.timezone) {
+      const university = await get<Pick<University, 'country'>>(db, 'SELECT country FROM universities WHERE id = ?', [current.universityId]);
+      changes.timezone = timezoneForCountry(university?.country);
+    }
+    
+    const merged = { ...current, ...changes } as Deadline;
+    const dueAt = zonedTimeToUtc(merged.date, merged.time, merged.timezone) ?? null;
+    const values: any[] = [...Object.values(changes), dueAt, new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE deadlines SET ${fields.join(', ')}, dueAt = ?, updatedAt = ? WHERE id = ? AND applicantId = ?`, values);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'deadline', id, current, updated, Object.keys(changes));
+    // Reminders already sent were for the old date, time or timezone; the new one gets its own
+    if (updated.dueAt !== current.dueAt) await deleteNotifications('deadline', id);
+    await syncDeadlineColumns(current.universityId);
+    if (updated.universityId !== current.universityId) await syncDeadlineColumns(updated.universityId);
+    return updated;
+  },
+
+  async delete(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return false;
+    await run(db, 'DELETE FROM deadlines WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    await deleteNotifications('deadline', id);
+    await syncDeadlineColumns(current.universityId);
+    return true;
+  },
+
+  // A legacy column was written directly: move the earliest deadline of its type to
+  // the new date, or drop every deadline of that type when it was cleared
+  async replaceLegacy(applicantId: number, universityId: number, type: DeadlineType, date: string | null) {
+    const [first, ...rest] = await this.getAll(applicantId, { universityId, type: [type] });
+    if (!date) {
+      for (const deadline of [first, ...rest].filter(Boolean)) await this.delete(applicantId, deadline.id);
+    } else if (first) {
+      await this.update(applicantId, first.id, { date });
+    } else {
+      await this.create(applicantId, { universityId, type, date });
+    }
+  },
+};
+
+// Fee Service. Fees are recorded per university; the budget weighs them, and the
+// fees universities list in their requirements, against Profile.feeBudget.
+const FEE_SELECT = `
+  SELECT f.*, u.name as universityName
+  FROM fees f JOIN universities u ON u.id = f.universityId
+`;
+
+// Profile.feeBudget has no currency of its own; it has always been dollars
+const BUDGET_CURRENCY = BASE_CURRENCY;
+
+// SQLite hands booleans back as 0/1
+const toFee = (row: Fee): Fee => ({ ...row, waiverRequested: !!row.waiverRequested, waiverGranted: !!row.waiverGranted });
+
+// A university's free-text tuition currency when it is a usable code, else dollars
+const defaultCurrency = (currency: string | undefined | null) => currencyCode(currency) ?? BUDGET_CURRENCY;
+
+// $150, or $150.50 when there are cents
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: Number.isInteger(amount) ? 0 : 2 }).format(amount);
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const FeeService = {
+  async getAll(applicantId: number, filters: FeeQuery = {}): Promise<Fee[]> {
+    await ensureInit();
+    const where = ['f.applicantId = ?'];
+    const params: any[] = [applicantId];
+    if (filters.universityId) {
+      where.push('f.universityId = ?');
+      params.push(filters.universityId);
+    }
+    const rows = await all<Fee>(db, `${FEE_SELECT} WHERE ${where.join(' AND ')} ORDER BY u.name ASC, f.createdAt ASC, f.id ASC`, params);
+    return rows.map(toFee);
+  },
+
+  async getById(applicantId: number, id: number): Promise<Fee | undefined> {
+    await ensureInit();
+    const row = await get<Fee>(db, `${FEE_SELECT} WHERE f.id = ? AND f.applicantId = ?`, [id, applicantId]);
+    return row && toFee(row);
+  },
+
+  async create(applicantId: number, fee: Pick<Fee, 'universityId' | 'amount'> & Partial<Omit<Fee, 'id' | 'applicantId' | 'universityName' | 'createdAt' | 'updatedAt'>>): Promise<Fee> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    let currency = fee.currency?.toUpperCase();
+    if (!currency) {
+      const university = await get<Pick<University, 'currency'>>(db, 'SELECT currency FROM universities WHERE id = ?', [fee.universityId]);
+      currency = defaultCurrency(university?.currency);
+    }
+    const result = await run(db, `
+      INSERT INTO fees (applicantId, universityId, label, amount, currency, paidDate, waiverRequested, waiverGranted, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      applicantId, fee.universityId, fee.label || null, fee.amount, currency, fee.paidDate || null,
+      fee.waiverRequested ? 1 : 0, fee.waiverGranted ? 1 : 0, fee.notes || null, now, now,
+    ]);
+    await recordCreated(applicantId, 'fee', result.lastID);
+    return (await this.getById(applicantId, result.lastID))!;
+  },
+
+  async update(applicantId: number, id: number, updates: Partial<Fee>): Promise<Fee | undefined> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
+    
+    const changes = updatedColumns(updates, feeFields);
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0) return current;
+    
+    // Clearing the currency goes back to the university's
+    if ('currency' in changes) {
+      const universityId = (changes.universityId as number | undefined) ?? current.universityId;
+      const university = await get<Pick<University, 'currency'>>(db, 'SELECT currency FROM universities WHERE id = ?', [universityId]);
+      changes.currency = changes.currency ? String(changes.currency).toUpperCase() : defaultCurrency(university?.currency);
+    }
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE fees SET ${fields.join(', ')}, updatedAt = ? WHERE id = ? AND applicantId = ?`, values);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'fee', id, current, updated, Object.keys(changes));
+    return updated;
+  },
+
+  async delete(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    const result = await run(db, 'DELETE FROM fees WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    return result.changes > 0;
+  },
+
+  // Recorded fees for every university, plus an estimate from the requirements for
+  // universities past researching that have none recorded yet
+  async getBudget(applicantId: number): Promise<FeeBudget> {
+    await ensureInit();
+    const [profile, fees, rates, universities] = await Promise.all([
+      ProfileService.getProfile(applicantId),
+      this.getAll(applicantId),
+      ExchangeRateService.getRates(),
+      all<Pick<University, 'id' | 'name' | 'status' | 'currency' | 'requirements'>>(db,
+        'SELECT id, name, status, currency, requirements FROM universities WHERE applicantId = ? ORDER BY name ASC', [applicantId]),
+    ]);
+    
+    const lines: BudgetLine[] = [];
+    const warnings: string[] = [];
+    for (const university of universities) {
+      const base = { universityId: university.id, universityName: university.name, universityStatus: university.status };
+      const recorded = fees.filter(f => f.universityId === university.id);
+      const requirement = parseRequirements(university).applicationFee;
+      for (const fee of recorded) {
+        const state = fee.waiverGranted ? 'waived' : fee.paidDate ? 'paid' : 'due';
+        lines.push({ ...base, feeId: fee.id, label: fee.label || 'Application fee', amount: fee.amount, currency: fee.currency, state });
+        if (state === 'due' && requirement?.waiverAvailable && !fee.waiverRequested) {
+          warnings.push(`${university.name} offers a fee waiver that hasn't been requested`);
+        }
+      }
+      if (recorded.length === 0 && university.status !== 'researching' && requirement?.amount) {
+        lines.push({ ...base, label: 'Application fee', amount: requirement.amount, currency: defaultCurrency(university.currency), state: 'estimated' });
+        if (requirement.waiverAvailable) warnings.push(`${university.name} offers a fee waiver`);
+      }
+    }
+    
+    // Lines in a currency without an exchange rate can't be added up
+    const inBudgetCurrency = (line: BudgetLine) => convert(line.amount, line.currency, BUDGET_CURRENCY, rates);
+    const sum = (state: BudgetLine['state'][]) =>
+      roundMoney(lines.filter(l => state.includes(l.state)).reduce((total, l) => total + (inBudgetCurrency(l) ?? 0), 0));
+    const committed = sum(['paid']);
+    const planned = sum(['due', 'estimated']);
+    const budget = profile?.feeBudget;
+    const overBudgetBy = budget !== undefined && committed + planned > budget ? roundMoney(committed + planned - budget) : undefined;
+    
+    const unconverted = new Map<string, number>();
+    for (const line of lines) {
+      if (inBudgetCurrency(line) !== undefined || line.state === 'waived') continue;
+      unconverted.set(line.currency, roundMoney((unconverted.get(line.currency) ?? 0) + line.amount));
+    }
+    
+    if (budget === undefined && planned + committed > 0) warnings.unshift('No fee budget set');
+    if (overBudgetBy !== undefined) {
+      warnings.unshift(`Planned applications exceed the budget by ${formatMoney(overBudgetBy, BUDGET_CURRENCY)}`);
+    }
+    if (unconverted.size > 0) warnings.push(`Fees in ${[...unconverted.keys()].join(', ')} aren't counted in the totals until an exchange rate is added`);
+    
+    return {
+      currency: BUDGET_CURRENCY,
+      budget,
+      committed,
+      planned,
+      remaining: budget !== undefined ? roundMoney(budget - committed) : undefined,
+      overBudgetBy,
+      lines,
+      unconverted: [...unconverted].map(([currency, amount]) => ({ currency, amount })),
+      warnings,
+    };
+  },
+};
+
+// The readiness item for fees: every application past researching has its fee
+// paid or waived, and within budget. With none yet it only asks for a budget.
+async function feeReadiness(applicantId: number): Promise<ReadinessItem> {
+  const budget = await FeeService.getBudget(applicantId);
+  const applications = budget.lines.filter(line => line.universityStatus !== 'researching');
+  if (applications.length === 0) {
+    return { name: 'Application Fee', complete: budget.budget !== undefined, status: budget.budget !== undefined ? `Budget: ${formatMoney(budget.budget, budget.currency)}` : 'No budget set' };
+  }
+  const covered = applications.filter(line => line.state === 'paid' || line.state === 'waived').length;
+  const over = budget.overBudgetBy !== undefined ? `, ${formatMoney(budget.overBudgetBy, budget.currency)} over budget` : '';
+  return {
+    name: 'Application Fee',
+    complete: covered === applications.length && budget.overBudgetBy === undefined,
+    status: `${covered} of ${applications.length} paid or waived${over}`,
+  };
+}
+
+// Exchange Rate Service. Rates aren't tied to an applicant; see api/currency.ts
+export const ExchangeRateService = {
+  async getAll(): Promise<ExchangeRate[]> {
+    await ensureInit();
+    return all<ExchangeRate>(db, 'SELECT * FROM exchange_rates ORDER BY currency ASC');
+  },
+
+  // currency -> rate, for convert()
+  async getRates(): Promise<Rates> {
+    const rows = await this.getAll();
+    return Object.fromEntries(rows.map(row => [row.currency, row.rate]));
+  },
+
+  async set(currency: string, rate: number): Promise<ExchangeRate> {
+    await ensureInit();
+    const code = currency.toUpperCase();
+    await run(db, `
+      INSERT INTO exchange_rates (currency, rate, updatedAt) VALUES (?, ?, ?)
+      ON CONFLICT(currency) DO UPDATE SET rate = excluded.rate, updatedAt = excluded.updatedAt
+    `, [code, rate, new Date().toISOString()]);
+    return (await get<ExchangeRate>(db, 'SELECT * FROM exchange_rates WHERE currency = ?', [code]))!;
+  },
+
+  async delete(currency: string): Promise<boolean> {
+    await ensureInit();
+    const result = await run(db, 'DELETE FROM exchange_rates WHERE currency = ?', [currency.toUpperCase()]);
+    return result.changes > 0;
+  },
+
+  // Upsert every rate; with `replace`, rates missing from the file are dropped
+  async importRates(rates: Rates, replace = false): Promise<{ imported: number; removed: number }> {
+    await ensureInit();
+    let removed = 0;
+    await inTransaction(db, async () => {
+      if (replace) {
+        const codes = Object.keys(rates);
+        const result = await run(db, `DELETE FROM exchange_rates WHERE currency NOT IN (${codes.map(() => '?').join(', ') || "''"})`, codes);
+        removed = result.changes;
+      }
+      for (const [currency, rate] of Object.entries(rates)) await this.set(currency, rate);
+    });
+    return { imported: Object.keys(rates).length, removed };
+  },
+};
+
+// Scholarship Service. Links to universities live in scholarship_universities;
+// a scholarship with none counts toward every university.
+type ScholarshipRow = Omit<Scholarship, 'renewable' | 'requiredDocuments' | 'universityIds'> & { renewable: number; requiredDocuments: string; universityIds: string | null };
+
+const SCHOLARSHIP_SELECT = `
+  SELECT s.*, (SELECT GROUP_CONCAT(su.universityId) FROM scholarship_universities su WHERE su.scholarshipId = s.id) as universityIds
+  FROM scholarships s
+`;
+
+const toScholarship = (row: ScholarshipRow): Scholarship => ({
+  ...row,
+  renewable: !!row.renewable,
+  requiredDocuments: JSON.parse(row.requiredDocuments),
+  universityIds: row.universityIds ? row.universityIds.split(',').map(Number).sort((a, b) => a - b) : [],
+});
+
+// Free-text entries (document names, tags) as a JSON list, trimmed, without blanks or repeats
+const textList = (entries: string[] | null | undefined) =>
+  JSON.stringify([...new Set((entries ?? []).map(e => e.trim()).filter(Boolean))]);
+
+async function linkUniversities(scholarshipId: number, universityIds: number[]) {
+  await run(db, 'DELETE FROM scholarship_universities WHERE scholarshipId = ?', [scholarshipId]);
+  for (const universityId of new Set(universityIds)) {
+    await run(db, 'INSERT INTO scholarship_universities (scholarshipId, universityId) VALUES (?, ?)', [scholarshipId, universityId]);
+  }
+}
+
+// The fields that decide which tasks a scholarship needs
+const SCHOLARSHIP_TASK_FIELDS = ['status', 'deadline', 'eligibility', 'requiredDocuments', 'renewable', 'universityIds'];
+
+export const ScholarshipService = {
+  async getAll(applicantId: number, filters: ScholarshipQuery = {}): Promise<Scholarship[]> {
+    await ensureInit();
+    const where = ['s.applicantId = ?'];
+    const params: any[] = [applicantId];
+    if (filters.status?.length) {
+      where.push(`s.status IN (${filters.status.map(() => '?').join(', ')})`);
+      params.push(...filters.status);
+    }
+    if (filters.universityId) {
+      where.push('(s.id IN (SELECT scholarshipId FROM scholarship_universities WHERE universityId = ?) OR s.id NOT IN (SELECT scholarshipId FROM scholarship_universities))');
+      params.push(filters.universityId);
+    }
+    const rows = await all<ScholarshipRow>(db, `${SCHOLARSHIP_SELECT} WHERE ${where.join(' AND ')} ORDER BY s.deadline IS NULL, s.deadline ASC, s.name COLLATE NOCASE ASC`, params);
+    return rows.map(toScholarship);
+  },
+
+  async getById(applicantId: number, id: number): Promise<Scholarship | undefined> {
+    await ensureInit();
+    const row = await get<ScholarshipRow>(db, `${SCHOLARSHIP_SELECT} WHERE s.id = ? AND s.applicantId = ?`, [id, applicantId]);
+    return row && toScholarship(row);
+  },
+
+  async create(applicantId: number, scholarship: Pick<Scholarship, 'name'> & Partial<Omit<Scholarship, 'id' | 'applicantId' | 'createdAt' | 'updatedAt'>>): Promise<Scholarship> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    const result = await run(db, `
+      INSERT INTO scholarships (applicantId, name, provider, amount, currency, renewable, eligibility, deadline, requiredDocuments, status, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      applicantId, scholarship.name, scholarship.provider || null, scholarship.amount ?? null,
+      defaultCurrency(scholarship.currency), scholarship.renewable ? 1 : 0, scholarship.eligibility || null,
+      scholarship.deadline || null, textList(scholarship.requiredDocuments), scholarship.status || 'researching',
+      scholarship.notes || null, now, now,
+    ]);
+    await linkUniversities(result.lastID, scholarship.universityIds ?? []);
+    await recordCreated(applicantId, 'scholarship', result.lastID);
+    
+    try {
+      await TaskGenerator.generateTasksForScholarship(applicantId, result.lastID);
+    } catch (e) {
+      console.log('Failed to generate tasks for new scholarship:', e);
+    }
+    return (await this.getById(applicantId, result.lastID))!;
+  },
+
+  // Callers check the status change against SCHOLARSHIP_TRANSITIONS first
+  async update(applicantId: number, id: number, updates: Partial<Scholarship>): Promise<Scholarship | undefined> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
+    
+    // University links are written separately
+    const changes = updatedColumns(updates, scholarshipFields, ['universityIds']);
+    if ('requiredDocuments' in changes) changes.requiredDocuments = textList(changes.requiredDocuments as string[] | null);
+    if ('currency' in changes) changes.currency = defaultCurrency(changes.currency as string | null);
+    const relink = updates.universityIds !== undefined;
+    
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0 && !relink) return current;
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE scholarships SET ${[...fields, 'updatedAt = ?'].join(', ')} WHERE id = ? AND applicantId = ?`, values);
+    if (relink) await linkUniversities(id, updates.universityIds ?? []);
+    const updated = (await this.getById(applicantId, id))!;
+    const changed = relink ? [...Object.keys(changes), 'universityIds'] : Object.keys(changes);
+    await recordChanges(applicantId, 'scholarship', id, current, updated, changed);
+    
+    if (SCHOLARSHIP_TASK_FIELDS.some(field => changed.includes(field))) {
+      try {
+        await TaskGenerator.generateTasksForScholarship(applicantId, id);
+      } catch (e) {
+        console.log('Failed to generate tasks for updated scholarship:', e);
+      }
+    }
+    return updated;
+  },
+
+  // Its suggested tasks go with it; tasks already taken on are kept without the link
+  async delete(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    const result = await run(db, 'DELETE FROM scholarships WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    if (result.changes > 0) {
+      await run(db, 'DELETE FROM scholarship_universities WHERE scholarshipId = ?', [id]);
+      await run(db, "DELETE FROM tasks WHERE scholarshipId = ? AND status IN ('suggested', 'snoozed', 'dismissed')", [id]);
+      await run(db, 'UPDATE tasks SET scholarshipId = NULL WHERE scholarshipId = ?', [id]);
+    }
+    return result.changes > 0;
+  },
+
+  // First-year tuition for each university less the awarded scholarships that apply
+  // there, all in US dollars. Scholarships still being applied for show as pending.
+  async getNetCosts(applicantId: number): Promise<NetCosts> {
+    await ensureInit();
+    const [scholarships, rates, universities] = await Promise.all([
+      this.getAll(applicantId, { status: ['applied', 'awarded'] }),
+      ExchangeRateService.getRates(),
+      all<Pick<University, 'id' | 'name' | 'status' | 'tuitionAmount' | 'currency'>>(db,
+        'SELECT id, name, status, tuitionAmount, currency FROM universities WHERE applicantId = ? ORDER BY name ASC', [applicantId]),
+    ]);
+    
+    const missingRates = new Set<string>();
+    const inDollars = (amount: number, currency: string) => {
+      const value = convert(amount, currency, BASE_CURRENCY, rates);
+      if (value === undefined) missingRates.add(currency);
+      return value;
+    };
+    
+    const lines: NetCost[] = universities.map(university => {
+      const applicable = scholarships.filter(s => s.amount && (s.universityIds.length === 0 || s.universityIds.includes(university.id)));
+      const total = (list: Scholarship[]) => roundMoney(list.reduce((sum, s) => sum + (inDollars(s.amount!, s.currency) ?? 0), 0));
+      const awarded = applicable.filter(s => s.status === 'awarded');
+      const tuition = university.tuitionAmount ? inDollars(university.tuitionAmount, defaultCurrency(university.currency)) : undefined;
+      const awardedTotal = total(awarded);
+      return {
+        universityId: university.id,
+        universityName: university.name,
+        universityStatus: university.status,
+        tuition: tuition !== undefined ? roundMoney(tuition) : undefined,
+        awarded: awardedTotal,
+        renewing: total(awarded.filter(s => s.renewable)),
+        pending: total(applicable.filter(s => s.status === 'applied')),
+        netCost: tuition !== undefined ? roundMoney(Math.max(0, tuition - awardedTotal)) : undefined,
+        scholarshipIds: applicable.map(s => s.id),
+      };
+    });
+    
+    const warnings: string[] = [];
+    if (missingRates.size > 0) warnings.push(`Amounts in ${[...missingRates].join(', ')} are left out until an exchange rate is added`);
+    const unknownAmounts = scholarships.filter(s => s.status === 'awarded' && (s.amount === undefined || s.amount === null));
+    if (unknownAmounts.length > 0) warnings.push(`No amount recorded for ${unknownAmounts.map(s => s.name).join(', ')}`);
+    
+    return { currency: BASE_CURRENCY, universities: lines, warnings };
+  },
+};
+
+// Document Service: the vault's metadata. The files themselves are written and
+// read by api/documents.ts, which hands over each file's storedName.
+type DocumentRow = Omit<VaultDocument, 'tags' | 'universityIds' | 'superseded'> & { storedName: string; tags: string; universityIds: string | null; superseded: number };
+
+// Versions of one document share its type and title
+const DOCUMENT_SELECT = `
+  SELECT d.*,
+    (SELECT GROUP_CONCAT(du.universityId) FROM document_universities du WHERE du.documentId = d.id) as universityIds,
+    EXISTS (SELECT 1 FROM documents n WHERE n.applicantId = d.applicantId AND n.type = d.type AND n.title = d.title COLLATE NOCASE AND n.version > d.version) as superseded
+  FROM documents d
+`;
+
+const toDocument = ({ storedName: _storedName, ...row }: DocumentRow): VaultDocument => ({
+  ...row,
+  tags: JSON.parse(row.tags),
+  universityIds: row.universityIds ? row.universityIds.split(',').map(Number).sort((a, b) => a - b) : [],
+  superseded: !!row.superseded,
+});
+
+// The requirement an upload satisfies when it doesn't name one
+const DOCUMENT_REQUIREMENTS: Partial<Record<VaultDocumentType, RequirementType>> = {
+  transcript: 'transcripts',
+  essay: 'essays',
+  recommendation: 'recommendations',
+};
+
+async function linkDocumentUniversities(documentId: number, universityIds: number[]) {
+  await run(db, 'DELETE FROM document_universities WHERE documentId = ?', [documentId]);
+  for (const universityId of new Set(universityIds)) {
+    await run(db, 'INSERT INTO document_universities (documentId, universityId) VALUES (?, ?)', [documentId, universityId]);
+  }
+}
+
+// transcriptStatus follows the vault: uploading a transcript marks a missing or
+// requested one received, and removing the last transcript takes received back to
+// missing. Submitted is the applicant's call and is left alone.
+async function syncTranscriptStatus(applicantId: number) {
+  const profile = await ProfileService.getProfile(applicantId);
+  if (!profile) return;
+  const row = await get<{ count: number }>(db, "SELECT COUNT(*) as count FROM documents WHERE applicantId = ? AND requirementType = 'transcripts'", [applicantId]);
+  const hasTranscript = (row?.count ?? 0) > 0;
+  const status = hasTranscript && (profile.transcriptStatus === 'missing' || profile.transcriptStatus === 'requested') ? 'received'
+    : !hasTranscript && profile.transcriptStatus === 'received' ? 'missing'
+    : undefined;
+  if (!status) return;
+  
+  await ProfileService.updateProfile(applicantId, { transcriptStatus: status });
+  try {
+    await TaskGenerator.generateTasksForProfileUpdate(applicantId, ['transcriptStatus']);
+  } catch (e) {
+    console.log('Failed to generate tasks for transcript status:', e);
+  }
+}
+
+type DocumentInput = Pick<VaultDocument, 'type' | 'title' | 'fileName' | 'size'> & Partial<Pick<VaultDocument, 'issuedDate' | 'tags' | 'requirementType' | 'universityIds' | 'mimeType' | 'notes'>>;
+
+export const DocumentService = {
+  // Grouped by type and title, newest version first
+  async getAll(applicantId: number, filters: VaultDocumentQuery = {}): Promise<VaultDocument[]> {
+    await ensureInit();
+    const where = ['d.applicantId = ?'];
+    const params: any[] = [applicantId];
+    if (filters.type?.length) {
+      where.push(`d.type IN (${filters.type.map(() => '?').join(', ')})`);
+      params.push(...filters.type);
+    }
+    if (filters.requirementType) {
+      where.push('d.requirementType = ?');
+      params.push(filters.requirementType);
+    }
+    if (filters.universityId) {
+      where.push('(d.id IN (SELECT documentId FROM document_universities WHERE universityId = ?) OR d.id NOT IN (SELECT documentId FROM document_universities))');
+      params.push(filters.universityId);
+    }
+    if (filters.tag) {
+      where.push('EXISTS (SELECT 1 FROM json_each(d.tags) WHERE json_each.value = ? COLLATE NOCASE)');
+      params.push(filters.tag.trim());
+    }
+    const rows = await all<DocumentRow>(db, `${DOCUMENT_SELECT} WHERE ${where.join(' AND ')} ORDER BY d.type ASC, d.title COLLATE NOCASE ASC, d.version DESC`, params);
+    return rows.map(toDocument);
+  },
+
+  async getById(applicantId: number, id: number): Promise<VaultDocument | undefined> {
+    await ensureInit();
+    const row = await get<DocumentRow>(db, `${DOCUMENT_SELECT} WHERE d.id = ? AND d.applicantId = ?`, [id, applicantId]);
+    return row && toDocument(row);
+  },
+
+  async getStoredName(applicantId: number, id: number): Promise<string | undefined> {
+    await ensureInit();
+    const row = await get<{ storedName: string }>(db, 'SELECT storedName FROM documents WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    return row?.storedName;
+  },
+
+  // A new version when the applicant already has a document with this type and
+  // title; it keeps the earlier version's links unless the upload sets its own.
+  async create(applicantId: number, document: DocumentInput, storedName: string): Promise<VaultDocument> {
+    await ensureInit();
+    const previous = await get<DocumentRow>(db, `${DOCUMENT_SELECT} WHERE d.applicantId = ? AND d.type = ? AND d.title = ? COLLATE NOCASE ORDER BY d.version DESC LIMIT 1`,
+      [applicantId, document.type, document.title]);
+    const latest = previous && toDocument(previous);
+    const requirementType = document.requirementType !== undefined ? document.requirementType
+      : latest ? latest.requirementType : DOCUMENT_REQUIREMENTS[document.type];
+    
+    const now = new Date().toISOString();
+    const result = await run(db, `
+      INSERT INTO documents (applicantId, type, title, version, issuedDate, tags, requirementType, fileName, storedName, mimeType, size, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      applicantId, document.type, document.title.trim(), (latest?.version ?? 0) + 1, document.issuedDate || null,
+      textList(document.tags ?? latest?.tags), requirementType || null, document.fileName, storedName,
+      document.mimeType || null, document.size, document.notes || null, now, now,
+    ]);
+    await linkDocumentUniversities(result.lastID, document.universityIds ?? latest?.universityIds ?? []);
+    await recordCreated(applicantId, 'document', result.lastID);
+    await syncTranscriptStatus(applicantId);
+    return (await this.getById(applicantId, result.lastID))!;
+  },
+
+  // Metadata only; a new file is uploaded as a new version
+  async update(applicantId: number, id: number, updates: Partial<VaultDocument>): Promise<VaultDocument | undefined> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
+    
+    const changes: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(updates)) {
+      if (key in documentFields && key !== 'universityIds') changes[key] = value;
+    }
+    if ('tags' in changes) changes.tags = textList(changes.tags as string[] | null);
+    const relink = updates.universityIds !== undefined;
+    
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0 && !relink) return current;
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE documents SET ${[...fields, 'updatedAt = ?'].join(', ')} WHERE id = ? AND applicantId = ?`, values);
+    if (relink) await linkDocumentUniversities(id, updates.universityIds ?? []);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'document', id, current, updated, relink ? [...Object.keys(changes), 'universityIds'] : Object.keys(changes));
+    if ('requirementType' in changes) await syncTranscriptStatus(applicantId);
+    return updated;
+  },
+
+  // Returns the removed document's storedName so its file can be deleted too
+  async delete(applicantId: number, id: number): Promise<string | undefined> {
+    await ensureInit();
+    const storedName = await this.getStoredName(applicantId, id);
+    if (!storedName) return undefined;
+    await run(db, 'DELETE FROM document_universities WHERE documentId = ?', [id]);
+    await run(db, 'DELETE FROM documents WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    await syncTranscriptStatus(applicantId);
+    return storedName;
+  },
+};
+
+// Recommender Service. Each recommender's letters, one per university they write
+// for, live in recommender_universities with where the letter stands.
+type LetterRow = RecommendationLetter & { recommenderId: number };
+
+async function lettersFor(recommenderIds: number[]): Promise<Map<number, RecommendationLetter[]>> {
+  const letters = new Map<number, RecommendationLetter[]>(recommenderIds.map(id => [id, []]));
+  if (recommenderIds.length === 0) return letters;
+  const rows = await all<LetterRow>(db, `
+    SELECT recommenderId, universityId, status, updatedAt FROM recommender_universities
+    WHERE recommenderId IN (${recommenderIds.map(() => '?').join(', ')}) ORDER BY universityId ASC
+  `, recommenderIds);
+  for (const { recommenderId, ...letter } of rows) letters.get(recommenderId)!.push(letter);
+  return letters;
+}
+
+// Drops suggestions about a letter once it has moved on; the generator adds the
+// ones that fit its new status
+async function clearLetterSuggestions(recommenderId: number, universityId: number) {
+  await run(db, "DELETE FROM tasks WHERE recommenderId = ? AND universityId = ? AND status IN ('suggested', 'snoozed')", [recommenderId, universityId]);
+}
+
+type RecommenderInput = Pick<Recommender, 'name'> & Partial<Omit<Recommender, 'id' | 'applicantId' | 'letters' | 'createdAt' | 'updatedAt'>>;
+
+export const RecommenderService = {
+  async getAll(applicantId: number): Promise<Recommender[]> {
+    await ensureInit();
+    const rows = await all<Omit<Recommender, 'letters'>>(db, 'SELECT * FROM recommenders WHERE applicantId = ? ORDER BY name COLLATE NOCASE ASC', [applicantId]);
+    const letters = await lettersFor(rows.map(r => r.id));
+    return rows.map(row => ({ ...row, letters: letters.get(row.id)! }));
+  },
+
+  async getById(applicantId: number, id: number): Promise<Recommender | undefined> {
+    await ensureInit();
+    const row = await get<Omit<Recommender, 'letters'>>(db, 'SELECT * FROM recommenders WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    if (!row) return undefined;
+    return { ...row, letters: (await lettersFor([id])).get(id)! };
+  },
+
+  async create(applicantId: number, recommender: RecommenderInput): Promise<Recommender> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    const result = await run(db, `
+      INSERT INTO recommenders (applicantId, name, role, subject, email, phone, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      applicantId, recommender.name.trim(), recommender.role || null, recommender.subject || null,
+      recommender.email || null, recommender.phone || null, recommender.notes || null, now, now,
+    ]);
+    await recordCreated(applicantId, 'recommender', result.lastID);
+    return (await this.getById(applicantId, result.lastID))!;
+  },
+
+  async update(applicantId: number, id: number, updates: Partial<Recommender>): Promise<Recommender | undefined> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
+    
+    const changes = updatedColumns(updates, recommenderFields);
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0) return current;
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE recommenders SET ${[...fields, 'updatedAt = ?'].join(', ')} WHERE id = ? AND applicantId = ?`, values);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'recommender', id, current, updated, Object.keys(changes));
+    return updated;
+  },
+
+  // Their letters and suggested tasks go with them; tasks already taken on are kept without the link
+  async delete(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    const result = await run(db, 'DELETE FROM recommenders WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    if (result.changes > 0) {
+      await run(db, 'DELETE FROM recommender_universities WHERE recommenderId = ?', [id]);
+      await run(db, "DELETE FROM tasks WHERE recommenderId = ? AND status IN ('suggested', 'snoozed', 'dismissed')", [id]);
+      await run(db, 'UPDATE tasks SET recommenderId = NULL WHERE recommenderId = ?', [id]);
+    }
+    return result.changes > 0;
+  },
+
+  // The letters going to one university, for task generation
+  async getLetters(applicantId: number, universityId: number): Promise<{ recommenderId: number; recommenderName: string; status: LetterStatus }[]> {
+    await ensureInit();
+    return all(db, `
+      SELECT r.id as recommenderId, r.name as recommenderName, ru.status
+      FROM recommender_universities ru JOIN recommenders r ON r.id = ru.recommenderId
+      WHERE r.applicantId = ? AND ru.universityId = ?
+      ORDER BY r.name COLLATE NOCASE ASC
+    `, [applicantId, universityId]);
+  },
+
+  // Adds the recommender's letter for a university or moves it to a new status.
+  // Callers check that the university belongs to the applicant.
+  async setLetter(applicantId: number, id: number, universityId: number, status: LetterStatus): Promise<Recommender | undefined> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
+    const letter = current.letters.find(l => l.universityId === universityId);
+    if (letter?.status === status) return current;
+    
+    await run(db, `
+      INSERT INTO recommender_universities (recommenderId, universityId, status, updatedAt) VALUES (?, ?, ?, ?)
+      ON CONFLICT (recommenderId, universityId) DO UPDATE SET status = excluded.status, updatedAt = excluded.updatedAt
+    `, [id, universityId, status, new Date().toISOString()]);
+    await clearLetterSuggestions(id, universityId);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'recommender', id, current, updated, ['letters']);
+    
+    try {
+      await TaskGenerator.generateTasksForUniversity(applicantId, universityId);
+    } catch (e) {
+      console.log('Failed to generate tasks for recommendation letter:', e);
+    }
+    return updated;
+  },
+
+  // False when the recommender wasn't writing for this university
+  async removeLetter(applicantId: number, id: number, universityId: number): Promise<boolean> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current?.letters.some(l => l.universityId === universityId)) return false;
+    
+    await run(db, 'DELETE FROM recommender_universities WHERE recommenderId = ? AND universityId = ?', [id, universityId]);
+    await clearLetterSuggestions(id, universityId);
+    await recordChanges(applicantId, 'recommender', id, current, (await this.getById(applicantId, id))!, ['letters']);
+    
+    try {
+      await TaskGenerator.generateTasksForUniversity(applicantId, universityId);
+    } catch (e) {
+      console.log('Failed to generate tasks for recommendation letter:', e);
+    }
+    return true;
+  },
+
+  // Letters against what each university asks for. Universities that want none
+  // are listed too (required 0) when someone is writing for them.
+  async getCoverage(applicantId: number): Promise<LetterCoverage[]> {
+    await ensureInit();
+    const [universities, recommenders] = await Promise.all([UniversityService.getAll(applicantId), this.getAll(applicantId)]);
+    const letters = recommenders.flatMap(r => r.letters);
+    return universities.map(university => {
+      const requirements = parseRequirements(university);
+      const going = letters.filter(l => l.universityId === university.id);
+      return {
+        universityId: university.id,
+        universityName: university.name,
+        required: requirements.recommendations?.required ? requirements.recommendations.count || 1 : 0,
+        asked: going.filter(l => l.status === 'asked').length,
+        agreed: going.filter(l => l.status === 'agreed').length,
+        submitted: going.filter(l => l.status === 'submitted').length,
+      };
+    }).filter(row => row.required > 0 || row.asked + row.agreed + row.submitted > 0);
+  },
+};
+
+// The readiness item for letters: every university that asks for them has enough
+// submitted. With none asking, having a recommender lined up is enough.
+async function letterReadiness(applicantId: number): Promise<ReadinessItem> {
+  const coverage = (await RecommenderService.getCoverage(applicantId)).filter(row => row.required > 0);
+  if (coverage.length === 0) {
+    const count = (await RecommenderService.getAll(applicantId)).length;
+    return { name: 'Recommendations', complete: count > 0, status: count > 0 ? `${count} recommender${count !== 1 ? 's' : ''}` : 'No recommenders yet' };
+  }
+  const needed = coverage.reduce((sum, row) => sum + row.required, 0);
+  const submitted = coverage.reduce((sum, row) => sum + Math.min(row.submitted, row.required), 0);
+  return {
+    name: 'Recommendations',
+    complete: coverage.every(row => row.submitted >= row.required),
+    status: `${submitted} of ${needed} letters submitted`,
+  };
+}
+
+// Essay Service: prompts each university asks, and the drafts answering them.
+// A draft's text lives in essay_versions, one row per saved version; the latest
+// is the draft's current content.
+const ESSAY_SELECT = `
+  SELECT e.*, p.universityId, v.content, v.wordCount, v.version
+  FROM essays e
+  JOIN essay_prompts p ON p.id = e.promptId
+  JOIN essay_versions v ON v.essayId = e.id AND v.version = (SELECT MAX(version) FROM essay_versions WHERE essayId = e.id)
+`;
+
+// How a prompt is named in task titles: its label, or the start of the question
+const promptLabel = (prompt: EssayPrompt) =>
+  prompt.title || (prompt.prompt.length > 40 ? `${prompt.prompt.slice(0, 40).trimEnd()}…` : prompt.prompt);
+
+async function addEssayVersion(essayId: number, version: number, content: string) {
+  await run(db, 'INSERT INTO essay_versions (essayId, version, content, wordCount, createdAt) VALUES (?, ?, ?, ?, ?)',
+    [essayId, version, content, countWords(content), new Date().toISOString()]);
+}
+
+// Replaces the suggestions for a prompt (and the university's "add prompts" one)
+// with those that fit its drafts now
+async function refreshEssayTasks(applicantId: number, universityId: number, promptId: number) {
+  await run(db, "DELETE FROM tasks WHERE universityId = ? AND (essayPromptId = ? OR profileItemType = 'essays') AND status IN ('suggested', 'snoozed')", [universityId, promptId]);
+  try {
+    await TaskGenerator.generateTasksForUniversity(applicantId, universityId);
+  } catch (e) {
+    console.log('Failed to generate essay tasks:', e);
+  }
+}
+
+// A prompt goes with its drafts and their versions. Its suggested tasks go too;
+// tasks already taken on are kept without the link.
+async function removeEssayPrompt(id: number) {
+  await run(db, 'DELETE FROM essay_versions WHERE essayId IN (SELECT id FROM essays WHERE promptId = ?)', [id]);
+  await run(db, 'DELETE FROM essays WHERE promptId = ?', [id]);
+  await run(db, "DELETE FROM tasks WHERE essayPromptId = ? AND status IN ('suggested', 'snoozed', 'dismissed')", [id]);
+  await run(db, 'UPDATE tasks SET essayPromptId = NULL WHERE essayPromptId = ?', [id]);
+  await run(db, 'DELETE FROM essay_prompts WHERE id = ?', [id]);
+}
+
+type EssayPromptInput = Pick<EssayPrompt, 'universityId' | 'prompt'> & Partial<Pick<EssayPrompt, 'title' | 'wordLimit' | 'notes'>>;
+type EssayInput = Pick<Essay, 'promptId'> & Partial<Pick<Essay, 'title' | 'status' | 'content'>>;
+
+export const EssayService = {
+  async getPrompts(applicantId: number, universityId?: number): Promise<EssayPrompt[]> {
+    await ensureInit();
+    const where = universityId ? ' AND universityId = ?' : '';
+    return all<EssayPrompt>(db, `SELECT * FROM essay_prompts WHERE applicantId = ?${where} ORDER BY universityId ASC, createdAt ASC`,
+      universityId ? [applicantId, universityId] : [applicantId]);
+  },
+
+  async getPrompt(applicantId: number, id: number): Promise<EssayPrompt | undefined> {
+    await ensureInit();
+    return get<EssayPrompt>(db, 'SELECT * FROM essay_prompts WHERE id = ? AND applicantId = ?', [id, applicantId]);
+  },
+
+  async createPrompt(applicantId: number, prompt: EssayPromptInput): Promise<EssayPrompt> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    const result = await run(db, `
+      INSERT INTO essay_prompts (applicantId, universityId, title, prompt, wordLimit, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [applicantId, prompt.universityId, prompt.title || null, prompt.prompt.trim(), prompt.wordLimit ?? null, prompt.notes || null, now, now]);
+    await recordCreated(applicantId, 'essay_prompt', result.lastID);
+    await refreshEssayTasks(applicantId, prompt.universityId, result.lastID);
+    return (await this.getPrompt(applicantId, result.lastID))!;
+  },
+
+  // A prompt stays with its university; callers reject a different universityId
+  async updatePrompt(applicantId: number, id: number, updates: Partial<EssayPrompt>): Promise<EssayPrompt | undefined> {
+    await ensureInit();
+    const current = await this.getPrompt(applicantId, id);
+    if (!current) return undefined;
+    
+    const changes = updatedColumns(updates, essayPromptFields, ['universityId']);
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0) return current;
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE essay_prompts SET ${[...fields, 'updatedAt = ?'].join(', ')} WHERE id = ? AND applicantId = ?`, values);
+    const updated = (await this.getPrompt(applicantId, id))!;
+    await recordChanges(applicantId, 'essay_prompt', id, current, updated, Object.keys(changes));
+    if ('wordLimit' in changes || 'title' in changes) await refreshEssayTasks(applicantId, current.universityId, id);
+    return updated;
+  },
+
+  async deletePrompt(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    const current = await this.getPrompt(applicantId, id);
+    if (!current) return false;
+    await removeEssayPrompt(id);
+    await refreshEssayTasks(applicantId, current.universityId, id);
+    return true;
+  },
+
+  async getAll(applicantId: number, filters: EssayQuery = {}): Promise<Essay[]> {
+    await ensureInit();
+    const where = ['e.applicantId = ?'];
+    const params: any[] = [applicantId];
+    if (filters.universityId) {
+      where.push('p.universityId = ?');
+      params.push(filters.universityId);
+    }
+    if (filters.promptId) {
+      where.push('e.promptId = ?');
+      params.push(filters.promptId);
+    }
+    if (filters.status?.length) {
+      where.push(`e.status IN (${filters.status.map(() => '?').join(', ')})`);
+      params.push(...filters.status);
+    }
+    return all<Essay>(db, `${ESSAY_SELECT} WHERE ${where.join(' AND ')} ORDER BY p.universityId ASC, e.promptId ASC, e.createdAt ASC`, params);
+  },
+
+  async getById(applicantId: number, id: number): Promise<Essay | undefined> {
+    await ensureInit();
+    return get<Essay>(db, `${ESSAY_SELECT} WHERE e.id = ? AND e.applicantId = ?`, [id, applicantId]);
+  },
+
+  // Newest first; undefined when the draft doesn't exist
+  async getVersions(applicantId: number, id: number): Promise<EssayVersion[] | undefined> {
+    await ensureInit();
+    if (!await this.getById(applicantId, id)) return undefined;
+    return all<EssayVersion>(db, 'SELECT * FROM essay_versions WHERE essayId = ? ORDER BY version DESC', [id]);
+  },
+
+  // Callers check that the prompt belongs to the applicant
+  async create(applicantId: number, essay: EssayInput): Promise<Essay> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    const result = await run(db, `
+      INSERT INTO essays (applicantId, promptId, title, status, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [applicantId, essay.promptId, essay.title || null, essay.status || 'outline', now, now]);
+    await addEssayVersion(result.lastID, 1, essay.content ?? '');
+    await recordCreated(applicantId, 'essay', result.lastID);
+    
+    const created = (await this.getById(applicantId, result.lastID))!;
+    await refreshEssayTasks(applicantId, created.universityId, created.promptId);
+    return created;
+  },
+
+  // Content that differs from the latest version is saved as the next version
+  async update(applicantId: number, id: number, updates: Partial<Essay>): Promise<Essay | undefined> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
+    
+    const changes: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(updates)) {
+      if (key in essayFields && key !== 'content') changes[key] = value;
+    }
+    const content = updates.content ?? (updates.content === null ? '' : undefined);
+    const newVersion = content !== undefined && content !== current.content;
+    
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0 && !newVersion) return current;
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE essays SET ${[...fields, 'updatedAt = ?'].join(', ')} WHERE id = ? AND applicantId = ?`, values);
+    if (newVersion) await addEssayVersion(id, current.version + 1, content);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'essay', id, current, updated, newVersion ? [...Object.keys(changes), 'version'] : Object.keys(changes));
+    
+    await refreshEssayTasks(applicantId, updated.universityId, updated.promptId);
+    if (updated.promptId !== current.promptId) await refreshEssayTasks(applicantId, current.universityId, current.promptId);
+    return updated;
+  },
+
+  async delete(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return false;
+    await run(db, 'DELETE FROM essay_versions WHERE essayId = ?', [id]);
+    await run(db, 'DELETE FROM essays WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    await refreshEssayTasks(applicantId, current.universityId, current.promptId);
+    return true;
+  },
+
+  // Prompts grouped by similarity across universities, the draft to adapt for
+  // each prompt that has none, and drafts whose text shouldn't go where it is
+  async getLibrary(applicantId: number): Promise<EssayLibrary> {
+    await ensureInit();
+    const prompts = await this.getPrompts(applicantId);
+    const essays = await this.getAll(applicantId);
+    const universities = await all<{ id: number; name: string }>(db, 'SELECT id, name FROM universities WHERE applicantId = ?', [applicantId]);
+    
+    const universityName = new Map<number, string>(universities.map(u => [u.id, u.name]));
+    const ignore = nameTerms(universities.map(u => u.name));
+    const similarity = (a: EssayPrompt, b: EssayPrompt) => promptSimilarity(a.prompt, b.prompt, ignore);
+    const clusters = clusterBySimilarity(prompts, similarity);
+    const clusterOf = new Map<number, EssayPrompt[]>();
+    for (const cluster of clusters) for (const prompt of cluster) clusterOf.set(prompt.id, cluster);
+    
+    // The furthest-along draft wins, then the most similar prompt
+    const reuse: EssayReuse[] = [];
+    for (const prompt of prompts) {
+      if (essays.some(e => e.promptId === prompt.id)) continue;
+      const candidates = (clusterOf.get(prompt.id) ?? [])
+        .filter(other => other.id !== prompt.id)
+        .flatMap(other => essays
+          .filter(e => e.promptId === other.id && e.content.trim())
+          .map(essay => ({ essay, similarity: similarity(prompt, other) })))
+        .sort((a, b) => ESSAY_STATUSES.indexOf(b.essay.status) - ESSAY_STATUSES.indexOf(a.essay.status) || b.similarity - a.similarity);
+      if (candidates[0]) {
+        reuse.push({ promptId: prompt.id, essayId: candidates[0].essay.id, similarity: Math.round(candidates[0].similarity * 100) / 100 });
+      }
+    }
+    
+    const promptOf = new Map<number, EssayPrompt>(prompts.map(p => [p.id, p]));
+    const describe = (essay: Essay) => `"${promptLabel(promptOf.get(essay.promptId)!)}" for ${universityName.get(essay.universityId)}`;
+    const warnings: EssayWarning[] = [];
+    
+    // Final essays answering the same kind of question at different universities
+    // are meant to share text; anywhere else it reads as recycled
+    const finals = essays.filter(e => e.status === 'final');
+    for (let i = 0; i < finals.length; i++) {
+      for (let j = i + 1; j < finals.length; j++) {
+        const [a, b] = [finals[i], finals[j]];
+        if (a.promptId === b.promptId) continue;
+        if (a.universityId !== b.universityId && clusterOf.get(a.promptId)?.some(p => p.id === b.promptId)) continue;
+        const overlap = textOverlap(a.content, b.content);
+        if (overlap < ESSAY_OVERLAP) continue;
+        warnings.push({
+          type: 'overlap',
+          essayId: a.id,
+          otherEssayId: b.id,
+          overlap: Math.round(overlap * 100) / 100,
+          message: `Final essays ${describe(a)} and ${describe(b)} share ${Math.round(overlap * 100)}% of their text`,
+        });
+      }
+    }
+    
+    for (const essay of essays) {
+      const others = universities.filter(u => u.id !== essay.universityId);
+      for (const university of mentionedUniversities(essay.content, universityName.get(essay.universityId) ?? '', others)) {
+        warnings.push({ type: 'wrong_university', essayId: essay.id, universityId: university.id, message: `Draft ${describe(essay)} mentions ${university.name}` });
+      }
+    }
+    
+    return { clusters: clusters.map(cluster => ({ promptIds: cluster.map(p => p.id) })), reuse, warnings };
+  },
+};
+
+// The readiness item for essays: each university that asks for essays has that
+// many prompts with a final draft. With none asking, the profile's personal
+// statement status stands in.
+async function essayReadiness(applicantId: number, profile: Profile): Promise<ReadinessItem> {
+  const universities = (await UniversityService.getAll(applicantId))
+    .map(university => ({ id: university.id, requirement: parseRequirements(university).essays }))
+    .filter(university => university.requirement?.required);
+  if (universities.length === 0) {
+    return { name: 'Essays', complete: profile.statementStatus === 'complete', status: profile.statementStatus };
+  }
+  
+  const finals = await EssayService.getAll(applicantId, { status: ['final'] });
+  let needed = 0;
+  let done = 0;
+  for (const university of universities) {
+    const required = university.requirement!.count || 1;
+    const promptsDone = new Set(finals.filter(e => e.universityId === university.id).map(e => e.promptId)).size;
+    needed += required;
+    done += Math.min(promptsDone, required);
+  }
+  return { name: 'Essays', complete: done === needed, status: `${done} of ${needed} essays final` };
+}
+
+// Test Attempt Service: every sitting of an admission test. Universities compare
+// the score their policy makes of an applicant's sittings (api/scores.ts).
+const toSittings = (attempts: TestAttempt[]): Sitting[] =>
+  attempts.map(a => ({ date: a.date, total: a.total, sections: a.sections ? JSON.parse(a.sections) : {}, subject: a.subject }));
+
+// One readiness item per test a university on the list requires, plus one for
+// English whichever test proves it; the SAT and IELTS/TOEFL until any requires one.
+// Before any one university's policy applies, the best sitting is what there is.
+async function testReadiness(applicantId: number): Promise<ReadinessItem[]> {
+  const universities = await UniversityService.getAll(applicantId);
+  const required = new Set(universities.flatMap(u => {
+    const requirements = parseRequirements(u);
+    return TEST_TYPES.filter(test => requirements[test]?.required);
+  }));
+  const tests = required.size > 0 ? TEST_TYPES.filter(test => required.has(test)) : ['sat', 'ielts', 'toefl'] as TestType[];
+  const attempts = await TestAttemptService.getAll(applicantId, { test: tests });
+  const best = (test: TestType) => policyScore(test, toSittings(attempts.filter(a => a.test === test)), 'highest');
+
+  const items: ReadinessItem[] = tests.filter(test => TESTS[test].category !== 'english').map(test => {
+    const score = best(test);
+    const name = `${TESTS[test].label} ${TESTS[test].category === 'subject' ? 'Grades' : 'Score'}`;
+    return { name, complete: score !== undefined, status: score !== undefined ? `Best: ${formatScore(test, score)}` : 'Missing' };
+  });
+  const english = tests.filter(test => TESTS[test].category === 'english');
+  if (english.length > 0) {
+    const taken = english.find(test => best(test) !== undefined);
+    items.push({
+      name: english.map(test => TESTS[test].label).join('/'),
+      complete: taken !== undefined,
+      status: taken ? `${TESTS[taken].label}: ${formatScore(taken, best(taken)!)}` : 'Missing',
+    });
+  }
+  return items;
+}
+
+// Replaces the suggestions about a test (or, for an English test, about English)
+// at each university that requires it
+async function refreshTestTasks(applicantId: number, test: TestType) {
+  const related = ENGLISH_TESTS.includes(test) ? ENGLISH_TESTS : [test];
+  for (const university of await UniversityService.getAll(applicantId)) {
+    const requirements = parseRequirements(university);
+    if (!related.some(t => requirements[t]?.required)) continue;
+    await run(db, `DELETE FROM tasks WHERE universityId = ? AND profileItemType IN (${related.map(() => '?').join(', ')}) AND status IN ('suggested', 'snoozed')`,
+      [university.id, ...related]);
+    try {
+      await TaskGenerator.generateTasksForUniversity(applicantId, university.id);
+    } catch (e) {
+      console.log('Failed to generate test tasks:', e);
+    }
+  }
+}
+
+type TestAttemptInput = Pick<TestAttempt, 'test' | 'date' | 'total'> & Partial<Pick<TestAttempt, 'subject' | 'sections' | 'notes'>>;
+
+export const TestAttemptService = {
+  // Latest sitting first
+  async getAll(applicantId: number, filters: TestAttemptQuery = {}): Promise<TestAttempt[]> {
+    await ensureInit();
+    const where = ['applicantId = ?'];
+    const params: any[] = [applicantId];
+    if (filters.test?.length) {
+      where.push(`test IN (${filters.test.map(() => '?').join(', ')})`);
+      params.push(...filters.test);
+    }
+    return all<TestAttempt>(db, `SELECT * FROM test_attempts WHERE ${where.join(' AND ')} ORDER BY date DESC, id DESC`, params);
+  },
+
+  async getById(applicantId: number, id: number): Promise<TestAttempt | undefined> {
+    await ensureInit();
+    return get<TestAttempt>(db, 'SELECT * FROM test_attempts WHERE id = ? AND applicantId = ?', [id, applicantId]);
+  },
+
+  // Callers fill in `total` from the sections when it wasn't given
+  async create(applicantId: number, attempt: TestAttemptInput): Promise<TestAttempt> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    const result = await run(db, `
+      INSERT INTO test_attempts (applicantId, test, date, subject, total, sections, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [applicantId, attempt.test, attempt.date, attempt.subject || null, attempt.total, attempt.sections || null, attempt.notes || null, now, now]);
+    await recordCreated(applicantId, 'test_attempt', result.lastID);
+    await refreshTestTasks(applicantId, attempt.test);
+    return (await this.getById(applicantId, result.lastID))!;
+  },
+
+  async update(applicantId: number, id: number, updates: Partial<TestAttempt>): Promise<TestAttempt | undefined> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return undefined;
+    
+    const changes = updatedColumns(updates, testAttemptFields);
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0) return current;
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE test_attempts SET ${[...fields, 'updatedAt = ?'].join(', ')} WHERE id = ? AND applicantId = ?`, values);
+    const updated = (await this.getById(applicantId, id))!;
+    await recordChanges(applicantId, 'test_attempt', id, current, updated, Object.keys(changes));
+    
+    await refreshTestTasks(applicantId, updated.test);
+    if (updated.test !== current.test) await refreshTestTasks(applicantId, current.test);
+    return updated;
+  },
+
+  async delete(applicantId: number, id: number): Promise<boolean> {
+    await ensureInit();
+    const current = await this.getById(applicantId, id);
+    if (!current) return false;
+    await run(db, 'DELETE FROM test_attempts WHERE id = ? AND applicantId = ?', [id, applicantId]);
+    await refreshTestTasks(applicantId, current.test);
+    return true;
+  },
+
+  // The score each of the university's tests is judged by under its policy
+  async getUniversityScores(applicantId: number, universityId: number): Promise<UniversityScore[] | undefined> {
+    await ensureInit();
+    const university = await UniversityService.getById(applicantId, universityId);
+    if (!university) return undefined;
+    
+    const requirements = parseRequirements(university);
+    const attempts = await this.getAll(applicantId);
+    return TEST_TYPES.filter(test => requirements[test]?.required).map(test => {
+      const requirement = requirements[test]!;
+      const sittings = toSittings(attempts.filter(a => a.test === test));
+      const policy = requirement.scorePolicy ?? DEFAULT_SCORE_POLICY;
+      const count = TESTS[test].category === 'subject' ? requirement.count ?? 1 : undefined;
+      return {
+        test,
+        policy,
+        score: policyScore(test, sittings, policy, count),
+        minScore: requirement.minScore,
+        avgScore: requirement.avgScore,
+        count,
+        sittings: sittings.length,
+      };
+    });
+  },
+};
+
+// Notification Service. Notifications are written by the reminder scheduler
+// (api/reminders.ts); the API only reads them and flips their read state.
+async function deleteNotifications(entityType: NotificationEntity, entityId: number) {
+  await run(db, 'DELETE FROM notifications WHERE entityType = ? AND entityId = ?', [entityType, entityId]);
+}
+
+export const NotificationService = {
+  // Newest first
+  async getAll(applicantId: number, filters: NotificationQuery = {}): Promise<Notification[]> {
+    await ensureInit();
+    const readFilter = filters.status === 'unread' ? ' AND readAt IS NULL' : filters.status === 'read' ? ' AND readAt IS NOT NULL' : '';
+    return all<Notification>(db, `SELECT * FROM notifications WHERE applicantId = ?${readFilter} ORDER BY createdAt DESC, id DESC`, [applicantId]);
+  },
+
+  async getById(applicantId: number, id: number): Promise<Notification | undefined> {
+    await ensureInit();
+    return get<Notification>(db, 'SELECT * FROM notifications WHERE id = ? AND applicantId = ?', [id, applicantId]);
+  },
+
+  // False when this item already had a reminder at this offset
+  async create(notification: Omit<Notification, 'id' | 'createdAt' | 'readAt'>): Promise<boolean> {
+    await ensureInit();
+    const result = await run(db, `
+      INSERT OR IGNORE INTO notifications (applicantId, entityType, entityId, universityId, offsetDays, title, message, dueAt, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      notification.applicantId, notification.entityType, notification.entityId, notification.universityId ?? null,
+      notification.offsetDays, notification.title, notification.message, notification.dueAt, new Date().toISOString(),
+    ]);
+    return result.changes > 0;
+  },
+
+  async setRead(applicantId: number, id: number, read: boolean): Promise<Notification | undefined> {
+    await ensureInit();
+    await run(db, 'UPDATE notifications SET readAt = ? WHERE id = ? AND applicantId = ?', [read ? new Date().toISOString() : null, id, applicantId]);
+    return this.getById(applicantId, id);
+  },
+
+  async markAllRead(applicantId: number): Promise<number> {
+    await ensureInit();
+    const result = await run(db, 'UPDATE notifications SET readAt = ? WHERE applicantId = ? AND readAt IS NULL', [new Date().toISOString(), applicantId]);
+    return result.changes;
+  },
+};
+
+// Digest Recipient Service (who the email digest goes to; see api/digest.ts)
+export const DigestRecipientService = {
+  async getAll(applicantId: number): Promise<DigestRecipient[]> {
+    await ensureInit();
+    return all<DigestRecipient>(db, 'SELECT * FROM digest_recipients WHERE applicantId = ? ORDER BY createdAt ASC', [applicantId]);
+  },
+
+  async getById(applicantId: number, id: number): Promise<DigestRecipient | undefined> {
+    await ensureInit();
+    return get<DigestRecipient>(db, 'SELECT * FROM digest_recipients WHERE id = ? AND applicantId = ?', [id, applicantId]);
+  },
+
+  async create(applicantId: number, recipient: Omit<DigestRecipient, 'id' | 'applicantId' | 'lastSentAt' | 'createdAt' | 'updatedAt'>): Promise<DigestRecipient> {
+    await ensureInit();
+    const now = new Date().toISOString();
+    const result = await run(db, `
+      INSERT INTO digest_recipients (applicantId, email, name, frequency, dayOfWeek, hour, timezone, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [applicantId, recipient.email, recipient.name || null, recipient.frequency, recipient.dayOfWeek, recipient.hour, recipient.timezone, now, now]);
+    return (await this.getById(applicantId, result.lastID))!;
+  },
+
+  async update(applicantId: number, id: number, updates: Partial<DigestRecipient>): Promise<DigestRecipient | undefined> {
+    await ensureInit();
+    const changes = updatedColumns(updates, digestRecipientFields);
+    const fields = Object.keys(changes).map(key => `${key} = ?`);
+    if (fields.length === 0) return this.getById(applicantId, id);
+    
+    const values: any[] = [...Object.values(changes), new Date().toISOString(), id, applicantId];
+    await run(db, `UPDATE digest_recipients SET ${fields.join(', ')}, updatedAt = ? WHERE id = ? AND applicantId = ?`, values);
+    return this.getById(applicantId, id);
+  },
+
+  async markSent(id: number, sentAt: string) {
+    await ensureInit();
+    await run(db, 'UPDATE digest_recipients SET lastSentAt = ? WHERE id = ?', [sentAt, id]);
+  },
+
+  async delete(applicantId: number, id: number): Promise<boolean> {
     await ensureInit();
-    const result = await run(db, 'DELETE FROM tasks WHERE id = ?', [id]);
+    const result = await run(db, 'DELETE FROM digest_recipients WHERE id = ? AND applicantId = ?', [id, applicantId]);
     return result.changes > 0;
   },
 };
@@ -0,0 +1,151 @@
+// Email digest: what's coming up, what's overdue and how ready the profile is,
+// rendered as HTML and plain text and sent to each recipient on their own
+// schedule through whichever mail transport is configured (see mail.ts).
+import { ApplicantService, DeadlineService, TaskService, ProfileService, DigestRecipientService } from './db.js';
+import { localParts, zonedTimeToUtc } from './timezones.js';
+import { formatAddress } from './mail.js';
+import type { MailTransport } from './mail.js';
+import type { Digest, DigestRecipient, RenderedDigest } from './types.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How far ahead the digest looks for deadlines
+const LOOKAHEAD_DAYS = 14;
+
+export async function buildDigest(applicantId: number, timezone: string, now = new Date()): Promise<Digest> {
+  const today = localParts(now, timezone).date;
+  const horizon = now.getTime() + LOOKAHEAD_DAYS * DAY;
+  const [applicant, deadlines, tasks, readiness] = await Promise.all([
+    ApplicantService.getById(applicantId),
+    DeadlineService.getAll(applicantId),
+    TaskService.getAll(applicantId),
+    ProfileService.getReadinessScore(applicantId),
+  ]);
+  return {
+    applicant: applicant!,
+    generatedAt: now.toISOString(),
+    timezone,
+    deadlines: deadlines.filter(d => {
+      if (!d.dueAt) return false;
+      const dueAt = new Date(d.dueAt).getTime();
+      return dueAt >= now.getTime() && dueAt <= horizon;
+    }),
+    overdueTasks: tasks.filter(t => (t.status === 'todo' || t.status === 'in_progress') && !!t.dueDate && t.dueDate < today),
+    readiness,
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+export function renderDigest(digest: Digest): RenderedDigest {
+  const formatDue = (dueAt: string) => new Date(dueAt).toLocaleString('en-US', {
+    timeZone: digest.timezone, weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+  });
+  const formatDay = (date: string) => new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const deadlines = digest.deadlines.map(d => ({
+    title: `${d.universityName}: ${d.label || d.type.replace(/_/g, ' ')}`,
+    when: formatDue(d.dueAt!),
+  }));
+  const tasks = digest.overdueTasks.map(t => ({ title: t.title, when: `was due ${formatDay(t.dueDate!)}` }));
+  const missing = digest.readiness.items.filter(item => !item.complete);
+  const { score, completed, total } = digest.readiness;
+
+  const subject = `Uni Tracker digest for ${digest.applicant.name}: ${plural(deadlines.length, 'deadline')}, ${plural(tasks.length, 'overdue task')}`;
+
+  const text = [
+    `Uni Tracker digest for ${digest.applicant.name}`,
+    '',
+    `DEADLINES IN THE NEXT ${LOOKAHEAD_DAYS} DAYS`,
+    ...(deadlines.length > 0 ? deadlines.map(d => `- ${d.title} (${d.when})`) : ['Nothing due.']),
+    '',
+    'OVERDUE TASKS',
+    ...(tasks.length > 0 ? tasks.map(t => `- ${t.title} (${t.when})`) : ['None. Nice work.']),
+    '',
+    `READINESS: ${score}% (${completed} of ${total})`,
+    ...missing.map(item => `- ${item.name}: ${item.status}`),
+    '',
+    `Times are shown in ${digest.timezone}.`,
+  ].join('\n');
+
+  const list = (items: { title: string; when: string }[], empty: string) => items.length > 0
+    ? `<ul style="padding-left:1.2em;margin:0">${items.map(i => `<li style="margin:0 0 6px">${escapeHtml(i.title)} <span style="color:#6b6560">(${escapeHtml(i.when)})</span></li>`).join('')}</ul>`
+    : `<p style="margin:0;color:#6b6560">${empty}</p>`;
+  const heading = (title: string) => `<h2 style="font-size:13px;letter-spacing:0.08em;text-transform:uppercase;color:#c48b64;margin:24px 0 8px">${title}</h2>`;
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f5f0eb;font-family:Helvetica,Arial,sans-serif;color:#161616">
+<div style="max-width:560px;margin:0 auto;background:#fff;padding:24px 28px;border-radius:12px">
+<h1 style="font-family:Georgia,serif;font-weight:500;font-size:22px;margin:0">Uni Tracker digest for ${escapeHtml(digest.applicant.name)}</h1>
+${heading(`Deadlines in the next ${LOOKAHEAD_DAYS} days`)}
+${list(deadlines, 'Nothing due.')}
+${heading('Overdue tasks')}
+${list(tasks, 'None. Nice work.')}
+${heading('Readiness')}
+<p style="margin:0 0 8px"><strong style="font-size:20px">${score}%</strong> <span style="color:#6b6560">${completed} of ${total} complete</span></p>
+${list(missing.map(item => ({ title: item.name, when: item.status })), 'Everything is in place.')}
+<p style="margin:24px 0 0;font-size:12px;color:#a39e99">Times are shown in ${escapeHtml(digest.timezone)}.</p>
+</div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export async function sendDigest(recipient: DigestRecipient, transport: MailTransport, from: string, now = new Date()) {
+  const rendered = renderDigest(await buildDigest(recipient.applicantId, recipient.timezone, now));
+  await transport.send({ from, to: formatAddress(recipient.name, recipient.email), ...rendered });
+}
+
+// The latest time at or before `now` that this recipient's digest was due; undefined when turned off
+export function lastScheduledSlot(recipient: DigestRecipient, now: Date): Date | undefined {
+  if (recipient.frequency === 'off') return undefined;
+  const time = `${String(recipient.hour).padStart(2, '0')}:00`;
+  for (let back = 0; back <= 7; back++) {
+    const { date, weekday } = localParts(new Date(now.getTime() - back * DAY), recipient.timezone);
+    if (recipient.frequency === 'weekly' && weekday !== recipient.dayOfWeek) continue;
+    const slot = new Date(zonedTimeToUtc(date, time, recipient.timezone)!);
+    if (slot <= now) return slot;
+  }
+  return undefined;
+}
+
+// Send every digest whose slot has come round since it was last sent. A slot from
+// before the recipient was added doesn't count, so adding one never sends straight away.
+export async function checkDigests(transport: MailTransport, from: string, now = new Date()): Promise<number> {
+  let sent = 0;
+  for (const applicant of await ApplicantService.getAll()) {
+    for (const recipient of await DigestRecipientService.getAll(applicant.id)) {
+      const slot = lastScheduledSlot(recipient, now);
+      if (!slot || slot.toISOString() < recipient.createdAt) continue;
+      if (recipient.lastSentAt && recipient.lastSentAt >= slot.toISOString()) continue;
+      try {
+        await sendDigest(recipient, transport, from, now);
+        await DigestRecipientService.markSent(recipient.id, now.toISOString());
+        sent++;
+      } catch (error) {
+        console.error(`Digest to ${recipient.email} failed:`, error);
+      }
+    }
+  }
+  return sent;
+}
+
+// Check every `intervalMinutes`; a digest goes out on the first check after its hour
+export function startDigestSchedule(intervalMinutes: number, transport: MailTransport, from: string) {
+  const timer = setInterval(async () => {
+    try {
+      const sent = await checkDigests(transport, from);
+      if (sent > 0) console.log(`📧 Sent ${plural(sent, 'digest')} via ${transport.name}`);
+    } catch (error) {
+      console.error('Digest check failed:', error);
+    }
+  }, intervalMinutes * 60 * 1000);
+  timer.unref();
+  console.log(`📧 Email digests checked every ${intervalMinutes}m, sent via ${transport.name}`);
+}
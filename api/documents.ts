@@ -0,0 +1,67 @@
+// Files in the document vault, kept next to the database in one folder per
+// applicant. Their metadata lives in the documents table (DocumentService).
+import path from 'path';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { access, mkdir, rm, unlink, writeFile } from 'fs/promises';
+import { DocumentService } from './db.js';
+import type { VaultDocument } from './types.js';
+
+const DOCUMENTS_DIR = path.join(os.homedir(), 'clawd', 'data', 'documents');
+
+const applicantDir = (applicantId: number) => path.join(DOCUMENTS_DIR, String(applicantId));
+
+export type DocumentUpload = Pick<VaultDocument, 'type' | 'title' | 'fileName'>
+  & Partial<Pick<VaultDocument, 'issuedDate' | 'tags' | 'requirementType' | 'universityIds' | 'mimeType' | 'notes'>>
+  & { content: string };
+
+// The file in an upload's base64 `content`; undefined when it isn't base64 or is empty
+export function decodeContent(content: string): Buffer | undefined {
+  const data = content.replace(/\s/g, '');
+  if (!data || !/^[A-Za-z0-9+/]*={0,2}$/.test(data) || data.length % 4 !== 0) return undefined;
+  return Buffer.from(data, 'base64');
+}
+
+// Stored under a generated name, so an uploaded file name never becomes part of a path.
+// Only a plain extension is kept, for anyone browsing the folder.
+export async function storeDocument(applicantId: number, upload: DocumentUpload): Promise<VaultDocument> {
+  const { content, ...metadata } = upload;
+  const file = decodeContent(content)!;
+  const extension = path.extname(upload.fileName).toLowerCase();
+  const storedName = `${randomUUID()}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ''}`;
+
+  await mkdir(applicantDir(applicantId), { recursive: true });
+  await writeFile(path.join(applicantDir(applicantId), storedName), file);
+  try {
+    return await DocumentService.create(applicantId, { ...metadata, size: file.length }, storedName);
+  } catch (error) {
+    await unlink(path.join(applicantDir(applicantId), storedName)).catch(() => {});
+    throw error;
+  }
+}
+
+// Absolute path to a document's file; undefined when the document or its file is
+// missing (a restored backup brings back metadata, not files)
+export async function documentFilePath(applicantId: number, id: number): Promise<string | undefined> {
+  const storedName = await DocumentService.getStoredName(applicantId, id);
+  if (!storedName) return undefined;
+  const file = path.join(applicantDir(applicantId), storedName);
+  try {
+    await access(file);
+    return file;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function removeDocument(applicantId: number, id: number): Promise<boolean> {
+  const storedName = await DocumentService.delete(applicantId, id);
+  if (!storedName) return false;
+  await unlink(path.join(applicantDir(applicantId), storedName)).catch(() => {});
+  return true;
+}
+
+// After ApplicantService.delete has removed their records
+export async function removeApplicantDocuments(applicantId: number) {
+  await rm(applicantDir(applicantId), { recursive: true, force: true });
+}
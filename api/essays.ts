@@ -0,0 +1,121 @@
+// Text helpers for the essay workspace. Drafts and prompts are stored by
+// EssayService (db.ts); this module only looks at their text.
+
+// Words as admissions portals count them: runs of non-space characters
+export function countWords(text: string | null | undefined): number {
+  const trimmed = text?.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+// Prompts this alike are treated as the same question (see promptSimilarity)
+export const PROMPT_SIMILARITY = 0.45;
+
+// Final essays sharing this much of their text are flagged (see textOverlap)
+export const ESSAY_OVERLAP = 0.3;
+
+// Filler that every prompt uses, including the instructions wrapped around the question
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'by', 'can', 'could', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my',
+  'of', 'on', 'or', 'our', 'please', 'so', 'that', 'the', 'their', 'them', 'there', 'this', 'those',
+  'to', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'would',
+  'you', 'your', 'yours', 'want', 'like', 'time', 'describe', 'discuss', 'explain', 'share', 'tell',
+  'reflect', 'word', 'words', 'limit', 'maximum', 'response', 'essay', 'answer', 'question', 'prompt',
+]);
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) ?? [];
+
+// Crude suffix stripping, enough for "challenges"/"challenge" and "studying"/"study"
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+// The words that say what a prompt is asking. University names are passed in
+// `ignore` so "Why Stanford?" and "Why Yale?" come out as the same question.
+function promptTerms(text: string, ignore: Set<string>): Set<string> {
+  return new Set(words(text).filter(w => !STOPWORDS.has(w) && !ignore.has(w)).map(stem));
+}
+
+// Cosine similarity of the two prompts' term sets, from 0 (nothing shared) to 1
+export function promptSimilarity(a: string, b: string, ignore: Set<string> = new Set()): number {
+  const termsA = promptTerms(a, ignore);
+  const termsB = promptTerms(b, ignore);
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+  let shared = 0;
+  for (const term of termsA) if (termsB.has(term)) shared++;
+  return shared / Math.sqrt(termsA.size * termsB.size);
+}
+
+// Every word of every university name, for promptSimilarity's `ignore`
+export function nameTerms(names: string[]): Set<string> {
+  return new Set(names.flatMap(words));
+}
+
+// Groups of items whose texts are at least `threshold` alike, chaining through
+// shared neighbours. Items alike to nothing are left out.
+export function clusterBySimilarity<T>(items: T[], similarity: (a: T, b: T) => number, threshold = PROMPT_SIMILARITY): T[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (similarity(items[i], items[j]) >= threshold) parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(item);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+// Runs of six words, the unit reused text is compared in
+function shingles(text: string): Set<string> {
+  const list = words(text);
+  const result = new Set<string>();
+  for (let i = 0; i + 6 <= list.length; i++) result.add(list.slice(i, i + 6).join(' '));
+  return result;
+}
+
+// Share of the shorter text's six-word runs that also appear in the other, from 0 to 1
+export function textOverlap(a: string, b: string): number {
+  const runsA = shingles(a);
+  const runsB = shingles(b);
+  const [smaller, larger] = runsA.size <= runsB.size ? [runsA, runsB] : [runsB, runsA];
+  if (smaller.size === 0) return 0;
+  let shared = 0;
+  for (const run of smaller) if (larger.has(run)) shared++;
+  return shared / smaller.size;
+}
+
+// How a draft might name a university: in full, or without "University of",
+// "The", a trailing "University"/"College" or a bracketed long form
+// ("Stanford", "Toronto", "KFUPM")
+function nameVariants(name: string): string[] {
+  const short = name
+    .replace(/\s*\(.*\)$/, '')
+    .replace(/^the\s+/i, '')
+    .replace(/^(university|college)\s+of\s+/i, '')
+    .replace(/\s+(university|college)$/i, '')
+    .trim();
+  return short.length >= 4 && short !== name ? [name, short] : [name];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The universities in `others` that `text` mentions by name. A variant that is
+// also part of `own` (the draft's university) doesn't count.
+export function mentionedUniversities<T extends { name: string }>(text: string, own: string, others: T[]): T[] {
+  return others.filter(university => nameVariants(university.name).some(variant => {
+    if (own.toLowerCase().includes(variant.toLowerCase())) return false;
+    const pattern = escapeRegExp(variant).replace(/\s+/g, '\\s+');
+    return new RegExp(`\\b${pattern}\\b`, 'i').test(text);
+  }));
+}
@@ -0,0 +1,96 @@
+// Grading scales and how a GPA on one compares with a minimum on another. Every
+// scale converts through the 4.0 scale, piecewise-linearly between its points.
+import type { GpaScale } from './validation.js';
+import type { GpaScaleDefinition, UniversityGpa } from './types.js';
+
+// The scale registry, served by GET /api/gpa-scales. `points` pair a value on the
+// scale with its 4.0 equivalent, lowest first.
+export const GPA_SCALE_DEFINITIONS: Record<GpaScale, GpaScaleDefinition> = {
+  gpa4: {
+    key: 'gpa4',
+    label: '4.0 scale',
+    min: 0, max: 4, step: 0.01,
+    points: [[0, 0], [4, 4]],
+  },
+  // Saudi and other 5-point university scales: 5.0 is A+, 4.0 B, 2.0 D
+  gpa5: {
+    key: 'gpa5',
+    label: '5.0 scale',
+    min: 0, max: 5, step: 0.01,
+    points: [[0, 0], [2, 1], [5, 4]],
+  },
+  // Saudi high school averages and other percentage grades: 90 and up is an A
+  percentage: {
+    key: 'percentage',
+    label: 'Percentage',
+    min: 0, max: 100, step: 0.1,
+    points: [[0, 0], [60, 1], [70, 2], [80, 3], [90, 3.7], [100, 4]],
+  },
+  // IB Diploma points out of 45
+  ib: {
+    key: 'ib',
+    label: 'IB points',
+    min: 0, max: 45, step: 1,
+    points: [[0, 0], [24, 2], [30, 3], [35, 3.5], [38, 3.7], [40, 3.9], [45, 4]],
+  },
+};
+
+// GPAs and minimums entered before scales existed are on the 4.0 scale
+export const DEFAULT_GPA_SCALE: GpaScale = 'gpa4';
+
+function interpolate(points: [number, number][], value: number): number {
+  if (value <= points[0][0]) return points[0][1];
+  for (let i = 1; i < points.length; i++) {
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    if (value <= x1) return y0 + ((value - x0) / (x1 - x0)) * (y1 - y0);
+  }
+  return points[points.length - 1][1];
+}
+
+// Rounded to the precision the scale is entered in
+function roundTo(scale: GpaScale, value: number): number {
+  const decimals = String(GPA_SCALE_DEFINITIONS[scale].step).split('.')[1]?.length ?? 0;
+  return Number(value.toFixed(decimals));
+}
+
+// A GPA on one scale as its equivalent on another. Where a scale's top band is
+// flat (percentages from 90), the lowest value reaching it is used.
+export function convertGpa(value: number, from: GpaScale, to: GpaScale): number {
+  if (from === to) return value;
+  const fourPoint = interpolate(GPA_SCALE_DEFINITIONS[from].points, value);
+  const inverse = GPA_SCALE_DEFINITIONS[to].points.map(([x, y]) => [y, x] as [number, number])
+    .filter(([y], i, points) => i === 0 || y > points[i - 1][0]);
+  return roundTo(to, interpolate(inverse, fourPoint));
+}
+
+// "3.6/4.0", "92%", "38/45"
+export function formatGpa(value: number, scale: GpaScale): string {
+  if (scale === 'percentage') return `${value}%`;
+  const { max } = GPA_SCALE_DEFINITIONS[scale];
+  return `${value}/${scale === 'ib' ? max : max.toFixed(1)}`;
+}
+
+// A GPA or minimum must be on its scale
+export function checkGpa(value: number, scale: GpaScale): string | undefined {
+  const { min, max, label } = GPA_SCALE_DEFINITIONS[scale];
+  if (value < min || value > max) return `Must be from ${min} to ${max} on the ${label}`;
+}
+
+// The applicant's GPA on the university's scale, and whether it meets its minimum
+export function compareGpa(
+  gpa: number | undefined, gpaScale: GpaScale | undefined,
+  minimum: number | undefined, scale: GpaScale | undefined,
+): UniversityGpa {
+  const universityScale = scale ?? DEFAULT_GPA_SCALE;
+  const applicantScale = gpaScale ?? DEFAULT_GPA_SCALE;
+  const converted = gpa !== undefined ? convertGpa(gpa, applicantScale, universityScale) : undefined;
+  return {
+    minimum,
+    scale: universityScale,
+    gpa,
+    gpaScale: gpa !== undefined ? applicantScale : undefined,
+    converted,
+    meets: minimum !== undefined && converted !== undefined ? converted >= minimum : undefined,
+  };
+}
@@ -0,0 +1,119 @@
+// iCalendar (RFC 5545) feed of an applicant's deadlines and dated tasks, for
+// subscribing from a phone or desktop calendar. UIDs are derived from row ids,
+// so a calendar refreshing the feed replaces events instead of duplicating them.
+import type { Applicant, University, Task, Deadline, CalendarQuery } from './types.js';
+
+interface CalendarData {
+  universities: University[];
+  deadlines: Deadline[];
+  tasks: Task[];
+}
+
+const UID_DOMAIN = 'uni-tracker';
+
+// TEXT values escape backslashes, separators and newlines
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// 2027-03-28T11:00:00.000Z -> 20270328T110000Z
+const formatInstant = (iso: string) => iso.replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+
+// 2027-03-28 -> 20270328, plus the following day for an all-day event's end
+function formatDay(date: string, addDays = 0): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + addDays);
+  return day.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+function deadlineEvent(deadline: Deadline & { dueAt: string }, stamp: string): string[] {
+  const round = deadline.label || humanize(deadline.type);
+  return [
+    'BEGIN:VEVENT',
+    `UID:deadline-${deadline.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${formatInstant(deadline.updatedAt)}`,
+    `DTSTART:${formatInstant(deadline.dueAt)}`,
+    `DTEND:${formatInstant(deadline.dueAt)}`,
+    `SUMMARY:${escapeText(`${deadline.universityName}: ${round} deadline`)}`,
+    `DESCRIPTION:${escapeText(`Due ${deadline.date} ${deadline.time || '23:59'} (${deadline.timezone})`)}`,
+    'CATEGORIES:Deadline',
+    'END:VEVENT',
+  ];
+}
+
+// Tasks are all-day events on their due date; calendar apps rarely show VTODOs from subscriptions
+function taskEvent(task: Task & { dueDate: string }, university: University | undefined, stamp: string): string[] {
+  const details = [
+    task.description,
+    university && `University: ${university.name}`,
+    `Status: ${humanize(task.status)}`,
+    `Priority: ${humanize(task.priority)}`,
+  ].filter(Boolean).join('\n');
+  return [
+    'BEGIN:VEVENT',
+    `UID:task-${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDay(task.dueDate)}`,
+    `DTEND;VALUE=DATE:${formatDay(task.dueDate, 1)}`,
+    `SUMMARY:${escapeText(task.status === 'done' ? `✓ ${task.title}` : task.title)}`,
+    `DESCRIPTION:${escapeText(details)}`,
+    `STATUS:${task.status === 'suggested' ? 'TENTATIVE' : 'CONFIRMED'}`,
+    'CATEGORIES:Task',
+    'END:VEVENT',
+  ];
+}
+
+export function buildCalendar(applicant: Applicant, data: CalendarData, filters: CalendarQuery = {}): string {
+  const universities = new Map(data.universities.map(u => [u.id, u]));
+  const stamp = formatInstant(new Date().toISOString());
+
+  const deadlines = data.deadlines.filter((deadline): deadline is Deadline & { dueAt: string } =>
+    !!deadline.dueAt &&
+    (!filters.universityId || deadline.universityId === filters.universityId) &&
+    (!filters.priority || filters.priority.includes(universities.get(deadline.universityId)!.priority))
+  );
+  const tasks = data.tasks.filter((task): task is Task & { dueDate: string } =>
+    !!task.dueDate &&
+    (!filters.universityId || task.universityId === filters.universityId) &&
+    (filters.status ? filters.status.includes(task.status) : task.status !== 'dismissed') &&
+    (!filters.priority || filters.priority.includes(task.priority))
+  );
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//Deadlines and tasks//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Uni Tracker: ${applicant.name}`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...deadlines.flatMap(deadline => deadlineEvent(deadline, stamp)),
+    ...tasks.flatMap(task => taskEvent(task, task.universityId ? universities.get(task.universityId) : undefined, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,162 @@
+// Outgoing mail. Every transport takes the same message; which one is used is
+// picked from the environment (MAIL_TRANSPORT), so the digest code never knows.
+//   outbox (default)  writes each message as an .eml file under ~/clawd/data/outbox
+//   smtp              delivers to SMTP_HOST:SMTP_PORT, e.g. a local mail catcher
+import path from 'path';
+import os from 'os';
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (usually port 465)
+  user?: string;
+  pass?: string;
+}
+
+const OUTBOX_DIR = path.join(os.homedir(), 'clawd', 'data', 'outbox');
+
+// Non-ASCII header values go out as RFC 2047 encoded words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+// `Name <user@example.com>`, or just the address without a name. The name is quoted (or
+// encoded when it isn't ASCII) so commas and angle brackets in it stay part of the name,
+// and line breaks are flattened so it can never start a header of its own.
+export function formatAddress(name: string | null | undefined, email: string): string {
+  const display = name?.replace(/[\r\n]+/g, ' ').trim();
+  if (!display) return email;
+  const quoted = /^[\x20-\x7e]*$/.test(display) ? `"${display.replace(/["\\]/g, '\\$&')}"` : encodeHeader(display);
+  return `${quoted} <${email}>`;
+}
+
+const base64Body = (value: string) => Buffer.from(value).toString('base64').replace(/.{76}/g, '$&\r\n');
+
+// A multipart/alternative message with CRLF line endings, ready for DATA or a .eml file
+export function formatMessage(message: MailMessage): string {
+  const boundary = `uni-tracker-${randomUUID()}`;
+  const domain = message.from.split('@')[1]?.replace(/>$/, '') || 'localhost';
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// `user@example.com` or `"Name" <user@example.com>` -> `user@example.com`. The address is
+// the last bracketed part, since a quoted name may contain brackets too.
+const envelopeAddress = (address: string) => address.match(/<([^<>]+)>\s*$/)?.[1] ?? address.trim();
+
+export function createOutboxTransport(dir = OUTBOX_DIR): MailTransport {
+  return {
+    name: 'outbox',
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const recipient = envelopeAddress(message.to).replace(/[^\w.@-]/g, '_');
+      const file = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`;
+      await writeFile(path.join(dir, file), formatMessage(message));
+    },
+  };
+}
+
+// Just enough SMTP for one message per connection: EHLO, optional AUTH PLAIN,
+// MAIL/RCPT/DATA, QUIT. STARTTLS isn't offered; use `secure` for TLS.
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  return {
+    name: 'smtp',
+    send: (message) => new Promise<void>((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      socket.setEncoding('utf8');
+      socket.setTimeout(30000, () => socket.destroy(new Error('SMTP connection timed out')));
+
+      // Each step is the command to send once the previous reply arrives with the expected code
+      const auth = options.user ? Buffer.from(`\0${options.user}\0${options.pass ?? ''}`).toString('base64') : undefined;
+      const data = formatMessage(message).replace(/^\./gm, '..');
+      const steps: [command: string | null, expect: number][] = [
+        [null, 220],
+        [`EHLO ${os.hostname()}`, 250],
+        ...(auth ? [[`AUTH PLAIN ${auth}`, 235] as [string, number]] : []),
+        [`MAIL FROM:<${envelopeAddress(message.from)}>`, 250],
+        [`RCPT TO:<${envelopeAddress(message.to)}>`, 250],
+        ['DATA', 354],
+        [`${data}\r\n.`, 250],
+        ['QUIT', 221],
+      ];
+
+      let buffer = '';
+      let step = 0;
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        // Wait for the last line of a (possibly multi-line) reply: "250 ok" rather than "250-..."
+        const lines = buffer.split('\r\n');
+        const last = lines.length > 1 ? lines[lines.length - 2] : '';
+        if (!/^\d{3} /.test(last)) return;
+        buffer = '';
+
+        const code = Number(last.slice(0, 3));
+        if (code !== steps[step][1]) {
+          socket.destroy();
+          return reject(new Error(`SMTP server replied "${last}"`));
+        }
+        step++;
+        if (step === steps.length) {
+          socket.end();
+          return resolve();
+        }
+        socket.write(`${steps[step][0]}\r\n`);
+      });
+      socket.on('error', reject);
+      // A server that hangs up early would otherwise leave the send waiting forever;
+      // after a successful QUIT this is a no-op
+      socket.on('close', () => reject(new Error('SMTP server closed the connection')));
+    }),
+  };
+}
+
+export function transportFromEnv(env = process.env): MailTransport {
+  if (env.MAIL_TRANSPORT === 'smtp') {
+    return createSmtpTransport({
+      host: env.SMTP_HOST || 'localhost',
+      port: Number(env.SMTP_PORT) || 1025,
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+    });
+  }
+  return createOutboxTransport();
+}
@@ -0,0 +1,73 @@
+// Keyset pagination for the list endpoints. Rows are ordered by one or more
+// sort expressions (NULLs always last) with the row id as the tie-breaker, and
+// the cursor carries the last row's sort values so the next page picks up
+// exactly after it, even if rows were added in between.
+
+export interface SortColumn {
+  expr: string; // SQL expression, e.g. `dueDate` or a CASE ranking priorities
+  desc?: boolean;
+}
+
+interface Cursor {
+  sort: string; // Sort the cursor was issued for; reusing it with another sort is an error
+  values: (string | number | null)[];
+  id: number;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(token: string, sort: string, columns: number): Cursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (cursor?.sort !== sort || !Number.isInteger(cursor.id)) return undefined;
+    if (!Array.isArray(cursor.values) || cursor.values.length !== columns) return undefined;
+    return cursor;
+  } catch {
+    return undefined;
+  }
+}
+
+export function orderBy(columns: SortColumn[], idColumn: string): string {
+  const parts = columns.flatMap(c => [`(${c.expr}) IS NULL`, `${c.expr} ${c.desc ? 'DESC' : 'ASC'}`]);
+  return [...parts, `${idColumn} ASC`].join(', ');
+}
+
+// WHERE clause matching every row that sorts after the cursor
+export function afterCursor(columns: SortColumn[], idColumn: string, cursor: Cursor): { sql: string; params: unknown[] } {
+  const branches: string[] = [];
+  const params: unknown[] = [];
+  const equalSoFar: string[] = [];
+  const equalParams: unknown[] = [];
+
+  columns.forEach((column, i) => {
+    const value = cursor.values[i];
+    // Nothing sorts after NULL except ties on the remaining columns
+    if (value !== null) {
+      branches.push(`(${[...equalSoFar, `((${column.expr}) IS NULL OR ${column.expr} ${column.desc ? '<' : '>'} ?)`].join(' AND ')})`);
+      params.push(...equalParams, value);
+      equalSoFar.push(`${column.expr} = ?`);
+      equalParams.push(value);
+    } else {
+      equalSoFar.push(`(${column.expr}) IS NULL`);
+    }
+  });
+
+  branches.push(`(${[...equalSoFar, `${idColumn} > ?`].join(' AND ')})`);
+  params.push(...equalParams, cursor.id);
+
+  return { sql: `(${branches.join(' OR ')})`, params };
+}
+
+// Pattern for `LIKE ? ESCAPE '\\'` free-text search, with wildcards in the input escaped
+export function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+}
+
+// Thrown by the list queries when a cursor is malformed or was issued for another sort
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+  }
+}
@@ -0,0 +1,88 @@
+// Reminder scheduler: raises a notification as each deadline or open task
+// comes within one of the configured offsets (30, 7 and 1 days by default).
+import { ApplicantService, DeadlineService, TaskService, NotificationService } from './db.js';
+
+export const DEFAULT_REMINDER_OFFSETS = [30, 7, 1];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// "30,7,1" -> [30, 7, 1]; anything unusable falls back to the defaults
+export function parseOffsets(value: string | undefined): number[] {
+  const offsets = (value || '').split(',').map(Number).filter(n => Number.isInteger(n) && n > 0);
+  return offsets.length > 0 ? offsets : DEFAULT_REMINDER_OFFSETS;
+}
+
+// The smallest offset already reached. Larger ones that were skipped (say the item
+// was added five days out) never fire afterwards, so it gets one reminder, not three.
+function reachedOffset(dueAt: Date, now: Date, offsets: number[]): number | undefined {
+  const remaining = dueAt.getTime() - now.getTime();
+  if (remaining < 0) return undefined;
+  const reached = offsets.filter(offset => remaining <= offset * DAY);
+  return reached.length > 0 ? Math.min(...reached) : undefined;
+}
+
+const describeRemaining = (dueAt: Date, now: Date) => {
+  const days = Math.ceil((dueAt.getTime() - now.getTime()) / DAY);
+  return days <= 1 ? 'within a day' : `in ${days} days`;
+};
+
+// One pass over every applicant; returns how many notifications were created
+export async function checkReminders(offsets = DEFAULT_REMINDER_OFFSETS, now = new Date()): Promise<number> {
+  let created = 0;
+  for (const applicant of await ApplicantService.getAll()) {
+    for (const deadline of await DeadlineService.getAll(applicant.id)) {
+      if (!deadline.dueAt) continue;
+      const dueAt = new Date(deadline.dueAt);
+      const offset = reachedOffset(dueAt, now, offsets);
+      if (offset === undefined) continue;
+      const name = deadline.label || deadline.type.replace(/_/g, ' ');
+      if (await NotificationService.create({
+        applicantId: applicant.id,
+        entityType: 'deadline',
+        entityId: deadline.id,
+        universityId: deadline.universityId,
+        offsetDays: offset,
+        title: `${deadline.universityName}: ${name} deadline`,
+        message: `Due ${describeRemaining(dueAt, now)} (${deadline.date} ${deadline.time || '23:59'} ${deadline.timezone})`,
+        dueAt: deadline.dueAt,
+      })) created++;
+    }
+
+    // Only tasks someone has taken on; suggestions and finished tasks stay quiet
+    for (const task of await TaskService.getAll(applicant.id)) {
+      if (!task.dueDate || (task.status !== 'todo' && task.status !== 'in_progress')) continue;
+      // Due by the end of that day, server time
+      const [year, month, day] = task.dueDate.split('-').map(Number);
+      const dueAt = new Date(year, month - 1, day, 23, 59);
+      const offset = reachedOffset(dueAt, now, offsets);
+      if (offset === undefined) continue;
+      if (await NotificationService.create({
+        applicantId: applicant.id,
+        entityType: 'task',
+        entityId: task.id,
+        universityId: task.universityId,
+        offsetDays: offset,
+        title: task.title,
+        message: `Task due ${describeRemaining(dueAt, now)} (${task.dueDate})`,
+        dueAt: dueAt.toISOString(),
+      })) created++;
+    }
+  }
+  return created;
+}
+
+// Check now and then every `intervalMinutes`. Failures are logged and retried next time round.
+export function startReminderSchedule(intervalMinutes: number, offsets = DEFAULT_REMINDER_OFFSETS) {
+  const tick = async () => {
+    try {
+      const created = await checkReminders(offsets);
+      if (created > 0) console.log(`🔔 Created ${created} reminder${created !== 1 ? 's' : ''}`);
+    } catch (error) {
+      console.error('Reminder check failed:', error);
+    }
+  };
+  tick();
+  const timer = setInterval(tick, intervalMinutes * 60 * 1000);
+  timer.unref();
+  console.log(`🔔 Checking reminders every ${intervalMinutes}m at ${offsets.join('/')} days ahead`);
+}
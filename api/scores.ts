@@ -0,0 +1,179 @@
+// Admission tests: their sections and score ranges, and how a university's score
+// policy turns an applicant's sittings into the one score it compares.
+import type { FieldError, ScorePolicy, TestType } from './validation.js';
+import type { TestDefinition } from './types.js';
+
+const sections = (keys: string[], min: number, max: number, step: number) =>
+  keys.map(key => ({ key, label: key[0].toUpperCase() + key.slice(1), min, max, step }));
+
+// The test registry, served by GET /api/tests so forms can offer each test's
+// sections. A new test needs its key in TEST_TYPES (validation.ts) and an entry here.
+export const TESTS: Record<TestType, TestDefinition> = {
+  sat: {
+    key: 'sat',
+    label: 'SAT',
+    category: 'admission',
+    sections: [
+      { key: 'readingWriting', label: 'Reading & Writing', min: 200, max: 800, step: 10 },
+      { key: 'math', label: 'Math', min: 200, max: 800, step: 10 },
+    ],
+    min: 400, max: 1600, step: 10, combine: 'sum',
+  },
+  act: {
+    key: 'act',
+    label: 'ACT',
+    category: 'admission',
+    sections: sections(['english', 'math', 'reading', 'science'], 1, 36, 1),
+    min: 1, max: 36, step: 1, combine: 'average',
+  },
+  ielts: {
+    key: 'ielts',
+    label: 'IELTS',
+    category: 'english',
+    sections: sections(['listening', 'reading', 'writing', 'speaking'], 0, 9, 0.5),
+    min: 0, max: 9, step: 0.5, combine: 'average',
+  },
+  toefl: {
+    key: 'toefl',
+    label: 'TOEFL',
+    category: 'english',
+    sections: sections(['reading', 'listening', 'speaking', 'writing'], 0, 30, 1),
+    min: 0, max: 120, step: 1, combine: 'sum',
+  },
+  duolingo: {
+    key: 'duolingo',
+    label: 'Duolingo English Test',
+    category: 'english',
+    sections: [],
+    min: 10, max: 160, step: 5,
+  },
+  ap: {
+    key: 'ap',
+    label: 'AP',
+    category: 'subject',
+    sections: [],
+    min: 1, max: 5, step: 1,
+  },
+  ib: {
+    key: 'ib',
+    label: 'IB Diploma',
+    category: 'admission',
+    sections: [],
+    min: 0, max: 45, step: 1,
+  },
+  alevel: {
+    key: 'alevel',
+    label: 'A-level',
+    category: 'subject',
+    sections: [],
+    min: 1, max: 6, step: 1,
+    grades: ['E', 'D', 'C', 'B', 'A', 'A*'],
+  },
+  mat: {
+    key: 'mat',
+    label: 'MAT',
+    category: 'admission',
+    sections: [],
+    min: 0, max: 100, step: 1,
+  },
+  qudurat: {
+    key: 'qudurat',
+    label: 'Qudurat (GAT)',
+    category: 'admission',
+    sections: [],
+    min: 0, max: 100, step: 1,
+  },
+  tahsili: {
+    key: 'tahsili',
+    label: 'Tahsili (SAAT)',
+    category: 'admission',
+    sections: [],
+    min: 0, max: 100, step: 1,
+  },
+};
+
+// Tests that prove English; a university asking for more than one takes any of them
+export const ENGLISH_TESTS = (Object.keys(TESTS) as TestType[]).filter(test => TESTS[test].category === 'english');
+
+// Universities that don't say how they read retakes are assumed to take the best sitting
+export const DEFAULT_SCORE_POLICY: ScorePolicy = 'highest';
+
+// What the compared score is called in task descriptions
+export const POLICY_SCORE_NAMES: Record<ScorePolicy, string> = {
+  superscore: 'superscore',
+  highest: 'best score',
+  all: 'latest score',
+};
+
+// The score a sitting is judged by: its total and, where reported, each section.
+// Sittings of subject tests are for one subject each.
+export interface Sitting {
+  date: string;
+  total: number;
+  sections: Record<string, number>;
+  subject?: string;
+}
+
+// A score as the test reports it: A-level grades as letters, the rest as numbers
+export function formatScore(test: TestType, score: number): string {
+  return TESTS[test].grades?.[score - TESTS[test].min] ?? String(score);
+}
+
+// The total the test reports for these section scores, or undefined until every
+// section has one. Averages round to the test's step (IELTS bands go to the nearest half).
+export function totalFromSections(test: TestType, sections: Record<string, number>): number | undefined {
+  const definition = TESTS[test];
+  const scores = definition.sections.map(s => sections[s.key]);
+  if (scores.length === 0 || scores.some(score => score === undefined)) return undefined;
+  const sum = scores.reduce((total, score) => total + score, 0);
+  if (definition.combine === 'sum') return sum;
+  return Math.round(sum / scores.length / definition.step) * definition.step;
+}
+
+// Section scores must be this test's sections, within their range
+export function checkSections(test: TestType, sections: Record<string, unknown>): FieldError[] {
+  const errors: FieldError[] = [];
+  const definition = TESTS[test];
+  for (const [key, score] of Object.entries(sections)) {
+    const section = definition.sections.find(s => s.key === key);
+    if (!section) {
+      errors.push({ field: `sections.${key}`, message: definition.sections.length > 0
+        ? `Not a ${definition.label} section. Must be one of: ${definition.sections.map(s => s.key).join(', ')}`
+        : `${definition.label} has no section scores` });
+    } else if (typeof score !== 'number' || score < section.min || score > section.max) {
+      errors.push({ field: `sections.${key}`, message: `Must be a number from ${section.min} to ${section.max}` });
+    }
+  }
+  return errors;
+}
+
+// The score a university compares against its minimum:
+// - superscore: the best of each section across sittings, combined; sittings
+//   without section scores only count with their total
+// - highest: the best single sitting
+// - all: every score is sent, so the latest sitting is what stands
+// Subject tests ignore the policy: the best grade in each subject counts, and the
+// score is the `count`-th best of those (the grade reached in `count` subjects).
+export function policyScore(test: TestType, sittings: Sitting[], policy: ScorePolicy, count = 1): number | undefined {
+  if (sittings.length === 0) return undefined;
+  if (TESTS[test].category === 'subject') {
+    const subjectBest = new Map<string, number>();
+    for (const sitting of sittings) {
+      const subject = sitting.subject?.trim().toLowerCase() ?? '';
+      subjectBest.set(subject, Math.max(subjectBest.get(subject) ?? sitting.total, sitting.total));
+    }
+    return [...subjectBest.values()].sort((a, b) => b - a)[count - 1];
+  }
+
+  const best = Math.max(...sittings.map(s => s.total));
+  if (policy === 'all') return [...sittings].sort((a, b) => b.date.localeCompare(a.date))[0].total;
+  if (policy === 'highest') return best;
+
+  const sectionBest: Record<string, number> = {};
+  for (const sitting of sittings) {
+    for (const [key, score] of Object.entries(sitting.sections)) {
+      sectionBest[key] = Math.max(sectionBest[key] ?? score, score);
+    }
+  }
+  return Math.max(best, totalFromSections(test, sectionBest) ?? best);
+}
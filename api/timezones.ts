@@ -0,0 +1,94 @@
+// Deadline timezones. Universities publish deadlines in their own local time
+// (usually 23:59), so each deadline keeps an IANA zone and the exact instant
+// it falls due is worked out from that.
+
+// Countries spanning several zones use the one most universities publish in
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  'saudi arabia': 'Asia/Riyadh',
+  'ksa': 'Asia/Riyadh',
+  'uk': 'Europe/London',
+  'united kingdom': 'Europe/London',
+  'england': 'Europe/London',
+  'scotland': 'Europe/London',
+  'wales': 'Europe/London',
+  'ireland': 'Europe/Dublin',
+  'usa': 'America/New_York',
+  'us': 'America/New_York',
+  'united states': 'America/New_York',
+  'canada': 'America/Toronto',
+  'australia': 'Australia/Sydney',
+  'new zealand': 'Pacific/Auckland',
+  'germany': 'Europe/Berlin',
+  'france': 'Europe/Paris',
+  'netherlands': 'Europe/Amsterdam',
+  'switzerland': 'Europe/Zurich',
+  'sweden': 'Europe/Stockholm',
+  'italy': 'Europe/Rome',
+  'spain': 'Europe/Madrid',
+  'turkey': 'Europe/Istanbul',
+  'uae': 'Asia/Dubai',
+  'united arab emirates': 'Asia/Dubai',
+  'qatar': 'Asia/Qatar',
+  'bahrain': 'Asia/Bahrain',
+  'kuwait': 'Asia/Kuwait',
+  'oman': 'Asia/Muscat',
+  'jordan': 'Asia/Amman',
+  'egypt': 'Africa/Cairo',
+  'malaysia': 'Asia/Kuala_Lumpur',
+  'singapore': 'Asia/Singapore',
+  'hong kong': 'Asia/Hong_Kong',
+  'china': 'Asia/Shanghai',
+  'japan': 'Asia/Tokyo',
+  'south korea': 'Asia/Seoul',
+};
+
+// Unknown countries fall back to UTC; the deadline form lets the user pick the right zone
+export function timezoneForCountry(country: string | undefined): string {
+  return COUNTRY_TIMEZONES[(country || '').trim().toLowerCase()] || 'UTC';
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+function offsetMinutes(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((asUtc - instant) / 60000);
+}
+
+// The UTC instant (ISO string) of a wall-clock date and time in `timeZone`.
+// A missing time means the end of that day. Undefined when the date or time
+// isn't a real one, such as free text or 2026-02-30.
+export function zonedTimeToUtc(date: string, time: string | null | undefined, timeZone: string): string | undefined {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = (time || '23:59').split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  // Date.UTC gives NaN for text and rolls impossible dates over, so it must round-trip
+  if (isNaN(wallClock) || new Date(wallClock).toISOString().slice(0, 16) !== `${date}T${time || '23:59'}`) return undefined;
+  // Correct by the offset, then once more in case that step crossed a DST change
+  let instant = wallClock - offsetMinutes(wallClock, timeZone) * 60000;
+  instant = wallClock - offsetMinutes(instant, timeZone) * 60000;
+  return new Date(instant).toISOString();
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// What a clock in `timeZone` shows at `instant`: its YYYY-MM-DD date, weekday (0 = Sunday) and hour
+export function localParts(instant: Date, timeZone: string): { date: string; weekday: number; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    weekday: 'short', hour: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    hour: Number(part('hour')),
+  };
+}
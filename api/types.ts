@@ -0,0 +1,622 @@
+// Shapes of the records the API stores and returns. Shared by the server and
+// the React client (src/api.ts), so keep this file free of runtime imports.
+import type { UniversityStatus, Priority, TaskStatus, TranscriptStatus, StatementStatus, DeadlineType, DigestFrequency, ScholarshipStatus, LetterStatus, EssayStatus, TestType, TestCategory, ScorePolicy, GpaScale, RequirementType, VaultDocumentType, FieldError } from './validation.js';
+
+export interface Applicant {
+  id: number;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface University {
+  id: number;
+  applicantId: number;
+  name: string;
+  country: string;
+  program: string;
+  major: string;
+  ranking?: number; // Overall university ranking
+  rankingAI?: number; // AI program ranking
+  rankingCS?: number; // CS program ranking
+  rankingDataAnalytics?: number; // Data Analytics/Data Science ranking
+  deadlineEarly?: string;
+  deadlineRegular?: string;
+  deadlineTransfer?: string;
+  gpaMin?: number;
+  gpaScale?: GpaScale; // Scale gpaMin is on
+  applicationPortal?: string;
+  applicationUrl?: string;
+  essaysRequired?: number;
+  recLettersRequired?: number;
+  interviewRequired?: number;
+  tuitionAmount?: number; // Annual tuition cost
+  currency?: string; // USD, GBP, SAR, etc.
+  status: UniversityStatus;
+  priority: Priority;
+  notes?: string;
+  applicationSubmitted?: string;
+  decisionReceived?: string;
+  decisionResult?: string;
+  requirements?: string; // JSON string
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Task {
+  id: number;
+  applicantId: number;
+  universityId?: number;
+  title: string;
+  description?: string;
+  dueDate?: string;
+  status: TaskStatus;
+  priority: Priority;
+  profileItemType?: string; // What the task is about (e.g., 'sat', 'essays'), for suggestions not linked to a record
+  scholarshipId?: number; // Set on tasks suggested for a scholarship application
+  recommenderId?: number; // Set on tasks suggested to chase one recommender's letter
+  essayPromptId?: number; // Set on tasks suggested for one essay prompt
+  snoozedUntil?: string; // Snoozed suggestions come back on this date
+  completedAt?: string;
+  createdAt: string;
+}
+
+export interface Profile {
+  id: number;
+  applicantId: number;
+  scoreTargets?: string; // JSON object of target scores keyed by test; the scores themselves are test attempts
+  gpa?: number;
+  gpaScale?: GpaScale; // Native scale of gpa, converted when compared with a university's gpaMin
+  transcriptStatus: TranscriptStatus;
+  statementStatus: StatementStatus;
+  feeBudget?: number;
+  displayCurrency?: string; // Costs are also shown converted to this; USD when empty
+  updatedAt: string;
+}
+
+// An admission test's sections and score ranges (api/scores.ts)
+export interface TestDefinition {
+  key: TestType;
+  label: string;
+  category: TestCategory;
+  sections: { key: string; label: string; min: number; max: number; step: number }[]; // Empty when only a total is reported
+  min: number; // Total range
+  max: number;
+  step: number;
+  combine?: 'sum' | 'average'; // How section scores make the total
+  grades?: string[]; // Letter grades for min, min + 1... up to max (A-level)
+}
+
+// One sitting of an admission test. `sections` is a JSON object of section
+// scores keyed as in api/scores.ts, e.g. {"readingWriting":680,"math":750}.
+export interface TestAttempt {
+  id: number;
+  applicantId: number;
+  test: TestType;
+  date: string;
+  subject?: string; // Subject tests only
+  total: number;
+  sections?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TestAttemptQuery {
+  test?: TestType[];
+}
+
+// GET /api/universities/:id/scores: for each test the university requires, the
+// score its policy makes of the applicant's sittings (undefined with none). For
+// subject tests it is the grade reached in `count` subjects.
+export interface UniversityScore {
+  test: TestType;
+  policy: ScorePolicy;
+  score?: number;
+  minScore?: number;
+  avgScore?: number;
+  count?: number; // Subject tests only
+  sittings: number;
+}
+
+// A grading scale (api/gpa.ts). `points` pair a value on it with its 4.0 equivalent.
+export interface GpaScaleDefinition {
+  key: GpaScale;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  points: [number, number][];
+}
+
+// GET /api/universities/:id/gpa: the applicant's GPA converted to the scale of the
+// university's minimum. `meets` is only set when both are known.
+export interface UniversityGpa {
+  minimum?: number;
+  scale: GpaScale;
+  gpa?: number;
+  gpaScale?: GpaScale;
+  converted?: number;
+  meets?: boolean;
+}
+
+// One dated deadline of a university. deadlineEarly/Regular/Transfer on University
+// mirror the earliest deadline of type early/regular/transfer.
+export interface Deadline {
+  id: number;
+  applicantId: number;
+  universityId: number;
+  universityName: string;
+  type: DeadlineType;
+  label?: string;
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM
+  timezone: string; // IANA zone, e.g. Europe/London
+  dueAt: string | null; // The exact UTC instant, from date + time (23:59 when empty) in timezone; NULL when `date` isn't a real date
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeadlineQuery {
+  universityId?: number;
+  type?: DeadlineType[];
+  from?: string;
+  to?: string;
+}
+
+// An application fee for one university. Paid once paidDate is set; a granted
+// waiver means nothing is owed whatever the amount.
+export interface Fee {
+  id: number;
+  applicantId: number;
+  universityId: number;
+  universityName: string;
+  label?: string;
+  amount: number;
+  currency: string; // ISO code, e.g. USD
+  paidDate?: string;
+  waiverRequested: boolean;
+  waiverGranted: boolean;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FeeQuery {
+  universityId?: number;
+}
+
+// A scholarship or grant, linked to the universities it can be used at (none: any of them)
+export interface Scholarship {
+  id: number;
+  applicantId: number;
+  name: string;
+  provider?: string;
+  amount?: number; // Per year when renewable
+  currency: string;
+  renewable: boolean;
+  eligibility?: string;
+  deadline?: string;
+  requiredDocuments: string[];
+  status: ScholarshipStatus;
+  universityIds: number[];
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScholarshipQuery {
+  status?: ScholarshipStatus[];
+  universityId?: number;
+}
+
+// One university's first-year cost after awarded scholarships, in `NetCosts.currency`.
+// Amounts are left out when their currency has no exchange rate.
+export interface NetCost {
+  universityId: number;
+  universityName: string;
+  universityStatus: UniversityStatus;
+  tuition?: number; // Annual tuition; undefined when unknown or unconvertible
+  awarded: number; // Awarded scholarships that apply here
+  renewing: number; // The part of `awarded` that renews every year
+  pending: number; // Applied for and not decided yet
+  netCost?: number; // tuition - awarded, never below 0
+  scholarshipIds: number[]; // Awarded or pending scholarships counted above
+}
+
+// GET /api/scholarships/net-cost
+export interface NetCosts {
+  currency: string;
+  universities: NetCost[];
+  warnings: string[];
+}
+
+// Someone writing recommendation letters, with the universities they write for
+export interface Recommender {
+  id: number;
+  applicantId: number;
+  name: string;
+  role?: string;
+  subject?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+  letters: RecommendationLetter[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One cell of the recommender x university matrix
+export interface RecommendationLetter {
+  universityId: number;
+  status: LetterStatus;
+  updatedAt: string;
+}
+
+// GET /api/recommenders/coverage: letters per university against the number its
+// recommendations requirement asks for (0 when it asks for none)
+export interface LetterCoverage {
+  universityId: number;
+  universityName: string;
+  required: number;
+  asked: number;
+  agreed: number;
+  submitted: number;
+}
+
+// An essay question asked by one university
+export interface EssayPrompt {
+  id: number;
+  applicantId: number;
+  universityId: number;
+  title?: string;
+  prompt: string;
+  wordLimit?: number;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A draft answering a prompt. `content` and `wordCount` are those of the latest
+// version; earlier ones are listed by GET /api/essays/:id/versions.
+export interface Essay {
+  id: number;
+  applicantId: number;
+  promptId: number;
+  universityId: number; // The prompt's university
+  title?: string;
+  status: EssayStatus;
+  content: string;
+  wordCount: number;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EssayVersion {
+  id: number;
+  essayId: number;
+  version: number;
+  content: string;
+  wordCount: number;
+  createdAt: string;
+}
+
+export interface EssayQuery {
+  universityId?: number;
+  promptId?: number;
+  status?: EssayStatus[];
+}
+
+// A draft worth adapting for a prompt that has none: the furthest-along draft
+// answering a similar prompt
+export interface EssayReuse {
+  promptId: number;
+  essayId: number;
+  similarity: number;
+}
+
+// overlap: two final essays for different questions share `overlap` of their text.
+// wrong_university: a draft mentions `universityId`, another university on the list.
+export interface EssayWarning {
+  type: 'overlap' | 'wrong_university';
+  essayId: number;
+  otherEssayId?: number;
+  universityId?: number;
+  overlap?: number;
+  message: string;
+}
+
+// GET /api/essays/library: prompts grouped by similarity across universities
+export interface EssayLibrary {
+  clusters: { promptIds: number[] }[];
+  reuse: EssayReuse[];
+  warnings: EssayWarning[];
+}
+
+// A file in the document vault; the file itself lives on disk (api/documents.ts).
+// Uploading another file with the same type and title adds a version, and the
+// earlier ones are kept as `superseded`.
+export interface VaultDocument {
+  id: number;
+  applicantId: number;
+  type: VaultDocumentType;
+  title: string;
+  version: number;
+  issuedDate?: string;
+  tags: string[];
+  requirementType?: RequirementType; // The profile item and university requirement it satisfies
+  universityIds: number[]; // Empty when it applies to every university
+  fileName: string; // As uploaded
+  mimeType?: string;
+  size: number; // Bytes
+  notes?: string;
+  superseded: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VaultDocumentQuery {
+  type?: VaultDocumentType[];
+  requirementType?: RequirementType;
+  universityId?: number;
+  tag?: string;
+}
+
+// How one application stands against the fee budget. `estimated` lines come from a
+// university's applicationFee requirement when no fee has been recorded for it.
+export interface BudgetLine {
+  universityId: number;
+  universityName: string;
+  universityStatus: UniversityStatus;
+  feeId?: number;
+  label: string;
+  amount: number;
+  currency: string;
+  state: 'paid' | 'waived' | 'due' | 'estimated';
+}
+
+// GET /api/fees/budget. Totals are converted to the budget's currency; lines in a
+// currency with no exchange rate are summed per currency in `unconverted` instead.
+export interface FeeBudget {
+  currency: string;
+  budget?: number; // Profile.feeBudget
+  committed: number; // Paid so far
+  planned: number; // Due or estimated, not yet paid
+  remaining?: number; // budget - committed
+  overBudgetBy?: number; // When committed + planned is more than the budget
+  lines: BudgetLine[];
+  unconverted: { currency: string; amount: number }[];
+  warnings: string[];
+}
+
+// How many units of `currency` one US dollar buys
+export interface ExchangeRate {
+  id: number;
+  currency: string;
+  rate: number;
+  updatedAt: string;
+}
+
+// POST /api/exchange-rates/import
+export interface ExchangeRateImport {
+  imported: number;
+  removed: number; // Only with `replace`
+}
+
+// What a university asks of one test. Subject tests take `count` subjects at
+// minScore instead of a score policy.
+export interface TestRequirement {
+  required: boolean;
+  minScore?: number;
+  avgScore?: number;
+  scorePolicy?: ScorePolicy;
+  count?: number;
+}
+
+// University requirements structure, with a key for each registered test it asks for
+export interface UniversityRequirements extends Partial<Record<TestType, TestRequirement>> {
+  transcripts?: { required: boolean; count?: number };
+  recommendations?: { required: boolean; count?: number };
+  essays?: { required: boolean; count?: number };
+  interview?: { required: boolean };
+  applicationFee?: { amount?: number; waiverAvailable?: boolean };
+}
+
+// List filters accepted by UniversityService.query (see universityQueryFields)
+export interface UniversityQuery {
+  status?: UniversityStatus[];
+  priority?: Priority[];
+  country?: string[];
+  q?: string; // Matches name, country, program, major and notes
+  deadlineFrom?: string; // Earliest deadline (early, else regular) within the range
+  deadlineTo?: string;
+  sort?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+// A reminder the scheduler raised for an approaching deadline or task
+export type NotificationEntity = 'deadline' | 'task';
+
+export interface Notification {
+  id: number;
+  applicantId: number;
+  entityType: NotificationEntity;
+  entityId: number;
+  universityId?: number;
+  offsetDays: number; // Which reminder offset this is (e.g. 7 for the week-ahead one)
+  title: string;
+  message: string;
+  dueAt: string; // When the deadline or task falls due
+  createdAt: string;
+  readAt?: string; // Unread while empty
+}
+
+export interface NotificationQuery {
+  status?: 'read' | 'unread';
+}
+
+export interface DigestRecipient {
+  id: number;
+  applicantId: number;
+  email: string;
+  name?: string;
+  frequency: DigestFrequency;
+  dayOfWeek: number; // 0 = Sunday
+  hour: number; // Local hour the digest goes out
+  timezone: string;
+  lastSentAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST /api/digest/send (see digestSendFields)
+export interface DigestSend {
+  recipientId?: number;
+}
+
+// Everything one digest email covers, gathered before it is rendered
+export interface Digest {
+  applicant: Applicant;
+  generatedAt: string;
+  timezone: string; // Dates in the email are shown in this zone
+  deadlines: Deadline[]; // Falling due in the next two weeks
+  overdueTasks: Task[];
+  readiness: Readiness;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Calendar feed filters (see calendarQueryFields)
+export interface CalendarQuery {
+  universityId?: number;
+  status?: TaskStatus[]; // Dismissed tasks are left out unless asked for
+  priority?: Priority[];
+}
+
+// List filters accepted by TaskService.query (see taskQueryFields)
+export interface TaskQuery {
+  status?: TaskStatus[];
+  priority?: Priority[];
+  universityId?: number;
+  profileItemType?: string[];
+  dueFrom?: string;
+  dueTo?: string;
+  q?: string; // Matches title and description
+  sort?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number; // Matches across all pages
+  nextCursor: string | null;
+}
+
+export interface ReadinessItem {
+  name: string;
+  complete: boolean;
+  status: string;
+}
+
+export interface Readiness {
+  score: number; // Percentage of items complete
+  total: number;
+  completed: number;
+  items: ReadinessItem[];
+}
+
+export interface UniversityStats {
+  total: number;
+  researching: number;
+  planning: number;
+  applied: number;
+  accepted: number;
+  rejected: number;
+}
+
+// POST /api/profile and POST /api/universities/:id/generate-tasks
+export interface GeneratedTasks {
+  tasksCreated: number;
+  tasks: Task[];
+}
+
+// CSV import (POST /api/universities/import/preview and /import)
+export interface ImportColumn {
+  header: string;
+  field: string | null; // null when the column is ignored
+}
+
+export interface ImportRow {
+  row: number; // 1-based data row, not counting the header
+  action: 'create' | 'update' | 'invalid';
+  universityId?: number; // Existing university an update applies to
+  name: string;
+  program: string;
+  values: Partial<University>;
+  testRequirements?: UniversityRequirements; // From test columns like "satMin"; merged into the university's own
+  errors: FieldError[];
+}
+
+export interface ImportPreview {
+  columns: ImportColumn[];
+  rows: ImportRow[];
+  summary: { create: number; update: number; invalid: number };
+  errors: FieldError[]; // Problems with the file as a whole, e.g. a missing name column
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number; // Invalid rows
+  tasksCreated: number;
+}
+
+// GET /api/backup. `tables` holds every row of each backed-up table, keyed by table name.
+export interface Backup {
+  format: 'uni-tracker-backup';
+  schemaVersion: number; // Restores are only accepted at the same version
+  createdAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+// A backup saved on the server (scheduled, manual or taken just before a restore)
+export interface SavedBackup {
+  file: string;
+  reason: 'scheduled' | 'manual' | 'pre-restore';
+  createdAt: string;
+  size: number; // Bytes
+}
+
+// POST /api/backup/restore and /api/backups/:file/restore
+export interface RestoreResult {
+  restored: Record<string, number>; // Rows restored per table
+  undo: SavedBackup; // Snapshot of the data that was replaced
+}
+
+// Change history (GET /api/universities/:id/history, /api/profile/history)
+export type HistoryEntity = 'university' | 'task' | 'deadline' | 'fee' | 'scholarship' | 'document' | 'recommender' | 'essay_prompt' | 'essay' | 'test_attempt' | 'profile';
+
+export interface HistoryEntry {
+  id: number;
+  applicantId: number;
+  entityType: HistoryEntity;
+  entityId: number;
+  action: 'created' | 'updated';
+  field: string | null; // null for 'created'
+  oldValue: string | null; // Values are stored as text
+  newValue: string | null;
+  changedAt: string;
+  label: string | null; // Task title, or deadline label/type, for entries about those
+}
+
+// PUT/DELETE /api/universities/:id/requirements[/:type]
+export interface RequirementsUpdate extends GeneratedTasks {
+  requirements: UniversityRequirements;
+}
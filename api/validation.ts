@@ -0,0 +1,588 @@
+// Payload validation for write routes and list queries. Each write schema
+// doubles as the column whitelist the services use when building UPDATE statements.
+import { TESTS } from './scores.js';
+
+export const UNIVERSITY_STATUSES = ['researching', 'planning', 'applied', 'accepted', 'rejected', 'waitlisted'] as const;
+export const PRIORITIES = ['high', 'medium', 'low'] as const;
+export type UniversityStatus = typeof UNIVERSITY_STATUSES[number];
+export type Priority = typeof PRIORITIES[number];
+export const TASK_STATUSES = ['suggested', 'snoozed', 'dismissed', 'todo', 'in_progress', 'done'] as const;
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+// Task lifecycle. Generated tasks start as suggestions that must be accepted
+// (todo), snoozed or dismissed; only accepted tasks move on to real work.
+export const TASK_TRANSITIONS: Record<TaskStatus, readonly TaskStatus[]> = {
+  suggested: ['todo', 'snoozed', 'dismissed'],
+  snoozed: ['suggested', 'todo', 'dismissed'],
+  dismissed: ['suggested'],
+  todo: ['in_progress', 'done'],
+  in_progress: ['todo', 'done'],
+  done: ['todo'],
+};
+
+// Statuses a task may be created in; everything else is reached through a transition
+export const TASK_INITIAL_STATUSES: readonly TaskStatus[] = ['suggested', 'todo'];
+
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return from === to || TASK_TRANSITIONS[from].includes(to);
+}
+
+// Deadline kinds. Application rounds come first, in the order they usually fall;
+// the rest are deadlines that matter around an application.
+export const DEADLINE_TYPES = [
+  'early_decision', 'early_decision_2', 'early_action', 'restrictive_early_action', 'early', 'regular', 'rolling',
+  'transfer', 'scholarship', 'financial_aid', 'housing', 'deposit', 'other',
+] as const;
+export type DeadlineType = typeof DEADLINE_TYPES[number];
+
+// Rounds a first-year application can be submitted in; these drive sorting and task due dates
+export const APPLICATION_DEADLINE_TYPES: readonly DeadlineType[] = [
+  'early_decision', 'early_decision_2', 'early_action', 'restrictive_early_action', 'early', 'regular', 'rolling',
+];
+
+export const TRANSCRIPT_STATUSES = ['missing', 'requested', 'received', 'submitted'] as const;
+export const STATEMENT_STATUSES = ['not_started', 'drafting', 'reviewing', 'complete'] as const;
+export type TranscriptStatus = typeof TRANSCRIPT_STATUSES[number];
+export type StatementStatus = typeof STATEMENT_STATUSES[number];
+
+// Scholarship lifecycle: researching -> applied -> awarded or declined. Stepping
+// back is allowed so a status set by mistake can be undone.
+export const SCHOLARSHIP_STATUSES = ['researching', 'applied', 'awarded', 'declined'] as const;
+export type ScholarshipStatus = typeof SCHOLARSHIP_STATUSES[number];
+
+export const SCHOLARSHIP_TRANSITIONS: Record<ScholarshipStatus, readonly ScholarshipStatus[]> = {
+  researching: ['applied'],
+  applied: ['researching', 'awarded', 'declined'],
+  awarded: ['applied'],
+  declined: ['applied'],
+};
+
+// Where a recommendation letter for one university stands. Any status can follow any other.
+export const LETTER_STATUSES = ['asked', 'agreed', 'submitted'] as const;
+export type LetterStatus = typeof LETTER_STATUSES[number];
+
+// How far along an essay draft is; only final drafts count toward a university's essays
+export const ESSAY_STATUSES = ['outline', 'drafting', 'reviewing', 'final'] as const;
+export type EssayStatus = typeof ESSAY_STATUSES[number];
+
+// Admission tests that can be recorded and required. Each one is registered with
+// its sections and score range in api/scores.ts.
+export const TEST_TYPES = ['sat', 'act', 'ielts', 'toefl', 'duolingo', 'ap', 'ib', 'alevel', 'mat', 'qudurat', 'tahsili'] as const;
+export type TestType = typeof TEST_TYPES[number];
+
+// What a test shows: general aptitude, English proficiency (any one such test usually
+// satisfies a university) or achievement in individual subjects, each sat separately
+export const TEST_CATEGORIES = ['admission', 'english', 'subject'] as const;
+export type TestCategory = typeof TEST_CATEGORIES[number];
+
+// How a university reads retakes: the best of each section across sittings,
+// the best single sitting, or every sitting (the latest stands)
+export const SCORE_POLICIES = ['superscore', 'highest', 'all'] as const;
+export type ScorePolicy = typeof SCORE_POLICIES[number];
+
+// Grading scales a GPA can be on, each with its conversion rules in api/gpa.ts
+export const GPA_SCALES = ['gpa4', 'gpa5', 'percentage', 'ib'] as const;
+export type GpaScale = typeof GPA_SCALES[number];
+
+export const DIGEST_FREQUENCIES = ['weekly', 'daily', 'off'] as const;
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'enum' | 'date' | 'time' | 'datetime' | 'timezone' | 'email' | 'currency' | 'json';
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean; // Must be present on create and can never be cleared
+  values?: readonly string[]; // Allowed values for enums
+  min?: number;
+  max?: number;
+  default?: string | number | boolean; // Filled in on create when the field is missing
+  multiple?: boolean; // A list of values: comma-separated in query parameters, a JSON array in bodies
+  singleLine?: boolean; // Strings only: no CR or LF, for values that end up in a mail header
+}
+
+export type Schema = Record<string, FieldRule>;
+
+// Server-managed fields clients may echo back (e.g. an edit form posting the whole record); dropped silently
+const READ_ONLY_FIELDS = ['id', 'applicantId', 'createdAt', 'updatedAt', 'completedAt'];
+
+export const universityFields: Schema = {
+  name: { type: 'string', required: true },
+  country: { type: 'string', required: true },
+  program: { type: 'string', required: true },
+  major: { type: 'string', required: true },
+  ranking: { type: 'integer', min: 1 },
+  rankingAI: { type: 'integer', min: 1 },
+  rankingCS: { type: 'integer', min: 1 },
+  rankingDataAnalytics: { type: 'integer', min: 1 },
+  deadlineEarly: { type: 'date' },
+  deadlineRegular: { type: 'date' },
+  deadlineTransfer: { type: 'date' },
+  gpaMin: { type: 'number', min: 0 },
+  gpaScale: { type: 'enum', values: GPA_SCALES }, // Scale of gpaMin; 4.0 when empty
+  applicationPortal: { type: 'string' },
+  applicationUrl: { type: 'string' },
+  essaysRequired: { type: 'integer', min: 0 },
+  recLettersRequired: { type: 'integer', min: 0 },
+  interviewRequired: { type: 'integer', min: 0, max: 1 },
+  tuitionAmount: { type: 'number', min: 0 },
+  currency: { type: 'string' },
+  status: { type: 'enum', values: UNIVERSITY_STATUSES, required: true, default: 'researching' },
+  priority: { type: 'enum', values: PRIORITIES, required: true, default: 'medium' },
+  notes: { type: 'string' },
+  applicationSubmitted: { type: 'date' },
+  decisionReceived: { type: 'date' },
+  decisionResult: { type: 'string' },
+  requirements: { type: 'json' },
+};
+
+export const taskFields: Schema = {
+  universityId: { type: 'integer', min: 1 },
+  title: { type: 'string', required: true },
+  description: { type: 'string' },
+  dueDate: { type: 'date' },
+  status: { type: 'enum', values: TASK_STATUSES, required: true, default: 'todo' },
+  priority: { type: 'enum', values: PRIORITIES, required: true, default: 'medium' },
+  profileItemType: { type: 'string' },
+  scholarshipId: { type: 'integer', min: 1 },
+  recommenderId: { type: 'integer', min: 1 },
+  essayPromptId: { type: 'integer', min: 1 },
+  snoozedUntil: { type: 'date' },
+};
+
+export const deadlineFields: Schema = {
+  universityId: { type: 'integer', min: 1, required: true },
+  type: { type: 'enum', values: DEADLINE_TYPES, required: true },
+  label: { type: 'string' }, // e.g. "Olympiad track"; the type's name is shown when empty
+  date: { type: 'date', required: true },
+  time: { type: 'time' }, // Local time on `date`; the deadline is end of day when empty
+  timezone: { type: 'timezone' }, // IANA zone the date and time are in; defaults from the university's country
+};
+
+// An application fee paid (or waived) for one university
+export const feeFields: Schema = {
+  universityId: { type: 'integer', min: 1, required: true },
+  label: { type: 'string' }, // e.g. "CSS Profile"; "Application fee" when empty
+  amount: { type: 'number', min: 0, required: true },
+  currency: { type: 'currency' }, // Defaults to the university's tuition currency, then USD
+  paidDate: { type: 'date' }, // Unpaid while empty
+  waiverRequested: { type: 'boolean', required: true, default: false },
+  waiverGranted: { type: 'boolean', required: true, default: false },
+  notes: { type: 'string' },
+};
+
+// A scholarship or grant. With no universityIds it isn't tied to one university
+// and counts toward all of them (e.g. a government scholarship).
+export const scholarshipFields: Schema = {
+  name: { type: 'string', required: true },
+  provider: { type: 'string' },
+  amount: { type: 'number', min: 0 }, // Per year when renewable
+  currency: { type: 'currency' }, // USD when empty
+  renewable: { type: 'boolean', required: true, default: false },
+  eligibility: { type: 'string' },
+  deadline: { type: 'date' },
+  requiredDocuments: { type: 'string', multiple: true },
+  status: { type: 'enum', values: SCHOLARSHIP_STATUSES, required: true, default: 'researching' },
+  universityIds: { type: 'integer', min: 1, multiple: true },
+  notes: { type: 'string' },
+};
+
+// Someone writing recommendation letters. The universities they write for, and
+// each letter's status, are set through /api/recommenders/:id/letters.
+export const recommenderFields: Schema = {
+  name: { type: 'string', required: true },
+  role: { type: 'string' }, // e.g. "Math teacher", "School counselor"
+  subject: { type: 'string' },
+  email: { type: 'email' },
+  phone: { type: 'string' },
+  notes: { type: 'string' },
+};
+
+// PUT /api/recommenders/:id/letters/:universityId
+export const letterFields: Schema = {
+  status: { type: 'enum', values: LETTER_STATUSES, required: true, default: 'asked' },
+};
+
+// An essay question one university asks. `title` is a short label for lists
+// (e.g. "Why us"); the full question goes in `prompt`.
+export const essayPromptFields: Schema = {
+  universityId: { type: 'integer', min: 1, required: true },
+  title: { type: 'string' },
+  prompt: { type: 'string', required: true },
+  wordLimit: { type: 'integer', min: 1 },
+  notes: { type: 'string' },
+};
+
+// A draft answering one prompt. Saving different `content` adds a version.
+export const essayFields: Schema = {
+  promptId: { type: 'integer', min: 1, required: true },
+  title: { type: 'string' },
+  status: { type: 'enum', values: ESSAY_STATUSES, required: true, default: 'outline' },
+  content: { type: 'string' },
+};
+
+// One sitting of an admission test. `sections` is a JSON object of section
+// scores and `total` is checked against the test's range by the route; it follows
+// from a full set of sections when it is left out. Subject tests (AP, A-level)
+// record one subject per sitting.
+export const testAttemptFields: Schema = {
+  test: { type: 'enum', values: TEST_TYPES, required: true },
+  date: { type: 'date', required: true },
+  subject: { type: 'string' }, // e.g. "Calculus BC"; subject tests only
+  total: { type: 'number', min: 0 },
+  sections: { type: 'json' },
+  notes: { type: 'string' },
+};
+
+// Who gets the email digest and when, in their own timezone
+export const digestRecipientFields: Schema = {
+  email: { type: 'email', required: true },
+  name: { type: 'string', singleLine: true }, // The display name in the To: header
+  frequency: { type: 'enum', values: DIGEST_FREQUENCIES, required: true, default: 'weekly' },
+  dayOfWeek: { type: 'integer', min: 0, max: 6, required: true, default: 0 }, // 0 = Sunday; weekly digests only
+  hour: { type: 'integer', min: 0, max: 23, required: true, default: 8 },
+  timezone: { type: 'timezone', required: true, default: 'UTC' },
+};
+
+// Who POST /api/digest/send goes to; everyone who isn't turned off when empty
+export const digestSendFields: Schema = {
+  recipientId: { type: 'integer', min: 1 },
+};
+
+export const digestPreviewFields: Schema = {
+  format: { type: 'enum', values: ['html', 'text'] },
+  timezone: { type: 'timezone' },
+};
+
+export const profileFields: Schema = {
+  scoreTargets: { type: 'json' }, // Scores aimed for, keyed by test: {"sat":1500,"ielts":7.5}
+  gpa: { type: 'number', min: 0 },
+  gpaScale: { type: 'enum', values: GPA_SCALES }, // Scale of gpa; 4.0 when empty
+  transcriptStatus: { type: 'enum', values: TRANSCRIPT_STATUSES, required: true },
+  statementStatus: { type: 'enum', values: STATEMENT_STATUSES, required: true },
+  feeBudget: { type: 'number', min: 0 },
+  displayCurrency: { type: 'currency' },
+};
+
+// PUT /api/exchange-rates/:currency
+export const exchangeRateFields: Schema = {
+  rate: { type: 'number', min: 0, required: true }, // Units per US dollar; 0 is rejected by the route
+};
+
+// POST /api/exchange-rates/import: `content` is a JSON or CSV rates file (see api/currency.ts)
+export const exchangeRateImportFields: Schema = {
+  content: { type: 'string', required: true },
+  replace: { type: 'boolean', required: true, default: false },
+};
+
+// Structured requirements (the universities.requirements JSON), one schema per
+// requirement type. `required` says whether the university asks for it at all.
+// Every registered test is a requirement type of its own.
+export const REQUIREMENT_TYPES = [...TEST_TYPES, 'transcripts', 'recommendations', 'essays', 'interview', 'applicationFee'] as const;
+export type RequirementType = typeof REQUIREMENT_TYPES[number];
+
+const requiredFlag: FieldRule = { type: 'boolean', required: true, default: true };
+
+export const isTestType = (type: string): type is TestType => (TEST_TYPES as readonly string[]).includes(type);
+
+// A test's scores are checked against its own range. For subject tests, `count`
+// subjects must reach minScore; the score policy only applies to the other tests.
+function testRequirementFields(test: TestType): Schema {
+  const { min, max, category } = TESTS[test];
+  const score: FieldRule = { type: 'number', min, max };
+  const fields: Schema = { required: requiredFlag, minScore: score, avgScore: score };
+  if (category === 'subject') fields.count = { type: 'integer', min: 1 };
+  else fields.scorePolicy = { type: 'enum', values: SCORE_POLICIES };
+  return fields;
+}
+
+export const requirementFields: Record<RequirementType, Schema> = {
+  ...Object.fromEntries(TEST_TYPES.map(test => [test, testRequirementFields(test)])) as Record<TestType, Schema>,
+  transcripts: { required: requiredFlag, count: { type: 'integer', min: 1 } },
+  recommendations: { required: requiredFlag, count: { type: 'integer', min: 0 } },
+  essays: { required: requiredFlag, count: { type: 'integer', min: 0 } },
+  interview: { required: requiredFlag },
+  applicationFee: { amount: { type: 'number', min: 0 }, waiverAvailable: { type: 'boolean' } },
+};
+
+export const isRequirementType = (type: string): type is RequirementType => (REQUIREMENT_TYPES as readonly string[]).includes(type);
+
+// Validate one requirement type's settings. Cleared (null) settings are dropped
+// rather than stored, and errors are reported as `type.setting`.
+export function validateRequirement(type: RequirementType, body: unknown): { value: Record<string, unknown>; errors: FieldError[] } {
+  const result = validate<Record<string, unknown>>(requirementFields[type], body);
+  const value = Object.fromEntries(Object.entries(result.value).filter(([, v]) => v !== null));
+  return { value, errors: result.errors.map(e => ({ ...e, field: `${type}.${e.field}` })) };
+}
+
+// Validate a whole requirements object, keyed by requirement type
+export function validateRequirements(body: unknown): { value: Record<string, Record<string, unknown>>; errors: FieldError[] } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { value: {}, errors: [{ field: 'requirements', message: 'Must be an object keyed by requirement type' }] };
+  }
+  const value: Record<string, Record<string, unknown>> = {};
+  const errors: FieldError[] = [];
+  for (const [type, settings] of Object.entries(body)) {
+    if (!isRequirementType(type)) {
+      errors.push({ field: type, message: `Unknown requirement type. Must be one of: ${REQUIREMENT_TYPES.join(', ')}` });
+      continue;
+    }
+    if (settings === null) continue;
+    const result = validateRequirement(type, settings);
+    value[type] = result.value;
+    errors.push(...result.errors);
+  }
+  return { value, errors };
+}
+
+export const DOCUMENT_TYPES = ['transcript', 'test_report', 'essay', 'recommendation', 'certificate', 'financial', 'identity', 'other'] as const;
+export type VaultDocumentType = typeof DOCUMENT_TYPES[number];
+
+// A file in the document vault. It satisfies `requirementType` at the universities
+// in universityIds, or at every university when there are none.
+export const documentFields: Schema = {
+  type: { type: 'enum', values: DOCUMENT_TYPES, required: true, default: 'other' },
+  title: { type: 'string', required: true }, // Same type and title as an earlier upload makes a new version
+  issuedDate: { type: 'date' },
+  tags: { type: 'string', multiple: true },
+  requirementType: { type: 'enum', values: REQUIREMENT_TYPES }, // Guessed from the type on upload when missing
+  universityIds: { type: 'integer', min: 1, multiple: true },
+  notes: { type: 'string' },
+};
+
+// POST /api/documents: the metadata plus the file itself, base64-encoded in `content`
+export const documentUploadFields: Schema = {
+  ...documentFields,
+  fileName: { type: 'string', required: true },
+  mimeType: { type: 'string' },
+  content: { type: 'string', required: true },
+};
+
+// List query parameters. `sort` takes a key, prefixed with `-` for descending.
+export const UNIVERSITY_SORT_KEYS = ['ranking', 'name', 'country', 'deadline', 'tuition', 'priority', 'status', 'createdAt', 'updatedAt'] as const;
+export const TASK_SORT_KEYS = ['dueDate', 'priority', 'status', 'title', 'createdAt'] as const;
+export const MAX_PAGE_SIZE = 200;
+
+const sortValues = (keys: readonly string[]) => keys.flatMap(key => [key, `-${key}`]);
+
+export const universityQueryFields: Schema = {
+  status: { type: 'enum', values: UNIVERSITY_STATUSES, multiple: true },
+  priority: { type: 'enum', values: PRIORITIES, multiple: true },
+  country: { type: 'string', multiple: true },
+  q: { type: 'string' },
+  deadlineFrom: { type: 'date' },
+  deadlineTo: { type: 'date' },
+  sort: { type: 'enum', values: sortValues(UNIVERSITY_SORT_KEYS) },
+  limit: { type: 'integer', min: 1, max: MAX_PAGE_SIZE },
+  cursor: { type: 'string' },
+};
+
+export const notificationQueryFields: Schema = {
+  status: { type: 'enum', values: ['read', 'unread'] },
+};
+
+// GET /api/calendar.ics: status applies to tasks; priority to tasks and to each deadline's university
+export const calendarQueryFields: Schema = {
+  universityId: { type: 'integer', min: 1 },
+  status: { type: 'enum', values: TASK_STATUSES, multiple: true },
+  priority: { type: 'enum', values: PRIORITIES, multiple: true },
+};
+
+export const taskQueryFields: Schema = {
+  status: { type: 'enum', values: TASK_STATUSES, multiple: true },
+  priority: { type: 'enum', values: PRIORITIES, multiple: true },
+  universityId: { type: 'integer', min: 1 },
+  profileItemType: { type: 'string', multiple: true },
+  dueFrom: { type: 'date' },
+  dueTo: { type: 'date' },
+  q: { type: 'string' },
+  sort: { type: 'enum', values: sortValues(TASK_SORT_KEYS) },
+  limit: { type: 'integer', min: 1, max: MAX_PAGE_SIZE },
+  cursor: { type: 'string' },
+};
+
+export const scholarshipQueryFields: Schema = {
+  status: { type: 'enum', values: SCHOLARSHIP_STATUSES, multiple: true },
+  universityId: { type: 'integer', min: 1 }, // Linked to this university, or to none
+};
+
+export const documentQueryFields: Schema = {
+  type: { type: 'enum', values: DOCUMENT_TYPES, multiple: true },
+  requirementType: { type: 'enum', values: REQUIREMENT_TYPES },
+  universityId: { type: 'integer', min: 1 }, // Linked to this university, or to none
+  tag: { type: 'string' },
+};
+
+export const essayPromptQueryFields: Schema = {
+  universityId: { type: 'integer', min: 1 },
+};
+
+export const essayQueryFields: Schema = {
+  universityId: { type: 'integer', min: 1 },
+  promptId: { type: 'integer', min: 1 },
+  status: { type: 'enum', values: ESSAY_STATUSES, multiple: true },
+};
+
+export const testAttemptQueryFields: Schema = {
+  test: { type: 'enum', values: TEST_TYPES, multiple: true },
+};
+
+export const feeQueryFields: Schema = {
+  universityId: { type: 'integer', min: 1 },
+};
+
+export const deadlineQueryFields: Schema = {
+  universityId: { type: 'integer', min: 1 },
+  type: { type: 'enum', values: DEADLINE_TYPES, multiple: true },
+  from: { type: 'date' },
+  to: { type: 'date' },
+};
+
+// A real calendar date in YYYY-MM-DD format
+export function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  // Reject dates like 2026-02-30 that Date would silently roll over
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function isValidDateTime(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !isNaN(Date.parse(value));
+}
+
+function isValidTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checkField(rule: FieldRule, value: unknown): string | undefined {
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return 'Must be a string';
+      if (rule.singleLine && /[\r\n]/.test(value)) return 'Must be a single line';
+      break;
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'Must be a number';
+      if (rule.type === 'integer' && !Number.isInteger(value)) return 'Must be a whole number';
+      if (rule.min !== undefined && value < rule.min) return `Must be at least ${rule.min}`;
+      if (rule.max !== undefined && value > rule.max) return `Must be at most ${rule.max}`;
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return 'Must be true or false';
+      break;
+    case 'enum':
+      if (typeof value !== 'string' || !rule.values!.includes(value)) return `Must be one of: ${rule.values!.join(', ')}`;
+      break;
+    case 'date':
+      if (typeof value !== 'string' || !isValidDate(value)) return 'Must be a date in YYYY-MM-DD format';
+      break;
+    case 'time':
+      if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) return 'Must be a time in HH:MM format';
+      break;
+    case 'datetime':
+      if (typeof value !== 'string' || !isValidDateTime(value)) return 'Must be an ISO 8601 timestamp';
+      break;
+    case 'email':
+      if (typeof value !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return 'Must be an email address';
+      break;
+    case 'currency':
+      if (typeof value !== 'string' || !/^[A-Za-z]{3}$/.test(value)) return 'Must be a three-letter currency code such as USD';
+      break;
+    case 'timezone':
+      if (typeof value !== 'string' || !isValidTimezone(value)) return 'Must be an IANA timezone such as Europe/London';
+      break;
+    case 'json':
+      if (typeof value !== 'string') return 'Must be a JSON string';
+      try {
+        const parsed = JSON.parse(value);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return 'Must be a JSON object';
+      } catch {
+        return 'Must be valid JSON';
+      }
+      break;
+  }
+  return undefined;
+}
+
+// Validate a request body against a schema. Unknown fields are rejected, empty
+// strings on optional fields become null, and with `partial` (updates) missing
+// required fields are allowed.
+export function validate<T>(schema: Schema, body: unknown, options: { partial?: boolean } = {}): { value: Partial<T>; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { value: {}, errors: [{ field: 'body', message: 'Request body must be a JSON object' }] };
+  }
+
+  for (const [field, raw] of Object.entries(body)) {
+    if (READ_ONLY_FIELDS.includes(field)) continue;
+
+    const rule = schema[field];
+    if (!rule) {
+      errors.push({ field, message: 'Unknown field' });
+      continue;
+    }
+
+    const empty = raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '');
+    if (empty) {
+      if (rule.required) errors.push({ field, message: 'Is required' });
+      else value[field] = null;
+      continue;
+    }
+
+    // Query lists are split before they get here, so a `multiple` field is always a body array
+    const message = rule.multiple
+      ? (Array.isArray(raw) ? raw.map(item => checkField(rule, item)).find(Boolean) : 'Must be a list')
+      : checkField(rule, raw);
+    if (message) errors.push({ field, message });
+    else value[field] = raw;
+  }
+
+  if (!options.partial) {
+    for (const [field, rule] of Object.entries(schema)) {
+      if (field in value || errors.some(e => e.field === field)) continue;
+      if (rule.default !== undefined) value[field] = rule.default;
+      else if (rule.required) errors.push({ field, message: 'Is required' });
+    }
+  }
+
+  return { value: value as Partial<T>, errors };
+}
+
+// Validate URL query parameters. Values arrive as strings, so numbers are parsed
+// first and `multiple` fields are split on commas into arrays.
+export function validateQuery<T>(schema: Schema, query: Record<string, unknown>): { value: Partial<T>; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const single: Record<string, unknown> = {};
+  const lists: Record<string, string[]> = {};
+
+  for (const [field, raw] of Object.entries(query)) {
+    const rule = schema[field];
+    if (!rule || typeof raw !== 'string') {
+      single[field] = raw;
+      continue;
+    }
+    if (rule.multiple) {
+      const items = raw.split(',').map(item => item.trim()).filter(Boolean);
+      const message = items.map(item => checkField(rule, item)).find(Boolean);
+      if (message) errors.push({ field, message });
+      else if (items.length > 0) lists[field] = items;
+      continue;
+    }
+    const numeric = (rule.type === 'integer' || rule.type === 'number') && raw.trim() !== '';
+    single[field] = numeric ? Number(raw) : raw;
+  }
+
+  const result = validate<T>(schema, single, { partial: true });
+  return { value: { ...result.value, ...lists } as Partial<T>, errors: [...errors, ...result.errors] };
+}
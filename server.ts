@@ -1,24 +1,359 @@
 import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { UniversityService, TaskService, ProfileService, TaskGenerator, initDatabase } from './api/db.js';
+import { ApplicantService, UniversityService, TaskService, ProfileService, TaskGenerator, HistoryService, DeadlineService, FeeService, ScholarshipService, DocumentService, RecommenderService, EssayService, TestAttemptService, ExchangeRateService, NotificationService, DigestRecipientService, BackupService, InvalidBackupError, initDatabase } from './api/db.js';
+import type { University, Task, Profile, UniversityQuery, TaskQuery, Page, UniversityRequirements, Deadline, DeadlineQuery, CalendarQuery, NotificationQuery, DigestRecipient, DigestSend, Fee, FeeQuery, Scholarship, ScholarshipQuery, VaultDocument, VaultDocumentQuery, Recommender, EssayPrompt, Essay, EssayQuery, TestAttempt, TestAttemptQuery } from './api/types.js';
+import { validate, validateQuery, universityFields, taskFields, profileFields, universityQueryFields, taskQueryFields, canTransition, TASK_INITIAL_STATUSES, validateRequirement, validateRequirements, isRequirementType, deadlineFields, deadlineQueryFields, calendarQueryFields, notificationQueryFields, digestRecipientFields, digestSendFields, digestPreviewFields, feeFields, feeQueryFields, scholarshipFields, scholarshipQueryFields, SCHOLARSHIP_TRANSITIONS, documentFields, documentUploadFields, documentQueryFields, recommenderFields, letterFields, essayPromptFields, essayPromptQueryFields, essayFields, essayQueryFields, testAttemptFields, testAttemptQueryFields, exchangeRateFields, exchangeRateImportFields, isTestType } from './api/validation.js';
+import { InvalidCursorError } from './api/query.js';
+import { TESTS, checkSections, totalFromSections } from './api/scores.js';
+import { GPA_SCALE_DEFINITIONS, DEFAULT_GPA_SCALE, checkGpa } from './api/gpa.js';
+import { universitiesToCsv } from './api/csv.js';
+import { buildCalendar } from './api/ical.js';
+import { startReminderSchedule, parseOffsets } from './api/reminders.js';
+import { buildDigest, renderDigest, sendDigest, startDigestSchedule } from './api/digest.js';
+import { transportFromEnv } from './api/mail.js';
+import { currencyCode, parseRates } from './api/currency.js';
+import { listBackups, saveBackup, readBackup, startBackupSchedule, DEFAULT_BACKUP_KEEP } from './api/backup.js';
+import { storeDocument, documentFilePath, removeDocument, removeApplicantDocuments, decodeContent } from './api/documents.js';
+import type { DocumentUpload } from './api/documents.js';
+import type { FieldError, TaskStatus, LetterStatus, TestType, GpaScale } from './api/validation.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
-app.use(express.json());
+// Generous limit so CSV imports and backup restores fit in a JSON body
+app.use(express.json({ limit: '20mb' }));
+// Bodies that aren't JSON, or are over the limit, get the same shape as any other invalid field
+app.use(((error, req, res, next) => {
+  if (error?.type === 'entity.parse.failed') {
+    return validationFailed(res, [{ field: 'body', message: 'Must be valid JSON' }]);
+  }
+  if (error?.type === 'entity.too.large') {
+    return res.status(413).json({ error: 'Validation failed', fields: [{ field: 'body', message: 'Must be at most 20mb' }] });
+  }
+  next(error);
+}) as express.ErrorRequestHandler);
+
+// 400 response listing every invalid field, shared by all write routes
+function validationFailed(res: express.Response, errors: FieldError[]) {
+  return res.status(400).json({ error: 'Validation failed', fields: errors });
+}
+
+// List routes return the page as the body; paging details travel in headers
+function sendPage<T>(res: express.Response, page: Page<T>) {
+  res.set('X-Total-Count', String(page.total));
+  if (page.nextCursor) res.set('X-Next-Cursor', page.nextCursor);
+  res.json(page.items);
+}
+
+// A requirements JSON sent with a university must hold valid requirement types
+function checkRequirementsJson(university: Partial<University>): FieldError[] {
+  if (typeof university.requirements !== 'string') return [];
+  return validateRequirements(JSON.parse(university.requirements)).errors.map(e => ({ ...e, field: `requirements.${e.field}` }));
+}
+
+// Tasks and deadlines may only link to one of the current applicant's universities
+async function checkUniversityLink(applicantId: number, record: { universityId?: number | null }): Promise<FieldError[]> {
+  if (!record.universityId) return [];
+  const university = await UniversityService.getById(applicantId, record.universityId);
+  return university ? [] : [{ field: 'universityId', message: 'University not found' }];
+}
+
+// Scholarships and documents may link to any number of the applicant's universities, and tasks to one of their scholarships
+async function checkScholarshipLinks(applicantId: number, record: { universityIds?: number[] | null; scholarshipId?: number | null }): Promise<FieldError[]> {
+  const errors: FieldError[] = [];
+  for (const universityId of record.universityIds ?? []) {
+    if (!await UniversityService.getById(applicantId, universityId)) {
+      errors.push({ field: 'universityIds', message: `University ${universityId} not found` });
+    }
+  }
+  if (record.scholarshipId && !await ScholarshipService.getById(applicantId, record.scholarshipId)) {
+    errors.push({ field: 'scholarshipId', message: 'Scholarship not found' });
+  }
+  return errors;
+}
+
+// Tasks may follow up on one of the applicant's recommenders
+async function checkRecommenderLink(applicantId: number, record: { recommenderId?: number | null }): Promise<FieldError[]> {
+  if (!record.recommenderId) return [];
+  const recommender = await RecommenderService.getById(applicantId, record.recommenderId);
+  return recommender ? [] : [{ field: 'recommenderId', message: 'Recommender not found' }];
+}
+
+// Drafts, and tasks about one, may only answer one of the applicant's essay prompts
+async function checkEssayPromptLink(applicantId: number, id: number | null | undefined, field: string): Promise<FieldError[]> {
+  if (!id) return [];
+  const prompt = await EssayService.getPrompt(applicantId, id);
+  return prompt ? [] : [{ field, message: 'Essay prompt not found' }];
+}
+
+// A score must be in the test's range and land on its scale (A-level grades are whole steps)
+function checkScore(test: TestType, score: number): string | undefined {
+  const { min, max, step, label } = TESTS[test];
+  if (score < min || score > max) return `Must be from ${min} to ${max} for ${label}`;
+  if (Math.abs((score - min) / step - Math.round((score - min) / step)) > 1e-9) return `Must be in steps of ${step} for ${label}`;
+}
+
+// A sitting's section scores must belong to its test and its total must be in the
+// test's range. A missing total is filled in when every section has a score.
+// Subject tests need the subject; other tests can't have one.
+function checkTestAttempt(attempt: Partial<TestAttempt>, current?: TestAttempt): FieldError[] {
+  const test = attempt.test ?? current?.test;
+  if (!test) return [];
+  const definition = TESTS[test];
+  const sections = JSON.parse((attempt.sections === undefined ? current?.sections : attempt.sections) ?? '{}');
+  const errors = checkSections(test, sections);
+  if (errors.length === 0 && attempt.total == null && attempt.sections != null) {
+    attempt.total = totalFromSections(test, sections);
+  }
+
+  const total = attempt.total === undefined ? current?.total : attempt.total ?? undefined;
+  // Only a total being written is held to the scale, so older sittings stay editable
+  const scoreError = attempt.total != null ? checkScore(test, attempt.total) : undefined;
+  if (total === undefined) {
+    errors.push({ field: 'total', message: definition.sections.length > 0 ? 'Is required unless every section has a score' : 'Is required' });
+  } else if (scoreError) {
+    errors.push({ field: 'total', message: scoreError });
+  }
+
+  const subject = attempt.subject === undefined ? current?.subject : attempt.subject;
+  if (definition.category === 'subject' && !subject) {
+    errors.push({ field: 'subject', message: `Is required for ${definition.label}` });
+  } else if (definition.category !== 'subject' && subject) {
+    errors.push({ field: 'subject', message: `${definition.label} isn't taken by subject` });
+  }
+  return errors;
+}
+
+// Score targets are a JSON object of scores keyed by test
+function checkScoreTargets(json: string | null | undefined): FieldError[] {
+  const errors: FieldError[] = [];
+  const targets: unknown = json ? JSON.parse(json) : {};
+  if (typeof targets !== 'object' || targets === null || Array.isArray(targets)) {
+    return [{ field: 'scoreTargets', message: 'Must be an object keyed by test' }];
+  }
+  for (const [test, score] of Object.entries(targets)) {
+    if (!isTestType(test)) {
+      errors.push({ field: `scoreTargets.${test}`, message: 'Unknown test' });
+    } else if (typeof score !== 'number') {
+      errors.push({ field: `scoreTargets.${test}`, message: 'Must be a number' });
+    } else {
+      const message = checkScore(test, score);
+      if (message) errors.push({ field: `scoreTargets.${test}`, message });
+    }
+  }
+  return errors;
+}
+
+// A GPA must be on its scale: the one being written, else the stored one
+function checkGpaField(field: 'gpa' | 'gpaMin', value: number | null | undefined, scale: GpaScale | null | undefined): FieldError[] {
+  const message = value != null ? checkGpa(value, scale ?? DEFAULT_GPA_SCALE) : undefined;
+  return message ? [{ field, message }] : [];
+}
+
+// Status changes must follow the task lifecycle; a new task has no current status
+function checkTaskStatus(current: Task | undefined, updates: Partial<Task>): FieldError[] {
+  const errors: FieldError[] = [];
+  const status = updates.status;
+  if (status && !current && !TASK_INITIAL_STATUSES.includes(status)) {
+    errors.push({ field: 'status', message: `New tasks must be one of: ${TASK_INITIAL_STATUSES.join(', ')}` });
+  }
+  if (status && current && !canTransition(current.status, status)) {
+    errors.push({ field: 'status', message: `Cannot move a ${current.status} task to ${status}` });
+  }
+  if ((status ?? current?.status) === 'snoozed') {
+    const until = updates.snoozedUntil ?? current?.snoozedUntil;
+    if (!until) errors.push({ field: 'snoozedUntil', message: 'Is required when snoozing' });
+    else if (until <= new Date().toISOString().split('T')[0]) errors.push({ field: 'snoozedUntil', message: 'Must be in the future' });
+  }
+  return errors;
+}
+
+// Shared by the accept/dismiss/snooze shortcuts
+async function changeTaskStatus(res: express.Response, id: number, status: TaskStatus, snoozedUntil?: string) {
+  try {
+    const applicantId = res.locals.applicantId;
+    const task = await TaskService.getById(applicantId, id);
+    if (!task) return res.status(404).json({ error: 'Not found' });
+    const updates: Partial<Task> = snoozedUntil ? { status, snoozedUntil } : { status };
+    const errors = checkTaskStatus(task, updates);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await TaskService.update(applicantId, id, updates));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+}
 
 // API Routes
 
+// Applicants
+app.get('/api/applicants', async (req, res) => {
+  try {
+    const data = await ApplicantService.getAll();
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/applicants', async (req, res) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name) return res.status(400).json({ error: 'Name is required' });
+    const data = await ApplicantService.create(name);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/applicants/:id', async (req, res) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name) return res.status(400).json({ error: 'Name is required' });
+    const data = await ApplicantService.update(Number(req.params.id), name);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/applicants/:id', async (req, res) => {
+  try {
+    const applicants = await ApplicantService.getAll();
+    if (applicants.length <= 1) return res.status(400).json({ error: 'Cannot delete the last applicant' });
+    const deleted = await ApplicantService.delete(Number(req.params.id));
+    if (!deleted) return res.status(404).json({ error: 'Not found' });
+    await removeApplicantDocuments(Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+const BACKUP_KEEP = Number(process.env.BACKUP_KEEP) || DEFAULT_BACKUP_KEEP;
+
+// Backups cover the whole database, so like /api/applicants they aren't tied to one applicant
+app.get('/api/backup', async (req, res) => {
+  try {
+    const backup = await BackupService.create();
+    res.set('Content-Disposition', `attachment; filename="uni-tracker-backup-${backup.createdAt.slice(0, 10)}.json"`);
+    res.json(backup);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Restoring saves a backup of the current data first, so a restore can itself be undone
+async function restoreBackup(res: express.Response, backup: unknown) {
+  try {
+    const saved = await saveBackup('pre-restore', BACKUP_KEEP);
+    const restored = await BackupService.restore(backup);
+    res.json({ restored, undo: saved });
+  } catch (error) {
+    if (error instanceof InvalidBackupError) return validationFailed(res, [{ field: 'backup', message: error.message }]);
+    res.status(500).json({ error: (error as Error).message });
+  }
+}
+
+app.post('/api/backup/restore', (req, res) => restoreBackup(res, req.body));
+
+app.get('/api/backups', async (req, res) => {
+  try {
+    res.json(await listBackups());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/backups', async (req, res) => {
+  try {
+    res.json(await saveBackup('manual', BACKUP_KEEP));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/backups/:file/restore', async (req, res) => {
+  const backup = await readBackup(req.params.file);
+  if (!backup) return res.status(404).json({ error: 'Not found' });
+  restoreBackup(res, backup);
+});
+
+// Exchange rates are shared by every applicant too
+app.get('/api/exchange-rates', async (req, res) => {
+  try {
+    res.json(await ExchangeRateService.getAll());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/exchange-rates/:currency', async (req, res) => {
+  try {
+    const { value, errors } = validate<{ rate: number }>(exchangeRateFields, req.body);
+    const currency = currencyCode(req.params.currency);
+    if (!currency) errors.push({ field: 'currency', message: 'Must be a three-letter currency code such as USD' });
+    else if (currency === 'USD') errors.push({ field: 'currency', message: 'Rates are per US dollar, so USD is always 1' });
+    if (value.rate === 0) errors.push({ field: 'rate', message: 'Must be more than 0' });
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await ExchangeRateService.set(currency!, value.rate!));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/exchange-rates/:currency', async (req, res) => {
+  try {
+    const currency = currencyCode(req.params.currency);
+    if (!currency) return validationFailed(res, [{ field: 'currency', message: 'Must be a three-letter currency code such as USD' }]);
+    if (!await ExchangeRateService.delete(currency)) return res.status(404).json({ error: 'Not found' });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Nothing is imported if any rate in the file is unusable
+app.post('/api/exchange-rates/import', async (req, res) => {
+  try {
+    const { value, errors } = validate<{ content: string; replace: boolean }>(exchangeRateImportFields, req.body);
+    if (errors.length > 0) return validationFailed(res, errors);
+    const parsed = parseRates(value.content!);
+    if (parsed.errors.length > 0) return validationFailed(res, parsed.errors);
+    res.json(await ExchangeRateService.importRates(parsed.rates, value.replace));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Every other API route works on one applicant, picked by the X-Applicant-Id header
+// (or ?applicantId= for links that can't set headers), falling back to the first applicant
+app.use('/api', async (req, res, next) => {
+  try {
+    const requested = req.header('X-Applicant-Id') ?? req.query.applicantId;
+    const applicant = requested
+      ? await ApplicantService.getById(Number(requested))
+      : await ApplicantService.getDefault();
+    if (!applicant) return res.status(404).json({ error: 'Applicant not found' });
+    res.locals.applicantId = applicant.id;
+    next();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // Profile Routes (UT-001)
 app.get('/api/profile', async (req, res) => {
   try {
-    let profile = await ProfileService.getProfile();
+    const applicantId: number = res.locals.applicantId;
+    let profile = await ProfileService.getProfile(applicantId);
     
     // Create default profile if none exists
     if (!profile) {
-      profile = await ProfileService.createDefaultProfile();
+      profile = await ProfileService.createDefaultProfile(applicantId);
     }
     
     res.json(profile);
@@ -29,39 +364,154 @@ app.get('/api/profile', async (req, res) => {
 
 app.post('/api/profile', async (req, res) => {
   try {
-    const updates = req.body as Partial<import('./api/db.js').Profile>;
-    const profile = await ProfileService.updateProfile(updates);
+    const applicantId: number = res.locals.applicantId;
+    const { value: updates, errors } = validate<Profile>(profileFields, req.body, { partial: true });
+    if (errors.length === 0) errors.push(...checkScoreTargets(updates.scoreTargets));
+    if (errors.length === 0 && ('gpa' in updates || 'gpaScale' in updates)) {
+      const current = await ProfileService.getProfile(applicantId);
+      errors.push(...checkGpaField('gpa', 'gpa' in updates ? updates.gpa : current?.gpa, 'gpaScale' in updates ? updates.gpaScale : current?.gpaScale));
+    }
+    if (errors.length > 0) return validationFailed(res, errors);
+    const profile = await ProfileService.updateProfile(applicantId, updates);
     
     // Generate tasks based on profile update
-    const updatedFields = Object.keys(updates) as (keyof import('./api/db.js').Profile)[];
+    const updatedFields = Object.keys(updates) as (keyof Profile)[];
+    let tasks: Task[] = [];
     if (updatedFields.length > 0) {
       try {
-        await TaskGenerator.generateTasksForProfileUpdate(updatedFields);
+        tasks = await TaskGenerator.generateTasksForProfileUpdate(applicantId, updatedFields);
       } catch (e) {
         console.log('Task generation failed:', e);
       }
     }
     
-    res.json(profile);
+    res.json({ profile, tasksCreated: tasks.length, tasks });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/profile/history', async (req, res) => {
+  try {
+    res.json(await HistoryService.forProfile(res.locals.applicantId));
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
+// Grading scales a GPA can be on, with their conversion points
+app.get('/api/gpa-scales', (req, res) => {
+  res.json(Object.values(GPA_SCALE_DEFINITIONS));
+});
+
 app.get('/api/profile/readiness', async (req, res) => {
   try {
-    const readiness = await ProfileService.getReadinessScore();
+    const readiness = await ProfileService.getReadinessScore(res.locals.applicantId);
     res.json(readiness);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
+// Test definitions, then sittings; a retake is a new attempt rather than a changed score
+app.get('/api/tests', (req, res) => {
+  res.json(Object.values(TESTS));
+});
+
+app.get('/api/test-attempts', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<TestAttemptQuery>(testAttemptQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await TestAttemptService.getAll(res.locals.applicantId, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/test-attempts', async (req, res) => {
+  try {
+    const { value, errors } = validate<TestAttempt>(testAttemptFields, req.body);
+    if (errors.length === 0) errors.push(...checkTestAttempt(value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await TestAttemptService.create(res.locals.applicantId, value as Pick<TestAttempt, 'test' | 'date' | 'total'>);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/test-attempts/:id', async (req, res) => {
+  try {
+    const applicantId = res.locals.applicantId;
+    const current = await TestAttemptService.getById(applicantId, Number(req.params.id));
+    if (!current) return res.status(404).json({ error: 'Not found' });
+    const { value, errors } = validate<TestAttempt>(testAttemptFields, req.body, { partial: true });
+    if (errors.length === 0) errors.push(...checkTestAttempt(value, current));
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await TestAttemptService.update(applicantId, current.id, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/test-attempts/:id', async (req, res) => {
+  try {
+    await TestAttemptService.delete(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // Universities
 app.get('/api/universities', async (req, res) => {
   try {
-    const data = await UniversityService.getAll();
-    res.json(data);
+    const { value, errors } = validateQuery<UniversityQuery>(universityQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    sendPage(res, await UniversityService.query(res.locals.applicantId, value));
+  } catch (error) {
+    if (error instanceof InvalidCursorError) return validationFailed(res, [{ field: 'cursor', message: error.message }]);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Registered before /:id so "export.csv" isn't taken for an id
+app.get('/api/universities/export.csv', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<UniversityQuery>(universityQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    const page = await UniversityService.query(res.locals.applicantId, { ...value, limit: undefined, cursor: undefined });
+    const date = new Date().toISOString().slice(0, 10);
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="universities-${date}.csv"`);
+    res.send(universitiesToCsv(page.items));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// CSV import takes `{ csv: "<file contents>" }`; preview reports what import would do
+function csvBody(req: express.Request): string | undefined {
+  return typeof req.body?.csv === 'string' ? req.body.csv : undefined;
+}
+
+app.post('/api/universities/import/preview', async (req, res) => {
+  try {
+    const csv = csvBody(req);
+    if (csv === undefined) return validationFailed(res, [{ field: 'csv', message: 'Must be a string' }]);
+    res.json(await UniversityService.previewImport(res.locals.applicantId, csv));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/universities/import', async (req, res) => {
+  try {
+    const csv = csvBody(req);
+    if (csv === undefined) return validationFailed(res, [{ field: 'csv', message: 'Must be a string' }]);
+    const preview = await UniversityService.previewImport(res.locals.applicantId, csv);
+    if (preview.errors.length > 0) return validationFailed(res, preview.errors);
+    res.json(await UniversityService.importCsv(res.locals.applicantId, csv));
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
@@ -69,7 +519,7 @@ app.get('/api/universities', async (req, res) => {
 
 app.get('/api/universities/:id', async (req, res) => {
   try {
-    const data = await UniversityService.getById(Number(req.params.id));
+    const data = await UniversityService.getById(res.locals.applicantId, Number(req.params.id));
     if (!data) return res.status(404).json({ error: 'Not found' });
     res.json(data);
   } catch (error) {
@@ -79,7 +529,11 @@ app.get('/api/universities/:id', async (req, res) => {
 
 app.post('/api/universities', async (req, res) => {
   try {
-    const data = await UniversityService.create(req.body);
+    const { value, errors } = validate<University>(universityFields, req.body);
+    errors.push(...checkRequirementsJson(value));
+    if (errors.length === 0) errors.push(...checkGpaField('gpaMin', value.gpaMin, value.gpaScale));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await UniversityService.create(res.locals.applicantId, value as Omit<University, 'id' | 'applicantId' | 'createdAt' | 'updatedAt'>);
     res.json(data);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -88,7 +542,38 @@ app.post('/api/universities', async (req, res) => {
 
 app.put('/api/universities/:id', async (req, res) => {
   try {
-    const data = await UniversityService.update(Number(req.params.id), req.body);
+    const { value, errors } = validate<University>(universityFields, req.body, { partial: true });
+    errors.push(...checkRequirementsJson(value));
+    if (errors.length === 0 && ('gpaMin' in value || 'gpaScale' in value)) {
+      const current = await UniversityService.getById(res.locals.applicantId, Number(req.params.id));
+      errors.push(...checkGpaField('gpaMin', 'gpaMin' in value ? value.gpaMin : current?.gpaMin, 'gpaScale' in value ? value.gpaScale : current?.gpaScale));
+    }
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await UniversityService.update(res.locals.applicantId, Number(req.params.id), value);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Structured requirements. Saving them updates the matching flat columns and
+// responds with the requirements plus any tasks they generated.
+app.get('/api/universities/:id/requirements', async (req, res) => {
+  try {
+    const data = await UniversityService.getRequirements(res.locals.applicantId, Number(req.params.id));
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/universities/:id/requirements', async (req, res) => {
+  try {
+    const { value, errors } = validateRequirements(req.body);
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await UniversityService.saveRequirements(res.locals.applicantId, Number(req.params.id), value as UniversityRequirements);
     if (!data) return res.status(404).json({ error: 'Not found' });
     res.json(data);
   } catch (error) {
@@ -96,20 +581,93 @@ app.put('/api/universities/:id', async (req, res) => {
   }
 });
 
+app.get('/api/universities/:id/requirements/:type', async (req, res) => {
+  try {
+    const requirements = await UniversityService.getRequirements(res.locals.applicantId, Number(req.params.id));
+    const type = req.params.type;
+    if (!requirements || !isRequirementType(type)) return res.status(404).json({ error: 'Not found' });
+    res.json(requirements[type] ?? null);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/universities/:id/requirements/:type', async (req, res) => {
+  try {
+    const applicantId = res.locals.applicantId;
+    const id = Number(req.params.id);
+    const type = req.params.type;
+    const requirements = await UniversityService.getRequirements(applicantId, id);
+    if (!requirements || !isRequirementType(type)) return res.status(404).json({ error: 'Not found' });
+    const { value, errors } = validateRequirement(type, req.body);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await UniversityService.saveRequirements(applicantId, id, { ...requirements, [type]: value }));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/universities/:id/requirements/:type', async (req, res) => {
+  try {
+    const applicantId = res.locals.applicantId;
+    const id = Number(req.params.id);
+    const type = req.params.type;
+    const requirements = await UniversityService.getRequirements(applicantId, id);
+    if (!requirements || !isRequirementType(type)) return res.status(404).json({ error: 'Not found' });
+    delete requirements[type];
+    res.json(await UniversityService.saveRequirements(applicantId, id, requirements));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 app.delete('/api/universities/:id', async (req, res) => {
   try {
-    await UniversityService.delete(Number(req.params.id));
+    await UniversityService.delete(res.locals.applicantId, Number(req.params.id));
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
+app.get('/api/universities/:id/history', async (req, res) => {
+  try {
+    const applicantId = res.locals.applicantId;
+    const id = Number(req.params.id);
+    if (!await UniversityService.getById(applicantId, id)) return res.status(404).json({ error: 'Not found' });
+    res.json(await HistoryService.forUniversity(applicantId, id));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Each required test's score under the university's score policy
+app.get('/api/universities/:id/scores', async (req, res) => {
+  try {
+    const data = await TestAttemptService.getUniversityScores(res.locals.applicantId, Number(req.params.id));
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// The applicant's GPA converted to the scale of the university's minimum
+app.get('/api/universities/:id/gpa', async (req, res) => {
+  try {
+    const data = await ProfileService.getUniversityGpa(res.locals.applicantId, Number(req.params.id));
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // Task Generation Endpoint (UT-002)
 app.post('/api/universities/:id/generate-tasks', async (req, res) => {
   try {
     const universityId = Number(req.params.id);
-    const tasks = await TaskGenerator.generateTasksForUniversity(universityId);
+    const tasks = await TaskGenerator.generateTasksForUniversity(res.locals.applicantId, universityId);
     res.json({ success: true, tasksCreated: tasks.length, tasks });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -118,7 +676,7 @@ app.post('/api/universities/:id/generate-tasks', async (req, res) => {
 
 app.get('/api/stats', async (req, res) => {
   try {
-    const data = await UniversityService.getStats();
+    const data = await UniversityService.getStats(res.locals.applicantId);
     res.json(data);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -128,16 +686,25 @@ app.get('/api/stats', async (req, res) => {
 // Tasks
 app.get('/api/tasks', async (req, res) => {
   try {
-    const data = await TaskService.getAll();
-    res.json(data);
+    const { value, errors } = validateQuery<TaskQuery>(taskQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    sendPage(res, await TaskService.query(res.locals.applicantId, value));
   } catch (error) {
+    if (error instanceof InvalidCursorError) return validationFailed(res, [{ field: 'cursor', message: error.message }]);
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
 app.post('/api/tasks', async (req, res) => {
   try {
-    const data = await TaskService.create(req.body);
+    const { value, errors } = validate<Task>(taskFields, req.body);
+    errors.push(...await checkUniversityLink(res.locals.applicantId, value));
+    errors.push(...await checkScholarshipLinks(res.locals.applicantId, value));
+    errors.push(...await checkRecommenderLink(res.locals.applicantId, value));
+    errors.push(...await checkEssayPromptLink(res.locals.applicantId, value.essayPromptId, 'essayPromptId'));
+    errors.push(...checkTaskStatus(undefined, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await TaskService.create(res.locals.applicantId, value as Omit<Task, 'id' | 'applicantId' | 'createdAt'>);
     res.json(data);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -146,37 +713,655 @@ app.post('/api/tasks', async (req, res) => {
 
 app.put('/api/tasks/:id', async (req, res) => {
   try {
-    const data = await TaskService.update(Number(req.params.id), req.body);
-    if (!data) return res.status(404).json({ error: 'Not found' });
+    const { value, errors } = validate<Task>(taskFields, req.body, { partial: true });
+    const current = await TaskService.getById(res.locals.applicantId, Number(req.params.id));
+    if (!current) return res.status(404).json({ error: 'Not found' });
+    errors.push(...await checkUniversityLink(res.locals.applicantId, value));
+    errors.push(...await checkScholarshipLinks(res.locals.applicantId, value));
+    errors.push(...await checkRecommenderLink(res.locals.applicantId, value));
+    errors.push(...await checkEssayPromptLink(res.locals.applicantId, value.essayPromptId, 'essayPromptId'));
+    errors.push(...checkTaskStatus(current, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await TaskService.update(res.locals.applicantId, current.id, value);
     res.json(data);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
+// Suggested task actions
+app.post('/api/tasks/:id/accept', (req, res) => changeTaskStatus(res, Number(req.params.id), 'todo'));
+
+app.post('/api/tasks/:id/dismiss', (req, res) => changeTaskStatus(res, Number(req.params.id), 'dismissed'));
+
+app.post('/api/tasks/:id/snooze', (req, res) => {
+  // Defaults to a week when no date is given
+  const { value, errors } = validate<Task>({ snoozedUntil: taskFields.snoozedUntil }, req.body ?? {}, { partial: true });
+  if (errors.length > 0) return validationFailed(res, errors);
+  let until = value.snoozedUntil;
+  if (!until) {
+    const date = new Date();
+    date.setDate(date.getDate() + 7);
+    until = date.toISOString().split('T')[0];
+  }
+  return changeTaskStatus(res, Number(req.params.id), 'snoozed', until);
+});
+
 app.delete('/api/tasks/:id', async (req, res) => {
   try {
-    await TaskService.delete(Number(req.params.id));
+    await TaskService.delete(res.locals.applicantId, Number(req.params.id));
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
-// Serve static files from dist folder (sibling to dist-server)
-const DIST_DIR = path.join(__dirname, '..', 'dist');
-app.use(express.static(DIST_DIR));
-
-// SPA fallback - serve index.html for all non-API routes
-app.get('*', (req, res) => {
-  res.sendFile(path.join(DIST_DIR, 'index.html'));
+// Deadlines
+app.get('/api/deadlines', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<DeadlineQuery>(deadlineQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await DeadlineService.getAll(res.locals.applicantId, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
 });
 
-const PORT = process.env.PORT || 3002;
-
-// Initialize database before starting server
+app.post('/api/deadlines', async (req, res) => {
+  try {
+    const { value, errors } = validate<Deadline>(deadlineFields, req.body);
+    errors.push(...await checkUniversityLink(res.locals.applicantId, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await DeadlineService.create(res.locals.applicantId, value as Pick<Deadline, 'universityId' | 'type' | 'date'>);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/deadlines/:id', async (req, res) => {
+  try {
+    const { value, errors } = validate<Deadline>(deadlineFields, req.body, { partial: true });
+    const current = await DeadlineService.getById(res.locals.applicantId, Number(req.params.id));
+    if (!current) return res.status(404).json({ error: 'Not found' });
+    errors.push(...await checkUniversityLink(res.locals.applicantId, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await DeadlineService.update(res.locals.applicantId, current.id, value);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/deadlines/:id', async (req, res) => {
+  try {
+    await DeadlineService.delete(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Application fees
+app.get('/api/fees', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<FeeQuery>(feeQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await FeeService.getAll(res.locals.applicantId, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Committed and planned spend against the profile's fee budget
+app.get('/api/fees/budget', async (req, res) => {
+  try {
+    res.json(await FeeService.getBudget(res.locals.applicantId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/fees', async (req, res) => {
+  try {
+    const { value, errors } = validate<Fee>(feeFields, req.body);
+    errors.push(...await checkUniversityLink(res.locals.applicantId, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await FeeService.create(res.locals.applicantId, value as Pick<Fee, 'universityId' | 'amount'>);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/fees/:id', async (req, res) => {
+  try {
+    const { value, errors } = validate<Fee>(feeFields, req.body, { partial: true });
+    const current = await FeeService.getById(res.locals.applicantId, Number(req.params.id));
+    if (!current) return res.status(404).json({ error: 'Not found' });
+    errors.push(...await checkUniversityLink(res.locals.applicantId, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await FeeService.update(res.locals.applicantId, current.id, value);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/fees/:id', async (req, res) => {
+  try {
+    await FeeService.delete(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Scholarships
+app.get('/api/scholarships', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<ScholarshipQuery>(scholarshipQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await ScholarshipService.getAll(res.locals.applicantId, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Each university's tuition less the awarded scholarships that apply there
+app.get('/api/scholarships/net-cost', async (req, res) => {
+  try {
+    res.json(await ScholarshipService.getNetCosts(res.locals.applicantId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/scholarships/:id', async (req, res) => {
+  try {
+    const data = await ScholarshipService.getById(res.locals.applicantId, Number(req.params.id));
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/scholarships', async (req, res) => {
+  try {
+    const { value, errors } = validate<Scholarship>(scholarshipFields, req.body);
+    errors.push(...await checkScholarshipLinks(res.locals.applicantId, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await ScholarshipService.create(res.locals.applicantId, value as Pick<Scholarship, 'name'>);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/scholarships/:id', async (req, res) => {
+  try {
+    const { value, errors } = validate<Scholarship>(scholarshipFields, req.body, { partial: true });
+    const current = await ScholarshipService.getById(res.locals.applicantId, Number(req.params.id));
+    if (!current) return res.status(404).json({ error: 'Not found' });
+    errors.push(...await checkScholarshipLinks(res.locals.applicantId, value));
+    if (value.status && value.status !== current.status && !SCHOLARSHIP_TRANSITIONS[current.status].includes(value.status)) {
+      errors.push({ field: 'status', message: `Cannot move a ${current.status} scholarship to ${value.status}` });
+    }
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await ScholarshipService.update(res.locals.applicantId, current.id, value);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/scholarships/:id', async (req, res) => {
+  try {
+    await ScholarshipService.delete(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Document vault
+app.get('/api/documents', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<VaultDocumentQuery>(documentQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await DocumentService.getAll(res.locals.applicantId, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/documents/:id', async (req, res) => {
+  try {
+    const data = await DocumentService.getById(res.locals.applicantId, Number(req.params.id));
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// The file itself, as a download. Links use ?applicantId= since they can't set headers.
+app.get('/api/documents/:id/file', async (req, res) => {
+  try {
+    const applicantId = res.locals.applicantId;
+    const document = await DocumentService.getById(applicantId, Number(req.params.id));
+    if (!document) return res.status(404).json({ error: 'Not found' });
+    const file = await documentFilePath(applicantId, document.id);
+    if (!file) return res.status(404).json({ error: 'The file is missing from the document folder' });
+    res.attachment(document.fileName);
+    if (document.mimeType) res.type(document.mimeType);
+    res.sendFile(file);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/documents', async (req, res) => {
+  try {
+    const { value, errors } = validate<DocumentUpload>(documentUploadFields, req.body);
+    if (value.content && !decodeContent(value.content)) {
+      errors.push({ field: 'content', message: 'Must be the file contents, base64-encoded' });
+    }
+    errors.push(...await checkScholarshipLinks(res.locals.applicantId, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await storeDocument(res.locals.applicantId, value as DocumentUpload);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/documents/:id', async (req, res) => {
+  try {
+    const { value, errors } = validate<VaultDocument>(documentFields, req.body, { partial: true });
+    errors.push(...await checkScholarshipLinks(res.locals.applicantId, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await DocumentService.update(res.locals.applicantId, Number(req.params.id), value);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/documents/:id', async (req, res) => {
+  try {
+    await removeDocument(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Recommenders and the letters they write for each university
+app.get('/api/recommenders', async (req, res) => {
+  try {
+    res.json(await RecommenderService.getAll(res.locals.applicantId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Letters against what each university requires; registered before /:id
+app.get('/api/recommenders/coverage', async (req, res) => {
+  try {
+    res.json(await RecommenderService.getCoverage(res.locals.applicantId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/recommenders/:id', async (req, res) => {
+  try {
+    const data = await RecommenderService.getById(res.locals.applicantId, Number(req.params.id));
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/recommenders', async (req, res) => {
+  try {
+    const { value, errors } = validate<Recommender>(recommenderFields, req.body);
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await RecommenderService.create(res.locals.applicantId, value as Pick<Recommender, 'name'>);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/recommenders/:id', async (req, res) => {
+  try {
+    const { value, errors } = validate<Recommender>(recommenderFields, req.body, { partial: true });
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await RecommenderService.update(res.locals.applicantId, Number(req.params.id), value);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/recommenders/:id', async (req, res) => {
+  try {
+    await RecommenderService.delete(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Ask a recommender to write for a university, or record where the letter stands
+app.put('/api/recommenders/:id/letters/:universityId', async (req, res) => {
+  try {
+    const { value, errors } = validate<{ status: LetterStatus }>(letterFields, req.body);
+    const universityId = Number(req.params.universityId);
+    if (!await UniversityService.getById(res.locals.applicantId, universityId)) return res.status(404).json({ error: 'Not found' });
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await RecommenderService.setLetter(res.locals.applicantId, Number(req.params.id), universityId, value.status!);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/recommenders/:id/letters/:universityId', async (req, res) => {
+  try {
+    const removed = await RecommenderService.removeLetter(res.locals.applicantId, Number(req.params.id), Number(req.params.universityId));
+    if (!removed) return res.status(404).json({ error: 'Not found' });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Essay prompts, one university's questions each
+app.get('/api/essay-prompts', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<{ universityId?: number }>(essayPromptQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await EssayService.getPrompts(res.locals.applicantId, value.universityId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/essay-prompts', async (req, res) => {
+  try {
+    const { value, errors } = validate<EssayPrompt>(essayPromptFields, req.body);
+    errors.push(...await checkUniversityLink(res.locals.applicantId, value));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await EssayService.createPrompt(res.locals.applicantId, value as Pick<EssayPrompt, 'universityId' | 'prompt'>);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/essay-prompts/:id', async (req, res) => {
+  try {
+    const { value, errors } = validate<EssayPrompt>(essayPromptFields, req.body, { partial: true });
+    const current = await EssayService.getPrompt(res.locals.applicantId, Number(req.params.id));
+    if (!current) return res.status(404).json({ error: 'Not found' });
+    if (value.universityId && value.universityId !== current.universityId) {
+      errors.push({ field: 'universityId', message: 'A prompt stays with its university; add it to the other university instead' });
+    }
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await EssayService.updatePrompt(res.locals.applicantId, current.id, value);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/essay-prompts/:id', async (req, res) => {
+  try {
+    await EssayService.deletePrompt(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Essay drafts, each answering one prompt
+app.get('/api/essays', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<EssayQuery>(essayQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await EssayService.getAll(res.locals.applicantId, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Similar prompts, reusable drafts and warnings; registered before /:id
+app.get('/api/essays/library', async (req, res) => {
+  try {
+    res.json(await EssayService.getLibrary(res.locals.applicantId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/essays/:id', async (req, res) => {
+  try {
+    const data = await EssayService.getById(res.locals.applicantId, Number(req.params.id));
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/essays/:id/versions', async (req, res) => {
+  try {
+    const data = await EssayService.getVersions(res.locals.applicantId, Number(req.params.id));
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/essays', async (req, res) => {
+  try {
+    const { value, errors } = validate<Essay>(essayFields, req.body);
+    errors.push(...await checkEssayPromptLink(res.locals.applicantId, value.promptId, 'promptId'));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await EssayService.create(res.locals.applicantId, value as Pick<Essay, 'promptId'>);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/essays/:id', async (req, res) => {
+  try {
+    const { value, errors } = validate<Essay>(essayFields, req.body, { partial: true });
+    errors.push(...await checkEssayPromptLink(res.locals.applicantId, value.promptId, 'promptId'));
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await EssayService.update(res.locals.applicantId, Number(req.params.id), value);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/essays/:id', async (req, res) => {
+  try {
+    await EssayService.delete(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Notifications (raised by the reminder scheduler)
+app.get('/api/notifications', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<NotificationQuery>(notificationQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    res.json(await NotificationService.getAll(res.locals.applicantId, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Registered before /:id/read so "read-all" isn't taken for an id
+app.post('/api/notifications/read-all', async (req, res) => {
+  try {
+    res.json({ updated: await NotificationService.markAllRead(res.locals.applicantId) });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+async function setNotificationRead(res: express.Response, id: number, read: boolean) {
+  try {
+    const data = await NotificationService.setRead(res.locals.applicantId, id, read);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+}
+
+app.post('/api/notifications/:id/read', (req, res) => setNotificationRead(res, Number(req.params.id), true));
+
+app.post('/api/notifications/:id/unread', (req, res) => setNotificationRead(res, Number(req.params.id), false));
+
+// Email digest
+const mailTransport = transportFromEnv();
+const MAIL_FROM = process.env.MAIL_FROM || 'Uni Tracker <uni-tracker@localhost>';
+
+// The digest as it would be sent now, as an HTML page (or ?format=text)
+app.get('/api/digest/preview', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<{ format?: 'html' | 'text'; timezone?: string }>(digestPreviewFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    const rendered = renderDigest(await buildDigest(res.locals.applicantId, value.timezone || 'UTC'));
+    if (value.format === 'text') {
+      res.set('Content-Type', 'text/plain; charset=utf-8');
+      return res.send(`Subject: ${rendered.subject}\n\n${rendered.text}`);
+    }
+    res.set('Content-Type', 'text/html; charset=utf-8');
+    res.send(rendered.html);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Send right away, to one recipient or to everyone who isn't turned off
+app.post('/api/digest/send', async (req, res) => {
+  try {
+    const { value, errors } = validate<DigestSend>(digestSendFields, req.body ?? {});
+    if (errors.length > 0) return validationFailed(res, errors);
+    const recipients = (await DigestRecipientService.getAll(res.locals.applicantId))
+      .filter(r => value.recipientId ? r.id === value.recipientId : r.frequency !== 'off');
+    if (value.recipientId && recipients.length === 0) return res.status(404).json({ error: 'Not found' });
+    for (const recipient of recipients) await sendDigest(recipient, mailTransport, MAIL_FROM);
+    res.json({ sent: recipients.length, transport: mailTransport.name });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/digest/recipients', async (req, res) => {
+  try {
+    res.json(await DigestRecipientService.getAll(res.locals.applicantId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/digest/recipients', async (req, res) => {
+  try {
+    const { value, errors } = validate<DigestRecipient>(digestRecipientFields, req.body);
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await DigestRecipientService.create(res.locals.applicantId, value as Omit<DigestRecipient, 'id' | 'applicantId' | 'lastSentAt' | 'createdAt' | 'updatedAt'>);
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.put('/api/digest/recipients/:id', async (req, res) => {
+  try {
+    const { value, errors } = validate<DigestRecipient>(digestRecipientFields, req.body, { partial: true });
+    if (errors.length > 0) return validationFailed(res, errors);
+    const data = await DigestRecipientService.update(res.locals.applicantId, Number(req.params.id), value);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/digest/recipients/:id', async (req, res) => {
+  try {
+    await DigestRecipientService.delete(res.locals.applicantId, Number(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Calendar feed; calendar apps can't send headers, so subscribe with ?applicantId=
+app.get('/api/calendar.ics', async (req, res) => {
+  try {
+    const { value, errors } = validateQuery<CalendarQuery>(calendarQueryFields, req.query);
+    if (errors.length > 0) return validationFailed(res, errors);
+    const applicantId = res.locals.applicantId;
+    const [applicant, universities, deadlines, tasks] = await Promise.all([
+      ApplicantService.getById(applicantId),
+      UniversityService.getAll(applicantId),
+      DeadlineService.getAll(applicantId),
+      TaskService.getAll(applicantId),
+    ]);
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="uni-tracker.ics"');
+    res.send(buildCalendar(applicant!, { universities, deadlines, tasks }, value));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Serve static files from dist folder (sibling to dist-server)
+const DIST_DIR = path.join(__dirname, '..', 'dist');
+app.use(express.static(DIST_DIR));
+
+// SPA fallback - serve index.html for all non-API routes
+app.get('*', (req, res) => {
+  res.sendFile(path.join(DIST_DIR, 'index.html'));
+});
+
+const PORT = process.env.PORT || 3002;
+
+// Initialize database before starting server
 await initDatabase();
 
+// Scheduled backups are off unless BACKUP_INTERVAL_HOURS is set
+const BACKUP_INTERVAL_HOURS = Number(process.env.BACKUP_INTERVAL_HOURS) || 0;
+if (BACKUP_INTERVAL_HOURS > 0) startBackupSchedule(BACKUP_INTERVAL_HOURS, BACKUP_KEEP);
+
+// Reminders run unless REMINDER_INTERVAL_MINUTES is 0; REMINDER_OFFSETS is a comma-separated list of days
+const REMINDER_INTERVAL_MINUTES = Number(process.env.REMINDER_INTERVAL_MINUTES ?? 60);
+if (REMINDER_INTERVAL_MINUTES > 0) startReminderSchedule(REMINDER_INTERVAL_MINUTES, parseOffsets(process.env.REMINDER_OFFSETS));
+
+// Digests are checked unless DIGEST_INTERVAL_MINUTES is 0; only configured recipients get one
+const DIGEST_INTERVAL_MINUTES = Number(process.env.DIGEST_INTERVAL_MINUTES ?? 15);
+if (DIGEST_INTERVAL_MINUTES > 0) startDigestSchedule(DIGEST_INTERVAL_MINUTES, mailTransport, MAIL_FROM);
+
 app.listen(PORT, () => {
   console.log(`🎓 Uni-Tracker server running on http://localhost:${PORT}`);
   console.log(`📊 SQLite database: ~/clawd/data/uni-tracker.db`);
@@ -5,52 +5,26 @@ import { UniversityDetail } from './components/UniversityDetail';
 import { Dashboard } from './components/Dashboard';
 import { AddUniversity } from './components/AddUniversity';
 import { Tasks } from './components/Tasks';
+import { Scholarships } from './components/Scholarships';
+import { Documents } from './components/Documents';
+import { Recommenders } from './components/Recommenders';
+import { Essays } from './components/Essays';
+import { Settings } from './components/Settings';
+import { Notifications } from './components/Notifications';
+import { api } from './api';
+import type { Applicant, University, UniversityStats } from './api';
+import type { Conversion } from './money';
 
-const API_URL = '/api';
+type View = 'dashboard' | 'universities' | 'tasks' | 'scholarships' | 'documents' | 'recommenders' | 'essays' | 'add' | 'settings';
 
-type View = 'dashboard' | 'universities' | 'tasks' | 'add' | 'settings';
-
-interface Stats {
-  total: number;
-  researching: number;
-  planning: number;
-  applied: number;
-  accepted: number;
-  rejected: number;
-}
-
-interface University {
-  id: number;
-  name: string;
-  country: string;
-  program: string;
-  major: string;
-  ranking?: number;
-  deadlineEarly?: string;
-  deadlineRegular?: string;
-  deadlineTransfer?: string;
-  satMin?: number;
-  satAvg?: number;
-  ieltsMin?: number;
-  ieltsAvg?: number;
-  toeflMin?: number;
-  gpaMin?: number;
-  applicationPortal?: string;
-  applicationUrl?: string;
-  essaysRequired?: number;
-  recLettersRequired?: number;
-  interviewRequired?: number;
-  status: string;
-  priority: string;
-  notes?: string;
-  applicationSubmitted?: string;
-  decisionReceived?: string;
-  decisionResult?: string;
-}
+// Remember the last selected applicant between visits
+const APPLICANT_KEY = 'uni-tracker.applicantId';
 
 function App() {
   const [view, setView] = useState<View>('dashboard');
-  const [stats, setStats] = useState<Stats>({
+  const [applicants, setApplicants] = useState<Applicant[]>([]);
+  const [applicantId, setApplicantId] = useState<number | null>(null);
+  const [stats, setStats] = useState<UniversityStats>({
     total: 0,
     researching: 0,
     planning: 0,
@@ -62,23 +36,40 @@ function App() {
   const [loading, setLoading] = useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [selectedUniversityId, setSelectedUniversityId] = useState<number | null>(null);
+  const [conversion, setConversion] = useState<Conversion>({ rates: {}, displayCurrency: 'USD' });
+
+  const fetchApplicants = async () => {
+    try {
+      const data = await api.applicants.list();
+      setApplicants(data);
+
+      // Fall back to the first applicant if the remembered one no longer exists
+      const stored = Number(localStorage.getItem(APPLICANT_KEY));
+      setApplicantId(current => {
+        if (current && data.some(a => a.id === current)) return current;
+        if (data.some(a => a.id === stored)) return stored;
+        return data[0]?.id ?? null;
+      });
+    } catch (error) {
+      console.error('Failed to fetch applicants:', error);
+    }
+  };
 
   const fetchStats = async () => {
+    if (!applicantId) return;
     try {
-      const res = await fetch(`${API_URL}/stats`);
-      const data = await res.json();
-      setStats(data);
+      setStats(await api.universities.stats(applicantId));
     } catch (error) {
       console.error('Failed to fetch stats:', error);
     }
   };
 
   const fetchUniversities = async () => {
+    if (!applicantId) return;
     try {
       setLoading(true);
-      const res = await fetch(`${API_URL}/universities`);
-      const data = await res.json();
-      setUniversities(data);
+      const page = await api.universities.list(applicantId);
+      setUniversities(page.items);
     } catch (error) {
       console.error('Failed to fetch universities:', error);
     } finally {
@@ -86,16 +77,55 @@ function App() {
     }
   };
 
+  // Exchange rates are shared; the display currency is a per-applicant setting
+  const fetchConversion = async () => {
+    if (!applicantId) return;
+    try {
+      const [rates, profile] = await Promise.all([api.exchangeRates.list(), api.profile.get(applicantId)]);
+      setConversion({
+        rates: Object.fromEntries(rates.map(r => [r.currency, r.rate])),
+        displayCurrency: profile.displayCurrency || 'USD',
+      });
+    } catch (error) {
+      console.error('Failed to fetch exchange rates:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchApplicants();
+  }, []);
+
   useEffect(() => {
+    if (!applicantId) return;
+    localStorage.setItem(APPLICANT_KEY, String(applicantId));
     fetchStats();
     fetchUniversities();
-  }, []);
+    fetchConversion();
+  }, [applicantId]);
 
   const refresh = () => {
     fetchStats();
     fetchUniversities();
   };
 
+  const handleSwitchApplicant = (id: number) => {
+    setSelectedUniversityId(null);
+    setApplicantId(id);
+  };
+
+  const handleAddApplicant = async () => {
+    const name = prompt('Name of the applicant to track:');
+    if (!name?.trim()) return;
+
+    try {
+      const applicant = await api.applicants.create(name.trim());
+      setApplicants([...applicants, applicant]);
+      handleSwitchApplicant(applicant.id);
+    } catch (error) {
+      console.error('Failed to add applicant:', error);
+    }
+  };
+
   const handleNavClick = (newView: View) => {
     setView(newView);
     setMobileMenuOpen(false);
@@ -114,13 +144,27 @@ function App() {
     setView('settings');
   };
 
+  const handleManageRecommenders = () => {
+    setSelectedUniversityId(null);
+    setView('recommenders');
+  };
+
+  const handleManageEssays = () => {
+    setSelectedUniversityId(null);
+    setView('essays');
+  };
+
   const getPageTitle = () => {
     switch (view) {
       case 'dashboard': return 'Dashboard';
       case 'universities': return 'Universities';
       case 'tasks': return 'Tasks & Deadlines';
+      case 'scholarships': return 'Scholarships';
+      case 'documents': return 'Documents';
+      case 'recommenders': return 'Recommenders';
+      case 'essays': return 'Essays';
       case 'add': return 'Add University';
-      case 'settings': return 'Settings';
+      case 'settings': return 'Profile & Settings';
       default: return 'Dashboard';
     }
   };
@@ -130,8 +174,12 @@ function App() {
       case 'dashboard': return 'Track your application journey at a glance';
       case 'universities': return `Managing ${stats.total} universities across your application list`;
       case 'tasks': return 'Stay on top of deadlines and requirements';
+      case 'scholarships': return 'Funding applications and what each university costs after awards';
+      case 'documents': return 'Transcripts, score reports, essays and letters, with every version kept';
+      case 'recommenders': return 'Who is writing your letters, and for which universities';
+      case 'essays': return 'Prompts for each university, and every draft you write for them';
       case 'add': return 'Add a new university to your tracker';
-      case 'settings': return 'Customize your experience';
+      case 'settings': return 'Keep your scores and documents up to date';
       default: return '';
     }
   };
@@ -156,6 +204,28 @@ function App() {
             </div>
           </div>
 
+          {/* Applicant Switcher */}
+          <div className="applicant-switcher">
+            <label className="nav-section-title" htmlFor="applicant-select">Applicant</label>
+            <div className="applicant-switcher-row">
+              <select
+                id="applicant-select"
+                className="form-select"
+                value={applicantId ?? ''}
+                onChange={(e) => handleSwitchApplicant(Number(e.target.value))}
+              >
+                {applicants.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+              <button className="applicant-add-btn" onClick={handleAddApplicant} title="Add applicant">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M12 5v14m-7-7h14" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
           <nav className="sidebar-nav">
             <div className="nav-section">
               <div className="nav-section-title">Overview</div>
@@ -201,6 +271,55 @@ function App() {
                 </span>
                 Tasks
               </button>
+              <button
+                className={`nav-item ${view === 'scholarships' ? 'active' : ''}`}
+                onClick={() => handleNavClick('scholarships')}
+              >
+                <span className="nav-icon">
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="8" r="6" />
+                    <path d="M15.5 13.5L17 22l-5-3-5 3 1.5-8.5" />
+                  </svg>
+                </span>
+                Scholarships
+              </button>
+              <button
+                className={`nav-item ${view === 'documents' ? 'active' : ''}`}
+                onClick={() => handleNavClick('documents')}
+              >
+                <span className="nav-icon">
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z" />
+                    <path d="M14 2v6h6M8 13h8M8 17h5" />
+                  </svg>
+                </span>
+                Documents
+              </button>
+              <button
+                className={`nav-item ${view === 'recommenders' ? 'active' : ''}`}
+                onClick={() => handleNavClick('recommenders')}
+              >
+                <span className="nav-icon">
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M17 21v-2a4 4 0 00-4-4H5a4 4 0 00-4 4v2" />
+                    <circle cx="9" cy="7" r="4" />
+                    <path d="M23 21v-2a4 4 0 00-3-3.87M16 3.13a4 4 0 010 7.75" />
+                  </svg>
+                </span>
+                Recommenders
+              </button>
+              <button
+                className={`nav-item ${view === 'essays' ? 'active' : ''}`}
+                onClick={() => handleNavClick('essays')}
+              >
+                <span className="nav-icon">
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M12 20h9" />
+                    <path d="M16.5 3.5a2.12 2.12 0 013 3L7 19l-4 1 1-4z" />
+                  </svg>
+                </span>
+                Essays
+              </button>
               <button
                 className={`nav-item ${view === 'add' ? 'active' : ''}`}
                 onClick={() => handleNavClick('add')}
@@ -214,6 +333,22 @@ function App() {
                 Add University
               </button>
             </div>
+
+            <div className="nav-section">
+              <div className="nav-section-title">Account</div>
+              <button
+                className={`nav-item ${view === 'settings' ? 'active' : ''}`}
+                onClick={() => handleNavClick('settings')}
+              >
+                <span className="nav-icon">
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M20 21v-2a4 4 0 00-4-4H8a4 4 0 00-4 4v2" />
+                    <circle cx="12" cy="7" r="4" />
+                  </svg>
+                </span>
+                Profile
+              </button>
+            </div>
           </nav>
 
           {/* Sidebar Stats */}
@@ -256,39 +391,67 @@ function App() {
 
           {/* Page Header */}
           <header className="page-header">
+            {applicantId && (
+              <Notifications key={applicantId} applicantId={applicantId} onOpenUniversity={handleViewUniversity} />
+            )}
             <h1 className="page-title">{getPageTitle()}</h1>
             <p className="page-subtitle">{getPageSubtitle()}</p>
           </header>
 
           {/* Page Content */}
-          <div className="page-content">
-            {view === 'dashboard' && (
-              <Dashboard
-                stats={stats}
-                universities={universities}
-                onNavigate={handleNavClick}
-              />
-            )}
-            {view === 'universities' && (
-              <UniversityList
-                universities={universities}
-                loading={loading}
-                onUpdate={refresh}
-                onView={handleViewUniversity}
-              />
-            )}
-            {view === 'tasks' && <Tasks />}
-            {view === 'add' && <AddUniversity onAdd={() => { refresh(); setView('universities'); }} />}
-          </div>
+          {applicantId && (
+            <div className="page-content" key={applicantId}>
+              {view === 'dashboard' && (
+                <Dashboard
+                  applicantId={applicantId}
+                  stats={stats}
+                  universities={universities}
+                  onNavigate={handleNavClick}
+                />
+              )}
+              {view === 'universities' && (
+                <UniversityList
+                  applicantId={applicantId}
+                  universities={universities}
+                  loading={loading}
+                  conversion={conversion}
+                  onUpdate={refresh}
+                  onView={handleViewUniversity}
+                />
+              )}
+              {view === 'tasks' && <Tasks applicantId={applicantId} />}
+              {view === 'scholarships' && (
+                <Scholarships applicantId={applicantId} universities={universities} conversion={conversion} />
+              )}
+              {view === 'documents' && <Documents applicantId={applicantId} universities={universities} />}
+              {view === 'recommenders' && <Recommenders applicantId={applicantId} universities={universities} />}
+              {view === 'essays' && <Essays applicantId={applicantId} universities={universities} />}
+              {view === 'add' && <AddUniversity applicantId={applicantId} onAdd={() => { refresh(); setView('universities'); }} />}
+              {view === 'settings' && (
+                <Settings
+                  applicantId={applicantId}
+                  applicantName={applicants.find(a => a.id === applicantId)?.name ?? ''}
+                  canDeleteApplicant={applicants.length > 1}
+                  onApplicantsChange={fetchApplicants}
+                  conversion={conversion}
+                  onConversionChange={fetchConversion}
+                />
+              )}
+            </div>
+          )}
         </main>
       </div>
 
       {/* University Detail Modal */}
-      {selectedUniversityId && (
+      {selectedUniversityId && applicantId && (
         <UniversityDetail
+          applicantId={applicantId}
           universityId={selectedUniversityId}
+          conversion={conversion}
           onClose={handleCloseDetail}
           onEditProfile={handleEditProfile}
+          onManageRecommenders={handleManageRecommenders}
+          onManageEssays={handleManageEssays}
         />
       )}
     </div>
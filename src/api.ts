@@ -0,0 +1,441 @@
+// Typed client for the Express API. Record shapes come straight from the
+// server (api/types.ts), so a schema change there breaks the build here
+// instead of silently rendering undefined fields.
+import type {
+  Applicant,
+  University,
+  Task,
+  Profile,
+  UniversityRequirements,
+  UniversityQuery,
+  TaskQuery,
+  Page,
+  Readiness,
+  UniversityStats,
+  GeneratedTasks,
+  ImportPreview,
+  ImportResult,
+  Backup,
+  SavedBackup,
+  RestoreResult,
+  HistoryEntry,
+  RequirementsUpdate,
+  Deadline,
+  DeadlineQuery,
+  CalendarQuery,
+  Notification,
+  NotificationQuery,
+  DigestRecipient,
+  Fee,
+  FeeQuery,
+  FeeBudget,
+  ExchangeRate,
+  ExchangeRateImport,
+  Scholarship,
+  ScholarshipQuery,
+  NetCosts,
+  VaultDocument,
+  VaultDocumentQuery,
+  Recommender,
+  LetterCoverage,
+  EssayPrompt,
+  Essay,
+  EssayVersion,
+  EssayQuery,
+  EssayLibrary,
+  TestDefinition,
+  TestAttempt,
+  TestAttemptQuery,
+  UniversityScore,
+  GpaScaleDefinition,
+  UniversityGpa,
+} from '../api/types';
+import type { FieldError, RequirementType, LetterStatus } from '../api/validation';
+
+export type {
+  Applicant,
+  University,
+  Task,
+  Profile,
+  UniversityRequirements,
+  UniversityQuery,
+  TaskQuery,
+  Page,
+  Readiness,
+  ReadinessItem,
+  UniversityStats,
+  ImportPreview,
+  ImportRow,
+  ImportResult,
+  Backup,
+  SavedBackup,
+  RestoreResult,
+  HistoryEntry,
+  RequirementsUpdate,
+  Deadline,
+  DeadlineQuery,
+  CalendarQuery,
+  Notification,
+  NotificationQuery,
+  DigestRecipient,
+  Fee,
+  FeeQuery,
+  FeeBudget,
+  BudgetLine,
+  ExchangeRate,
+  ExchangeRateImport,
+  Scholarship,
+  ScholarshipQuery,
+  NetCost,
+  NetCosts,
+  VaultDocument,
+  VaultDocumentQuery,
+  Recommender,
+  RecommendationLetter,
+  LetterCoverage,
+  EssayPrompt,
+  Essay,
+  EssayVersion,
+  EssayQuery,
+  EssayLibrary,
+  EssayReuse,
+  EssayWarning,
+  TestDefinition,
+  TestAttempt,
+  TestAttemptQuery,
+  UniversityScore,
+  TestRequirement,
+  GpaScaleDefinition,
+  UniversityGpa,
+} from '../api/types';
+export type { FieldError, RequirementType, DeadlineType, UniversityStatus, Priority, TaskStatus, TranscriptStatus, StatementStatus, DigestFrequency, ScholarshipStatus, VaultDocumentType, LetterStatus, EssayStatus, TestType, TestCategory, ScorePolicy, GpaScale } from '../api/validation';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+// Writes accept any subset of the stored fields; null clears an optional field
+type Input<T> = { [K in Exclude<keyof T, 'id' | 'applicantId' | 'createdAt' | 'updatedAt' | 'completedAt'>]?: T[K] | null };
+export type UniversityInput = Input<University>;
+export type TaskInput = Input<Task>;
+export type ProfileInput = Input<Profile>;
+export type DeadlineInput = Omit<Input<Deadline>, 'universityName' | 'dueAt'>;
+export type FeeInput = Omit<Input<Fee>, 'universityName'>;
+export type ScholarshipInput = Input<Scholarship>;
+export type DocumentInput = Omit<Input<VaultDocument>, 'version' | 'fileName' | 'mimeType' | 'size' | 'superseded'>;
+export type RecommenderInput = Omit<Input<Recommender>, 'letters'>;
+export type EssayPromptInput = Input<EssayPrompt>;
+export type EssayInput = Omit<Input<Essay>, 'universityId' | 'wordCount' | 'version'>;
+export type TestAttemptInput = Input<TestAttempt>;
+export type DigestRecipientInput = Omit<Input<DigestRecipient>, 'lastSentAt'>;
+
+// Any failed request: `status` is 0 when the server could not be reached
+export class ApiError extends Error {
+  status: number;
+  fields: FieldError[];
+
+  constructor(status: number, message: string, fields: FieldError[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.fields = fields;
+  }
+
+  // Validation errors keyed by field, ready for a form's error state
+  get fieldErrors(): Record<string, string> {
+    return Object.fromEntries(this.fields.map(f => [f.field, f.message]));
+  }
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  applicantId?: number;
+  query?: object;
+  body?: unknown;
+}
+
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 300;
+
+// Only reads and whole-record writes are retried, and only on network errors or server-side
+// failures. A DELETE that failed after the server applied it would come back as a 404.
+const shouldRetry = (method: string, status: number) =>
+  (method === 'GET' || method === 'PUT') && (status === 0 || status === 429 || status >= 500);
+
+function toSearchParams(query: object = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+// A file's bytes as base64, for uploads inside a JSON body
+async function toBase64(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // In chunks, since spreading a whole file into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function send(path: string, options: RequestOptions): Promise<Response> {
+  const method = options.method || 'GET';
+  const headers: Record<string, string> = {};
+  if (options.applicantId) headers['X-Applicant-Id'] = String(options.applicantId);
+  if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response | undefined;
+    try {
+      res = await fetch(`${API_URL}${path}${toSearchParams(options.query)}`, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+    } catch {
+      if (attempt >= MAX_RETRIES || !shouldRetry(method, 0)) {
+        throw new ApiError(0, 'Could not reach the server. Check that it is running.');
+      }
+    }
+
+    if (res?.ok) return res;
+    if (res && (attempt >= MAX_RETRIES || !shouldRetry(method, res.status))) {
+      const data = await res.json().catch(() => ({}));
+      throw new ApiError(res.status, data.error || `Request failed (${res.status})`, data.fields);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** attempt));
+  }
+}
+
+async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const res = await send(path, options);
+  return res.json();
+}
+
+// List routes return rows in the body and paging details in headers
+async function requestPage<T>(path: string, options: RequestOptions): Promise<Page<T>> {
+  const res = await send(path, options);
+  return {
+    items: await res.json(),
+    total: Number(res.headers.get('X-Total-Count') || 0),
+    nextCursor: res.headers.get('X-Next-Cursor'),
+  };
+}
+
+export const api = {
+  applicants: {
+    list: () => request<Applicant[]>('/applicants'),
+    create: (name: string) => request<Applicant>('/applicants', { method: 'POST', body: { name } }),
+    rename: (id: number, name: string) => request<Applicant>(`/applicants/${id}`, { method: 'PUT', body: { name } }),
+    remove: (id: number) => request<{ success: boolean }>(`/applicants/${id}`, { method: 'DELETE' }),
+  },
+
+  profile: {
+    get: (applicantId: number) => request<Profile>('/profile', { applicantId }),
+    update: (applicantId: number, updates: ProfileInput) =>
+      request<GeneratedTasks & { profile: Profile }>('/profile', { method: 'POST', applicantId, body: updates }),
+    readiness: (applicantId: number) => request<Readiness>('/profile/readiness', { applicantId }),
+    history: (applicantId: number) => request<HistoryEntry[]>('/profile/history', { applicantId }),
+  },
+
+  tests: {
+    list: () => request<TestDefinition[]>('/tests'),
+  },
+
+  gpaScales: {
+    list: () => request<GpaScaleDefinition[]>('/gpa-scales'),
+  },
+
+  testAttempts: {
+    list: (applicantId: number, query: TestAttemptQuery = {}) => request<TestAttempt[]>('/test-attempts', { applicantId, query }),
+    create: (applicantId: number, attempt: TestAttemptInput) =>
+      request<TestAttempt>('/test-attempts', { method: 'POST', applicantId, body: attempt }),
+    update: (applicantId: number, id: number, updates: TestAttemptInput) =>
+      request<TestAttempt>(`/test-attempts/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/test-attempts/${id}`, { method: 'DELETE', applicantId }),
+  },
+
+  universities: {
+    list: (applicantId: number, query: UniversityQuery = {}) => requestPage<University>('/universities', { applicantId, query }),
+    get: (applicantId: number, id: number) => request<University>(`/universities/${id}`, { applicantId }),
+    history: (applicantId: number, id: number) => request<HistoryEntry[]>(`/universities/${id}/history`, { applicantId }),
+    scores: (applicantId: number, id: number) => request<UniversityScore[]>(`/universities/${id}/scores`, { applicantId }),
+    gpa: (applicantId: number, id: number) => request<UniversityGpa>(`/universities/${id}/gpa`, { applicantId }),
+    create: (applicantId: number, university: UniversityInput) =>
+      request<University>('/universities', { method: 'POST', applicantId, body: university }),
+    update: (applicantId: number, id: number, updates: UniversityInput) =>
+      request<University>(`/universities/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) =>
+      request<{ success: boolean }>(`/universities/${id}`, { method: 'DELETE', applicantId }),
+    generateTasks: (applicantId: number, id: number) =>
+      request<GeneratedTasks & { success: boolean }>(`/universities/${id}/generate-tasks`, { method: 'POST', applicantId }),
+    stats: (applicantId: number) => request<UniversityStats>('/stats', { applicantId }),
+    requirements: (applicantId: number, id: number) =>
+      request<UniversityRequirements>(`/universities/${id}/requirements`, { applicantId }),
+    saveRequirements: (applicantId: number, id: number, requirements: UniversityRequirements) =>
+      request<RequirementsUpdate>(`/universities/${id}/requirements`, { method: 'PUT', applicantId, body: requirements }),
+    saveRequirement: <T extends RequirementType>(applicantId: number, id: number, type: T, settings: NonNullable<UniversityRequirements[T]>) =>
+      request<RequirementsUpdate>(`/universities/${id}/requirements/${type}`, { method: 'PUT', applicantId, body: settings }),
+    removeRequirement: (applicantId: number, id: number, type: RequirementType) =>
+      request<RequirementsUpdate>(`/universities/${id}/requirements/${type}`, { method: 'DELETE', applicantId }),
+    previewImport: (applicantId: number, csv: string) =>
+      request<ImportPreview>('/universities/import/preview', { method: 'POST', applicantId, body: { csv } }),
+    importCsv: (applicantId: number, csv: string) =>
+      request<ImportResult>('/universities/import', { method: 'POST', applicantId, body: { csv } }),
+    // A plain link target (downloads can't send headers), so the applicant goes in the query
+    exportCsvUrl: (applicantId: number, query: UniversityQuery = {}) =>
+      `${API_URL}/universities/export.csv${toSearchParams({ ...query, applicantId })}`,
+  },
+
+  tasks: {
+    list: (applicantId: number, query: TaskQuery = {}) => requestPage<Task>('/tasks', { applicantId, query }),
+    create: (applicantId: number, task: TaskInput) => request<Task>('/tasks', { method: 'POST', applicantId, body: task }),
+    update: (applicantId: number, id: number, updates: TaskInput) =>
+      request<Task>(`/tasks/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/tasks/${id}`, { method: 'DELETE', applicantId }),
+    accept: (applicantId: number, id: number) => request<Task>(`/tasks/${id}/accept`, { method: 'POST', applicantId, body: {} }),
+    snooze: (applicantId: number, id: number, snoozedUntil?: string) =>
+      request<Task>(`/tasks/${id}/snooze`, { method: 'POST', applicantId, body: snoozedUntil ? { snoozedUntil } : {} }),
+    dismiss: (applicantId: number, id: number) => request<Task>(`/tasks/${id}/dismiss`, { method: 'POST', applicantId, body: {} }),
+  },
+
+  deadlines: {
+    list: (applicantId: number, query: DeadlineQuery = {}) => request<Deadline[]>('/deadlines', { applicantId, query }),
+    create: (applicantId: number, deadline: DeadlineInput) =>
+      request<Deadline>('/deadlines', { method: 'POST', applicantId, body: deadline }),
+    update: (applicantId: number, id: number, updates: DeadlineInput) =>
+      request<Deadline>(`/deadlines/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/deadlines/${id}`, { method: 'DELETE', applicantId }),
+  },
+
+  fees: {
+    list: (applicantId: number, query: FeeQuery = {}) => request<Fee[]>('/fees', { applicantId, query }),
+    budget: (applicantId: number) => request<FeeBudget>('/fees/budget', { applicantId }),
+    create: (applicantId: number, fee: FeeInput) => request<Fee>('/fees', { method: 'POST', applicantId, body: fee }),
+    update: (applicantId: number, id: number, updates: FeeInput) =>
+      request<Fee>(`/fees/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/fees/${id}`, { method: 'DELETE', applicantId }),
+  },
+
+  scholarships: {
+    list: (applicantId: number, query: ScholarshipQuery = {}) => request<Scholarship[]>('/scholarships', { applicantId, query }),
+    netCost: (applicantId: number) => request<NetCosts>('/scholarships/net-cost', { applicantId }),
+    create: (applicantId: number, scholarship: ScholarshipInput) =>
+      request<Scholarship>('/scholarships', { method: 'POST', applicantId, body: scholarship }),
+    update: (applicantId: number, id: number, updates: ScholarshipInput) =>
+      request<Scholarship>(`/scholarships/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/scholarships/${id}`, { method: 'DELETE', applicantId }),
+  },
+
+  // Uploads send the file base64-encoded; a file with the same type and title as an
+  // earlier one becomes its next version
+  documents: {
+    list: (applicantId: number, query: VaultDocumentQuery = {}) => request<VaultDocument[]>('/documents', { applicantId, query }),
+    upload: async (applicantId: number, file: File, metadata: DocumentInput) =>
+      request<VaultDocument>('/documents', {
+        method: 'POST',
+        applicantId,
+        body: { ...metadata, fileName: file.name, mimeType: file.type || null, content: await toBase64(file) },
+      }),
+    update: (applicantId: number, id: number, updates: DocumentInput) =>
+      request<VaultDocument>(`/documents/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/documents/${id}`, { method: 'DELETE', applicantId }),
+    // Opened as a link, so the applicant travels in the query string
+    fileUrl: (applicantId: number, id: number) => `${API_URL}/documents/${id}/file${toSearchParams({ applicantId })}`,
+  },
+
+  // Letters are set per university; setting one again moves it to the new status
+  recommenders: {
+    list: (applicantId: number) => request<Recommender[]>('/recommenders', { applicantId }),
+    coverage: (applicantId: number) => request<LetterCoverage[]>('/recommenders/coverage', { applicantId }),
+    create: (applicantId: number, recommender: RecommenderInput) =>
+      request<Recommender>('/recommenders', { method: 'POST', applicantId, body: recommender }),
+    update: (applicantId: number, id: number, updates: RecommenderInput) =>
+      request<Recommender>(`/recommenders/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/recommenders/${id}`, { method: 'DELETE', applicantId }),
+    setLetter: (applicantId: number, id: number, universityId: number, status: LetterStatus) =>
+      request<Recommender>(`/recommenders/${id}/letters/${universityId}`, { method: 'PUT', applicantId, body: { status } }),
+    removeLetter: (applicantId: number, id: number, universityId: number) =>
+      request<{ success: boolean }>(`/recommenders/${id}/letters/${universityId}`, { method: 'DELETE', applicantId }),
+  },
+
+  essayPrompts: {
+    list: (applicantId: number, universityId?: number) => request<EssayPrompt[]>('/essay-prompts', { applicantId, query: { universityId } }),
+    create: (applicantId: number, prompt: EssayPromptInput) =>
+      request<EssayPrompt>('/essay-prompts', { method: 'POST', applicantId, body: prompt }),
+    update: (applicantId: number, id: number, updates: EssayPromptInput) =>
+      request<EssayPrompt>(`/essay-prompts/${id}`, { method: 'PUT', applicantId, body: updates }),
+    // Its drafts are deleted with it
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/essay-prompts/${id}`, { method: 'DELETE', applicantId }),
+  },
+
+  // Saving changed content adds a version; earlier versions stay readable
+  essays: {
+    list: (applicantId: number, query: EssayQuery = {}) => request<Essay[]>('/essays', { applicantId, query }),
+    library: (applicantId: number) => request<EssayLibrary>('/essays/library', { applicantId }),
+    versions: (applicantId: number, id: number) => request<EssayVersion[]>(`/essays/${id}/versions`, { applicantId }),
+    create: (applicantId: number, essay: EssayInput) =>
+      request<Essay>('/essays', { method: 'POST', applicantId, body: essay }),
+    update: (applicantId: number, id: number, updates: EssayInput) =>
+      request<Essay>(`/essays/${id}`, { method: 'PUT', applicantId, body: updates }),
+    remove: (applicantId: number, id: number) => request<{ success: boolean }>(`/essays/${id}`, { method: 'DELETE', applicantId }),
+  },
+
+  notifications: {
+    list: (applicantId: number, query: NotificationQuery = {}) => request<Notification[]>('/notifications', { applicantId, query }),
+    markRead: (applicantId: number, id: number) =>
+      request<Notification>(`/notifications/${id}/read`, { method: 'POST', applicantId, body: {} }),
+    markUnread: (applicantId: number, id: number) =>
+      request<Notification>(`/notifications/${id}/unread`, { method: 'POST', applicantId, body: {} }),
+    markAllRead: (applicantId: number) =>
+      request<{ updated: number }>('/notifications/read-all', { method: 'POST', applicantId, body: {} }),
+  },
+
+  digest: {
+    // Opened in a new tab, so the applicant travels in the query string
+    previewUrl: (applicantId: number, timezone: string, format: 'html' | 'text' = 'html') =>
+      `${API_URL}/digest/preview${toSearchParams({ applicantId, timezone, format })}`,
+    send: (applicantId: number, recipientId?: number) =>
+      request<{ sent: number; transport: string }>('/digest/send', { method: 'POST', applicantId, body: { recipientId } }),
+    recipients: (applicantId: number) => request<DigestRecipient[]>('/digest/recipients', { applicantId }),
+    createRecipient: (applicantId: number, recipient: DigestRecipientInput) =>
+      request<DigestRecipient>('/digest/recipients', { method: 'POST', applicantId, body: recipient }),
+    updateRecipient: (applicantId: number, id: number, updates: DigestRecipientInput) =>
+      request<DigestRecipient>(`/digest/recipients/${id}`, { method: 'PUT', applicantId, body: updates }),
+    removeRecipient: (applicantId: number, id: number) =>
+      request<{ success: boolean }>(`/digest/recipients/${id}`, { method: 'DELETE', applicantId }),
+  },
+
+  calendar: {
+    // Subscription URL for calendar apps, which can't send headers either
+    feedUrl: (applicantId: number, query: CalendarQuery = {}) => {
+      const url = new URL(`${API_URL}/calendar.ics${toSearchParams({ ...query, applicantId })}`, window.location.href);
+      return url.href.replace(/^https?:/, 'webcal:');
+    },
+  },
+
+  // Shared by every applicant; rates are units per US dollar
+  exchangeRates: {
+    list: () => request<ExchangeRate[]>('/exchange-rates'),
+    set: (currency: string, rate: number) =>
+      request<ExchangeRate>(`/exchange-rates/${encodeURIComponent(currency)}`, { method: 'PUT', body: { rate } }),
+    remove: (currency: string) =>
+      request<{ success: boolean }>(`/exchange-rates/${encodeURIComponent(currency)}`, { method: 'DELETE' }),
+    import: (content: string, replace = false) =>
+      request<ExchangeRateImport>('/exchange-rates/import', { method: 'POST', body: { content, replace } }),
+  },
+
+  // Whole-database backups; not tied to an applicant
+  backups: {
+    downloadUrl: () => `${API_URL}/backup`,
+    restore: (backup: Backup) => request<RestoreResult>('/backup/restore', { method: 'POST', body: backup }),
+    list: () => request<SavedBackup[]>('/backups'),
+    save: () => request<SavedBackup>('/backups', { method: 'POST', body: {} }),
+    restoreSaved: (file: string) =>
+      request<RestoreResult>(`/backups/${encodeURIComponent(file)}/restore`, { method: 'POST', body: {} }),
+  },
+};
@@ -1,12 +1,14 @@
-import { useState } from 'react';
-
-const API_URL = import.meta.env.VITE_API_URL || '/api';
+import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { UniversityStatus, Priority, TestDefinition, TestType, UniversityRequirements, GpaScale, GpaScaleDefinition } from '../api';
 
 interface Props {
+  applicantId: number;
   onAdd: () => void;
 }
 
-export function AddUniversity({ onAdd }: Props) {
+export function AddUniversity({ applicantId, onAdd }: Props) {
   const [form, setForm] = useState({
     name: '',
     country: '',
@@ -16,50 +18,70 @@ export function AddUniversity({ onAdd }: Props) {
     deadlineEarly: '',
     deadlineRegular: '',
     deadlineTransfer: '',
-    satMin: '',
-    satAvg: '',
-    ieltsMin: '',
-    ieltsAvg: '',
-    toeflMin: '',
     gpaMin: '',
+    gpaScale: '' as GpaScale | '',
     applicationPortal: '',
     applicationUrl: '',
     essaysRequired: '',
     recLettersRequired: '',
     interviewRequired: '0',
-    status: 'researching',
-    priority: 'medium',
+    status: 'researching' as UniversityStatus,
+    priority: 'medium' as Priority,
     notes: '',
   });
 
+  // Required tests, each with its minimum and average as typed
+  const [tests, setTests] = useState<{ test: TestType; minScore: string; avgScore: string }[]>([]);
+  const [definitions, setDefinitions] = useState<TestDefinition[]>([]);
+  const [gpaScales, setGpaScales] = useState<GpaScaleDefinition[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.tests.list().then(setDefinitions).catch(error => console.error('Failed to fetch tests:', error));
+    api.gpaScales.list().then(setGpaScales).catch(error => console.error('Failed to fetch GPA scales:', error));
+  }, []);
+
+  const definitionOf = (test: TestType) => definitions.find(d => d.key === test);
+  const updateTest = (index: number, changes: Partial<typeof tests[number]>) =>
+    setTests(tests.map((t, i) => i === index ? { ...t, ...changes } : t));
+  const addTest = () => {
+    const unused = definitions.find(d => !tests.some(t => t.test === d.key));
+    if (unused) setTests([...tests, { test: unused.key, minScore: '', avgScore: '' }]);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
+    setErrors({});
+    setFormError(null);
+
+    const requirements: UniversityRequirements = Object.fromEntries(tests.map(t => [t.test, {
+      required: true,
+      ...(t.minScore && { minScore: Number(t.minScore) }),
+      ...(t.avgScore && { avgScore: Number(t.avgScore) }),
+    }]));
 
     try {
-      await fetch(`${API_URL}/universities`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...form,
-          ranking: form.ranking ? Number(form.ranking) : null,
-          satMin: form.satMin ? Number(form.satMin) : null,
-          satAvg: form.satAvg ? Number(form.satAvg) : null,
-          ieltsMin: form.ieltsMin ? Number(form.ieltsMin) : null,
-          ieltsAvg: form.ieltsAvg ? Number(form.ieltsAvg) : null,
-          toeflMin: form.toeflMin ? Number(form.toeflMin) : null,
-          gpaMin: form.gpaMin ? Number(form.gpaMin) : null,
-          essaysRequired: form.essaysRequired ? Number(form.essaysRequired) : null,
-          recLettersRequired: form.recLettersRequired ? Number(form.recLettersRequired) : null,
-          interviewRequired: Number(form.interviewRequired),
-        }),
+      await api.universities.create(applicantId, {
+        ...form,
+        ranking: form.ranking ? Number(form.ranking) : null,
+        ...(tests.length > 0 && { requirements: JSON.stringify(requirements) }),
+        gpaMin: form.gpaMin ? Number(form.gpaMin) : null,
+        gpaScale: form.gpaScale || null,
+        essaysRequired: form.essaysRequired ? Number(form.essaysRequired) : null,
+        recLettersRequired: form.recLettersRequired ? Number(form.recLettersRequired) : null,
+        interviewRequired: Number(form.interviewRequired),
       });
-
       onAdd();
     } catch (error) {
-      console.error('Failed to add university:', error);
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to add university:', error);
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -78,22 +100,24 @@ export function AddUniversity({ onAdd }: Props) {
               <div className="form-group">
                 <label className="form-label">University Name *</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.name ? 'invalid' : ''}`}
                   placeholder="e.g., Stanford University"
                   value={form.name}
                   onChange={(e) => setForm({ ...form, name: e.target.value })}
                   required
                 />
+                <FormError message={errors.name} />
               </div>
               <div className="form-group">
                 <label className="form-label">Country *</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.country ? 'invalid' : ''}`}
                   placeholder="e.g., USA"
                   value={form.country}
                   onChange={(e) => setForm({ ...form, country: e.target.value })}
                   required
                 />
+                <FormError message={errors.country} />
               </div>
             </div>
 
@@ -101,7 +125,7 @@ export function AddUniversity({ onAdd }: Props) {
               <div className="form-group">
                 <label className="form-label">Program *</label>
                 <select
-                  className="form-select"
+                  className={`form-select ${errors.program ? 'invalid' : ''}`}
                   value={form.program}
                   onChange={(e) => setForm({ ...form, program: e.target.value })}
                 >
@@ -110,16 +134,18 @@ export function AddUniversity({ onAdd }: Props) {
                   <option value="PhD">PhD</option>
                   <option value="Master's">Master's</option>
                 </select>
+                <FormError message={errors.program} />
               </div>
               <div className="form-group">
                 <label className="form-label">Major *</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.major ? 'invalid' : ''}`}
                   placeholder="e.g., Computer Science"
                   value={form.major}
                   onChange={(e) => setForm({ ...form, major: e.target.value })}
                   required
                 />
+                <FormError message={errors.major} />
               </div>
             </div>
 
@@ -127,24 +153,26 @@ export function AddUniversity({ onAdd }: Props) {
               <div className="form-group">
                 <label className="form-label">World Ranking</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.ranking ? 'invalid' : ''}`}
                   type="number"
                   placeholder="e.g., 5"
                   value={form.ranking}
                   onChange={(e) => setForm({ ...form, ranking: e.target.value })}
                 />
+                <FormError message={errors.ranking} />
               </div>
               <div className="form-group">
                 <label className="form-label">Priority</label>
                 <select
-                  className="form-select"
+                  className={`form-select ${errors.priority ? 'invalid' : ''}`}
                   value={form.priority}
-                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value as Priority })}
                 >
                   <option value="high">High Priority</option>
                   <option value="medium">Medium Priority</option>
                   <option value="low">Low Priority</option>
                 </select>
+                <FormError message={errors.priority} />
               </div>
             </div>
           </div>
@@ -160,20 +188,22 @@ export function AddUniversity({ onAdd }: Props) {
               <div className="form-group">
                 <label className="form-label">Early Decision/Action</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.deadlineEarly ? 'invalid' : ''}`}
                   type="date"
                   value={form.deadlineEarly}
                   onChange={(e) => setForm({ ...form, deadlineEarly: e.target.value })}
                 />
+                <FormError message={errors.deadlineEarly} />
               </div>
               <div className="form-group">
                 <label className="form-label">Regular Decision</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.deadlineRegular ? 'invalid' : ''}`}
                   type="date"
                   value={form.deadlineRegular}
                   onChange={(e) => setForm({ ...form, deadlineRegular: e.target.value })}
                 />
+                <FormError message={errors.deadlineRegular} />
               </div>
             </div>
 
@@ -181,11 +211,12 @@ export function AddUniversity({ onAdd }: Props) {
               <div className="form-group">
                 <label className="form-label">Transfer Deadline</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.deadlineTransfer ? 'invalid' : ''}`}
                   type="date"
                   value={form.deadlineTransfer}
                   onChange={(e) => setForm({ ...form, deadlineTransfer: e.target.value })}
                 />
+                <FormError message={errors.deadlineTransfer} />
               </div>
               <div className="form-group" />
             </div>
@@ -198,75 +229,87 @@ export function AddUniversity({ onAdd }: Props) {
             <h3 className="form-card-title">Requirements</h3>
           </div>
           <div className="form-card-body">
-            <div className="form-row">
-              <div className="form-group">
-                <label className="form-label">SAT Minimum</label>
-                <input
-                  className="form-input"
-                  type="number"
-                  placeholder="e.g., 1400"
-                  value={form.satMin}
-                  onChange={(e) => setForm({ ...form, satMin: e.target.value })}
-                />
-              </div>
-              <div className="form-group">
-                <label className="form-label">SAT Average</label>
-                <input
-                  className="form-input"
-                  type="number"
-                  placeholder="e.g., 1500"
-                  value={form.satAvg}
-                  onChange={(e) => setForm({ ...form, satAvg: e.target.value })}
-                />
-              </div>
-            </div>
-
-            <div className="form-row">
-              <div className="form-group">
-                <label className="form-label">IELTS Minimum</label>
-                <input
-                  className="form-input"
-                  type="number"
-                  step="0.5"
-                  placeholder="e.g., 7.0"
-                  value={form.ieltsMin}
-                  onChange={(e) => setForm({ ...form, ieltsMin: e.target.value })}
-                />
-              </div>
-              <div className="form-group">
-                <label className="form-label">IELTS Average</label>
-                <input
-                  className="form-input"
-                  type="number"
-                  step="0.5"
-                  placeholder="e.g., 7.5"
-                  value={form.ieltsAvg}
-                  onChange={(e) => setForm({ ...form, ieltsAvg: e.target.value })}
-                />
-              </div>
-            </div>
+            {tests.map((row, index) => {
+              const definition = definitionOf(row.test);
+              const error = (setting: string) => errors[`requirements.${row.test}.${setting}`];
+              return (
+                <div key={index} className="form-row">
+                  <div className="form-group">
+                    <label className="form-label">Test</label>
+                    <select
+                      className="form-select"
+                      value={row.test}
+                      onChange={(e) => updateTest(index, { test: e.target.value as TestType })}
+                    >
+                      {definitions.filter(d => d.key === row.test || !tests.some(t => t.test === d.key)).map(d => (
+                        <option key={d.key} value={d.key}>{d.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label className="form-label">Minimum</label>
+                    <input
+                      className={`form-input ${error('minScore') ? 'invalid' : ''}`}
+                      type="number"
+                      min={definition?.min}
+                      max={definition?.max}
+                      step={definition?.step}
+                      value={row.minScore}
+                      onChange={(e) => updateTest(index, { minScore: e.target.value })}
+                    />
+                    <FormError message={error('minScore')} />
+                  </div>
+                  <div className="form-group">
+                    <label className="form-label">Average</label>
+                    <input
+                      className={`form-input ${error('avgScore') ? 'invalid' : ''}`}
+                      type="number"
+                      min={definition?.min}
+                      max={definition?.max}
+                      step={definition?.step}
+                      value={row.avgScore}
+                      onChange={(e) => updateTest(index, { avgScore: e.target.value })}
+                    />
+                    <FormError message={error('avgScore')} />
+                  </div>
+                  <div className="form-group" style={{ alignSelf: 'end', flex: '0 0 auto' }}>
+                    <button type="button" className="btn btn-secondary" onClick={() => setTests(tests.filter((_, i) => i !== index))}>
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
 
             <div className="form-row">
-              <div className="form-group">
-                <label className="form-label">TOEFL Minimum</label>
-                <input
-                  className="form-input"
-                  type="number"
-                  placeholder="e.g., 100"
-                  value={form.toeflMin}
-                  onChange={(e) => setForm({ ...form, toeflMin: e.target.value })}
-                />
+              <div className="form-group" style={{ alignSelf: 'end' }}>
+                <button type="button" className="btn btn-secondary" onClick={addTest} disabled={tests.length >= definitions.length}>
+                  + Add Required Test
+                </button>
               </div>
               <div className="form-group">
                 <label className="form-label">GPA Minimum</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.gpaMin ? 'invalid' : ''}`}
                   type="number"
-                  step="0.01"
+                  step={gpaScales.find(s => s.key === (form.gpaScale || 'gpa4'))?.step ?? 0.01}
                   placeholder="e.g., 3.7"
                   value={form.gpaMin}
                   onChange={(e) => setForm({ ...form, gpaMin: e.target.value })}
                 />
+                <FormError message={errors.gpaMin} />
+              </div>
+              <div className="form-group">
+                <label className="form-label">GPA Scale</label>
+                <select
+                  className={`form-select ${errors.gpaScale ? 'invalid' : ''}`}
+                  value={form.gpaScale}
+                  onChange={(e) => setForm({ ...form, gpaScale: e.target.value as GpaScale | '' })}
+                >
+                  <option value="">4.0 scale (default)</option>
+                  {gpaScales.filter(s => s.key !== 'gpa4').map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                </select>
+                <FormError message={errors.gpaScale} />
               </div>
             </div>
           </div>
@@ -282,7 +325,7 @@ export function AddUniversity({ onAdd }: Props) {
               <div className="form-group">
                 <label className="form-label">Application Portal</label>
                 <select
-                  className="form-select"
+                  className={`form-select ${errors.applicationPortal ? 'invalid' : ''}`}
                   value={form.applicationPortal}
                   onChange={(e) => setForm({ ...form, applicationPortal: e.target.value })}
                 >
@@ -293,16 +336,18 @@ export function AddUniversity({ onAdd }: Props) {
                   <option value="Direct">Direct Application</option>
                   <option value="Other">Other</option>
                 </select>
+                <FormError message={errors.applicationPortal} />
               </div>
               <div className="form-group">
                 <label className="form-label">Application URL</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.applicationUrl ? 'invalid' : ''}`}
                   type="url"
                   placeholder="https://..."
                   value={form.applicationUrl}
                   onChange={(e) => setForm({ ...form, applicationUrl: e.target.value })}
                 />
+                <FormError message={errors.applicationUrl} />
               </div>
             </div>
 
@@ -310,22 +355,24 @@ export function AddUniversity({ onAdd }: Props) {
               <div className="form-group">
                 <label className="form-label">Essays Required</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.essaysRequired ? 'invalid' : ''}`}
                   type="number"
                   placeholder="e.g., 2"
                   value={form.essaysRequired}
                   onChange={(e) => setForm({ ...form, essaysRequired: e.target.value })}
                 />
+                <FormError message={errors.essaysRequired} />
               </div>
               <div className="form-group">
                 <label className="form-label">Recommendation Letters</label>
                 <input
-                  className="form-input"
+                  className={`form-input ${errors.recLettersRequired ? 'invalid' : ''}`}
                   type="number"
                   placeholder="e.g., 2"
                   value={form.recLettersRequired}
                   onChange={(e) => setForm({ ...form, recLettersRequired: e.target.value })}
                 />
+                <FormError message={errors.recLettersRequired} />
               </div>
             </div>
 
@@ -333,20 +380,21 @@ export function AddUniversity({ onAdd }: Props) {
               <div className="form-group">
                 <label className="form-label">Interview Required</label>
                 <select
-                  className="form-select"
+                  className={`form-select ${errors.interviewRequired ? 'invalid' : ''}`}
                   value={form.interviewRequired}
                   onChange={(e) => setForm({ ...form, interviewRequired: e.target.value })}
                 >
                   <option value="0">No</option>
                   <option value="1">Yes</option>
                 </select>
+                <FormError message={errors.interviewRequired} />
               </div>
               <div className="form-group">
                 <label className="form-label">Current Status</label>
                 <select
-                  className="form-select"
+                  className={`form-select ${errors.status ? 'invalid' : ''}`}
                   value={form.status}
-                  onChange={(e) => setForm({ ...form, status: e.target.value })}
+                  onChange={(e) => setForm({ ...form, status: e.target.value as UniversityStatus })}
                 >
                   <option value="researching">Researching</option>
                   <option value="planning">Planning</option>
@@ -355,6 +403,7 @@ export function AddUniversity({ onAdd }: Props) {
                   <option value="rejected">Rejected</option>
                   <option value="waitlisted">Waitlisted</option>
                 </select>
+                <FormError message={errors.status} />
               </div>
             </div>
           </div>
@@ -369,18 +418,20 @@ export function AddUniversity({ onAdd }: Props) {
             <div className="form-group full-width">
               <label className="form-label">Additional Notes</label>
               <textarea
-                className="form-textarea"
+                className={`form-textarea ${errors.notes ? 'invalid' : ''}`}
                 placeholder="Any additional information, reminders, or requirements..."
                 value={form.notes}
                 onChange={(e) => setForm({ ...form, notes: e.target.value })}
                 rows={4}
               />
+              <FormError message={errors.notes} />
             </div>
           </div>
         </div>
 
         {/* Submit */}
         <div className="submit-section">
+          {formError && <span className="form-error-summary">{formError}</span>}
           <button
             type="submit"
             className="btn btn-primary btn-lg"
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { Backup, SavedBackup } from '../api';
+
+const reasonLabels: Record<SavedBackup['reason'], string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  'pre-restore': 'Before restore',
+};
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function BackupPanel() {
+  const [backups, setBackups] = useState<SavedBackup[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBackups = async () => {
+    try {
+      setBackups(await api.backups.list());
+    } catch (err) {
+      console.error('Failed to fetch backups:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchBackups();
+  }, []);
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await api.backups.save();
+      fetchBackups();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Backup failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // A restore replaces every applicant's data, so the whole app reloads afterwards
+  const runRestore = async (restore: () => Promise<unknown>) => {
+    if (!confirm('Replace ALL applicants, universities, tasks and profiles with this backup? The current data is saved first so you can undo.')) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await restore();
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.fields[0]?.message || err.message : 'Restore failed.');
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    let backup: Backup;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      setError('That file is not valid JSON.');
+      return;
+    }
+    runRestore(() => api.backups.restore(backup));
+  };
+
+  return (
+    <div className="form-card">
+      <div className="form-card-header">
+        <h3 className="form-card-title">Backup &amp; Restore</h3>
+      </div>
+      <div className="form-card-body">
+        <p className="backup-hint">
+          Backups cover every applicant. A backup can only be restored by the same version of the app that made it.
+        </p>
+        <div className="backup-actions">
+          <a className="btn btn-secondary" href={api.backups.downloadUrl()} download>Download Backup</a>
+          <button type="button" className="btn btn-secondary" onClick={handleSave} disabled={busy}>Save on Server</button>
+          <label className={`btn btn-secondary ${busy ? 'disabled' : ''}`}>
+            Restore from File
+            <input
+              type="file"
+              accept=".json,application/json"
+              hidden
+              disabled={busy}
+              onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </label>
+        </div>
+        <FormError message={error || undefined} />
+
+        {backups.length > 0 && (
+          <div className="backup-list">
+            {backups.map(backup => (
+              <div key={backup.file} className="backup-item">
+                <span className="backup-date">
+                  {new Date(backup.createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </span>
+                <span className="backup-reason">{reasonLabels[backup.reason]}</span>
+                <span className="backup-size">{formatSize(backup.size)}</span>
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-sm"
+                  disabled={busy}
+                  onClick={() => runRestore(() => api.backups.restoreSaved(backup.file))}
+                >
+                  Restore
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { api } from '../api';
+import type { Priority } from '../api';
+
+interface Props {
+  applicantId: number;
+}
+
+export function CalendarPanel({ applicantId }: Props) {
+  const [highPriorityOnly, setHighPriorityOnly] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const priority: Priority[] | undefined = highPriorityOnly ? ['high'] : undefined;
+  const feedUrl = api.calendar.feedUrl(applicantId, { priority });
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="form-card">
+      <div className="form-card-header">
+        <h3 className="form-card-title">Calendar Feed</h3>
+      </div>
+      <div className="form-card-body">
+        <p className="backup-hint">
+          Subscribe from your phone or desktop calendar to see every deadline and dated task. It refreshes on its own as things change here.
+        </p>
+        <div className="calendar-feed">
+          <input className="form-input" value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+          <button type="button" className="btn btn-secondary" onClick={handleCopy}>{copied ? 'Copied' : 'Copy'}</button>
+          <a className="btn btn-secondary" href={feedUrl}>Subscribe</a>
+        </div>
+        <label className="calendar-feed-option">
+          <input type="checkbox" checked={highPriorityOnly} onChange={(e) => setHighPriorityOnly(e.target.checked)} />
+          High priority only
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -1,58 +1,34 @@
-interface University {
-  id: number;
-  name: string;
-  country: string;
-  program: string;
-  major: string;
-  ranking?: number;
-  deadlineEarly?: string;
-  deadlineRegular?: string;
-  deadlineTransfer?: string;
-  status: string;
-  priority: string;
-  notes?: string;
-}
+import { useState, useEffect } from 'react';
+import { api } from '../api';
+import { deadlineLabel } from './DeadlineForm';
+import { daysUntil, toLocalDateString } from '../dates';
+import type { Deadline, University, UniversityStats } from '../api';
 
 interface StatsProps {
-  stats: {
-    total: number;
-    researching: number;
-    planning: number;
-    applied: number;
-    accepted: number;
-    rejected: number;
-  };
+  applicantId: number;
+  stats: UniversityStats;
   universities: University[];
   onNavigate: (view: 'dashboard' | 'universities' | 'tasks' | 'add' | 'settings') => void;
 }
 
-export function Dashboard({ stats, universities, onNavigate }: StatsProps) {
-  // Get upcoming deadlines
-  const getUpcomingDeadlines = () => {
-    const now = new Date();
-    const deadlines: { uni: University; date: Date; type: string }[] = [];
+export function Dashboard({ applicantId, stats, universities, onNavigate }: StatsProps) {
+  const [upcomingDeadlines, setUpcomingDeadlines] = useState<Deadline[]>([]);
 
-    universities.forEach(uni => {
-      if (uni.deadlineEarly) {
-        const d = new Date(uni.deadlineEarly);
-        if (d > now) deadlines.push({ uni, date: d, type: 'Early Decision' });
-      }
-      if (uni.deadlineRegular) {
-        const d = new Date(uni.deadlineRegular);
-        if (d > now) deadlines.push({ uni, date: d, type: 'Regular Decision' });
+  // Next five deadlines of any round; refetched whenever the university list changes
+  useEffect(() => {
+    const fetchDeadlines = async () => {
+      try {
+        // A deadline dated yesterday here can still be open where the university is
+        const yesterday = new Date();
+        yesterday.setDate(yesterday.getDate() - 1);
+        const deadlines = await api.deadlines.list(applicantId, { from: toLocalDateString(yesterday) });
+        setUpcomingDeadlines(deadlines.filter(d => d.dueAt && new Date(d.dueAt).getTime() > Date.now()).slice(0, 5));
+      } catch (error) {
+        console.error('Failed to fetch deadlines:', error);
       }
-      if (uni.deadlineTransfer) {
-        const d = new Date(uni.deadlineTransfer);
-        if (d > now) deadlines.push({ uni, date: d, type: 'Transfer' });
-      }
-    });
-
-    return deadlines
-      .sort((a, b) => a.date.getTime() - b.date.getTime())
-      .slice(0, 5);
-  };
-
-  const upcomingDeadlines = getUpcomingDeadlines();
+    };
+    fetchDeadlines();
+  }, [applicantId, universities]);
 
   const formatDate = (date: Date) => {
     return {
@@ -61,12 +37,6 @@ export function Dashboard({ stats, universities, onNavigate }: StatsProps) {
     };
   };
 
-  const getDaysUntil = (date: Date) => {
-    const now = new Date();
-    const diff = date.getTime() - now.getTime();
-    return Math.ceil(diff / (1000 * 60 * 60 * 24));
-  };
-
   const getProgressPercentage = () => {
     if (stats.total === 0) return 0;
     return Math.round(((stats.applied + stats.accepted) / stats.total) * 100);
@@ -192,22 +162,23 @@ export function Dashboard({ stats, universities, onNavigate }: StatsProps) {
           </div>
           <div className="section-content">
             {upcomingDeadlines.length > 0 ? (
-              upcomingDeadlines.map((deadline, idx) => {
-                const { day, month } = formatDate(deadline.date);
-                const daysUntil = getDaysUntil(deadline.date);
+              upcomingDeadlines.map(deadline => {
+                const date = new Date(deadline.dueAt!);
+                const { day, month } = formatDate(date);
+                const days = daysUntil(date);
 
                 return (
-                  <div key={idx} className="timeline-item">
+                  <div key={deadline.id} className="timeline-item">
                     <div className="timeline-date">
                       <div className="timeline-day">{day}</div>
                       <div className="timeline-month">{month}</div>
                     </div>
                     <div className="timeline-content">
-                      <div className="timeline-title">{deadline.uni.name}</div>
-                      <div className="timeline-subtitle">{deadline.type}</div>
+                      <div className="timeline-title">{deadline.universityName}</div>
+                      <div className="timeline-subtitle">{deadlineLabel(deadline)}</div>
                     </div>
-                    <span className={`timeline-badge ${daysUntil <= 7 ? 'urgent' : daysUntil <= 30 ? 'soon' : ''}`}>
-                      {daysUntil <= 7 ? `${daysUntil}d left` : `${daysUntil} days`}
+                    <span className={`timeline-badge ${days <= 7 ? 'urgent' : days <= 30 ? 'soon' : ''}`}>
+                      {days === 0 ? 'Today' : days <= 7 ? `${days}d left` : `${days} days`}
                     </span>
                   </div>
                 );
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { Deadline, DeadlineType } from '../api';
+
+export const deadlineTypeLabels: Record<DeadlineType, string> = {
+  early_decision: 'Early Decision',
+  early_decision_2: 'Early Decision II',
+  early_action: 'Early Action',
+  restrictive_early_action: 'Restrictive Early Action',
+  early: 'Early Round',
+  regular: 'Regular Decision',
+  rolling: 'Rolling',
+  transfer: 'Transfer',
+  scholarship: 'Scholarship',
+  financial_aid: 'Financial Aid',
+  housing: 'Housing',
+  deposit: 'Enrollment Deposit',
+  other: 'Other',
+};
+
+// Suggestions only; any IANA zone is accepted
+const timezones = [
+  'Asia/Riyadh', 'Asia/Dubai', 'Asia/Qatar', 'Europe/London', 'Europe/Dublin', 'Europe/Paris', 'Europe/Berlin',
+  'Europe/Amsterdam', 'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles',
+  'America/Toronto', 'America/Vancouver', 'Australia/Sydney', 'Australia/Melbourne', 'Pacific/Auckland',
+  'Asia/Singapore', 'Asia/Kuala_Lumpur', 'Asia/Hong_Kong', 'Asia/Tokyo', 'UTC',
+];
+
+// A custom label wins over the type's name
+export const deadlineLabel = (deadline: Pick<Deadline, 'type' | 'label'>) =>
+  deadline.label || deadlineTypeLabels[deadline.type];
+
+interface Props {
+  applicantId: number;
+  universityId: number;
+  onSaved: (deadline: Deadline) => void;
+  onCancel: () => void;
+}
+
+export function DeadlineForm({ applicantId, universityId, onSaved, onCancel }: Props) {
+  const [form, setForm] = useState({ type: 'regular' as DeadlineType, label: '', date: '', time: '', timezone: '' });
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+    try {
+      onSaved(await api.deadlines.create(applicantId, {
+        universityId,
+        type: form.type,
+        label: form.label || null,
+        date: form.date,
+        time: form.time || null,
+        timezone: form.timezone || null,
+      }));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save deadline:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="udi-deadline-form">
+      <div className="udi-req-editor-fields">
+        <label className="udi-req-editor-field">
+          <span>Round</span>
+          <select
+            className={`form-select ${errors.type ? 'invalid' : ''}`}
+            value={form.type}
+            onChange={(e) => setForm({ ...form, type: e.target.value as DeadlineType })}
+          >
+            {Object.entries(deadlineTypeLabels).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+          <FormError message={errors.type} />
+        </label>
+        <label className="udi-req-editor-field">
+          <span>Label (optional)</span>
+          <input
+            className={`form-input ${errors.label ? 'invalid' : ''}`}
+            value={form.label}
+            placeholder={deadlineTypeLabels[form.type]}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+          />
+          <FormError message={errors.label} />
+        </label>
+        <label className="udi-req-editor-field">
+          <span>Date</span>
+          <input
+            className={`form-input ${errors.date ? 'invalid' : ''}`}
+            type="date"
+            value={form.date}
+            onChange={(e) => setForm({ ...form, date: e.target.value })}
+          />
+          <FormError message={errors.date} />
+        </label>
+        <label className="udi-req-editor-field">
+          <span>Time (optional)</span>
+          <input
+            className={`form-input ${errors.time ? 'invalid' : ''}`}
+            type="time"
+            value={form.time}
+            onChange={(e) => setForm({ ...form, time: e.target.value })}
+          />
+          <FormError message={errors.time} />
+        </label>
+        <label className="udi-req-editor-field">
+          <span>Timezone</span>
+          <input
+            className={`form-input ${errors.timezone ? 'invalid' : ''}`}
+            list="deadline-timezones"
+            value={form.timezone}
+            placeholder="University's local time"
+            onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+          />
+          <datalist id="deadline-timezones">
+            {timezones.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+          <FormError message={errors.timezone} />
+        </label>
+      </div>
+
+      <div className="udi-req-editor-actions">
+        {formError && <span className="form-error-summary">{formError}</span>}
+        <button className="udi-btn-secondary" onClick={onCancel} disabled={saving}>Cancel</button>
+        <button className="udi-btn-primary" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Add Deadline'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { DigestRecipient, DigestFrequency, DigestRecipientInput } from '../api';
+import { userTimezone } from '../dates';
+
+interface Props {
+  applicantId: number;
+}
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const frequencyLabels: Record<DigestFrequency, string> = {
+  weekly: 'Weekly',
+  daily: 'Daily',
+  off: 'Paused',
+};
+
+const formatHour = (hour: number) => new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric' });
+
+const describeSchedule = (recipient: DigestRecipient) => {
+  if (recipient.frequency === 'off') return 'Paused';
+  const day = recipient.frequency === 'weekly' ? `${weekdays[recipient.dayOfWeek]}s` : 'Every day';
+  return `${day} at ${formatHour(recipient.hour)} (${recipient.timezone})`;
+};
+
+const emptyForm: DigestRecipientInput = { email: '', name: '', frequency: 'weekly', dayOfWeek: 0, hour: 8 };
+
+export function DigestPanel({ applicantId }: Props) {
+  const [recipients, setRecipients] = useState<DigestRecipient[]>([]);
+  const [form, setForm] = useState<DigestRecipientInput>(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const timezone = userTimezone();
+
+  const fetchRecipients = async () => {
+    try {
+      setRecipients(await api.digest.recipients(applicantId));
+    } catch (err) {
+      console.error('Failed to fetch digest recipients:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecipients();
+  }, [applicantId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      await api.digest.createRecipient(applicantId, { ...form, timezone });
+      setForm(emptyForm);
+      fetchRecipients();
+    } catch (err) {
+      if (err instanceof ApiError && err.fields.length > 0) {
+        setFieldErrors(err.fieldErrors);
+        setError('Please fix the highlighted fields.');
+      } else {
+        setError(err instanceof ApiError ? err.message : 'Could not add the recipient.');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFrequency = async (recipient: DigestRecipient, frequency: DigestFrequency) => {
+    try {
+      const updated = await api.digest.updateRecipient(applicantId, recipient.id, { frequency });
+      setRecipients(recipients.map(r => r.id === updated.id ? updated : r));
+    } catch (err) {
+      console.error('Failed to update digest recipient:', err);
+    }
+  };
+
+  const handleRemove = async (recipient: DigestRecipient) => {
+    if (!confirm(`Stop sending the digest to ${recipient.email}?`)) return;
+    try {
+      await api.digest.removeRecipient(applicantId, recipient.id);
+      setRecipients(recipients.filter(r => r.id !== recipient.id));
+    } catch (err) {
+      console.error('Failed to remove digest recipient:', err);
+    }
+  };
+
+  const handleSend = async (recipientId?: number) => {
+    setBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const result = await api.digest.send(applicantId, recipientId);
+      setStatus(result.transport === 'outbox'
+        ? `Wrote ${result.sent} digest${result.sent !== 1 ? 's' : ''} to the server's outbox folder.`
+        : `Sent ${result.sent} digest${result.sent !== 1 ? 's' : ''}.`);
+      fetchRecipients();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Sending failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="form-card">
+      <div className="form-card-header">
+        <h3 className="form-card-title">Email Digest</h3>
+      </div>
+      <div className="form-card-body">
+        <p className="backup-hint">
+          A summary of upcoming deadlines, overdue tasks and readiness, emailed on a schedule. Handy for keeping a parent or counselor in the loop.
+        </p>
+        <div className="backup-actions">
+          <a className="btn btn-secondary" href={api.digest.previewUrl(applicantId, timezone)} target="_blank" rel="noreferrer">Preview</a>
+          <button type="button" className="btn btn-secondary" onClick={() => handleSend()} disabled={busy || recipients.length === 0}>
+            Send Now
+          </button>
+        </div>
+        <FormError message={error || undefined} />
+        {status && <p className="digest-status">{status}</p>}
+
+        {recipients.length > 0 && (
+          <div className="backup-list">
+            {recipients.map(recipient => (
+              <div key={recipient.id} className="backup-item">
+                <span className="digest-recipient">
+                  {recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email}
+                  <span className="digest-schedule">{describeSchedule(recipient)}</span>
+                </span>
+                <select
+                  className="form-select"
+                  value={recipient.frequency}
+                  onChange={(e) => handleFrequency(recipient, e.target.value as DigestFrequency)}
+                >
+                  {Object.entries(frequencyLabels).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <button type="button" className="btn btn-secondary btn-sm" disabled={busy} onClick={() => handleSend(recipient.id)}>
+                  Send
+                </button>
+                <button type="button" className="btn btn-danger btn-sm" onClick={() => handleRemove(recipient)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form className="digest-form" onSubmit={handleAdd}>
+          <div className="form-row">
+            <div className="form-group">
+              <label className="form-label">Email</label>
+              <input
+                type="email"
+                className="form-input"
+                value={form.email || ''}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                placeholder="parent@example.com"
+              />
+              <FormError message={fieldErrors.email} />
+            </div>
+            <div className="form-group">
+              <label className="form-label">Name</label>
+              <input
+                className="form-input"
+                value={form.name || ''}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Optional"
+              />
+              <FormError message={fieldErrors.name} />
+            </div>
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label className="form-label">Frequency</label>
+              <select
+                className="form-select"
+                value={form.frequency || 'weekly'}
+                onChange={(e) => setForm({ ...form, frequency: e.target.value as DigestFrequency })}
+              >
+                <option value="weekly">Weekly</option>
+                <option value="daily">Daily</option>
+              </select>
+            </div>
+            {form.frequency !== 'daily' && (
+              <div className="form-group">
+                <label className="form-label">Day</label>
+                <select
+                  className="form-select"
+                  value={form.dayOfWeek ?? 0}
+                  onChange={(e) => setForm({ ...form, dayOfWeek: Number(e.target.value) })}
+                >
+                  {weekdays.map((day, index) => <option key={day} value={index}>{day}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="form-group">
+              <label className="form-label">Time</label>
+              <select
+                className="form-select"
+                value={form.hour ?? 8}
+                onChange={(e) => setForm({ ...form, hour: Number(e.target.value) })}
+              >
+                {Array.from({ length: 24 }, (_, hour) => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+              </select>
+              <FormError message={fieldErrors.hour} />
+            </div>
+          </div>
+          <p className="digest-zone">Times are in your timezone, {timezone}.</p>
+          <button type="submit" className="btn btn-primary" disabled={busy}>Add Recipient</button>
+        </form>
+      </div>
+    </div>
+  );
+}
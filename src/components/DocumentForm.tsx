@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { VaultDocument, VaultDocumentType, RequirementType, University } from '../api';
+
+export const documentTypeLabels: Record<VaultDocumentType, string> = {
+  transcript: 'Transcript',
+  test_report: 'Test Score Report',
+  essay: 'Essay',
+  recommendation: 'Recommendation Letter',
+  certificate: 'Certificate',
+  financial: 'Financial Document',
+  identity: 'ID / Passport',
+  other: 'Other',
+};
+
+// Requirements a document can satisfy; interviews and fees have no paperwork
+export const documentRequirementLabels: Partial<Record<RequirementType, string>> = {
+  transcripts: 'Transcripts',
+  sat: 'SAT score',
+  ielts: 'IELTS score',
+  toefl: 'TOEFL score',
+  recommendations: 'Recommendation letters',
+  essays: 'Essays',
+};
+
+interface Props {
+  applicantId: number;
+  universities: University[];
+  document?: VaultDocument; // Editing; uploading when absent
+  newVersionOf?: VaultDocument; // Uploading the next version of this document
+  onSaved: (document: VaultDocument) => void;
+  onCancel: () => void;
+}
+
+// Upload a file with its metadata, or edit an uploaded document's metadata
+export function DocumentForm({ applicantId, universities, document, newVersionOf, onSaved, onCancel }: Props) {
+  const base = document ?? newVersionOf;
+  const [file, setFile] = useState<File | null>(null);
+  const [form, setForm] = useState({
+    type: base?.type ?? 'transcript' as VaultDocumentType,
+    title: base?.title ?? '',
+    issuedDate: document?.issuedDate ?? '',
+    // Blank on upload lets the server pick from the type (or the earlier version)
+    requirementType: document ? document.requirementType ?? 'none' : '',
+    universityIds: document?.universityIds ?? [],
+    tags: base?.tags.join(', ') ?? '',
+    notes: document?.notes ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleFile = (selected: File | undefined) => {
+    setFile(selected ?? null);
+    // Title from the file name unless one was typed
+    if (selected && !form.title) setForm({ ...form, title: selected.name.replace(/\.[^.]+$/, '') });
+  };
+
+  const toggleUniversity = (id: number) => {
+    const ids = form.universityIds.includes(id) ? form.universityIds.filter(u => u !== id) : [...form.universityIds, id];
+    setForm({ ...form, universityIds: ids });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!document && !file) {
+      setErrors({ file: 'Choose a file to upload' });
+      return;
+    }
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+
+    const values = {
+      type: form.type,
+      title: form.title,
+      issuedDate: form.issuedDate,
+      tags: form.tags.split(',').map(t => t.trim()).filter(Boolean),
+      notes: form.notes,
+      ...(form.requirementType && { requirementType: form.requirementType === 'none' ? null : form.requirementType as RequirementType }),
+      // A new version keeps the earlier one's universities unless some are ticked
+      ...((!newVersionOf || form.universityIds.length > 0) && { universityIds: form.universityIds }),
+    };
+    try {
+      onSaved(document
+        ? await api.documents.update(applicantId, document.id, values)
+        : await api.documents.upload(applicantId, file!, values));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save document:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const heading = document ? `Edit ${document.title}` : newVersionOf ? `New Version of ${newVersionOf.title}` : 'Upload Document';
+
+  return (
+    <form className="form-card document-form" onSubmit={handleSubmit}>
+      <div className="form-card-header">
+        <h3 className="form-card-title">{heading}</h3>
+      </div>
+      <div className="form-card-body">
+        {!document && (
+          <div className="form-group">
+            <label className="form-label">File *</label>
+            <input
+              className={`form-input ${errors.file || errors.content ? 'invalid' : ''}`}
+              type="file"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <FormError message={errors.file || errors.content} />
+          </div>
+        )}
+
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Type</label>
+            <select
+              className="form-select"
+              value={form.type}
+              disabled={!!newVersionOf}
+              onChange={(e) => setForm({ ...form, type: e.target.value as VaultDocumentType })}
+            >
+              {Object.entries(documentTypeLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <FormError message={errors.type} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Title *</label>
+            <input
+              className={`form-input ${errors.title ? 'invalid' : ''}`}
+              value={form.title}
+              disabled={!!newVersionOf}
+              placeholder="e.g., High school transcript"
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+            />
+            <FormError message={errors.title} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Issued</label>
+            <input
+              className={`form-input ${errors.issuedDate ? 'invalid' : ''}`}
+              type="date"
+              value={form.issuedDate}
+              onChange={(e) => setForm({ ...form, issuedDate: e.target.value })}
+            />
+            <FormError message={errors.issuedDate} />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Satisfies</label>
+            <select
+              className="form-select"
+              value={form.requirementType}
+              onChange={(e) => setForm({ ...form, requirementType: e.target.value })}
+            >
+              {!document && <option value="">{newVersionOf ? 'Same as before' : 'Decide from the type'}</option>}
+              <option value="none">No requirement</option>
+              {Object.entries(documentRequirementLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <FormError message={errors.requirementType} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Tags</label>
+            <input
+              className={`form-input ${errors.tags ? 'invalid' : ''}`}
+              value={form.tags}
+              placeholder="Comma-separated, e.g. official, translated"
+              onChange={(e) => setForm({ ...form, tags: e.target.value })}
+            />
+            <FormError message={errors.tags} />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Universities</label>
+          <div className="document-universities">
+            {universities.map(university => (
+              <label key={university.id} className="document-check">
+                <input
+                  type="checkbox"
+                  checked={form.universityIds.includes(university.id)}
+                  onChange={() => toggleUniversity(university.id)}
+                />
+                {university.name}
+              </label>
+            ))}
+          </div>
+          <span className="document-hint">
+            {newVersionOf
+              ? 'Leave all unticked to keep the universities of the earlier version.'
+              : 'Leave all unticked for a document every university can use.'}
+          </span>
+          <FormError message={errors.universityIds} />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Notes</label>
+          <textarea
+            className={`form-textarea ${errors.notes ? 'invalid' : ''}`}
+            rows={2}
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+          <FormError message={errors.notes} />
+        </div>
+
+        <div className="edit-actions">
+          {formError && <span className="form-error-summary">{formError}</span>}
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? 'Saving...' : document ? 'Save Changes' : 'Upload'}
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
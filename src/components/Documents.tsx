@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { DocumentForm, documentTypeLabels, documentRequirementLabels } from './DocumentForm';
+import { api } from '../api';
+import { parseLocalDate } from '../dates';
+import type { VaultDocument, University } from '../api';
+
+interface Props {
+  applicantId: number;
+  universities: University[];
+}
+
+type Editing = { mode: 'upload' } | { mode: 'edit' | 'version'; document: VaultDocument };
+
+const formatDate = (date: string) =>
+  parseLocalDate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function Documents({ applicantId, universities }: Props) {
+  const [documents, setDocuments] = useState<VaultDocument[]>([]);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [tag, setTag] = useState('');
+
+  const fetchDocuments = async () => {
+    try {
+      setDocuments(await api.documents.list(applicantId, { tag: tag || undefined }));
+    } catch (error) {
+      console.error('Failed to fetch documents:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [applicantId, tag]);
+
+  const handleSaved = () => {
+    setEditing(null);
+    fetchDocuments();
+  };
+
+  const handleDelete = async (document: VaultDocument) => {
+    if (!confirm(`Delete version ${document.version} of ${document.title}? The file is removed from disk.`)) return;
+    try {
+      await api.documents.remove(applicantId, document.id);
+      fetchDocuments();
+    } catch (error) {
+      console.error('Failed to delete document:', error);
+    }
+  };
+
+  const universityNames = (ids: number[]) => ids.length === 0
+    ? 'Any university'
+    : ids.map(id => universities.find(u => u.id === id)?.name ?? 'Removed university').join(', ');
+
+  // The list comes newest version first, so each current document is followed by its older versions
+  const current = documents.filter(d => !d.superseded);
+  const olderVersions = (document: VaultDocument) =>
+    documents.filter(d => d.superseded && d.type === document.type && d.title.toLowerCase() === document.title.toLowerCase());
+  const tags = [...new Set(documents.flatMap(d => d.tags))].sort();
+
+  return (
+    <div className="documents">
+      <div className="tasks-header">
+        <span style={{ fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+          {current.length} document{current.length !== 1 ? 's' : ''}
+          {tag && ` tagged "${tag}"`}
+        </span>
+        <div className="documents-header-actions">
+          {tags.length > 0 && (
+            <select className="form-select" value={tag} onChange={(e) => setTag(e.target.value)}>
+              <option value="">All tags</option>
+              {tags.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          )}
+          <button className="add-task-btn" onClick={() => setEditing(editing?.mode === 'upload' ? null : { mode: 'upload' })}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4" />
+              <path d="M17 8l-5-5-5 5M12 3v12" />
+            </svg>
+            Upload Document
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <DocumentForm
+          key={editing.mode === 'upload' ? 'upload' : `${editing.mode}-${editing.document.id}`}
+          applicantId={applicantId}
+          universities={universities}
+          document={editing.mode === 'edit' ? editing.document : undefined}
+          newVersionOf={editing.mode === 'version' ? editing.document : undefined}
+          onSaved={handleSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {current.length === 0 && !editing ? (
+        <div className="empty-state">
+          <h3 className="empty-state-title">No documents yet</h3>
+          <p className="empty-state-text">Keep transcripts, score reports, essays and letters in one place and see which requirements they cover</p>
+          <button className="btn btn-primary" onClick={() => setEditing({ mode: 'upload' })}>Upload Document</button>
+        </div>
+      ) : (
+        <div className="document-list">
+          {current.map(document => (
+            <div key={document.id} className="document-card">
+              <div className="document-card-header">
+                <div>
+                  <h3 className="document-name">{document.title}</h3>
+                  <div className="document-meta">
+                    {documentTypeLabels[document.type]} · {universityNames(document.universityIds)}
+                  </div>
+                </div>
+                <span className="document-version">v{document.version}</span>
+              </div>
+
+              <div className="document-details">
+                <span>{document.fileName} · {formatSize(document.size)}</span>
+                {document.issuedDate && <span>Issued {formatDate(document.issuedDate)}</span>}
+                {document.requirementType && <span>Satisfies {documentRequirementLabels[document.requirementType] ?? document.requirementType}</span>}
+              </div>
+
+              {document.notes && <p className="document-notes">{document.notes}</p>}
+              {document.tags.length > 0 && (
+                <div className="uni-requirements">
+                  {document.tags.map(t => (
+                    <button key={t} type="button" className="requirement-tag" onClick={() => setTag(t)}>{t}</button>
+                  ))}
+                </div>
+              )}
+
+              {olderVersions(document).length > 0 && (
+                <div className="document-versions">
+                  {olderVersions(document).map(older => (
+                    <div key={older.id} className="document-version-row">
+                      <a href={api.documents.fileUrl(applicantId, older.id)}>v{older.version} · {older.fileName}</a>
+                      <span>{new Date(older.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                      <button type="button" className="document-version-delete" title="Delete this version" onClick={() => handleDelete(older)}>×</button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="document-actions">
+                <a className="btn btn-secondary btn-sm" href={api.documents.fileUrl(applicantId, document.id)}>Download</a>
+                <button className="btn btn-secondary btn-sm" onClick={() => setEditing({ mode: 'version', document })}>New Version</button>
+                <button className="btn btn-secondary btn-sm" onClick={() => setEditing({ mode: 'edit', document })}>Edit</button>
+                <button className="btn btn-danger btn-sm" onClick={() => handleDelete(document)}>Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
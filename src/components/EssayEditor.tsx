@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { Essay, EssayPrompt, EssayStatus, EssayVersion } from '../api';
+
+export const essayStatusLabels: Record<EssayStatus, string> = {
+  outline: 'Outline',
+  drafting: 'Drafting',
+  reviewing: 'Reviewing',
+  final: 'Final',
+};
+
+// Counted the way the server counts (api/essays.ts): runs of non-space characters
+const countWords = (text: string) => text.trim() ? text.trim().split(/\s+/).length : 0;
+
+interface Props {
+  applicantId: number;
+  prompt: EssayPrompt;
+  essay?: Essay; // Editing; starting a draft when absent
+  onSaved: (essay: Essay) => void;
+  onCancel: () => void;
+}
+
+// Write a draft for one prompt. Each save with changed text becomes a new version,
+// and any earlier version can be loaded back into the editor.
+export function EssayEditor({ applicantId, prompt, essay, onSaved, onCancel }: Props) {
+  const [form, setForm] = useState({
+    title: essay?.title ?? '',
+    status: essay?.status ?? 'outline' as EssayStatus,
+    content: essay?.content ?? '',
+  });
+  const [versions, setVersions] = useState<EssayVersion[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!essay) return;
+    api.essays.versions(applicantId, essay.id)
+      .then(setVersions)
+      .catch(error => console.error('Failed to fetch essay versions:', error));
+  }, [applicantId, essay?.id, essay?.version]);
+
+  const words = countWords(form.content);
+  const overLimit = !!prompt.wordLimit && words > prompt.wordLimit;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+
+    try {
+      onSaved(essay
+        ? await api.essays.update(applicantId, essay.id, form)
+        : await api.essays.create(applicantId, { ...form, promptId: prompt.id }));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save essay:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="form-card essay-editor" onSubmit={handleSubmit}>
+      <div className="form-card-header">
+        <h3 className="form-card-title">{essay ? `${essay.title || 'Draft'} · v${essay.version}` : 'New Draft'}</h3>
+      </div>
+      <div className="form-card-body">
+        <p className="essay-prompt-text">{prompt.prompt}</p>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Draft Title</label>
+            <input
+              className={`form-input ${errors.title ? 'invalid' : ''}`}
+              value={form.title}
+              placeholder="e.g., Robotics club angle"
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+            />
+            <FormError message={errors.title} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Status</label>
+            <select
+              className="form-select"
+              value={form.status}
+              onChange={(e) => setForm({ ...form, status: e.target.value as EssayStatus })}
+            >
+              {Object.entries(essayStatusLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <FormError message={errors.status} />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <textarea
+            className={`form-textarea essay-textarea ${errors.content ? 'invalid' : ''}`}
+            rows={16}
+            value={form.content}
+            onChange={(e) => setForm({ ...form, content: e.target.value })}
+          />
+          <span className={`essay-word-count ${overLimit ? 'over' : ''}`}>
+            {words} word{words !== 1 ? 's' : ''}{prompt.wordLimit ? ` of ${prompt.wordLimit}` : ''}
+          </span>
+          <FormError message={errors.content} />
+        </div>
+
+        {versions.length > 1 && (
+          <div className="essay-versions">
+            <span className="form-label">Versions</span>
+            {versions.map(version => (
+              <div key={version.id} className="essay-version-row">
+                <span>v{version.version} · {version.wordCount} words</span>
+                <span>{new Date(version.createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</span>
+                <button type="button" className="btn btn-secondary btn-sm" onClick={() => setForm({ ...form, content: version.content })}>
+                  Load
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="edit-actions">
+          {formError && <span className="form-error-summary">{formError}</span>}
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? 'Saving...' : essay ? 'Save' : 'Start Draft'}
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={onCancel} disabled={saving}>
+            Close
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
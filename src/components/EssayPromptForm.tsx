@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { EssayPrompt, University } from '../api';
+
+interface Props {
+  applicantId: number;
+  universities: University[];
+  prompt?: EssayPrompt; // Editing; adding when absent
+  onSaved: (prompt: EssayPrompt) => void;
+  onCancel: () => void;
+}
+
+// Add or edit one university's essay question. A prompt can't move to another university.
+export function EssayPromptForm({ applicantId, universities, prompt, onSaved, onCancel }: Props) {
+  const [form, setForm] = useState({
+    universityId: prompt?.universityId.toString() ?? '',
+    title: prompt?.title ?? '',
+    prompt: prompt?.prompt ?? '',
+    wordLimit: prompt?.wordLimit?.toString() ?? '',
+    notes: prompt?.notes ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+
+    const values = {
+      title: form.title,
+      prompt: form.prompt,
+      wordLimit: form.wordLimit ? Number(form.wordLimit) : null,
+      notes: form.notes,
+    };
+    try {
+      onSaved(prompt
+        ? await api.essayPrompts.update(applicantId, prompt.id, values)
+        : await api.essayPrompts.create(applicantId, { ...values, universityId: form.universityId ? Number(form.universityId) : null }));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save essay prompt:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="form-card essay-form" onSubmit={handleSubmit}>
+      <div className="form-card-header">
+        <h3 className="form-card-title">{prompt ? `Edit ${prompt.title || 'Prompt'}` : 'New Essay Prompt'}</h3>
+      </div>
+      <div className="form-card-body">
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">University *</label>
+            <select
+              className={`form-select ${errors.universityId ? 'invalid' : ''}`}
+              value={form.universityId}
+              disabled={!!prompt}
+              onChange={(e) => setForm({ ...form, universityId: e.target.value })}
+            >
+              <option value="">Choose a university</option>
+              {universities.map(university => (
+                <option key={university.id} value={university.id}>{university.name}</option>
+              ))}
+            </select>
+            <FormError message={errors.universityId} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Short Title</label>
+            <input
+              className={`form-input ${errors.title ? 'invalid' : ''}`}
+              value={form.title}
+              placeholder="e.g., Why us"
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+            />
+            <FormError message={errors.title} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Word Limit</label>
+            <input
+              className={`form-input ${errors.wordLimit ? 'invalid' : ''}`}
+              type="number"
+              min="1"
+              value={form.wordLimit}
+              onChange={(e) => setForm({ ...form, wordLimit: e.target.value })}
+            />
+            <FormError message={errors.wordLimit} />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Prompt *</label>
+          <textarea
+            className={`form-textarea ${errors.prompt ? 'invalid' : ''}`}
+            rows={3}
+            value={form.prompt}
+            placeholder="The question exactly as the university asks it"
+            onChange={(e) => setForm({ ...form, prompt: e.target.value })}
+          />
+          <FormError message={errors.prompt} />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Notes</label>
+          <textarea
+            className={`form-textarea ${errors.notes ? 'invalid' : ''}`}
+            rows={2}
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+          <FormError message={errors.notes} />
+        </div>
+
+        <div className="edit-actions">
+          {formError && <span className="form-error-summary">{formError}</span>}
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? 'Saving...' : prompt ? 'Save Changes' : 'Add Prompt'}
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
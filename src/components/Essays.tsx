@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import { EssayPromptForm } from './EssayPromptForm';
+import { EssayEditor, essayStatusLabels } from './EssayEditor';
+import { api } from '../api';
+import type { Essay, EssayLibrary, EssayPrompt, University } from '../api';
+
+interface Props {
+  applicantId: number;
+  universities: University[];
+}
+
+// The prompt's short title, or the start of the question
+const promptLabel = (prompt: EssayPrompt) =>
+  prompt.title || (prompt.prompt.length > 40 ? `${prompt.prompt.slice(0, 40).trimEnd()}…` : prompt.prompt);
+
+type Editing =
+  | { mode: 'prompt'; prompt?: EssayPrompt }
+  | { mode: 'draft'; prompt: EssayPrompt; essay?: Essay };
+
+export function Essays({ applicantId, universities }: Props) {
+  const [prompts, setPrompts] = useState<EssayPrompt[]>([]);
+  const [essays, setEssays] = useState<Essay[]>([]);
+  const [library, setLibrary] = useState<EssayLibrary>({ clusters: [], reuse: [], warnings: [] });
+  const [editing, setEditing] = useState<Editing | null>(null);
+
+  const fetchEssays = async () => {
+    try {
+      const [promptList, essayList, libraryData] = await Promise.all([
+        api.essayPrompts.list(applicantId),
+        api.essays.list(applicantId),
+        api.essays.library(applicantId),
+      ]);
+      setPrompts(promptList);
+      setEssays(essayList);
+      setLibrary(libraryData);
+    } catch (error) {
+      console.error('Failed to fetch essays:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchEssays();
+  }, [applicantId]);
+
+  const handlePromptSaved = () => {
+    setEditing(null);
+    fetchEssays();
+  };
+
+  // The editor stays open on the saved draft so writing can carry on
+  const handleDraftSaved = (essay: Essay) => {
+    if (editing?.mode === 'draft') setEditing({ ...editing, essay });
+    fetchEssays();
+  };
+
+  // Starts the prompt's first draft from another university's text, to be reworked in the editor
+  const handleReuse = async (prompt: EssayPrompt, source: Essay) => {
+    try {
+      const essay = await api.essays.create(applicantId, {
+        promptId: prompt.id,
+        title: `Adapted from ${universityName(source.universityId)}`,
+        status: 'drafting',
+        content: source.content,
+      });
+      setEditing({ mode: 'draft', prompt, essay });
+      fetchEssays();
+    } catch (error) {
+      console.error('Failed to reuse essay:', error);
+    }
+  };
+
+  const handleDeletePrompt = async (prompt: EssayPrompt) => {
+    const drafts = essays.filter(e => e.promptId === prompt.id).length;
+    if (!confirm(`Delete this prompt${drafts > 0 ? ` and its ${drafts} draft${drafts !== 1 ? 's' : ''}` : ''}?`)) return;
+    try {
+      await api.essayPrompts.remove(applicantId, prompt.id);
+      fetchEssays();
+    } catch (error) {
+      console.error('Failed to delete essay prompt:', error);
+    }
+  };
+
+  const handleDeleteDraft = async (essay: Essay) => {
+    if (!confirm(`Delete ${essay.title || 'this draft'} and all ${essay.version} of its versions?`)) return;
+    try {
+      await api.essays.remove(applicantId, essay.id);
+      if (editing?.mode === 'draft' && editing.essay?.id === essay.id) setEditing(null);
+      fetchEssays();
+    } catch (error) {
+      console.error('Failed to delete essay:', error);
+    }
+  };
+
+  const universityName = (id: number) => universities.find(u => u.id === id)?.name ?? 'Removed university';
+  const promptById = (id: number) => prompts.find(p => p.id === id);
+  const finalCount = essays.filter(e => e.status === 'final').length;
+  const sections = universities
+    .map(university => ({ university, prompts: prompts.filter(p => p.universityId === university.id) }))
+    .filter(section => section.prompts.length > 0);
+
+  const editorFor = (prompt: EssayPrompt) => editing?.mode === 'draft' && editing.prompt.id === prompt.id && (
+    <EssayEditor
+      key={editing.essay?.id ?? 'new'}
+      applicantId={applicantId}
+      prompt={prompt}
+      essay={editing.essay}
+      onSaved={handleDraftSaved}
+      onCancel={() => setEditing(null)}
+    />
+  );
+
+  return (
+    <div className="essays">
+      <div className="tasks-header">
+        <span style={{ fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+          {prompts.length} prompt{prompts.length !== 1 ? 's' : ''} · {finalCount} final
+        </span>
+        <button className="add-task-btn" onClick={() => setEditing(editing?.mode === 'prompt' && !editing.prompt ? null : { mode: 'prompt' })}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M12 8v8m-4-4h8" />
+          </svg>
+          Add Prompt
+        </button>
+      </div>
+
+      {editing?.mode === 'prompt' && (
+        <EssayPromptForm
+          key={editing.prompt?.id ?? 'new'}
+          applicantId={applicantId}
+          universities={universities}
+          prompt={editing.prompt}
+          onSaved={handlePromptSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {library.warnings.length > 0 && (
+        <div className="form-card essay-warnings">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Check Before Submitting</h3>
+          </div>
+          <div className="form-card-body">
+            {library.warnings.map(warning => (
+              <div key={`${warning.type}-${warning.essayId}-${warning.otherEssayId ?? warning.universityId}`} className={`essay-warning ${warning.type}`}>
+                {warning.message}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Questions asked, in other words, by more than one university */}
+      {library.clusters.length > 0 && (
+        <div className="form-card">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Similar Prompts</h3>
+          </div>
+          <div className="form-card-body">
+            {library.clusters.map(cluster => (
+              <div key={cluster.promptIds.join('-')} className="uni-requirements essay-cluster">
+                {cluster.promptIds.map(id => promptById(id)).filter((p): p is EssayPrompt => !!p).map(prompt => (
+                  <div key={prompt.id} className="requirement-tag">
+                    {universityName(prompt.universityId)} · {promptLabel(prompt)}
+                  </div>
+                ))}
+              </div>
+            ))}
+            <p className="essay-hint">A draft for one of these can be adapted for the others; the prompts without a draft offer it below.</p>
+          </div>
+        </div>
+      )}
+
+      {sections.length === 0 && !editing ? (
+        <div className="empty-state">
+          <h3 className="empty-state-title">No essay prompts yet</h3>
+          <p className="empty-state-text">Add each university's essay questions with their word limits, then write and revise drafts here</p>
+          <button className="btn btn-primary" onClick={() => setEditing({ mode: 'prompt' })}>Add Prompt</button>
+        </div>
+      ) : sections.map(({ university, prompts: universityPrompts }) => {
+        const required = university.essaysRequired || 0;
+        const finals = universityPrompts.filter(p => essays.some(e => e.promptId === p.id && e.status === 'final')).length;
+        return (
+          <section key={university.id} className="essay-section">
+            <div className="essay-section-header">
+              <h3 className="essay-section-title">{university.name}</h3>
+              <span className={`essay-section-progress ${required > 0 && finals >= required ? 'complete' : ''}`}>
+                {required > 0 ? `${finals} of ${required} required final` : `${finals} final`}
+              </span>
+            </div>
+
+            {universityPrompts.map(prompt => {
+              const drafts = essays.filter(e => e.promptId === prompt.id);
+              const reusable = library.reuse.find(r => r.promptId === prompt.id);
+              const source = reusable && essays.find(e => e.id === reusable.essayId);
+              const sourcePrompt = source && promptById(source.promptId);
+              return (
+                <div key={prompt.id} className="essay-card">
+                  <div className="essay-card-header">
+                    <div>
+                      <h4 className="essay-name">{prompt.title || 'Essay'}</h4>
+                      <p className="essay-prompt-text">{prompt.prompt}</p>
+                    </div>
+                    {prompt.wordLimit && <span className="essay-limit">{prompt.wordLimit} words</span>}
+                  </div>
+                  {prompt.notes && <p className="essay-notes">{prompt.notes}</p>}
+
+                  {drafts.length > 0 && (
+                    <div className="essay-drafts">
+                      {drafts.map(essay => (
+                        <div key={essay.id} className="essay-draft-row">
+                          <button type="button" className="essay-draft-open" onClick={() => setEditing({ mode: 'draft', prompt, essay })}>
+                            {essay.title || 'Draft'} · v{essay.version}
+                          </button>
+                          {library.warnings.some(w => w.essayId === essay.id || w.otherEssayId === essay.id) && (
+                            <span
+                              className="essay-warning-flag"
+                              title={library.warnings.filter(w => w.essayId === essay.id || w.otherEssayId === essay.id).map(w => w.message).join('\n')}
+                            >
+                              ⚠
+                            </span>
+                          )}
+                          <span className={`essay-status ${essay.status}`}>{essayStatusLabels[essay.status]}</span>
+                          <span className={`essay-word-count ${prompt.wordLimit && essay.wordCount > prompt.wordLimit ? 'over' : ''}`}>
+                            {essay.wordCount}{prompt.wordLimit ? ` / ${prompt.wordLimit}` : ''} words
+                          </span>
+                          <button type="button" className="document-version-delete" title="Delete this draft" onClick={() => handleDeleteDraft(essay)}>×</button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {source && sourcePrompt && (
+                    <div className="essay-reuse">
+                      <span>
+                        {universityName(source.universityId)} asks a similar question ("{promptLabel(sourcePrompt)}"), and your {essayStatusLabels[source.status].toLowerCase()} draft has {source.wordCount} words.
+                      </span>
+                      <button className="btn btn-secondary btn-sm" onClick={() => handleReuse(prompt, source)}>Adapt That Draft</button>
+                    </div>
+                  )}
+
+                  {editorFor(prompt)}
+
+                  <div className="essay-actions">
+                    <button className="btn btn-secondary btn-sm" onClick={() => setEditing({ mode: 'draft', prompt })}>New Draft</button>
+                    <button className="btn btn-secondary btn-sm" onClick={() => setEditing({ mode: 'prompt', prompt })}>Edit Prompt</button>
+                    <button className="btn btn-danger btn-sm" onClick={() => handleDeletePrompt(prompt)}>Delete</button>
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { ExchangeRate } from '../api';
+
+interface Props {
+  onChange: () => void; // Rates changed, so converted amounts elsewhere are stale
+}
+
+export function ExchangeRatesPanel({ onChange }: Props) {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [replace, setReplace] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const fetchRates = async () => {
+    try {
+      const data = await api.exchangeRates.list();
+      setRates(data);
+      setDrafts(Object.fromEntries(data.map(r => [r.currency, String(r.rate)])));
+    } catch (err) {
+      console.error('Failed to fetch exchange rates:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  const saveRate = async (currency: string, value: string) => {
+    setError(null);
+    setStatus(null);
+    try {
+      await api.exchangeRates.set(currency, Number(value));
+      await fetchRates();
+      onChange();
+      return true;
+    } catch (err) {
+      setError(err instanceof ApiError ? err.fields[0]?.message || err.message : 'Could not save the rate.');
+      return false;
+    }
+  };
+
+  // Existing rates save when the field loses focus
+  const handleBlur = (rate: ExchangeRate) => {
+    const value = drafts[rate.currency];
+    if (value === String(rate.rate)) return;
+    saveRate(rate.currency, value);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCurrency.trim() || !newRate) return;
+    if (await saveRate(newCurrency.trim(), newRate)) {
+      setNewCurrency('');
+      setNewRate('');
+    }
+  };
+
+  const handleRemove = async (rate: ExchangeRate) => {
+    try {
+      await api.exchangeRates.remove(rate.currency);
+      fetchRates();
+      onChange();
+    } catch (err) {
+      console.error('Failed to remove exchange rate:', err);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (replace && !confirm('Replace every exchange rate with the ones in this file?')) return;
+    setBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const result = await api.exchangeRates.import(await file.text(), replace);
+      setStatus(`Imported ${result.imported} rate${result.imported !== 1 ? 's' : ''}${result.removed > 0 ? `, removed ${result.removed}` : ''}.`);
+      fetchRates();
+      onChange();
+    } catch (err) {
+      setError(err instanceof ApiError
+        ? err.fields.map(f => `${f.field}: ${f.message}`).join('; ') || err.message
+        : 'Import failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="form-card">
+      <div className="form-card-header">
+        <h3 className="form-card-title">Exchange Rates</h3>
+      </div>
+      <div className="form-card-body">
+        <p className="backup-hint">
+          How much of each currency one US dollar buys. Rates are shared by every applicant and only change when you edit or import them.
+        </p>
+        <div className="backup-actions">
+          <label className={`btn btn-secondary ${busy ? 'disabled' : ''}`}>
+            Import from File
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              hidden
+              disabled={busy}
+              onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </label>
+          <label className="exchange-rate-replace">
+            <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+            Replace all existing rates
+          </label>
+        </div>
+        <FormError message={error || undefined} />
+        {status && <p className="digest-status">{status}</p>}
+
+        {rates.length > 0 && (
+          <div className="backup-list">
+            {rates.map(rate => (
+              <div key={rate.id} className="backup-item">
+                <span className="exchange-rate-currency">USD 1 =</span>
+                <input
+                  className="form-input exchange-rate-input"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={drafts[rate.currency] ?? ''}
+                  onChange={(e) => setDrafts({ ...drafts, [rate.currency]: e.target.value })}
+                  onBlur={() => handleBlur(rate)}
+                />
+                <span className="exchange-rate-currency">{rate.currency}</span>
+                <span className="exchange-rate-updated">
+                  Updated {new Date(rate.updatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                </span>
+                <button type="button" className="btn btn-danger btn-sm" onClick={() => handleRemove(rate)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form className="exchange-rate-form" onSubmit={handleAdd}>
+          <input
+            className="form-input"
+            value={newCurrency}
+            maxLength={3}
+            placeholder="GBP"
+            onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+          />
+          <input
+            className="form-input"
+            type="number"
+            min="0"
+            step="any"
+            value={newRate}
+            placeholder="Per US dollar, e.g. 0.79"
+            onChange={(e) => setNewRate(e.target.value)}
+          />
+          <button type="submit" className="btn btn-primary" disabled={!newCurrency.trim() || !newRate}>Add Rate</button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { Money } from './Money';
+import { api } from '../api';
+import { formatMoney } from '../money';
+import type { Conversion } from '../money';
+import type { FeeBudget, BudgetLine } from '../api';
+
+interface Props {
+  applicantId: number;
+  refreshKey?: string | null; // Refetch when this changes, e.g. after the budget is saved
+  conversion?: Conversion;
+}
+
+const stateLabels: Record<BudgetLine['state'], string> = {
+  paid: 'Paid',
+  waived: 'Waived',
+  due: 'Unpaid',
+  estimated: 'Listed fee',
+};
+
+export function FeeBudgetSummary({ applicantId, refreshKey, conversion }: Props) {
+  const [summary, setSummary] = useState<FeeBudget | null>(null);
+
+  useEffect(() => {
+    api.fees.budget(applicantId)
+      .then(setSummary)
+      .catch(error => console.error('Failed to fetch fee budget:', error));
+  }, [applicantId, refreshKey, conversion]);
+
+  if (!summary || summary.lines.length === 0) return null;
+
+  const { currency, budget, committed, planned } = summary;
+  // The bar's scale is whichever is larger, the budget or everything planned
+  const scale = Math.max(budget ?? 0, committed + planned) || 1;
+
+  return (
+    <div className="fee-budget">
+      <div className="fee-budget-bar">
+        <div className="fee-budget-committed" style={{ width: `${(committed / scale) * 100}%` }} />
+        <div className="fee-budget-planned" style={{ width: `${(planned / scale) * 100}%` }} />
+        {budget !== undefined && budget < scale && (
+          <div className="fee-budget-limit" style={{ left: `${(budget / scale) * 100}%` }} />
+        )}
+      </div>
+      <div className="fee-budget-totals">
+        <span><strong><Money amount={committed} currency={currency} conversion={conversion} /></strong> paid</span>
+        <span><strong><Money amount={planned} currency={currency} conversion={conversion} /></strong> still to pay</span>
+        {summary.remaining !== undefined && (
+          <span className={summary.remaining < 0 ? 'over' : ''}>
+            <strong><Money amount={summary.remaining} currency={currency} conversion={conversion} /></strong> left of {formatMoney(budget!, currency)}
+          </span>
+        )}
+      </div>
+
+      {summary.warnings.length > 0 && (
+        <ul className="fee-budget-warnings">
+          {summary.warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+
+      <div className="fee-budget-lines">
+        {summary.lines.map((line, index) => (
+          <div key={line.feeId ?? `estimate-${line.universityId}-${index}`} className={`fee-budget-line ${line.state}`}>
+            <span className="fee-budget-university">{line.universityName}</span>
+            <span className="fee-budget-label">{line.label}</span>
+            <span className="fee-budget-state">{stateLabels[line.state]}</span>
+            <span className="fee-budget-amount"><Money amount={line.amount} currency={line.currency} conversion={conversion} /></span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { Fee } from '../api';
+
+interface Props {
+  applicantId: number;
+  universityId: number;
+  defaultAmount?: number; // From the university's applicationFee requirement
+  onSaved: (fee: Fee) => void;
+  onCancel: () => void;
+}
+
+export function FeeForm({ applicantId, universityId, defaultAmount, onSaved, onCancel }: Props) {
+  const [form, setForm] = useState({
+    label: '',
+    amount: defaultAmount?.toString() ?? '',
+    currency: '',
+    paidDate: '',
+    waiverRequested: false,
+    waiverGranted: false,
+  });
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+    try {
+      onSaved(await api.fees.create(applicantId, {
+        universityId,
+        label: form.label || null,
+        amount: form.amount ? Number(form.amount) : null,
+        currency: form.currency || null,
+        paidDate: form.paidDate || null,
+        waiverRequested: form.waiverRequested || form.waiverGranted,
+        waiverGranted: form.waiverGranted,
+      }));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save fee:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="udi-fee-form">
+      <div className="udi-req-editor-fields">
+        <label className="udi-req-editor-field">
+          <span>Label (optional)</span>
+          <input
+            className={`form-input ${errors.label ? 'invalid' : ''}`}
+            value={form.label}
+            placeholder="Application fee"
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+          />
+          <FormError message={errors.label} />
+        </label>
+        <label className="udi-req-editor-field">
+          <span>Amount</span>
+          <input
+            className={`form-input ${errors.amount ? 'invalid' : ''}`}
+            type="number"
+            min="0"
+            step="0.01"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+          />
+          <FormError message={errors.amount} />
+        </label>
+        <label className="udi-req-editor-field">
+          <span>Currency</span>
+          <input
+            className={`form-input ${errors.currency ? 'invalid' : ''}`}
+            value={form.currency}
+            maxLength={3}
+            placeholder="University's"
+            onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+          />
+          <FormError message={errors.currency} />
+        </label>
+        <label className="udi-req-editor-field">
+          <span>Paid on (optional)</span>
+          <input
+            className={`form-input ${errors.paidDate ? 'invalid' : ''}`}
+            type="date"
+            value={form.paidDate}
+            onChange={(e) => setForm({ ...form, paidDate: e.target.value })}
+          />
+          <FormError message={errors.paidDate} />
+        </label>
+        <label className="udi-req-editor-check">
+          <input
+            type="checkbox"
+            checked={form.waiverRequested}
+            onChange={(e) => setForm({ ...form, waiverRequested: e.target.checked })}
+          />
+          Waiver requested
+        </label>
+        <label className="udi-req-editor-check">
+          <input
+            type="checkbox"
+            checked={form.waiverGranted}
+            onChange={(e) => setForm({ ...form, waiverGranted: e.target.checked })}
+          />
+          Waiver granted
+        </label>
+      </div>
+
+      <div className="udi-req-editor-actions">
+        {formError && <span className="form-error-summary">{formError}</span>}
+        <button className="udi-btn-secondary" onClick={onCancel} disabled={saving}>Cancel</button>
+        <button className="udi-btn-primary" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Add Fee'}
+        </button>
+      </div>
+    </div>
+  );
+}
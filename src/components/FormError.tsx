@@ -0,0 +1,5 @@
+// Inline message under a form field, shown when the server rejects that field
+export function FormError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <span className="form-error">{message}</span>;
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { ImportPreview } from '../api';
+
+interface Props {
+  applicantId: number;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const actionLabels = { create: 'New', update: 'Update', invalid: 'Skip' };
+
+export function ImportUniversities({ applicantId, onImported, onClose }: Props) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Nothing is written until the preview has been reviewed and confirmed
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setMessage(null);
+    setError(null);
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setCsv(text);
+      setPreview(await api.universities.previewImport(applicantId, text));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not read the file.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!csv) return;
+    setImporting(true);
+    setError(null);
+
+    try {
+      const result = await api.universities.importCsv(applicantId, csv);
+      setMessage(
+        `Added ${result.created}, updated ${result.updated}` +
+        (result.skipped ? `, skipped ${result.skipped} invalid` : '') +
+        (result.tasksCreated ? `. ${result.tasksCreated} new suggested tasks.` : '.')
+      );
+      setPreview(null);
+      setCsv(null);
+      onImported();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Import failed.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const ignored = preview?.columns.filter(c => !c.field).map(c => c.header) || [];
+  const importable = preview ? preview.summary.create + preview.summary.update : 0;
+
+  return (
+    <div className="form-card import-panel">
+      <div className="form-card-header">
+        <h3 className="form-card-title">Import from CSV</h3>
+        <button className="btn btn-secondary btn-sm" onClick={onClose}>Close</button>
+      </div>
+      <div className="form-card-body">
+        <p className="import-hint">
+          Rows are matched to existing universities by name and program. Matches are updated, the rest are added.
+          Blank cells leave the current value alone.
+        </p>
+        <input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+
+        {message && <div className="import-message">{message}</div>}
+        <FormError message={error || undefined} />
+
+        {preview && preview.errors.length > 0 && (
+          <div className="form-error-summary">
+            {preview.errors.map(e => <div key={e.message}>{e.message}</div>)}
+          </div>
+        )}
+
+        {preview && preview.errors.length === 0 && (
+          <>
+            <div className="import-summary">
+              {preview.summary.create} new · {preview.summary.update} updates · {preview.summary.invalid} with errors
+              {ignored.length > 0 && <span className="import-ignored"> · Ignoring columns: {ignored.join(', ')}</span>}
+            </div>
+
+            <div className="import-table-wrap">
+              <table className="import-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Action</th>
+                    <th>University</th>
+                    <th>Program</th>
+                    <th>Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(row => (
+                    <tr key={row.row} className={`import-row ${row.action}`}>
+                      <td>{row.row}</td>
+                      <td><span className={`import-action ${row.action}`}>{actionLabels[row.action]}</span></td>
+                      <td>{row.name || '—'}</td>
+                      <td>{row.program || '—'}</td>
+                      <td>
+                        {row.errors.map(e => (
+                          <div key={`${e.field}-${e.message}`} className="import-error">
+                            <strong>{e.field}</strong>: {e.message}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="edit-actions">
+              <button className="btn btn-primary" onClick={handleImport} disabled={importing || importable === 0}>
+                {importing ? 'Importing...' : `Import ${importable} ${importable === 1 ? 'row' : 'rows'}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { formatMoney, convertMoney } from '../money';
+import type { Conversion } from '../money';
+
+interface Props {
+  amount: number;
+  currency?: string | null; // USD when empty
+  conversion?: Conversion;
+}
+
+// An amount in the currency it was entered in, followed by "≈ £120" in the display
+// currency when that differs and an exchange rate is known
+export function Money({ amount, currency, conversion }: Props) {
+  const code = currency?.trim().toUpperCase() || 'USD';
+  const converted = conversion && code !== conversion.displayCurrency
+    ? convertMoney(amount, code, conversion.displayCurrency, conversion.rates)
+    : undefined;
+
+  return (
+    <>
+      {formatMoney(amount, code)}
+      {converted !== undefined && (
+        <span className="money-converted"> ≈ {formatMoney(Math.round(converted), conversion!.displayCurrency)}</span>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { api } from '../api';
+import type { Notification } from '../api';
+
+interface Props {
+  applicantId: number;
+  onOpenUniversity: (universityId: number) => void;
+}
+
+// Reminders are raised on the server, so check back every few minutes
+const POLL_INTERVAL = 5 * 60 * 1000;
+
+export function Notifications({ applicantId, onOpenUniversity }: Props) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const fetchNotifications = async () => {
+    try {
+      setNotifications(await api.notifications.list(applicantId));
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchNotifications();
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [applicantId]);
+
+  const unread = notifications.filter(n => !n.readAt).length;
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.readAt) {
+      try {
+        const updated = await api.notifications.markRead(applicantId, notification.id);
+        setNotifications(notifications.map(n => n.id === updated.id ? updated : n));
+      } catch (error) {
+        console.error('Failed to mark notification read:', error);
+      }
+    }
+    if (notification.universityId) {
+      setOpen(false);
+      onOpenUniversity(notification.universityId);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await api.notifications.markAllRead(applicantId);
+      fetchNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  return (
+    <div className="notifications">
+      <button className="notifications-bell" onClick={() => setOpen(!open)} title="Reminders">
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M18 8A6 6 0 006 8c0 7-3 9-3 9h18s-3-2-3-9" />
+          <path d="M13.73 21a2 2 0 01-3.46 0" />
+        </svg>
+        {unread > 0 && <span className="notifications-count">{unread}</span>}
+      </button>
+
+      {open && (
+        <div className="notifications-panel">
+          <div className="notifications-header">
+            <span>Reminders</span>
+            {unread > 0 && (
+              <button className="notifications-mark-all" onClick={handleMarkAllRead}>Mark all read</button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <div className="notifications-empty">No reminders yet. They appear as deadlines and due dates approach.</div>
+          ) : (
+            notifications.map(notification => (
+              <button
+                key={notification.id}
+                className={`notifications-item ${notification.readAt ? '' : 'unread'}`}
+                onClick={() => handleOpen(notification)}
+              >
+                <span className="notifications-item-title">{notification.title}</span>
+                <span className="notifications-item-message">{notification.message}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { Recommender, LetterStatus } from '../api';
+
+export const letterStatusLabels: Record<LetterStatus, string> = {
+  asked: 'Asked',
+  agreed: 'Agreed',
+  submitted: 'Submitted',
+};
+
+interface Props {
+  applicantId: number;
+  recommender?: Recommender; // Editing; adding when absent
+  onSaved: (recommender: Recommender) => void;
+  onCancel: () => void;
+}
+
+// Add or edit a recommender's details. Their letters are set in the matrix on the Recommenders page.
+export function RecommenderForm({ applicantId, recommender, onSaved, onCancel }: Props) {
+  const [form, setForm] = useState({
+    name: recommender?.name ?? '',
+    role: recommender?.role ?? '',
+    subject: recommender?.subject ?? '',
+    email: recommender?.email ?? '',
+    phone: recommender?.phone ?? '',
+    notes: recommender?.notes ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+
+    try {
+      onSaved(recommender
+        ? await api.recommenders.update(applicantId, recommender.id, form)
+        : await api.recommenders.create(applicantId, form));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save recommender:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="form-card recommender-form" onSubmit={handleSubmit}>
+      <div className="form-card-header">
+        <h3 className="form-card-title">{recommender ? `Edit ${recommender.name}` : 'New Recommender'}</h3>
+      </div>
+      <div className="form-card-body">
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Name *</label>
+            <input
+              className={`form-input ${errors.name ? 'invalid' : ''}`}
+              value={form.name}
+              placeholder="e.g., Ms. Alvarez"
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <FormError message={errors.name} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Role</label>
+            <input
+              className={`form-input ${errors.role ? 'invalid' : ''}`}
+              value={form.role}
+              placeholder="e.g., Teacher, School counselor"
+              onChange={(e) => setForm({ ...form, role: e.target.value })}
+            />
+            <FormError message={errors.role} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Subject</label>
+            <input
+              className={`form-input ${errors.subject ? 'invalid' : ''}`}
+              value={form.subject}
+              placeholder="e.g., Mathematics"
+              onChange={(e) => setForm({ ...form, subject: e.target.value })}
+            />
+            <FormError message={errors.subject} />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Email</label>
+            <input
+              className={`form-input ${errors.email ? 'invalid' : ''}`}
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+            />
+            <FormError message={errors.email} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Phone</label>
+            <input
+              className={`form-input ${errors.phone ? 'invalid' : ''}`}
+              type="tel"
+              value={form.phone}
+              onChange={(e) => setForm({ ...form, phone: e.target.value })}
+            />
+            <FormError message={errors.phone} />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Notes</label>
+          <textarea
+            className={`form-textarea ${errors.notes ? 'invalid' : ''}`}
+            rows={2}
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+          <FormError message={errors.notes} />
+        </div>
+
+        <div className="edit-actions">
+          {formError && <span className="form-error-summary">{formError}</span>}
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? 'Saving...' : recommender ? 'Save Changes' : 'Add Recommender'}
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import { RecommenderForm, letterStatusLabels } from './RecommenderForm';
+import { api, ApiError } from '../api';
+import type { Recommender, LetterCoverage, LetterStatus, University } from '../api';
+
+interface Props {
+  applicantId: number;
+  universities: University[];
+}
+
+export function Recommenders({ applicantId, universities }: Props) {
+  const [recommenders, setRecommenders] = useState<Recommender[]>([]);
+  const [coverage, setCoverage] = useState<LetterCoverage[]>([]);
+  const [editing, setEditing] = useState<Recommender | 'new' | null>(null);
+  const [letterError, setLetterError] = useState<string>();
+
+  const fetchRecommenders = async () => {
+    try {
+      const [list, rows] = await Promise.all([api.recommenders.list(applicantId), api.recommenders.coverage(applicantId)]);
+      setRecommenders(list);
+      setCoverage(rows);
+    } catch (error) {
+      console.error('Failed to fetch recommenders:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecommenders();
+  }, [applicantId]);
+
+  // An empty choice takes the recommender off that university
+  const setLetter = async (recommender: Recommender, universityId: number, status: LetterStatus | '') => {
+    setLetterError(undefined);
+    try {
+      if (status) await api.recommenders.setLetter(applicantId, recommender.id, universityId, status);
+      else await api.recommenders.removeLetter(applicantId, recommender.id, universityId);
+      fetchRecommenders();
+    } catch (error) {
+      if (error instanceof ApiError) setLetterError(error.fields[0]?.message || error.message);
+      else console.error('Failed to update letter:', error);
+    }
+  };
+
+  const handleDelete = async (recommender: Recommender) => {
+    if (!confirm(`Delete ${recommender.name}? Their letters and suggested follow-ups are removed too.`)) return;
+    try {
+      await api.recommenders.remove(applicantId, recommender.id);
+      fetchRecommenders();
+    } catch (error) {
+      console.error('Failed to delete recommender:', error);
+    }
+  };
+
+  const handleSaved = () => {
+    setEditing(null);
+    fetchRecommenders();
+  };
+
+  const letterFor = (recommender: Recommender, universityId: number) =>
+    recommender.letters.find(l => l.universityId === universityId);
+  const universityName = (id: number) => universities.find(u => u.id === id)?.name ?? 'Removed university';
+  const submittedCount = recommenders.flatMap(r => r.letters).filter(l => l.status === 'submitted').length;
+
+  return (
+    <div className="recommenders">
+      <div className="tasks-header">
+        <span style={{ fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+          {recommenders.length} recommender{recommenders.length !== 1 ? 's' : ''}
+          {submittedCount > 0 && ` · ${submittedCount} letter${submittedCount !== 1 ? 's' : ''} submitted`}
+        </span>
+        <button className="add-task-btn" onClick={() => setEditing(editing === 'new' ? null : 'new')}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M12 8v8m-4-4h8" />
+          </svg>
+          Add Recommender
+        </button>
+      </div>
+
+      {editing && (
+        <RecommenderForm
+          key={editing === 'new' ? 'new' : editing.id}
+          applicantId={applicantId}
+          recommender={editing === 'new' ? undefined : editing}
+          onSaved={handleSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {/* Which recommender writes for which university */}
+      {recommenders.length > 0 && universities.length > 0 && (
+        <div className="form-card">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Letters by University</h3>
+          </div>
+          <div className="form-card-body">
+            <div className="letter-matrix">
+              <table>
+                <thead>
+                  <tr>
+                    <th>University</th>
+                    {recommenders.map(recommender => <th key={recommender.id}>{recommender.name}</th>)}
+                    <th>Submitted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {universities.map(university => {
+                    const row = coverage.find(c => c.universityId === university.id);
+                    const covered = row && row.submitted >= row.required;
+                    return (
+                      <tr key={university.id}>
+                        <td className="letter-matrix-university">{university.name}</td>
+                        {recommenders.map(recommender => {
+                          const letter = letterFor(recommender, university.id);
+                          return (
+                            <td key={recommender.id}>
+                              <select
+                                className={`letter-select ${letter?.status ?? ''}`}
+                                value={letter?.status ?? ''}
+                                onChange={(e) => setLetter(recommender, university.id, e.target.value as LetterStatus | '')}
+                              >
+                                <option value="">—</option>
+                                {Object.entries(letterStatusLabels).map(([value, label]) => (
+                                  <option key={value} value={value}>{label}</option>
+                                ))}
+                              </select>
+                            </td>
+                          );
+                        })}
+                        <td className={`letter-matrix-coverage ${row?.required ? (covered ? 'covered' : 'short') : ''}`}>
+                          {row?.required ? `${row.submitted} / ${row.required}` : row ? `${row.submitted}` : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="recommender-hint">
+              Only submitted letters count toward a university's requirement. Suggested tasks follow up on letters that are asked or agreed.
+            </p>
+            {letterError && <div className="form-error-summary">{letterError}</div>}
+          </div>
+        </div>
+      )}
+
+      {recommenders.length === 0 && !editing ? (
+        <div className="empty-state">
+          <h3 className="empty-state-title">No recommenders yet</h3>
+          <p className="empty-state-text">Add the teachers and mentors writing your letters, then track each letter for every university</p>
+          <button className="btn btn-primary" onClick={() => setEditing('new')}>Add Recommender</button>
+        </div>
+      ) : (
+        <div className="recommender-list">
+          {recommenders.map(recommender => (
+            <div key={recommender.id} className="recommender-card">
+              <div className="recommender-card-header">
+                <div>
+                  <h3 className="recommender-name">{recommender.name}</h3>
+                  <div className="recommender-meta">
+                    {[recommender.role, recommender.subject].filter(Boolean).join(' · ') || 'No role recorded'}
+                  </div>
+                </div>
+              </div>
+
+              {(recommender.email || recommender.phone) && (
+                <div className="recommender-details">
+                  {recommender.email && <a href={`mailto:${recommender.email}`}>{recommender.email}</a>}
+                  {recommender.phone && <span>{recommender.phone}</span>}
+                </div>
+              )}
+
+              {recommender.notes && <p className="recommender-notes">{recommender.notes}</p>}
+              {recommender.letters.length > 0 && (
+                <div className="uni-requirements">
+                  {recommender.letters.map(letter => (
+                    <div key={letter.universityId} className={`requirement-tag letter-tag ${letter.status}`}>
+                      {universityName(letter.universityId)} · {letterStatusLabels[letter.status]}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="recommender-actions">
+                <button className="btn btn-secondary btn-sm" onClick={() => setEditing(recommender)}>Edit</button>
+                <button className="btn btn-danger btn-sm" onClick={() => handleDelete(recommender)}>Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { RequirementType, RequirementsUpdate, ScorePolicy, TestDefinition, UniversityRequirements } from '../api';
+
+interface Props {
+  applicantId: number;
+  universityId: number;
+  tests: TestDefinition[];
+  requirements: UniversityRequirements;
+  onSaved: (result: RequirementsUpdate) => void;
+  onCancel: () => void;
+}
+
+interface NumberField {
+  key: string;
+  label: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  grades?: string[]; // Entered as letters, stored as their position from `min`
+}
+
+export const scorePolicyLabels: Record<ScorePolicy, string> = {
+  superscore: 'Superscore',
+  highest: 'Highest single sitting',
+  all: 'All scores required',
+};
+
+interface Row {
+  type: RequirementType;
+  label: string;
+  toggle: string;
+  fields: NumberField[];
+  scored?: boolean;
+}
+
+// One row per registered test. `scored` rows also say how retakes are read; subject
+// tests (AP, A-level) instead say how many subjects need the minimum grade.
+function testRows(tests: TestDefinition[]): Row[] {
+  return tests.map(test => {
+    const range = { min: test.min, max: test.max, step: test.step, grades: test.grades };
+    const fields: NumberField[] = [
+      { key: 'minScore', label: test.grades ? 'Minimum grade' : 'Minimum', ...range },
+      { key: 'avgScore', label: 'Average admitted', ...range },
+    ];
+    return test.category === 'subject'
+      ? { type: test.key, label: test.label, toggle: 'Required', fields: [...fields, { key: 'count', label: 'Subjects', min: 1 }] }
+      : { type: test.key, label: test.label, toggle: 'Required', fields, scored: true };
+  });
+}
+
+const otherRows: Row[] = [
+  { type: 'transcripts', label: 'Transcripts', toggle: 'Required', fields: [{ key: 'count', label: 'Copies', min: 1 }] },
+  { type: 'recommendations', label: 'Recommendation letters', toggle: 'Required', fields: [{ key: 'count', label: 'Letters', min: 0 }] },
+  { type: 'essays', label: 'Essays', toggle: 'Required', fields: [{ key: 'count', label: 'Essays', min: 0 }] },
+  { type: 'interview', label: 'Interview', toggle: 'Required', fields: [] },
+  { type: 'applicationFee', label: 'Application fee', toggle: 'Charges a fee', fields: [{ key: 'amount', label: 'Amount', min: 0 }] },
+];
+
+// Form state per type: whether it applies, and its numbers as typed. An empty
+// scorePolicy leaves the server default.
+type FormState = Record<RequirementType, { enabled: boolean; values: Record<string, string>; waiverAvailable: boolean; scorePolicy: ScorePolicy | '' }>;
+
+function toForm(rows: Row[], requirements: UniversityRequirements): FormState {
+  const form = {} as FormState;
+  for (const { type, fields } of rows) {
+    const current = requirements[type] as Record<string, unknown> | undefined;
+    form[type] = {
+      enabled: type === 'applicationFee' ? !!current : !!current?.required,
+      values: Object.fromEntries(fields.map(f => [f.key, current?.[f.key]?.toString() ?? ''])),
+      waiverAvailable: !!current?.waiverAvailable,
+      scorePolicy: (current?.scorePolicy as ScorePolicy | undefined) ?? '',
+    };
+  }
+  return form;
+}
+
+function fromForm(rows: Row[], form: FormState): UniversityRequirements {
+  const requirements: Record<string, Record<string, unknown>> = {};
+  for (const { type, fields } of rows) {
+    const { enabled, values, waiverAvailable, scorePolicy } = form[type];
+    if (!enabled) continue;
+    const settings: Record<string, unknown> = type === 'applicationFee' ? { waiverAvailable } : { required: true };
+    for (const field of fields) {
+      if (values[field.key] !== '') settings[field.key] = Number(values[field.key]);
+    }
+    if (scorePolicy) settings.scorePolicy = scorePolicy;
+    requirements[type] = settings;
+  }
+  return requirements as UniversityRequirements;
+}
+
+export function RequirementsEditor({ applicantId, universityId, tests, requirements, onSaved, onCancel }: Props) {
+  const [rows] = useState(() => [...testRows(tests), ...otherRows]);
+  const [form, setForm] = useState<FormState>(() => toForm(rows, requirements));
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const update = (type: RequirementType, changes: Partial<FormState[RequirementType]>) =>
+    setForm({ ...form, [type]: { ...form[type], ...changes } });
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+    try {
+      onSaved(await api.universities.saveRequirements(applicantId, universityId, fromForm(rows, form)));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save requirements:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="udi-req-editor">
+      {rows.map(({ type, label, toggle, fields, scored }) => (
+        <div key={type} className={`udi-req-editor-row ${form[type].enabled ? 'enabled' : ''}`}>
+          <label className="udi-req-editor-toggle">
+            <input
+              type="checkbox"
+              checked={form[type].enabled}
+              onChange={(e) => update(type, { enabled: e.target.checked })}
+            />
+            <span className="udi-req-editor-label">{label}</span>
+            <span className="udi-req-editor-hint">{toggle}</span>
+          </label>
+
+          {form[type].enabled && (
+            <div className="udi-req-editor-fields">
+              {fields.map(field => (
+                <label key={field.key} className="udi-req-editor-field">
+                  <span>{field.label}</span>
+                  {field.grades ? (
+                    <select
+                      className={`form-select ${errors[`${type}.${field.key}`] ? 'invalid' : ''}`}
+                      value={form[type].values[field.key]}
+                      onChange={(e) => update(type, { values: { ...form[type].values, [field.key]: e.target.value } })}
+                    >
+                      <option value="">Not stated</option>
+                      {field.grades.map((grade, i) => <option key={grade} value={(field.min ?? 0) + i}>{grade}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      className={`form-input ${errors[`${type}.${field.key}`] ? 'invalid' : ''}`}
+                      type="number"
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      value={form[type].values[field.key]}
+                      onChange={(e) => update(type, { values: { ...form[type].values, [field.key]: e.target.value } })}
+                    />
+                  )}
+                  <FormError message={errors[`${type}.${field.key}`]} />
+                </label>
+              ))}
+              {scored && (
+                <label className="udi-req-editor-field">
+                  <span>Score policy</span>
+                  <select
+                    className={`form-select ${errors[`${type}.scorePolicy`] ? 'invalid' : ''}`}
+                    value={form[type].scorePolicy}
+                    onChange={(e) => update(type, { scorePolicy: e.target.value as ScorePolicy | '' })}
+                  >
+                    <option value="">Not stated (highest)</option>
+                    {Object.entries(scorePolicyLabels).map(([value, text]) => <option key={value} value={value}>{text}</option>)}
+                  </select>
+                  <FormError message={errors[`${type}.scorePolicy`]} />
+                </label>
+              )}
+              {type === 'applicationFee' && (
+                <label className="udi-req-editor-check">
+                  <input
+                    type="checkbox"
+                    checked={form[type].waiverAvailable}
+                    onChange={(e) => update(type, { waiverAvailable: e.target.checked })}
+                  />
+                  Fee waiver available
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="udi-req-editor-actions">
+        {formError && <span className="form-error-summary">{formError}</span>}
+        <button className="udi-btn-secondary" onClick={onCancel} disabled={saving}>Cancel</button>
+        <button className="udi-btn-primary" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Requirements'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { Scholarship, ScholarshipStatus, University } from '../api';
+
+interface Props {
+  applicantId: number;
+  universities: University[];
+  scholarship?: Scholarship; // Editing; adding when absent
+  onSaved: (scholarship: Scholarship) => void;
+  onCancel: () => void;
+}
+
+// Add or edit a scholarship. Status changes on an existing one go through the list's buttons.
+export function ScholarshipForm({ applicantId, universities, scholarship, onSaved, onCancel }: Props) {
+  const [form, setForm] = useState({
+    name: scholarship?.name ?? '',
+    provider: scholarship?.provider ?? '',
+    amount: scholarship?.amount?.toString() ?? '',
+    currency: scholarship?.currency ?? '',
+    renewable: scholarship?.renewable ?? false,
+    deadline: scholarship?.deadline ?? '',
+    eligibility: scholarship?.eligibility ?? '',
+    requiredDocuments: scholarship?.requiredDocuments.join('\n') ?? '',
+    status: scholarship?.status ?? 'researching' as ScholarshipStatus,
+    universityIds: scholarship?.universityIds ?? [],
+    notes: scholarship?.notes ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const toggleUniversity = (id: number) => {
+    const ids = form.universityIds.includes(id) ? form.universityIds.filter(u => u !== id) : [...form.universityIds, id];
+    setForm({ ...form, universityIds: ids });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+
+    const { status, ...fields } = form;
+    const values = {
+      ...fields,
+      amount: form.amount ? Number(form.amount) : null,
+      requiredDocuments: form.requiredDocuments.split('\n').map(d => d.trim()).filter(Boolean),
+    };
+    try {
+      onSaved(scholarship
+        ? await api.scholarships.update(applicantId, scholarship.id, values)
+        : await api.scholarships.create(applicantId, { ...values, status }));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save scholarship:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="form-card scholarship-form" onSubmit={handleSubmit}>
+      <div className="form-card-header">
+        <h3 className="form-card-title">{scholarship ? `Edit ${scholarship.name}` : 'New Scholarship'}</h3>
+      </div>
+      <div className="form-card-body">
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Name *</label>
+            <input
+              className={`form-input ${errors.name ? 'invalid' : ''}`}
+              value={form.name}
+              placeholder="e.g., Rhodes Scholarship"
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <FormError message={errors.name} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Provider</label>
+            <input
+              className={`form-input ${errors.provider ? 'invalid' : ''}`}
+              value={form.provider}
+              placeholder="University, government or foundation"
+              onChange={(e) => setForm({ ...form, provider: e.target.value })}
+            />
+            <FormError message={errors.provider} />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Amount{form.renewable ? ' per Year' : ''}</label>
+            <input
+              className={`form-input ${errors.amount ? 'invalid' : ''}`}
+              type="number"
+              min="0"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            />
+            <FormError message={errors.amount} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Currency</label>
+            <input
+              className={`form-input ${errors.currency ? 'invalid' : ''}`}
+              value={form.currency}
+              maxLength={3}
+              placeholder="USD"
+              onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+            />
+            <FormError message={errors.currency} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Deadline</label>
+            <input
+              className={`form-input ${errors.deadline ? 'invalid' : ''}`}
+              type="date"
+              value={form.deadline}
+              onChange={(e) => setForm({ ...form, deadline: e.target.value })}
+            />
+            <FormError message={errors.deadline} />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <label className="scholarship-check">
+            <input type="checkbox" checked={form.renewable} onChange={(e) => setForm({ ...form, renewable: e.target.checked })} />
+            Renews every year
+          </label>
+          {!scholarship && (
+            <div className="form-group">
+              <label className="form-label">Status</label>
+              <select
+                className="form-select"
+                value={form.status}
+                onChange={(e) => setForm({ ...form, status: e.target.value as ScholarshipStatus })}
+              >
+                <option value="researching">Researching</option>
+                <option value="applied">Applied</option>
+                <option value="awarded">Awarded</option>
+                <option value="declined">Declined</option>
+              </select>
+              <FormError message={errors.status} />
+            </div>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Universities</label>
+          <div className="scholarship-universities">
+            {universities.map(university => (
+              <label key={university.id} className="scholarship-check">
+                <input
+                  type="checkbox"
+                  checked={form.universityIds.includes(university.id)}
+                  onChange={() => toggleUniversity(university.id)}
+                />
+                {university.name}
+              </label>
+            ))}
+          </div>
+          <span className="scholarship-hint">Leave all unticked for a scholarship you can take to any university.</span>
+          <FormError message={errors.universityIds} />
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Eligibility</label>
+            <textarea
+              className={`form-textarea ${errors.eligibility ? 'invalid' : ''}`}
+              rows={3}
+              value={form.eligibility}
+              placeholder="Who can apply"
+              onChange={(e) => setForm({ ...form, eligibility: e.target.value })}
+            />
+            <FormError message={errors.eligibility} />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Required Documents</label>
+            <textarea
+              className={`form-textarea ${errors.requiredDocuments ? 'invalid' : ''}`}
+              rows={3}
+              value={form.requiredDocuments}
+              placeholder={'One per line, e.g.\nFinancial statement\nReference letter'}
+              onChange={(e) => setForm({ ...form, requiredDocuments: e.target.value })}
+            />
+            <FormError message={errors.requiredDocuments} />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Notes</label>
+          <textarea
+            className={`form-textarea ${errors.notes ? 'invalid' : ''}`}
+            rows={2}
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+          <FormError message={errors.notes} />
+        </div>
+
+        <div className="edit-actions">
+          {formError && <span className="form-error-summary">{formError}</span>}
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? 'Saving...' : scholarship ? 'Save Changes' : 'Add Scholarship'}
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
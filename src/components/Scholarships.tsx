@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { ScholarshipForm } from './ScholarshipForm';
+import { Money } from './Money';
+import { api, ApiError } from '../api';
+import { parseLocalDate } from '../dates';
+import type { Scholarship, ScholarshipStatus, NetCosts, University } from '../api';
+import type { Conversion } from '../money';
+
+interface Props {
+  applicantId: number;
+  universities: University[];
+  conversion: Conversion;
+}
+
+const statusLabels: Record<ScholarshipStatus, string> = {
+  researching: 'Researching',
+  applied: 'Applied',
+  awarded: 'Awarded',
+  declined: 'Declined',
+};
+
+// The next steps offered for each status; the server enforces the same lifecycle
+const nextSteps: Record<ScholarshipStatus, { status: ScholarshipStatus; label: string }[]> = {
+  researching: [{ status: 'applied', label: 'Mark Applied' }],
+  applied: [{ status: 'awarded', label: 'Awarded' }, { status: 'declined', label: 'Declined' }],
+  awarded: [{ status: 'applied', label: 'Undo' }],
+  declined: [{ status: 'applied', label: 'Undo' }],
+};
+
+const formatDate = (date: string) =>
+  parseLocalDate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export function Scholarships({ applicantId, universities, conversion }: Props) {
+  const [scholarships, setScholarships] = useState<Scholarship[]>([]);
+  const [netCosts, setNetCosts] = useState<NetCosts | null>(null);
+  const [editing, setEditing] = useState<Scholarship | 'new' | null>(null);
+  const [statusError, setStatusError] = useState<string>();
+
+  const fetchScholarships = async () => {
+    try {
+      const [list, costs] = await Promise.all([api.scholarships.list(applicantId), api.scholarships.netCost(applicantId)]);
+      setScholarships(list);
+      setNetCosts(costs);
+    } catch (error) {
+      console.error('Failed to fetch scholarships:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchScholarships();
+  }, [applicantId, conversion]);
+
+  const setStatus = async (scholarship: Scholarship, status: ScholarshipStatus) => {
+    setStatusError(undefined);
+    try {
+      await api.scholarships.update(applicantId, scholarship.id, { status });
+      fetchScholarships();
+    } catch (error) {
+      if (error instanceof ApiError) setStatusError(error.fields[0]?.message || error.message);
+      else console.error('Failed to update scholarship:', error);
+    }
+  };
+
+  const handleDelete = async (scholarship: Scholarship) => {
+    if (!confirm(`Delete ${scholarship.name}? Its suggested tasks are removed too.`)) return;
+    try {
+      await api.scholarships.remove(applicantId, scholarship.id);
+      fetchScholarships();
+    } catch (error) {
+      console.error('Failed to delete scholarship:', error);
+    }
+  };
+
+  const handleSaved = () => {
+    setEditing(null);
+    fetchScholarships();
+  };
+
+  const universityNames = (ids: number[]) => ids.length === 0
+    ? 'Any university'
+    : ids.map(id => universities.find(u => u.id === id)?.name ?? 'Removed university').join(', ');
+
+  // Only universities where there is something to show
+  const costRows = netCosts?.universities.filter(row => row.tuition !== undefined || row.awarded > 0 || row.pending > 0) ?? [];
+  const awardedCount = scholarships.filter(s => s.status === 'awarded').length;
+
+  return (
+    <div className="scholarships">
+      <div className="tasks-header">
+        <span style={{ fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+          {scholarships.length} scholarship{scholarships.length !== 1 ? 's' : ''}
+          {awardedCount > 0 && ` · ${awardedCount} awarded`}
+        </span>
+        <button className="add-task-btn" onClick={() => setEditing(editing === 'new' ? null : 'new')}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M12 8v8m-4-4h8" />
+          </svg>
+          Add Scholarship
+        </button>
+      </div>
+
+      {editing && (
+        <ScholarshipForm
+          key={editing === 'new' ? 'new' : editing.id}
+          applicantId={applicantId}
+          universities={universities}
+          scholarship={editing === 'new' ? undefined : editing}
+          onSaved={handleSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {/* Net cost per university */}
+      {costRows.length > 0 && netCosts && (
+        <div className="form-card">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Net Cost After Awards</h3>
+          </div>
+          <div className="form-card-body">
+            <div className="net-cost-table">
+              <div className="net-cost-row net-cost-head">
+                <span>University</span>
+                <span>Tuition / Year</span>
+                <span>Awarded</span>
+                <span>Pending</span>
+                <span>Net Cost</span>
+              </div>
+              {costRows.map(row => (
+                <div key={row.universityId} className="net-cost-row">
+                  <span className="net-cost-university">{row.universityName}</span>
+                  <span>{row.tuition !== undefined ? <Money amount={row.tuition} currency={netCosts.currency} conversion={conversion} /> : '—'}</span>
+                  <span className="net-cost-awarded">
+                    {row.awarded > 0 ? <>−<Money amount={row.awarded} currency={netCosts.currency} conversion={conversion} /></> : '—'}
+                  </span>
+                  <span className="net-cost-pending">
+                    {row.pending > 0 ? <Money amount={row.pending} currency={netCosts.currency} conversion={conversion} /> : '—'}
+                  </span>
+                  <strong>{row.netCost !== undefined ? <Money amount={row.netCost} currency={netCosts.currency} conversion={conversion} /> : '—'}</strong>
+                </div>
+              ))}
+            </div>
+            <p className="scholarship-hint">
+              First-year figures. Scholarships not tied to a university count toward every one; non-renewable awards only cover the first year.
+            </p>
+            {netCosts.warnings.length > 0 && (
+              <ul className="fee-budget-warnings">
+                {netCosts.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {statusError && <div className="form-error-summary">{statusError}</div>}
+
+      {scholarships.length === 0 && !editing ? (
+        <div className="empty-state">
+          <h3 className="empty-state-title">No scholarships yet</h3>
+          <p className="empty-state-text">Track the scholarships and grants you're applying for and see what each university really costs</p>
+          <button className="btn btn-primary" onClick={() => setEditing('new')}>Add Scholarship</button>
+        </div>
+      ) : (
+        <div className="scholarship-list">
+          {scholarships.map(scholarship => (
+            <div key={scholarship.id} className={`scholarship-card ${scholarship.status}`}>
+              <div className="scholarship-card-header">
+                <div>
+                  <h3 className="scholarship-name">{scholarship.name}</h3>
+                  <div className="scholarship-provider">
+                    {scholarship.provider ? `${scholarship.provider} · ` : ''}{universityNames(scholarship.universityIds)}
+                  </div>
+                </div>
+                <span className={`scholarship-status ${scholarship.status}`}>{statusLabels[scholarship.status]}</span>
+              </div>
+
+              <div className="scholarship-details">
+                {scholarship.amount != null && (
+                  <span>
+                    <Money amount={scholarship.amount} currency={scholarship.currency} conversion={conversion} />
+                    {scholarship.renewable ? ' / year, renewable' : ''}
+                  </span>
+                )}
+                {scholarship.deadline && <span>Due {formatDate(scholarship.deadline)}</span>}
+              </div>
+
+              {scholarship.eligibility && <p className="scholarship-eligibility">{scholarship.eligibility}</p>}
+              {scholarship.requiredDocuments.length > 0 && (
+                <div className="uni-requirements">
+                  {scholarship.requiredDocuments.map(document => (
+                    <div key={document} className="requirement-tag">{document}</div>
+                  ))}
+                </div>
+              )}
+
+              <div className="scholarship-actions">
+                {nextSteps[scholarship.status].map(step => (
+                  <button key={step.status} className="btn btn-secondary btn-sm" onClick={() => setStatus(scholarship, step.status)}>
+                    {step.label}
+                  </button>
+                ))}
+                <button className="btn btn-secondary btn-sm" onClick={() => setEditing(scholarship)}>Edit</button>
+                <button className="btn btn-danger btn-sm" onClick={() => handleDelete(scholarship)}>Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,515 @@
+import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { SuggestionActions } from './SuggestionActions';
+import { BackupPanel } from './BackupPanel';
+import { CalendarPanel } from './CalendarPanel';
+import { DigestPanel } from './DigestPanel';
+import { FeeBudgetSummary } from './FeeBudgetSummary';
+import { ExchangeRatesPanel } from './ExchangeRatesPanel';
+import { TestScoresPanel } from './TestScoresPanel';
+import { api, ApiError } from '../api';
+import type { Profile, ProfileInput, Readiness, Task, TestDefinition, GpaScaleDefinition } from '../api';
+import type { Conversion } from '../money';
+
+interface ProfileForm {
+  gpa: string;
+  gpaScale: string; // Empty for the 4.0 scale
+  scoreTargets: string; // JSON of test key to target as typed
+  transcriptStatus: string;
+  statementStatus: string;
+  feeBudget: string;
+  displayCurrency: string;
+}
+
+const emptyForm: ProfileForm = {
+  gpa: '',
+  gpaScale: '',
+  scoreTargets: '{}',
+  transcriptStatus: 'missing',
+  statementStatus: 'not_started',
+  feeBudget: '',
+  displayCurrency: '',
+};
+
+// Numeric fields are nullable on the server; everything else is sent as-is
+const numericFields: (keyof ProfileForm)[] = ['gpa', 'feeBudget'];
+
+// Readiness statuses that mean nothing has been done yet (red); anything else incomplete is in progress (yellow)
+const missingStatuses = ['missing', 'not_started', 'no budget set', 'no recommenders yet'];
+
+const toForm = (profile: Profile): ProfileForm => ({
+  gpa: profile.gpa?.toString() ?? '',
+  gpaScale: profile.gpaScale ?? '',
+  scoreTargets: JSON.stringify(Object.fromEntries(
+    Object.entries(JSON.parse(profile.scoreTargets || '{}')).map(([test, score]) => [test, String(score)])
+  )),
+  transcriptStatus: profile.transcriptStatus,
+  statementStatus: profile.statementStatus,
+  feeBudget: profile.feeBudget?.toString() ?? '',
+  displayCurrency: profile.displayCurrency ?? '',
+});
+
+interface Props {
+  applicantId: number;
+  applicantName: string;
+  canDeleteApplicant: boolean;
+  onApplicantsChange: () => void;
+  conversion: Conversion;
+  onConversionChange: () => void;
+}
+
+export function Settings({ applicantId, applicantName, canDeleteApplicant, onApplicantsChange, conversion, onConversionChange }: Props) {
+  const [name, setName] = useState(applicantName);
+  const [form, setForm] = useState<ProfileForm>(emptyForm);
+  const [saved, setSaved] = useState<ProfileForm>(emptyForm);
+  const [readiness, setReadiness] = useState<Readiness | null>(null);
+  const [generatedTasks, setGeneratedTasks] = useState<Task[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [tests, setTests] = useState<TestDefinition[]>([]);
+  const [gpaScales, setGpaScales] = useState<GpaScaleDefinition[]>([]);
+
+  const fetchReadiness = async () => {
+    try {
+      setReadiness(await api.profile.readiness(applicantId));
+    } catch (error) {
+      console.error('Failed to fetch readiness:', error);
+    }
+  };
+
+  const fetchProfile = async () => {
+    try {
+      setLoading(true);
+      const data = await api.profile.get(applicantId);
+      setForm(toForm(data));
+      setSaved(toForm(data));
+      setUpdatedAt(data.updatedAt);
+    } catch (error) {
+      console.error('Failed to fetch profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfile();
+    fetchReadiness();
+    api.tests.list().then(setTests).catch(error => console.error('Failed to fetch tests:', error));
+    api.gpaScales.list().then(setGpaScales).catch(error => console.error('Failed to fetch GPA scales:', error));
+  }, []);
+
+  const gpaScale = gpaScales.find(s => s.key === (form.gpaScale || 'gpa4'));
+  const targets: Record<string, string> = JSON.parse(form.scoreTargets);
+  const setTargets = (next: Record<string, string>) => setForm({ ...form, scoreTargets: JSON.stringify(next) });
+
+  const handleRename = async () => {
+    if (!name.trim() || name.trim() === applicantName) return;
+
+    try {
+      await api.applicants.rename(applicantId, name.trim());
+      onApplicantsChange();
+    } catch (error) {
+      console.error('Failed to rename applicant:', error);
+    }
+  };
+
+  const handleDeleteApplicant = async () => {
+    if (!confirm(`Delete ${applicantName} and all of their universities, tasks and profile data?`)) return;
+
+    try {
+      await api.applicants.remove(applicantId);
+      onApplicantsChange();
+    } catch (error) {
+      console.error('Failed to delete applicant:', error);
+    }
+  };
+
+  const changedFields = (Object.keys(form) as (keyof ProfileForm)[]).filter(key => form[key] !== saved[key]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (changedFields.length === 0) return;
+    setIsSaving(true);
+    setErrors({});
+    setFormError(null);
+
+    // Only send changed fields so task generation only reacts to what actually changed
+    const updates: Record<string, string | number | null> = {};
+    for (const key of changedFields) {
+      if (numericFields.includes(key)) {
+        updates[key] = form[key] ? Number(form[key]) : null;
+      } else if (key === 'gpaScale') {
+        updates[key] = form[key] || null;
+      } else if (key === 'scoreTargets') {
+        // Blank targets are dropped
+        updates[key] = JSON.stringify(Object.fromEntries(
+          Object.entries(targets).filter(([, score]) => score !== '').map(([test, score]) => [test, Number(score)])
+        ));
+      } else {
+        updates[key] = form[key];
+      }
+    }
+
+    try {
+      const data = await api.profile.update(applicantId, updates as ProfileInput);
+      setForm(toForm(data.profile));
+      setSaved(toForm(data.profile));
+      setUpdatedAt(data.profile.updatedAt);
+      setGeneratedTasks(data.tasks);
+      fetchReadiness();
+      if (changedFields.includes('displayCurrency')) onConversionChange();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to update profile:', error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getItemState = (item: Readiness['items'][number]) => {
+    if (item.complete) return 'complete';
+    if (missingStatuses.includes(item.status.toLowerCase())) return 'missing';
+    return 'partial';
+  };
+
+  const formatStatus = (status: string) => {
+    const text = status.replace(/_/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  };
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="settings">
+      {/* Applicant */}
+      <div className="form-card">
+        <div className="form-card-header">
+          <h3 className="form-card-title">Applicant</h3>
+        </div>
+        <div className="form-card-body">
+          <div className="form-row">
+            <div className="form-group">
+              <label className="form-label">Name</label>
+              <input
+                className="form-input"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onBlur={handleRename}
+              />
+            </div>
+            <div className="form-group" style={{ alignSelf: 'end' }}>
+              {canDeleteApplicant && (
+                <button type="button" className="btn btn-danger" onClick={handleDeleteApplicant}>
+                  Delete Applicant
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Readiness Overview */}
+      {readiness && (
+        <div className="form-card">
+          <div className="form-card-header readiness-header">
+            <h3 className="form-card-title">Application Readiness</h3>
+            <span className="readiness-count">
+              {readiness.completed} of {readiness.total} complete
+            </span>
+          </div>
+          <div className="form-card-body">
+            <div className="readiness-progress">
+              <div className="readiness-bar">
+                <div className="readiness-bar-fill" style={{ width: `${readiness.score}%` }} />
+              </div>
+              <div className="readiness-score">{readiness.score}%</div>
+            </div>
+            <div className="readiness-items">
+              {readiness.items.map(item => (
+                <div key={item.name} className={`readiness-item ${getItemState(item)}`}>
+                  <span className="readiness-dot" />
+                  <span className="readiness-name">{item.name}</span>
+                  <span className="readiness-status">{formatStatus(item.status)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <TestScoresPanel applicantId={applicantId} onChange={fetchReadiness} />
+
+      <form onSubmit={handleSubmit}>
+        {/* Grades */}
+        <div className="form-card">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Grades</h3>
+          </div>
+          <div className="form-card-body">
+            <p className="backup-hint">
+              Enter your GPA as your school reports it. It is converted to each university's scale when compared with their minimum.
+            </p>
+            <div className="form-row">
+              <div className="form-group">
+                <label className="form-label">GPA</label>
+                <input
+                  className={`form-input ${errors.gpa ? 'invalid' : ''}`}
+                  type="number"
+                  min={gpaScale?.min}
+                  max={gpaScale?.max}
+                  step={gpaScale?.step}
+                  value={form.gpa}
+                  onChange={(e) => setForm({ ...form, gpa: e.target.value })}
+                />
+                <FormError message={errors.gpa} />
+              </div>
+              <div className="form-group">
+                <label className="form-label">Grading Scale</label>
+                <select
+                  className={`form-select ${errors.gpaScale ? 'invalid' : ''}`}
+                  value={form.gpaScale}
+                  onChange={(e) => setForm({ ...form, gpaScale: e.target.value })}
+                >
+                  <option value="">4.0 scale</option>
+                  {gpaScales.filter(s => s.key !== 'gpa4').map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                </select>
+                <FormError message={errors.gpaScale} />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Targets */}
+        <div className="form-card">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Targets</h3>
+          </div>
+          <div className="form-card-body">
+            {Object.entries(targets).map(([test, score]) => {
+              const definition = tests.find(t => t.key === test);
+              return (
+                <div key={test} className="form-row">
+                  <div className="form-group">
+                    <label className="form-label">{definition?.label ?? test.toUpperCase()} Target</label>
+                    <input
+                      className={`form-input ${errors[`scoreTargets.${test}`] ? 'invalid' : ''}`}
+                      type="number"
+                      min={definition?.min}
+                      max={definition?.max}
+                      step={definition?.step}
+                      value={score}
+                      onChange={(e) => setTargets({ ...targets, [test]: e.target.value })}
+                    />
+                    <FormError message={errors[`scoreTargets.${test}`]} />
+                  </div>
+                  <div className="form-group" style={{ alignSelf: 'end', flex: '0 0 auto' }}>
+                    <button type="button" className="btn btn-secondary" onClick={() => setTargets(Object.fromEntries(Object.entries(targets).filter(([key]) => key !== test)))}>
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            <div className="form-row">
+              <div className="form-group">
+                <label className="form-label">Add a target</label>
+                <select
+                  className={`form-select ${errors.scoreTargets ? 'invalid' : ''}`}
+                  value=""
+                  onChange={(e) => e.target.value && setTargets({ ...targets, [e.target.value]: '' })}
+                >
+                  <option value="">Select test...</option>
+                  {tests.filter(t => !(t.key in targets)).map(t => <option key={t.key} value={t.key}>{t.label}</option>)}
+                </select>
+                <FormError message={errors.scoreTargets} />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Documents */}
+        <div className="form-card">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Documents</h3>
+          </div>
+          <div className="form-card-body">
+            <div className="form-row">
+              <div className="form-group">
+                <label className="form-label">Transcripts</label>
+                <select
+                  className={`form-select ${errors.transcriptStatus ? 'invalid' : ''}`}
+                  value={form.transcriptStatus}
+                  onChange={(e) => setForm({ ...form, transcriptStatus: e.target.value })}
+                >
+                  <option value="missing">Missing</option>
+                  <option value="requested">Requested</option>
+                  <option value="received">Received</option>
+                  <option value="submitted">Submitted</option>
+                </select>
+                <FormError message={errors.transcriptStatus} />
+                <span className="document-hint">Marked received when you upload a transcript to Documents.</span>
+              </div>
+              <div className="form-group">
+                <label className="form-label">Personal Statement</label>
+                <select
+                  className={`form-select ${errors.statementStatus ? 'invalid' : ''}`}
+                  value={form.statementStatus}
+                  onChange={(e) => setForm({ ...form, statementStatus: e.target.value })}
+                >
+                  <option value="not_started">Not Started</option>
+                  <option value="drafting">Drafting</option>
+                  <option value="reviewing">Reviewing</option>
+                  <option value="complete">Complete</option>
+                </select>
+                <FormError message={errors.statementStatus} />
+                <span className="document-hint">Counts toward readiness until a university needs essays; those are drafted per prompt on the Essays page.</span>
+              </div>
+            </div>
+            <p className="document-hint">Recommendation letters are tracked per recommender and university on the Recommenders page.</p>
+          </div>
+        </div>
+
+        {/* Budget */}
+        <div className="form-card">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Application Fees &amp; Currency</h3>
+          </div>
+          <div className="form-card-body">
+            <div className="form-row">
+              <div className="form-group">
+                <label className="form-label">Fee Budget (USD)</label>
+                <input
+                  className={`form-input ${errors.feeBudget ? 'invalid' : ''}`}
+                  type="number"
+                  min="0"
+                  placeholder="e.g., 800"
+                  value={form.feeBudget}
+                  onChange={(e) => setForm({ ...form, feeBudget: e.target.value })}
+                />
+                <FormError message={errors.feeBudget} />
+              </div>
+              <div className="form-group">
+                <label className="form-label">Display Currency</label>
+                <input
+                  className={`form-input ${errors.displayCurrency ? 'invalid' : ''}`}
+                  maxLength={3}
+                  placeholder="USD"
+                  value={form.displayCurrency}
+                  onChange={(e) => setForm({ ...form, displayCurrency: e.target.value.toUpperCase() })}
+                />
+                <FormError message={errors.displayCurrency} />
+              </div>
+            </div>
+            <FeeBudgetSummary applicantId={applicantId} refreshKey={updatedAt} conversion={conversion} />
+          </div>
+        </div>
+
+        {/* Submit */}
+        <div className="submit-section">
+          {formError && <span className="form-error-summary">{formError}</span>}
+          {updatedAt && !formError && (
+            <span className="settings-updated">
+              Last updated {new Date(updatedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+            </span>
+          )}
+          <button
+            type="button"
+            className="btn btn-secondary btn-lg"
+            disabled={changedFields.length === 0 || isSaving}
+            onClick={() => setForm(saved)}
+          >
+            Discard
+          </button>
+          <button
+            type="submit"
+            className="btn btn-primary btn-lg"
+            disabled={changedFields.length === 0 || isSaving}
+          >
+            {isSaving ? (
+              <>
+                <div className="loading-spinner" style={{ width: 16, height: 16 }} />
+                Saving...
+              </>
+            ) : (
+              'Save Profile'
+            )}
+          </button>
+        </div>
+      </form>
+
+      {/* Tasks generated by the last save */}
+      {generatedTasks && (
+        <div className="form-card generated-tasks">
+          <div className="form-card-header">
+            <h3 className="form-card-title">Suggested Tasks</h3>
+          </div>
+          <div className="form-card-body">
+            {generatedTasks.length === 0 ? (
+              <p className="generated-tasks-empty">
+                Profile saved. No new tasks were suggested from this update.
+              </p>
+            ) : (
+              <>
+                <p className="generated-tasks-summary">
+                  Your update created {generatedTasks.length} suggested task{generatedTasks.length !== 1 ? 's' : ''}:
+                </p>
+                <div className="tasks-container">
+                  {generatedTasks.map(task => (
+                    <div key={task.id} className={`task-item ${task.status}`}>
+                      <div className="task-content">
+                        <div className="task-title">{task.title}</div>
+                        {task.description && (
+                          <div className="task-description">{task.description}</div>
+                        )}
+                        <div className="task-meta">
+                          {task.dueDate && (
+                            <span className="task-due">
+                              Due {new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            </span>
+                          )}
+                          <span className={`task-priority ${task.priority}`}>
+                            {task.priority}
+                          </span>
+                        </div>
+                      </div>
+                      {task.status === 'suggested' ? (
+                        <SuggestionActions
+                          task={task}
+                          applicantId={applicantId}
+                          onChange={updated => setGeneratedTasks(generatedTasks.map(t => t.id === updated.id ? updated : t))}
+                        />
+                      ) : (
+                        <span className="task-outcome">{task.status === 'dismissed' ? 'Dismissed' : task.status === 'snoozed' ? 'Snoozed' : 'Accepted'}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <CalendarPanel applicantId={applicantId} />
+
+      <DigestPanel applicantId={applicantId} />
+
+      <ExchangeRatesPanel onChange={onConversionChange} />
+
+      <BackupPanel />
+    </div>
+  );
+}
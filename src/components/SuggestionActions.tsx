@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { Task } from '../api';
+
+interface Props {
+  task: Task;
+  applicantId: number;
+  onChange: (task: Task) => void;
+}
+
+// Accept / snooze / dismiss buttons for a suggested (or snoozed) task
+export function SuggestionActions({ task, applicantId, onChange }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const act = async (action: 'accept' | 'snooze' | 'dismiss') => {
+    setBusy(true);
+    setError(undefined);
+    try {
+      onChange(await api.tasks[action](applicantId, task.id));
+    } catch (error) {
+      if (error instanceof ApiError) setError(error.fields[0]?.message || error.message);
+      else console.error(`Failed to ${action} task:`, error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="suggestion-actions">
+      <button className="btn btn-primary btn-sm" disabled={busy} onClick={() => act('accept')}>
+        Accept
+      </button>
+      {task.status === 'suggested' && (
+        <button className="btn btn-secondary btn-sm" disabled={busy} onClick={() => act('snooze')} title="Hide for a week">
+          Snooze
+        </button>
+      )}
+      <button className="btn btn-secondary btn-sm" disabled={busy} onClick={() => act('dismiss')}>
+        Dismiss
+      </button>
+      <FormError message={error} />
+    </div>
+  );
+}
@@ -1,32 +1,31 @@
 import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { SuggestionActions } from './SuggestionActions';
+import { api, ApiError } from '../api';
+import { daysUntil, parseLocalDate } from '../dates';
+import type { Task, TaskStatus, Priority } from '../api';
 
-const API_URL = import.meta.env.VITE_API_URL || '/api';
-
-interface Task {
-  id: number;
-  universityId?: number;
-  title: string;
-  description?: string;
-  dueDate?: string;
-  status: string;
-  priority: string;
+interface Props {
+  applicantId: number;
 }
 
-export function Tasks() {
+export function Tasks({ applicantId }: Props) {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [newTask, setNewTask] = useState({
     title: '',
     description: '',
     dueDate: '',
-    priority: 'medium',
+    priority: 'medium' as Priority,
   });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [statusError, setStatusError] = useState<string>();
+  const [showDismissed, setShowDismissed] = useState(false);
 
   const fetchTasks = async () => {
     try {
-      const res = await fetch(`${API_URL}/tasks`);
-      const data = await res.json();
-      setTasks(data);
+      const page = await api.tasks.list(applicantId);
+      setTasks(page.items);
     } catch (error) {
       console.error('Failed to fetch tasks:', error);
     }
@@ -39,44 +38,36 @@ export function Tasks() {
   const addTask = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTask.title.trim()) return;
+    setErrors({});
 
     try {
-      await fetch(`${API_URL}/tasks`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...newTask,
-          status: 'todo',
-        }),
-      });
-
+      await api.tasks.create(applicantId, { ...newTask, status: 'todo' });
       setNewTask({ title: '', description: '', dueDate: '', priority: 'medium' });
       setShowForm(false);
       fetchTasks();
     } catch (error) {
-      console.error('Failed to add task:', error);
+      if (error instanceof ApiError) setErrors(error.fieldErrors);
+      else console.error('Failed to add task:', error);
     }
   };
 
-  const toggleTask = async (task: Task) => {
+  // The server enforces the lifecycle and stamps completedAt
+  const setStatus = async (task: Task, status: TaskStatus) => {
+    setStatusError(undefined);
     try {
-      await fetch(`${API_URL}/tasks/${task.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          status: task.status === 'done' ? 'todo' : 'done',
-          completedAt: task.status === 'done' ? null : new Date().toISOString(),
-        }),
-      });
-      fetchTasks();
+      await api.tasks.update(applicantId, task.id, { status });
     } catch (error) {
-      console.error('Failed to update task:', error);
+      if (error instanceof ApiError) setStatusError(error.fields[0]?.message || error.message);
+      else console.error('Failed to update task:', error);
     }
+    fetchTasks();
   };
 
+  const toggleTask = (task: Task) => setStatus(task, task.status === 'done' ? 'todo' : 'done');
+
   const deleteTask = async (id: number) => {
     try {
-      await fetch(`${API_URL}/tasks/${id}`, { method: 'DELETE' });
+      await api.tasks.remove(applicantId, id);
       fetchTasks();
     } catch (error) {
       console.error('Failed to delete task:', error);
@@ -85,14 +76,13 @@ export function Tasks() {
 
   const getDaysUntil = (dateStr?: string) => {
     if (!dateStr) return null;
-    const diff = new Date(dateStr).getTime() - new Date().getTime();
-    return Math.ceil(diff / (1000 * 60 * 60 * 24));
+    return daysUntil(parseLocalDate(dateStr));
   };
 
   const formatDueDate = (dateStr?: string) => {
     if (!dateStr) return null;
     const daysUntil = getDaysUntil(dateStr);
-    const date = new Date(dateStr);
+    const date = parseLocalDate(dateStr);
     const formatted = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
     if (daysUntil === null) return null;
@@ -103,15 +93,19 @@ export function Tasks() {
     return { text: formatted, status: 'normal', formatted };
   };
 
-  // Sort tasks: incomplete first, then by due date
-  const sortedTasks = [...tasks].sort((a, b) => {
-    if (a.status === 'done' && b.status !== 'done') return 1;
-    if (a.status !== 'done' && b.status === 'done') return -1;
-    return new Date(a.dueDate || '9999').getTime() - new Date(b.dueDate || '9999').getTime();
-  });
+  // Sort tasks by due date, undated last
+  const sortedTasks = [...tasks].sort((a, b) =>
+    new Date(a.dueDate || '9999').getTime() - new Date(b.dueDate || '9999').getTime()
+  );
 
-  const incompleteTasks = sortedTasks.filter(t => t.status !== 'done');
+  const suggestedTasks = sortedTasks.filter(t => t.status === 'suggested');
+  const incompleteTasks = sortedTasks.filter(t => t.status === 'todo' || t.status === 'in_progress');
+  const snoozedTasks = sortedTasks.filter(t => t.status === 'snoozed');
   const completedTasks = sortedTasks.filter(t => t.status === 'done');
+  const dismissedTasks = sortedTasks.filter(t => t.status === 'dismissed');
+
+  const formatShortDate = (dateStr?: string) =>
+    dateStr ? parseLocalDate(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '';
 
   return (
     <div className="tasks">
@@ -120,6 +114,7 @@ export function Tasks() {
         <div>
           <span style={{ fontSize: '0.85rem', color: 'var(--text-muted)' }}>
             {incompleteTasks.length} task{incompleteTasks.length !== 1 ? 's' : ''} remaining
+            {suggestedTasks.length > 0 && ` · ${suggestedTasks.length} suggested`}
           </span>
         </div>
         <button className="add-task-btn" onClick={() => setShowForm(!showForm)}>
@@ -138,43 +133,47 @@ export function Tasks() {
             <div className="form-group">
               <label className="form-label">Task Title</label>
               <input
-                className="form-input"
+                className={`form-input ${errors.title ? 'invalid' : ''}`}
                 placeholder="What needs to be done?"
                 value={newTask.title}
                 onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
                 required
                 autoFocus
               />
+              <FormError message={errors.title} />
             </div>
             <div className="form-group">
               <label className="form-label">Description (optional)</label>
               <input
-                className="form-input"
+                className={`form-input ${errors.description ? 'invalid' : ''}`}
                 placeholder="Add details..."
                 value={newTask.description}
                 onChange={(e) => setNewTask({ ...newTask, description: e.target.value })}
               />
+              <FormError message={errors.description} />
             </div>
             <div className="form-group">
               <label className="form-label">Due Date</label>
               <input
-                className="form-input"
+                className={`form-input ${errors.dueDate ? 'invalid' : ''}`}
                 type="date"
                 value={newTask.dueDate}
                 onChange={(e) => setNewTask({ ...newTask, dueDate: e.target.value })}
               />
+              <FormError message={errors.dueDate} />
             </div>
             <div className="form-group">
               <label className="form-label">Priority</label>
               <select
-                className="form-select"
+                className={`form-select ${errors.priority ? 'invalid' : ''}`}
                 value={newTask.priority}
-                onChange={(e) => setNewTask({ ...newTask, priority: e.target.value })}
+                onChange={(e) => setNewTask({ ...newTask, priority: e.target.value as Priority })}
               >
                 <option value="high">High</option>
                 <option value="medium">Medium</option>
                 <option value="low">Low</option>
               </select>
+              <FormError message={errors.priority} />
             </div>
             <div className="form-group" style={{ alignSelf: 'end' }}>
               <button type="submit" className="btn btn-primary" style={{ width: '100%' }}>
@@ -185,6 +184,8 @@ export function Tasks() {
         </form>
       )}
 
+      {statusError && <div className="form-error-summary">{statusError}</div>}
+
       {/* Task List */}
       {sortedTasks.length === 0 ? (
         <div className="empty-state">
@@ -202,6 +203,29 @@ export function Tasks() {
         </div>
       ) : (
         <div className="tasks-container">
+          {/* Suggestions waiting for a decision */}
+          {suggestedTasks.length > 0 && (
+            <>
+              <div className="tasks-section-header">Suggested ({suggestedTasks.length})</div>
+              {suggestedTasks.map((task) => (
+                <div key={task.id} className="task-item suggested">
+                  <div className="task-content">
+                    <div className="task-title">{task.title}</div>
+                    {task.description && (
+                      <div className="task-description">{task.description}</div>
+                    )}
+                    <div className="task-meta">
+                      {task.dueDate && <span className="task-due">Due {formatShortDate(task.dueDate)}</span>}
+                      <span className={`task-priority ${task.priority}`}>{task.priority}</span>
+                    </div>
+                  </div>
+                  <SuggestionActions task={task} applicantId={applicantId} onChange={fetchTasks} />
+                </div>
+              ))}
+              {incompleteTasks.length > 0 && <div className="tasks-section-header">To Do ({incompleteTasks.length})</div>}
+            </>
+          )}
+
           {/* Incomplete Tasks */}
           {incompleteTasks.map((task) => {
             const dueInfo = formatDueDate(task.dueDate);
@@ -241,6 +265,12 @@ export function Tasks() {
                     <span className={`task-priority ${task.priority}`}>
                       {task.priority}
                     </span>
+                    <button
+                      className={`task-progress ${task.status === 'in_progress' ? 'active' : ''}`}
+                      onClick={() => setStatus(task, task.status === 'in_progress' ? 'todo' : 'in_progress')}
+                    >
+                      {task.status === 'in_progress' ? 'In progress' : 'Start'}
+                    </button>
                   </div>
                 </div>
 
@@ -253,21 +283,28 @@ export function Tasks() {
             );
           })}
 
+          {/* Snoozed suggestions come back on their own */}
+          {snoozedTasks.length > 0 && (
+            <>
+              <div className="tasks-section-header">Snoozed ({snoozedTasks.length})</div>
+              {snoozedTasks.map((task) => (
+                <div key={task.id} className="task-item snoozed">
+                  <div className="task-content">
+                    <div className="task-title">{task.title}</div>
+                    <div className="task-meta">
+                      <span className="task-due">Back on {formatShortDate(task.snoozedUntil)}</span>
+                    </div>
+                  </div>
+                  <SuggestionActions task={task} applicantId={applicantId} onChange={fetchTasks} />
+                </div>
+              ))}
+            </>
+          )}
+
           {/* Completed Tasks Section */}
           {completedTasks.length > 0 && (
             <>
-              <div style={{
-                padding: '1rem 0',
-                marginTop: '1rem',
-                borderTop: '1px solid var(--border-subtle)',
-                fontSize: '0.8rem',
-                color: 'var(--text-muted)',
-                textTransform: 'uppercase',
-                letterSpacing: '0.05em',
-                fontWeight: 600
-              }}>
-                Completed ({completedTasks.length})
-              </div>
+              <div className="tasks-section-header">Completed ({completedTasks.length})</div>
 
               {completedTasks.map((task) => (
                 <div
@@ -295,6 +332,30 @@ export function Tasks() {
               ))}
             </>
           )}
+
+          {/* Dismissed suggestions stay hidden unless asked for */}
+          {dismissedTasks.length > 0 && (
+            <>
+              <button className="tasks-section-header tasks-section-toggle" onClick={() => setShowDismissed(!showDismissed)}>
+                {showDismissed ? 'Hide' : 'Show'} dismissed ({dismissedTasks.length})
+              </button>
+              {showDismissed && dismissedTasks.map((task) => (
+                <div key={task.id} className="task-item dismissed">
+                  <div className="task-content">
+                    <div className="task-title done">{task.title}</div>
+                  </div>
+                  <button className="btn btn-secondary btn-sm" onClick={() => setStatus(task, 'suggested')}>
+                    Restore
+                  </button>
+                  <button className="task-delete" onClick={() => deleteTask(task.id)}>
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M18 6L6 18M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { api, ApiError } from '../api';
+import type { TestAttempt, TestDefinition, TestType } from '../api';
+import { formatScore } from '../scores';
+
+interface Props {
+  applicantId: number;
+  onChange: () => void; // Sittings feed readiness and task suggestions
+}
+
+interface AttemptForm {
+  test: TestType;
+  date: string;
+  subject: string;
+  sections: Record<string, string>;
+  total: string;
+  notes: string;
+}
+
+const emptyForm: AttemptForm = { test: 'sat', date: '', subject: '', sections: {}, total: '', notes: '' };
+
+const toForm = (attempt: TestAttempt): AttemptForm => ({
+  test: attempt.test,
+  date: attempt.date,
+  subject: attempt.subject ?? '',
+  sections: Object.fromEntries(Object.entries(JSON.parse(attempt.sections || '{}')).map(([key, score]) => [key, String(score)])),
+  total: String(attempt.total),
+  notes: attempt.notes ?? '',
+});
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Every sitting of every registered test. Universities compare these by their own
+// score policy, so retakes are recorded alongside earlier sittings, not over them.
+// AP and A-level sittings are one subject each.
+export function TestScoresPanel({ applicantId, onChange }: Props) {
+  const [tests, setTests] = useState<TestDefinition[]>([]);
+  const [attempts, setAttempts] = useState<TestAttempt[]>([]);
+  const [form, setForm] = useState<AttemptForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchAttempts = async () => {
+    try {
+      setAttempts(await api.testAttempts.list(applicantId));
+    } catch (error) {
+      console.error('Failed to fetch test scores:', error);
+    }
+  };
+
+  useEffect(() => {
+    api.tests.list().then(setTests).catch(error => console.error('Failed to fetch tests:', error));
+    fetchAttempts();
+  }, [applicantId]);
+
+  const definition = tests.find(t => t.key === form.test);
+  const definitionOf = (test: TestType) => tests.find(t => t.key === test);
+  const labelOf = (test: TestType) => definitionOf(test)?.label ?? test.toUpperCase();
+  const bySubject = definition?.category === 'subject';
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setErrors({});
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors({});
+    setFormError(null);
+
+    // Blank sections are left out; a blank total is worked out from the sections
+    const sections = Object.fromEntries(Object.entries(form.sections).filter(([, score]) => score !== '').map(([key, score]) => [key, Number(score)]));
+    const body = {
+      test: form.test,
+      date: form.date,
+      subject: bySubject ? form.subject : null,
+      sections: JSON.stringify(sections),
+      total: form.total ? Number(form.total) : null,
+      notes: form.notes,
+    };
+
+    try {
+      if (editingId) {
+        await api.testAttempts.update(applicantId, editingId, body);
+      } else {
+        await api.testAttempts.create(applicantId, body);
+      }
+      resetForm();
+      fetchAttempts();
+      onChange();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to save test score:', error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (attempt: TestAttempt) => {
+    setForm(toForm(attempt));
+    setEditingId(attempt.id);
+    setErrors({});
+    setFormError(null);
+  };
+
+  const handleRemove = async (attempt: TestAttempt) => {
+    if (!confirm(`Delete your ${labelOf(attempt.test)} sitting of ${formatDate(attempt.date)}?`)) return;
+    try {
+      await api.testAttempts.remove(applicantId, attempt.id);
+      if (editingId === attempt.id) resetForm();
+      setAttempts(attempts.filter(a => a.id !== attempt.id));
+      onChange();
+    } catch (error) {
+      console.error('Failed to delete test score:', error);
+    }
+  };
+
+  const describeSections = (attempt: TestAttempt) => {
+    const sections: Record<string, number> = JSON.parse(attempt.sections || '{}');
+    const labels = tests.find(t => t.key === attempt.test)?.sections ?? [];
+    return labels.filter(s => sections[s.key] !== undefined).map(s => `${s.label} ${sections[s.key]}`).join(' · ');
+  };
+
+  return (
+    <div className="form-card">
+      <div className="form-card-header">
+        <h3 className="form-card-title">Test Scores</h3>
+      </div>
+      <div className="form-card-body">
+        <p className="backup-hint">
+          Add each sitting, including retakes. Universities that superscore combine your best sections; the rest take your best or latest sitting.
+        </p>
+
+        {attempts.length > 0 && (
+          <div className="backup-list">
+            {attempts.map(attempt => (
+              <div key={attempt.id} className="backup-item">
+                <span className="test-attempt">
+                  <strong>
+                    {labelOf(attempt.test)}{attempt.subject && ` ${attempt.subject}`} {formatScore(definitionOf(attempt.test), attempt.total)}
+                  </strong>
+                  <span className="test-attempt-meta">
+                    {formatDate(attempt.date)}
+                    {describeSections(attempt) && ` · ${describeSections(attempt)}`}
+                  </span>
+                  {attempt.notes && <span className="test-attempt-meta">{attempt.notes}</span>}
+                </span>
+                <button type="button" className="btn btn-secondary btn-sm" onClick={() => handleEdit(attempt)}>
+                  Edit
+                </button>
+                <button type="button" className="btn btn-danger btn-sm" onClick={() => handleRemove(attempt)}>
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form className="test-attempt-form" onSubmit={handleSubmit}>
+          <div className="form-row">
+            <div className="form-group">
+              <label className="form-label">Test</label>
+              <select
+                className={`form-select ${errors.test ? 'invalid' : ''}`}
+                value={form.test}
+                onChange={(e) => setForm({ ...form, test: e.target.value as TestType, sections: {}, total: '' })}
+              >
+                {tests.map(test => <option key={test.key} value={test.key}>{test.label}</option>)}
+              </select>
+              <FormError message={errors.test} />
+            </div>
+            {bySubject && (
+              <div className="form-group">
+                <label className="form-label">Subject *</label>
+                <input
+                  className={`form-input ${errors.subject ? 'invalid' : ''}`}
+                  value={form.subject}
+                  placeholder="e.g., Mathematics"
+                  onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                />
+                <FormError message={errors.subject} />
+              </div>
+            )}
+            <div className="form-group">
+              <label className="form-label">Date *</label>
+              <input
+                type="date"
+                className={`form-input ${errors.date ? 'invalid' : ''}`}
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+              />
+              <FormError message={errors.date} />
+            </div>
+          </div>
+
+          {definition && (
+            <div className="form-row">
+              {definition.sections.map(section => (
+                <div key={section.key} className="form-group">
+                  <label className="form-label">{section.label}</label>
+                  <input
+                    type="number"
+                    className={`form-input ${errors[`sections.${section.key}`] ? 'invalid' : ''}`}
+                    min={section.min}
+                    max={section.max}
+                    step={section.step}
+                    value={form.sections[section.key] ?? ''}
+                    onChange={(e) => setForm({ ...form, sections: { ...form.sections, [section.key]: e.target.value } })}
+                  />
+                  <FormError message={errors[`sections.${section.key}`]} />
+                </div>
+              ))}
+              <div className="form-group">
+                <label className="form-label">{definition.grades ? 'Grade *' : definition.sections.length > 0 ? 'Total' : 'Score *'}</label>
+                {definition.grades ? (
+                  <select
+                    className={`form-select ${errors.total ? 'invalid' : ''}`}
+                    value={form.total}
+                    onChange={(e) => setForm({ ...form, total: e.target.value })}
+                  >
+                    <option value="">Select grade...</option>
+                    {definition.grades.map((grade, i) => <option key={grade} value={definition.min + i}>{grade}</option>)}
+                  </select>
+                ) : (
+                  <input
+                    type="number"
+                    className={`form-input ${errors.total ? 'invalid' : ''}`}
+                    min={definition.min}
+                    max={definition.max}
+                    step={definition.step}
+                    placeholder={definition.sections.length > 0 ? 'From sections' : undefined}
+                    value={form.total}
+                    onChange={(e) => setForm({ ...form, total: e.target.value })}
+                  />
+                )}
+                <FormError message={errors.total} />
+              </div>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label className="form-label">Notes</label>
+            <input
+              className={`form-input ${errors.notes ? 'invalid' : ''}`}
+              value={form.notes}
+              placeholder="e.g., Test center, score report sent to"
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+            <FormError message={errors.notes} />
+          </div>
+
+          <div className="edit-actions">
+            {formError && <span className="form-error-summary">{formError}</span>}
+            <button type="submit" className="btn btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Score'}
+            </button>
+            {editingId && (
+              <button type="button" className="btn btn-secondary" onClick={resetForm} disabled={saving}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,68 +1,27 @@
 import { useState, useEffect } from 'react';
+import { SuggestionActions } from './SuggestionActions';
+import { UniversityTimeline } from './UniversityTimeline';
+import { RequirementsEditor, scorePolicyLabels } from './RequirementsEditor';
+import { DeadlineForm, deadlineLabel } from './DeadlineForm';
+import { FeeForm } from './FeeForm';
+import { letterStatusLabels } from './RecommenderForm';
+import { essayStatusLabels } from './EssayEditor';
+import { Money } from './Money';
+import { api } from '../api';
+import { formatScore, formatGpa } from '../scores';
+import { daysUntil, parseLocalDate, toLocalDateString, userTimezone } from '../dates';
+import type { Conversion } from '../money';
+import type { University, Profile, Task, Deadline, Fee, NetCost, VaultDocument, Recommender, EssayPrompt, Essay, RequirementType, UniversityRequirements, RequirementsUpdate, UniversityScore, UniversityGpa, TestType, TestDefinition, TestCategory } from '../api';
 import './UniversityDetail.css';
 
-const API_URL = import.meta.env.VITE_API_URL || '/api';
-
-interface Requirement {
-  type: string;
-  required: boolean;
-  minScore?: number;
-  avgScore?: number;
-  count?: number;
-}
-
-interface University {
-  id: number;
-  name: string;
-  country: string;
-  program: string;
-  major: string;
-  ranking?: number;
-  deadlineEarly?: string;
-  deadlineRegular?: string;
-  deadlineTransfer?: string;
-  status: string;
-  priority: string;
-  notes?: string;
-  requirements?: Requirement[];
-  satMin?: number;
-  satAvg?: number;
-  ieltsMin?: number;
-  ieltsAvg?: number;
-  toeflMin?: number;
-  gpaMin?: number;
-  essaysRequired?: number;
-  recLettersRequired?: number;
-  interviewRequired?: number;
-  applicationUrl?: string;
-}
-
-interface Profile {
-  id: number;
-  satTarget?: number;
-  satActual?: number;
-  ieltsScore?: number;
-  toeflScore?: number;
-  transcriptStatus: string;
-  transcriptCount: number;
-  recommendationsCount: number;
-  statementStatus: string;
-  interviewStatus: string;
-}
-
-interface Task {
-  id: number;
-  title: string;
-  description?: string;
-  dueDate?: string;
-  status: 'pending' | 'in_progress' | 'completed';
-  universityId?: number;
-}
-
 interface Props {
+  applicantId: number;
   universityId: number;
+  conversion: Conversion;
   onClose: () => void;
   onEditProfile: () => void;
+  onManageRecommenders: () => void;
+  onManageEssays: () => void;
 }
 
 const statusConfig: Record<string, { label: string; color: string; icon: string }> = {
@@ -74,13 +33,33 @@ const statusConfig: Record<string, { label: string; color: string; icon: string
   waitlisted: { label: 'Waitlisted', color: '#a889bd', icon: '⏳' },
 };
 
-export function UniversityDetail({ universityId, onClose, onEditProfile }: Props) {
+const testIcons: Record<TestCategory, string> = {
+  admission: '📊',
+  english: '🌍',
+  subject: '📚',
+};
+
+export function UniversityDetail({ applicantId, universityId, conversion, onClose, onEditProfile, onManageRecommenders, onManageEssays }: Props) {
   const [university, setUniversity] = useState<University | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [deadlines, setDeadlines] = useState<Deadline[]>([]);
+  const [addingDeadline, setAddingDeadline] = useState(false);
+  const [fees, setFees] = useState<Fee[]>([]);
+  const [addingFee, setAddingFee] = useState(false);
+  const [netCost, setNetCost] = useState<NetCost | undefined>();
+  const [documents, setDocuments] = useState<VaultDocument[]>([]);
+  const [recommenders, setRecommenders] = useState<Recommender[]>([]);
+  const [essayPrompts, setEssayPrompts] = useState<EssayPrompt[]>([]);
+  const [essays, setEssays] = useState<Essay[]>([]);
+  const [scores, setScores] = useState<UniversityScore[]>([]);
+  const [tests, setTests] = useState<TestDefinition[]>([]);
+  const [gpa, setGpa] = useState<UniversityGpa | undefined>();
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'requirements'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'requirements' | 'history'>('overview');
   const [animateIn, setAnimateIn] = useState(false);
+  const [editingRequirements, setEditingRequirements] = useState(false);
+  const [requirementsMessage, setRequirementsMessage] = useState<string | null>(null);
 
   useEffect(() => {
     // Trigger entrance animation
@@ -91,19 +70,35 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
   const fetchData = async () => {
     setLoading(true);
     try {
-      const [uniRes, profileRes, tasksRes] = await Promise.all([
-        fetch(`${API_URL}/universities/${universityId}`),
-        fetch(`${API_URL}/profile`),
-        fetch(`${API_URL}/tasks?university_id=${universityId}`),
+      const [uniData, profileData, tasksPage, deadlineData, feeData, netCosts, documentData, recommenderData, promptData, essayData, scoreData, testData, gpaData] = await Promise.all([
+        api.universities.get(applicantId, universityId),
+        api.profile.get(applicantId),
+        api.tasks.list(applicantId, { universityId }),
+        api.deadlines.list(applicantId, { universityId }),
+        api.fees.list(applicantId, { universityId }),
+        api.scholarships.netCost(applicantId),
+        api.documents.list(applicantId, { universityId }),
+        api.recommenders.list(applicantId),
+        api.essayPrompts.list(applicantId, universityId),
+        api.essays.list(applicantId, { universityId }),
+        api.universities.scores(applicantId, universityId),
+        api.tests.list(),
+        api.universities.gpa(applicantId, universityId),
       ]);
 
-      const uniData = await uniRes.json();
-      const profileData = await profileRes.json();
-      const tasksData = await tasksRes.json();
-
       setUniversity(uniData);
       setProfile(profileData);
-      setTasks(tasksData);
+      setTasks(tasksPage.items);
+      setDeadlines(deadlineData);
+      setFees(feeData);
+      setNetCost(netCosts.universities.find(row => row.universityId === universityId));
+      setDocuments(documentData.filter(d => !d.superseded));
+      setRecommenders(recommenderData);
+      setEssayPrompts(promptData);
+      setEssays(essayData);
+      setScores(scoreData);
+      setTests(testData);
+      setGpa(gpaData);
     } catch (error) {
       console.error('Failed to fetch university details:', error);
     } finally {
@@ -111,28 +106,117 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
     }
   };
 
+  const handleRequirementsSaved = (result: RequirementsUpdate) => {
+    setEditingRequirements(false);
+    setRequirementsMessage(result.tasksCreated > 0
+      ? `Requirements saved. ${result.tasksCreated} new suggested task${result.tasksCreated !== 1 ? 's' : ''}.`
+      : 'Requirements saved.');
+    fetchData();
+  };
+
+  const handleDeadlineSaved = () => {
+    setAddingDeadline(false);
+    fetchData();
+  };
+
+  const handleDeleteDeadline = async (deadline: Deadline) => {
+    if (!confirm(`Delete the ${deadlineLabel(deadline)} deadline?`)) return;
+    try {
+      await api.deadlines.remove(applicantId, deadline.id);
+      fetchData();
+    } catch (error) {
+      console.error('Failed to delete deadline:', error);
+    }
+  };
+
+  const handleFeeSaved = (fee: Fee) => {
+    setAddingFee(false);
+    setFees([...fees, fee]);
+  };
+
+  const updateFee = async (fee: Fee, updates: Partial<Fee>) => {
+    try {
+      const updated = await api.fees.update(applicantId, fee.id, updates);
+      setFees(fees.map(f => f.id === updated.id ? updated : f));
+    } catch (error) {
+      console.error('Failed to update fee:', error);
+    }
+  };
+
+  const handleDeleteFee = async (fee: Fee) => {
+    if (!confirm(`Delete the ${fee.label || 'application fee'} record?`)) return;
+    try {
+      await api.fees.remove(applicantId, fee.id);
+      setFees(fees.filter(f => f.id !== fee.id));
+    } catch (error) {
+      console.error('Failed to delete fee:', error);
+    }
+  };
+
+  const describeFee = (fee: Fee) => {
+    if (fee.waiverGranted) return { state: 'waived', text: 'Waived' };
+    if (fee.paidDate) return { state: 'paid', text: `Paid ${parseLocalDate(fee.paidDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}` };
+    return { state: 'due', text: fee.waiverRequested ? 'Unpaid · waiver requested' : 'Unpaid' };
+  };
+
+  // The current vault documents that satisfy a requirement here, as download links
+  const renderDocuments = (type: RequirementType) => {
+    const matching = documents.filter(d => d.requirementType === type);
+    return (
+      <div className="udi-req-documents">
+        {matching.length === 0 ? (
+          <span className="udi-req-no-document">No document uploaded</span>
+        ) : matching.map(document => (
+          <a
+            key={document.id}
+            href={api.documents.fileUrl(applicantId, document.id)}
+            title={document.fileName}
+            onClick={(e) => e.stopPropagation()}
+          >
+            📎 {document.title}{document.version > 1 ? ` (v${document.version})` : ''}
+          </a>
+        ))}
+      </div>
+    );
+  };
+
+  // Which of the applicant's sittings the score comes from
+  const renderScorePolicy = (test: TestType) => {
+    const score = scores.find(s => s.test === test);
+    if (!score || score.sittings === 0) return null;
+    return (
+      <div className="udi-req-policy">
+        {score.count !== undefined
+          ? `Grade in your best ${score.count === 1 ? 'subject' : `${score.count} subjects`}`
+          : scorePolicyLabels[score.policy]}
+        {score.count === undefined && score.policy === 'all' && ' (latest counts)'} · {score.sittings} sitting{score.sittings !== 1 ? 's' : ''}
+      </div>
+    );
+  };
+
   const handleClose = () => {
     setAnimateIn(false);
     setTimeout(onClose, 300);
   };
 
-  const formatDeadline = (dateStr?: string) => {
-    if (!dateStr) return null;
-    const date = new Date(dateStr);
-    const now = new Date();
-    const diff = date.getTime() - now.getTime();
-    const days = Math.ceil(diff / (1000 * 60 * 60 * 24));
+  // Shown and counted down in the user's timezone, from the exact instant it falls due
+  const formatDeadline = (deadline: Deadline) => {
+    // Free text carried over from before dates were checked has no instant to count down to
+    if (!deadline.dueAt) return { text: deadline.date, time: '', days: 0, status: 'invalid' as const };
+    const due = new Date(deadline.dueAt);
+    const days = daysUntil(due);
 
-    const formatted = date.toLocaleDateString('en-US', {
+    const formatted = due.toLocaleDateString('en-US', {
       month: 'long',
       day: 'numeric',
       year: 'numeric',
     });
+    const time = due.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
 
-    if (days < 0) return { text: formatted, days, status: 'passed' as const };
-    if (days <= 7) return { text: formatted, days, status: 'urgent' as const };
-    if (days <= 30) return { text: formatted, days, status: 'soon' as const };
-    return { text: formatted, days, status: 'normal' as const };
+    if (due.getTime() < Date.now()) return { text: formatted, time, days, status: 'passed' as const };
+    if (days <= 7) return { text: formatted, time, days, status: 'urgent' as const };
+    if (days <= 30) return { text: formatted, time, days, status: 'soon' as const };
+    return { text: formatted, time, days, status: 'normal' as const };
   };
 
   const getRequirementStatus = (_type: string, uniValue?: number, userValue?: number, count?: number) => {
@@ -194,20 +278,58 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
     );
   }
 
-  const earlyDeadline = formatDeadline(university.deadlineEarly);
-  const regularDeadline = formatDeadline(university.deadlineRegular);
 
   // Calculate requirement statuses
-  const satStatus = getRequirementStatus('SAT', university.satMin || university.satAvg, profile.satActual);
-  const ieltsStatus = getRequirementStatus('IELTS', university.ieltsMin || university.ieltsAvg, profile.ieltsScore);
-  const toeflStatus = getRequirementStatus('TOEFL', university.toeflMin, profile.toeflScore);
-  const transcriptStatus = getRequirementStatus('transcript', undefined, profile.transcriptCount, university.gpaMin ? 1 : 0);
-  const recsStatus = getRequirementStatus('recs', undefined, profile.recommendationsCount, university.recLettersRequired || 0);
-  const essaysStatus = getRequirementStatus('essays', undefined, profile.statementStatus === 'complete' ? 1 : 0, university.essaysRequired || 0);
-  const interviewStatus = getRequirementStatus('interview', undefined, profile.interviewStatus === 'scheduled' || profile.interviewStatus === 'completed' ? 1 : 0, university.interviewRequired || 0);
+  // Test scores as this university's score policy reads the applicant's sittings
+  // Tests without a stated score are met by any sitting
+  const definitionOf = (test: TestType) => tests.find(t => t.key === test);
+  const testCards = scores.map(score => ({
+    score,
+    definition: definitionOf(score.test),
+    status: score.minScore || score.avgScore
+      ? getRequirementStatus(score.test, score.minScore || score.avgScore, score.score)
+      : getRequirementStatus(score.test, undefined, score.score !== undefined ? 1 : 0, 1),
+  }));
+  // Any one English test will do, so they only count as missing together
+  const englishCards = testCards.filter(c => c.definition?.category === 'english');
+  const testStatuses = [
+    ...testCards.filter(c => c.definition?.category !== 'english').map(c => c.status),
+    ...(englishCards.length > 0 && englishCards.every(c => c.status.status === 'missing') ? [englishCards[0].status] : []),
+  ];
+  const requirements: UniversityRequirements = university.requirements ? JSON.parse(university.requirements) : {};
+  const transcriptsRequired = !!requirements.transcripts?.required;
+  // The applicant's GPA as converted to the university's scale
+  const gpaStatus = gpa?.minimum === undefined ? undefined
+    : gpa.converted === undefined ? getRequirementStatus('gpa', gpa.minimum, undefined)
+    : gpa.meets ? { status: 'complete' as const, label: 'Meets Requirement' }
+    : { status: 'partial' as const, label: 'Below Minimum' };
+  const transcriptsIn = profile.transcriptStatus === 'received' || profile.transcriptStatus === 'submitted';
+  const transcriptStatus = getRequirementStatus('transcript', undefined, transcriptsIn ? 1 : 0, transcriptsRequired ? 1 : 0);
+  // Only submitted letters count toward the requirement
+  const letters = recommenders.flatMap(r => r.letters.filter(l => l.universityId === university.id).map(l => ({ ...l, recommender: r })));
+  const lettersSubmitted = letters.filter(l => l.status === 'submitted').length;
+  const recsStatus = getRequirementStatus('recs', undefined, lettersSubmitted, university.recLettersRequired || 0);
+  // A prompt is done once one of its drafts is final; the chip shows the furthest-along draft
+  const essayProgress = essayPrompts.map(prompt => {
+    const drafts = essays.filter(e => e.promptId === prompt.id);
+    const best = drafts.find(e => e.status === 'final')
+      ?? drafts.find(e => e.status === 'reviewing')
+      ?? drafts.find(e => e.status === 'drafting')
+      ?? drafts[0];
+    return { prompt, best };
+  });
+  const essaysFinal = essayProgress.filter(p => p.best?.status === 'final').length;
+  const essaysStatus = getRequirementStatus('essays', undefined, essaysFinal, university.essaysRequired || 0);
+  // Interview progress lives on the generated interview prep task, not the profile
+  const interviewTask = tasks.find(t => t.profileItemType === 'interview');
+  const interviewStatus = getRequirementStatus('interview', undefined, interviewTask?.status === 'done' ? 1 : 0, university.interviewRequired || 0);
+
+  const suggestedTasks = tasks.filter(t => t.status === 'suggested' || t.status === 'snoozed');
+  const pendingTasks = tasks.filter(t => t.status === 'todo' || t.status === 'in_progress');
+  const completedTasks = tasks.filter(t => t.status === 'done');
+  const visibleTaskCount = suggestedTasks.length + pendingTasks.length + completedTasks.length;
 
-  const pendingTasks = tasks.filter(t => t.status !== 'completed');
-  const completedTasks = tasks.filter(t => t.status === 'completed');
+  const replaceTask = (updated: Task) => setTasks(tasks.map(t => t.id === updated.id ? updated : t));
 
   return (
     <div className={`uni-detail-overlay ${animateIn ? 'visible' : ''}`} onClick={handleClose}>
@@ -269,7 +391,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
             </div>
             <div className="udi-stat-item">
               <span className="udi-stat-label">Tasks</span>
-              <span className="udi-stat-value">{tasks.length}</span>
+              <span className="udi-stat-value">{visibleTaskCount}</span>
             </div>
             <div className="udi-stat-item">
               <span className="udi-stat-label">Pending</span>
@@ -277,6 +399,22 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                 {pendingTasks.length}
               </span>
             </div>
+            {university.tuitionAmount != null && (
+              <div className="udi-stat-item">
+                <span className="udi-stat-label">Tuition / Year</span>
+                <span className="udi-stat-value udi-tuition">
+                  <Money amount={university.tuitionAmount} currency={university.currency} conversion={conversion} />
+                </span>
+              </div>
+            )}
+            {netCost?.netCost !== undefined && netCost.awarded > 0 && (
+              <div className="udi-stat-item">
+                <span className="udi-stat-label">After Scholarships</span>
+                <span className="udi-stat-value udi-tuition" style={{ color: '#7eb77f' }}>
+                  <Money amount={netCost.netCost} currency="USD" conversion={conversion} />
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -304,9 +442,19 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
             </svg>
             Requirements
             <span className="udi-tab-badge">
-              {[satStatus, ieltsStatus, toeflStatus, recsStatus, essaysStatus].filter(s => s.status === 'missing').length}
+              {[...testStatuses, ...(gpaStatus ? [gpaStatus] : []), recsStatus, essaysStatus].filter(s => s.status === 'missing').length}
             </span>
           </button>
+          <button 
+            className={`udi-tab ${activeTab === 'history' ? 'active' : ''}`}
+            onClick={() => setActiveTab('history')}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10" />
+              <path d="M12 6v6l4 2" />
+            </svg>
+            History
+          </button>
         </div>
 
         {/* Content */}
@@ -324,44 +472,117 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                 </h3>
                 
                 <div className="udi-deadlines-grid">
-                  {earlyDeadline && (
-                    <div className={`udi-deadline-card ${earlyDeadline.status}`}>
-                      <div className="udi-deadline-type">Early Decision</div>
-                      <div className="udi-deadline-date">{earlyDeadline.text}</div>
-                      {earlyDeadline.days > 0 && (
-                        <div className="udi-deadline-countdown">
-                          <span className="udi-countdown-number">{earlyDeadline.days}</span>
-                          <span className="udi-countdown-label">days remaining</span>
+                  {deadlines.map(deadline => {
+                    const formatted = formatDeadline(deadline);
+                    return (
+                      <div key={deadline.id} className={`udi-deadline-card ${formatted.status}`}>
+                        <button className="udi-deadline-delete" title="Delete deadline" onClick={() => handleDeleteDeadline(deadline)}>×</button>
+                        <div className="udi-deadline-type">{deadlineLabel(deadline)}</div>
+                        <div className="udi-deadline-date">
+                          {formatted.text}
+                          <span className="udi-deadline-time">{formatted.time}</span>
                         </div>
-                      )}
-                      {earlyDeadline.days <= 0 && (
-                        <div className="udi-deadline-status">Deadline passed</div>
-                      )}
-                    </div>
-                  )}
-                  
-                  {regularDeadline && (
-                    <div className={`udi-deadline-card ${regularDeadline.status}`}>
-                      <div className="udi-deadline-type">Regular Decision</div>
-                      <div className="udi-deadline-date">{regularDeadline.text}</div>
-                      {regularDeadline.days > 0 && (
-                        <div className="udi-deadline-countdown">
-                          <span className="udi-countdown-number">{regularDeadline.days}</span>
-                          <span className="udi-countdown-label">days remaining</span>
-                        </div>
-                      )}
-                      {regularDeadline.days <= 0 && (
-                        <div className="udi-deadline-status">Deadline passed</div>
-                      )}
-                    </div>
-                  )}
+                        {deadline.timezone !== userTimezone() && (
+                          <div className="udi-deadline-zone">{deadline.time || '23:59'} {deadline.timezone.replace(/_/g, ' ')} time</div>
+                        )}
+                        {formatted.status === 'invalid' ? (
+                          <div className="udi-deadline-status">Not a date; delete it and add the right one</div>
+                        ) : formatted.status === 'passed' ? (
+                          <div className="udi-deadline-status">Deadline passed</div>
+                        ) : formatted.days === 0 ? (
+                          <div className="udi-deadline-status">Due today</div>
+                        ) : (
+                          <div className="udi-deadline-countdown">
+                            <span className="udi-countdown-number">{formatted.days}</span>
+                            <span className="udi-countdown-label">days remaining</span>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                   
-                  {!earlyDeadline && !regularDeadline && (
+                  {deadlines.length === 0 && !addingDeadline && (
                     <div className="udi-deadline-empty">
-                      No deadlines set. Edit the university to add deadlines.
+                      No deadlines set yet.
                     </div>
                   )}
                 </div>
+
+                {addingDeadline ? (
+                  <DeadlineForm
+                    applicantId={applicantId}
+                    universityId={universityId}
+                    onSaved={handleDeadlineSaved}
+                    onCancel={() => setAddingDeadline(false)}
+                  />
+                ) : (
+                  <button className="udi-btn-secondary udi-req-edit-button" onClick={() => setAddingDeadline(true)}>
+                    Add Deadline
+                  </button>
+                )}
+              </div>
+
+              {/* Fees Section */}
+              <div className="udi-section udi-fees">
+                <h3 className="udi-section-title">
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <rect x="2" y="5" width="20" height="14" rx="2" />
+                    <path d="M2 10h20" />
+                  </svg>
+                  Application Fees
+                </h3>
+
+                {fees.length > 0 ? (
+                  <div className="udi-fee-list">
+                    {fees.map(fee => {
+                      const { state, text } = describeFee(fee);
+                      return (
+                        <div key={fee.id} className={`udi-fee-item ${state}`}>
+                          <div className="udi-fee-main">
+                            <span className="udi-fee-label">{fee.label || 'Application fee'}</span>
+                            <span className="udi-fee-state">{text}</span>
+                          </div>
+                          <span className="udi-fee-amount"><Money amount={fee.amount} currency={fee.currency} conversion={conversion} /></span>
+                          <div className="udi-fee-actions">
+                            {state === 'due' && (
+                              <button className="udi-btn-secondary" onClick={() => updateFee(fee, { paidDate: toLocalDateString(new Date()) })}>Mark Paid</button>
+                            )}
+                            {state === 'due' && !fee.waiverRequested && (
+                              <button className="udi-btn-secondary" onClick={() => updateFee(fee, { waiverRequested: true })}>Waiver Requested</button>
+                            )}
+                            {state === 'due' && fee.waiverRequested && (
+                              <button className="udi-btn-secondary" onClick={() => updateFee(fee, { waiverGranted: true })}>Waiver Granted</button>
+                            )}
+                            <button className="udi-deadline-delete" title="Delete fee" onClick={() => handleDeleteFee(fee)}>×</button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : !addingFee && (
+                  <div className="udi-deadline-empty">
+                    {requirements.applicationFee?.amount ? (
+                      <>
+                        Listed fee: <Money amount={requirements.applicationFee.amount} currency={university.currency} conversion={conversion} />
+                        {requirements.applicationFee.waiverAvailable ? ' · waiver available' : ''}. Nothing recorded yet.
+                      </>
+                    ) : 'No fees recorded yet.'}
+                  </div>
+                )}
+
+                {addingFee ? (
+                  <FeeForm
+                    applicantId={applicantId}
+                    universityId={universityId}
+                    defaultAmount={fees.length === 0 ? requirements.applicationFee?.amount : undefined}
+                    onSaved={handleFeeSaved}
+                    onCancel={() => setAddingFee(false)}
+                  />
+                ) : (
+                  <button className="udi-btn-secondary udi-req-edit-button" onClick={() => setAddingFee(true)}>
+                    Add Fee
+                  </button>
+                )}
               </div>
 
               {/* Tasks Section */}
@@ -374,21 +595,39 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                     </svg>
                     Related Tasks
                   </h3>
-                  <span className="udi-task-count">{tasks.length} total</span>
+                  <span className="udi-task-count">{visibleTaskCount} total</span>
                 </div>
 
-                {tasks.length === 0 ? (
+                {visibleTaskCount === 0 ? (
                   <div className="udi-tasks-empty">
                     <p>No tasks linked to this university yet.</p>
                     <p className="udi-empty-hint">Tasks will appear here when you add them or when they're auto-generated based on requirements.</p>
                   </div>
                 ) : (
                   <div className="udi-tasks-list">
+                    {suggestedTasks.map((task, index) => (
+                      <div 
+                        key={task.id} 
+                        className={`udi-task-item ${task.status}`}
+                        style={{ animationDelay: `${index * 50}ms` }}
+                      >
+                        <div className={`udi-task-status ${task.status}`} />
+                        <div className="udi-task-content">
+                          <div className="udi-task-title">{task.title}</div>
+                          <div className="udi-task-due">
+                            {task.status === 'snoozed' ? 'Snoozed' : 'Suggested'}
+                            {task.dueDate && ` · Due ${parseLocalDate(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                          </div>
+                        </div>
+                        <SuggestionActions task={task} applicantId={applicantId} onChange={replaceTask} />
+                      </div>
+                    ))}
+
                     {pendingTasks.map((task, index) => (
                       <div 
                         key={task.id} 
                         className="udi-task-item"
-                        style={{ animationDelay: `${index * 50}ms` }}
+                        style={{ animationDelay: `${(suggestedTasks.length + index) * 50}ms` }}
                       >
                         <div className={`udi-task-status ${task.status}`} />
                         <div className="udi-task-content">
@@ -398,7 +637,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                           )}
                           {task.dueDate && (
                             <div className="udi-task-due">
-                              Due {new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                              Due {parseLocalDate(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
                             </div>
                           )}
                         </div>
@@ -415,7 +654,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                       <div 
                         key={task.id} 
                         className="udi-task-item completed"
-                        style={{ animationDelay: `${(pendingTasks.length + index) * 50}ms` }}
+                        style={{ animationDelay: `${(suggestedTasks.length + pendingTasks.length + index) * 50}ms` }}
                       >
                         <div className={`udi-task-status ${task.status}`} />
                         <div className="udi-task-content">
@@ -441,6 +680,8 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                 </div>
               )}
             </div>
+          ) : activeTab === 'history' ? (
+            <UniversityTimeline applicantId={applicantId} universityId={universityId} />
           ) : (
             <div className="udi-requirements">
               <div className="udi-req-header">
@@ -452,45 +693,72 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                   Requirement Matching
                 </h3>
                 <p className="udi-req-subtitle">
-                  Compare university requirements with your profile. Click any item to update your profile.
+                  {editingRequirements
+                    ? 'Set what this university asks for. Saving suggests tasks for anything your profile is missing.'
+                    : 'Compare university requirements with your profile. Click any item to update your profile.'}
                 </p>
+                {!editingRequirements && (
+                  <button
+                    className="udi-btn-secondary udi-req-edit-button"
+                    onClick={() => { setEditingRequirements(true); setRequirementsMessage(null); }}
+                  >
+                    Edit Requirements
+                  </button>
+                )}
+                {requirementsMessage && <p className="udi-req-message">{requirementsMessage}</p>}
               </div>
 
+              {editingRequirements ? (
+                <RequirementsEditor
+                  applicantId={applicantId}
+                  universityId={universityId}
+                  tests={tests}
+                  requirements={university.requirements ? JSON.parse(university.requirements) : {}}
+                  onSaved={handleRequirementsSaved}
+                  onCancel={() => setEditingRequirements(false)}
+                />
+              ) : (
               <div className="udi-req-grid">
-                {/* SAT Requirement */}
-                {(university.satMin || university.satAvg) && (
-                  <div 
+                {/* Tests */}
+                {testCards.map(({ score, definition, status }) => (
+                  <div
+                    key={score.test}
                     className="udi-req-card"
                     onClick={onEditProfile}
-                    style={{ 
-                      borderColor: getStatusColor(satStatus.status),
-                      background: getStatusBg(satStatus.status)
+                    style={{
+                      borderColor: getStatusColor(status.status),
+                      background: getStatusBg(status.status)
                     }}
                   >
-                    <div className="udi-req-icon">📊</div>
+                    <div className="udi-req-icon">{testIcons[definition?.category ?? 'admission']}</div>
                     <div className="udi-req-info">
-                      <div className="udi-req-name">SAT Score</div>
+                      <div className="udi-req-name">
+                        {definition?.label ?? score.test.toUpperCase()} {definition?.category === 'subject' ? 'Grades' : 'Score'}
+                      </div>
                       <div className="udi-req-details">
-                        {university.satMin && <span>Min: {university.satMin}</span>}
-                        {university.satAvg && <span>Avg: {university.satAvg}</span>}
+                        {score.minScore !== undefined && <span>Min: {formatScore(definition, score.minScore)}</span>}
+                        {score.avgScore !== undefined && <span>Avg: {formatScore(definition, score.avgScore)}</span>}
+                        {score.minScore === undefined && score.avgScore === undefined && <span>Required</span>}
                       </div>
+                      {renderScorePolicy(score.test)}
+                      {renderDocuments(score.test)}
                     </div>
                     <div className="udi-req-user">
-                      {profile.satActual ? (
-                        <div className="udi-req-score" style={{ color: getStatusColor(satStatus.status) }}>
-                          {profile.satActual}
+                      {score.score !== undefined ? (
+                        <div className="udi-req-score" style={{ color: getStatusColor(status.status) }}>
+                          {formatScore(definition, score.score)}
                         </div>
                       ) : (
                         <div className="udi-req-missing">Not set</div>
                       )}
-                      <div 
+                      <div
                         className="udi-req-status-badge"
-                        style={{ 
-                          backgroundColor: getStatusColor(satStatus.status),
+                        style={{
+                          backgroundColor: getStatusColor(status.status),
                           color: '#0d0d0d'
                         }}
                       >
-                        {satStatus.label}
+                        {status.label}
                       </div>
                     </div>
                     <div className="udi-req-edit-hint">
@@ -501,87 +769,46 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                       Edit
                     </div>
                   </div>
-                )}
+                ))}
 
-                {/* IELTS Requirement */}
-                {(university.ieltsMin || university.ieltsAvg) && (
-                  <div 
+                {/* GPA */}
+                {gpa && gpaStatus && (
+                  <div
                     className="udi-req-card"
                     onClick={onEditProfile}
-                    style={{ 
-                      borderColor: getStatusColor(ieltsStatus.status),
-                      background: getStatusBg(ieltsStatus.status)
+                    style={{
+                      borderColor: getStatusColor(gpaStatus.status),
+                      background: getStatusBg(gpaStatus.status)
                     }}
                   >
-                    <div className="udi-req-icon">🌍</div>
+                    <div className="udi-req-icon">🎓</div>
                     <div className="udi-req-info">
-                      <div className="udi-req-name">IELTS Score</div>
+                      <div className="udi-req-name">GPA</div>
                       <div className="udi-req-details">
-                        {university.ieltsMin && <span>Min: {university.ieltsMin}</span>}
-                        {university.ieltsAvg && <span>Avg: {university.ieltsAvg}</span>}
+                        <span>Min: {formatGpa(gpa.minimum!, gpa.scale)}</span>
                       </div>
-                    </div>
-                    <div className="udi-req-user">
-                      {profile.ieltsScore ? (
-                        <div className="udi-req-score" style={{ color: getStatusColor(ieltsStatus.status) }}>
-                          {profile.ieltsScore}
+                      {gpa.gpa !== undefined && gpa.gpaScale !== gpa.scale && (
+                        <div className="udi-req-policy">
+                          Your {formatGpa(gpa.gpa, gpa.gpaScale!)} converted to this scale
                         </div>
-                      ) : (
-                        <div className="udi-req-missing">Not set</div>
                       )}
-                      <div 
-                        className="udi-req-status-badge"
-                        style={{ 
-                          backgroundColor: getStatusColor(ieltsStatus.status),
-                          color: '#0d0d0d'
-                        }}
-                      >
-                        {ieltsStatus.label}
-                      </div>
-                    </div>
-                    <div className="udi-req-edit-hint">
-                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                        <path d="M11 4H4a2 2 0 00-2 2v14a2 2 0 002 2h14a2 2 0 002-2v-7" />
-                        <path d="M18.5 2.5a2.121 2.121 0 013 3L12 15l-4 1 1-4 9.5-9.5z" />
-                      </svg>
-                      Edit
-                    </div>
-                  </div>
-                )}
-
-                {/* TOEFL Requirement */}
-                {university.toeflMin && (
-                  <div 
-                    className="udi-req-card"
-                    onClick={onEditProfile}
-                    style={{ 
-                      borderColor: getStatusColor(toeflStatus.status),
-                      background: getStatusBg(toeflStatus.status)
-                    }}
-                  >
-                    <div className="udi-req-icon">📝</div>
-                    <div className="udi-req-info">
-                      <div className="udi-req-name">TOEFL Score</div>
-                      <div className="udi-req-details">
-                        <span>Min: {university.toeflMin}</span>
-                      </div>
                     </div>
                     <div className="udi-req-user">
-                      {profile.toeflScore ? (
-                        <div className="udi-req-score" style={{ color: getStatusColor(toeflStatus.status) }}>
-                          {profile.toeflScore}
+                      {gpa.converted !== undefined ? (
+                        <div className="udi-req-score" style={{ color: getStatusColor(gpaStatus.status) }}>
+                          {formatGpa(gpa.converted, gpa.scale)}
                         </div>
                       ) : (
                         <div className="udi-req-missing">Not set</div>
                       )}
-                      <div 
+                      <div
                         className="udi-req-status-badge"
-                        style={{ 
-                          backgroundColor: getStatusColor(toeflStatus.status),
+                        style={{
+                          backgroundColor: getStatusColor(gpaStatus.status),
                           color: '#0d0d0d'
                         }}
                       >
-                        {toeflStatus.label}
+                        {gpaStatus.label}
                       </div>
                     </div>
                     <div className="udi-req-edit-hint">
@@ -595,7 +822,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                 )}
 
                 {/* Transcripts */}
-                {university.gpaMin && (
+                {transcriptsRequired && (
                   <div 
                     className="udi-req-card"
                     onClick={onEditProfile}
@@ -608,12 +835,13 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                     <div className="udi-req-info">
                       <div className="udi-req-name">Transcripts</div>
                       <div className="udi-req-details">
-                        <span>GPA Min: {university.gpaMin}</span>
+                        <span>Official transcripts{requirements.transcripts?.count ? ` (${requirements.transcripts.count})` : ''}</span>
                       </div>
+                      {renderDocuments('transcripts')}
                     </div>
                     <div className="udi-req-user">
                       <div className="udi-req-score" style={{ color: getStatusColor(transcriptStatus.status) }}>
-                        {profile.transcriptCount}
+                        {profile.transcriptStatus.charAt(0).toUpperCase() + profile.transcriptStatus.slice(1)}
                       </div>
                       <div 
                         className="udi-req-status-badge"
@@ -639,7 +867,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                 {university.recLettersRequired && university.recLettersRequired > 0 && (
                   <div 
                     className="udi-req-card"
-                    onClick={onEditProfile}
+                    onClick={onManageRecommenders}
                     style={{ 
                       borderColor: getStatusColor(recsStatus.status),
                       background: getStatusBg(recsStatus.status)
@@ -651,10 +879,20 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                       <div className="udi-req-details">
                         <span>Need: {university.recLettersRequired}</span>
                       </div>
+                      <div className="udi-req-letters">
+                        {letters.length === 0 ? (
+                          <span className="udi-req-no-document">No recommenders asked yet</span>
+                        ) : letters.map(letter => (
+                          <span key={letter.recommender.id} className={`udi-req-letter ${letter.status}`}>
+                            {letter.recommender.name} · {letterStatusLabels[letter.status]}
+                          </span>
+                        ))}
+                      </div>
+                      {renderDocuments('recommendations')}
                     </div>
                     <div className="udi-req-user">
                       <div className="udi-req-score" style={{ color: getStatusColor(recsStatus.status) }}>
-                        {profile.recommendationsCount}
+                        {lettersSubmitted}/{university.recLettersRequired}
                       </div>
                       <div 
                         className="udi-req-status-badge"
@@ -671,7 +909,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                         <path d="M11 4H4a2 2 0 00-2 2v14a2 2 0 002 2h14a2 2 0 002-2v-7" />
                         <path d="M18.5 2.5a2.121 2.121 0 013 3L12 15l-4 1 1-4 9.5-9.5z" />
                       </svg>
-                      Edit
+                      Manage
                     </div>
                   </div>
                 )}
@@ -680,7 +918,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                 {university.essaysRequired && university.essaysRequired > 0 && (
                   <div 
                     className="udi-req-card"
-                    onClick={onEditProfile}
+                    onClick={onManageEssays}
                     style={{ 
                       borderColor: getStatusColor(essaysStatus.status),
                       background: getStatusBg(essaysStatus.status)
@@ -688,14 +926,27 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                   >
                     <div className="udi-req-icon">✍️</div>
                     <div className="udi-req-info">
-                      <div className="udi-req-name">Essays / Personal Statement</div>
+                      <div className="udi-req-name">Essays</div>
                       <div className="udi-req-details">
-                        <span>Required: {university.essaysRequired === 1 ? 'Yes' : `${university.essaysRequired} essays`}</span>
+                        <span>Need: {university.essaysRequired}</span>
+                      </div>
+                      <div className="udi-req-letters">
+                        {essayProgress.length === 0 ? (
+                          <span className="udi-req-no-document">No prompts added yet</span>
+                        ) : essayProgress.map(({ prompt, best }) => (
+                          <span
+                            key={prompt.id}
+                            className={`udi-req-essay ${best?.status ?? ''} ${best && prompt.wordLimit && best.wordCount > prompt.wordLimit ? 'over' : ''}`}
+                          >
+                            {prompt.title || 'Essay'} · {best ? `${essayStatusLabels[best.status]} · ${best.wordCount}${prompt.wordLimit ? `/${prompt.wordLimit}` : ''} words` : 'Not started'}
+                          </span>
+                        ))}
                       </div>
+                      {renderDocuments('essays')}
                     </div>
                     <div className="udi-req-user">
                       <div className="udi-req-score" style={{ color: getStatusColor(essaysStatus.status) }}>
-                        {profile.statementStatus === 'complete' ? '✓' : profile.statementStatus === 'draft' ? 'Draft' : '—'}
+                        {essaysFinal}/{university.essaysRequired}
                       </div>
                       <div 
                         className="udi-req-status-badge"
@@ -712,7 +963,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                         <path d="M11 4H4a2 2 0 00-2 2v14a2 2 0 002 2h14a2 2 0 002-2v-7" />
                         <path d="M18.5 2.5a2.121 2.121 0 013 3L12 15l-4 1 1-4 9.5-9.5z" />
                       </svg>
-                      Edit
+                      Manage
                     </div>
                   </div>
                 )}
@@ -736,8 +987,8 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                     </div>
                     <div className="udi-req-user">
                       <div className="udi-req-score" style={{ color: getStatusColor(interviewStatus.status) }}>
-                        {profile.interviewStatus === 'completed' ? 'Done' : 
-                         profile.interviewStatus === 'scheduled' ? 'Scheduled' : '—'}
+                        {interviewTask?.status === 'done' ? 'Done' :
+                         interviewTask?.status === 'todo' || interviewTask?.status === 'in_progress' ? 'Preparing' : '—'}
                       </div>
                       <div 
                         className="udi-req-status-badge"
@@ -759,6 +1010,7 @@ export function UniversityDetail({ universityId, onClose, onEditProfile }: Props
                   </div>
                 )}
               </div>
+              )}
             </div>
           )}
         </div>
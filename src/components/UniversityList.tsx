@@ -1,43 +1,34 @@
-import { useState } from 'react';
-
-const API_URL = import.meta.env.VITE_API_URL || '/api';
-
-interface University {
-  id: number;
-  name: string;
-  country: string;
-  program: string;
-  major: string;
-  ranking?: number;
-  deadlineEarly?: string;
-  deadlineRegular?: string;
-  deadlineTransfer?: string;
-  satMin?: number;
-  satAvg?: number;
-  ieltsMin?: number;
-  ieltsAvg?: number;
-  toeflMin?: number;
-  gpaMin?: number;
-  applicationPortal?: string;
-  applicationUrl?: string;
-  essaysRequired?: number;
-  recLettersRequired?: number;
-  interviewRequired?: number;
-  status: string;
-  priority: string;
-  notes?: string;
-  applicationSubmitted?: string;
-  decisionReceived?: string;
-  decisionResult?: string;
-}
+import { useState, useEffect } from 'react';
+import { FormError } from './FormError';
+import { ImportUniversities } from './ImportUniversities';
+import { Money } from './Money';
+import { api, ApiError } from '../api';
+import { daysUntil, parseLocalDate } from '../dates';
+import { formatScore } from '../scores';
+import type { University, UniversityStatus, Priority, TestDefinition, UniversityRequirements } from '../api';
+import type { Conversion } from '../money';
 
 interface Props {
+  applicantId: number;
   universities: University[];
   loading: boolean;
+  conversion: Conversion;
   onUpdate: () => void;
   onView: (id: number) => void;
 }
 
+const PAGE_SIZE = 24;
+
+const sortOptions = [
+  { value: 'ranking', label: 'Ranking' },
+  { value: 'name', label: 'Name' },
+  { value: 'deadline', label: 'Deadline' },
+  { value: 'tuition', label: 'Tuition' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'status', label: 'Status' },
+  { value: '-updatedAt', label: 'Recently updated' },
+];
+
 const statusConfig: Record<string, { label: string; icon: string }> = {
   researching: { label: 'Researching', icon: '🔍' },
   planning: { label: 'Planning', icon: '📋' },
@@ -47,30 +38,64 @@ const statusConfig: Record<string, { label: string; icon: string }> = {
   waitlisted: { label: 'Waitlisted', icon: '⏳' },
 };
 
-export function UniversityList({ universities, loading, onUpdate, onView }: Props) {
+export function UniversityList({ applicantId, universities, loading, conversion, onUpdate, onView }: Props) {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editForm, setEditForm] = useState<Partial<University>>({});
-  const [filter, setFilter] = useState<string>('all');
+  const [filter, setFilter] = useState<UniversityStatus | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState('ranking');
+  const [results, setResults] = useState<University[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [resultsLoaded, setResultsLoaded] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [tests, setTests] = useState<TestDefinition[]>([]);
+
+  useEffect(() => {
+    api.tests.list().then(setTests).catch(error => console.error('Failed to fetch tests:', error));
+  }, []);
+
+  // One chip per required test: the average admitted score, else the minimum
+  const testChips = (uni: University) => {
+    const requirements: UniversityRequirements = uni.requirements ? JSON.parse(uni.requirements) : {};
+    return tests.filter(t => requirements[t.key]?.required).map(t => {
+      const { minScore, avgScore } = requirements[t.key]!;
+      const score = avgScore !== undefined ? formatScore(t, avgScore)
+        : minScore !== undefined ? `${formatScore(t, minScore)}+` : '';
+      return { key: t.key, label: t.label, score };
+    });
+  };
 
   const handleEdit = (uni: University) => {
     setEditingId(uni.id);
     setEditForm(uni);
+    setErrors({});
+    setFormError(null);
   };
 
   const handleSave = async () => {
     if (!editingId) return;
 
     try {
-      await fetch(`${API_URL}/universities/${editingId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(editForm),
+      await api.universities.update(applicantId, editingId, {
+        name: editForm.name,
+        status: editForm.status,
+        priority: editForm.priority,
+        deadlineRegular: editForm.deadlineRegular,
+        tuitionAmount: editForm.tuitionAmount ?? null,
+        currency: editForm.currency || null,
+        notes: editForm.notes,
       });
       setEditingId(null);
       onUpdate();
     } catch (error) {
-      console.error('Failed to update:', error);
+      if (error instanceof ApiError) {
+        setErrors(error.fieldErrors);
+        setFormError(error.fields.length > 0 ? 'Please fix the highlighted fields.' : error.message);
+      } else {
+        console.error('Failed to update:', error);
+      }
     }
   };
 
@@ -78,23 +103,55 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
     if (!confirm('Are you sure you want to delete this university?')) return;
 
     try {
-      await fetch(`${API_URL}/universities/${id}`, { method: 'DELETE' });
+      await api.universities.remove(applicantId, id);
       onUpdate();
     } catch (error) {
       console.error('Failed to delete:', error);
     }
   };
 
-  // Filter and search universities
-  const filteredUniversities = universities.filter(uni => {
-    const matchesFilter = filter === 'all' || uni.status === filter;
-    const matchesSearch =
-      searchQuery === '' ||
-      uni.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      uni.country.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      uni.major.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesFilter && matchesSearch;
-  });
+  // Filtering, search and sorting happen on the server, one page at a time
+  const fetchPage = async (cursor?: string) => {
+    try {
+      return await api.universities.list(applicantId, {
+        sort,
+        limit: PAGE_SIZE,
+        status: filter !== 'all' ? [filter] : undefined,
+        q: searchQuery.trim() || undefined,
+        cursor,
+      });
+    } catch (error) {
+      console.error('Failed to fetch universities:', error);
+      return null;
+    }
+  };
+
+  // The export follows whatever filters and sort are showing
+  const exportQuery = { sort, status: filter !== 'all' ? [filter] : undefined, q: searchQuery.trim() || undefined };
+
+  // Refetch when the filters change or the parent reloads after an edit
+  useEffect(() => {
+    let active = true;
+    const timer = setTimeout(async () => {
+      const page = await fetchPage();
+      if (!active || !page) return;
+      setResults(page.items);
+      setNextCursor(page.nextCursor);
+      setResultsLoaded(true);
+    }, searchQuery ? 250 : 0);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [filter, searchQuery, sort, universities]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    const page = await fetchPage(nextCursor);
+    if (!page) return;
+    setResults([...results, ...page.items]);
+    setNextCursor(page.nextCursor);
+  };
 
   // Get counts for filter tabs
   const statusCounts = universities.reduce((acc, uni) => {
@@ -104,10 +161,8 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
 
   const formatDeadline = (dateStr?: string) => {
     if (!dateStr) return null;
-    const date = new Date(dateStr);
-    const now = new Date();
-    const diff = date.getTime() - now.getTime();
-    const days = Math.ceil(diff / (1000 * 60 * 60 * 24));
+    const date = parseLocalDate(dateStr);
+    const days = daysUntil(date);
 
     const formatted = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 
@@ -117,7 +172,7 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
     return { text: formatted, status: 'normal' };
   };
 
-  if (loading) {
+  if (loading || !resultsLoaded) {
     return (
       <div className="loading">
         <div className="loading-spinner" />
@@ -162,24 +217,41 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
           </button>
         </div>
 
-        <div className="search-box">
-          <span className="search-icon">
-            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <circle cx="11" cy="11" r="8" />
-              <path d="M21 21l-4.35-4.35" />
-            </svg>
-          </span>
-          <input
-            type="text"
-            placeholder="Search universities..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
+        <div className="list-controls">
+          <select className="form-select list-sort" value={sort} onChange={(e) => setSort(e.target.value)}>
+            {sortOptions.map(option => (
+              <option key={option.value} value={option.value}>Sort: {option.label}</option>
+            ))}
+          </select>
+
+          <div className="search-box">
+            <span className="search-icon">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="11" cy="11" r="8" />
+                <path d="M21 21l-4.35-4.35" />
+              </svg>
+            </span>
+            <input
+              type="text"
+              placeholder="Search universities..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+
+          <button className="btn btn-secondary" onClick={() => setShowImport(!showImport)}>Import CSV</button>
+          <a className="btn btn-secondary" href={api.universities.exportCsvUrl(applicantId, exportQuery)} download>
+            Export CSV
+          </a>
         </div>
       </div>
 
+      {showImport && (
+        <ImportUniversities applicantId={applicantId} onImported={onUpdate} onClose={() => setShowImport(false)} />
+      )}
+
       {/* Universities Grid */}
-      {filteredUniversities.length === 0 ? (
+      {results.length === 0 ? (
         <div className="empty-state">
           <div className="empty-state-icon">
             <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
@@ -193,7 +265,7 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
         </div>
       ) : (
         <div className="universities-grid">
-          {filteredUniversities.map((uni) => (
+          {results.map((uni) => (
             <div key={uni.id} className="university-card">
               {editingId === uni.id ? (
                 /* Edit Form */
@@ -201,20 +273,21 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
                   <div className="form-group">
                     <label className="form-label">University Name</label>
                     <input
-                      className="form-input"
+                      className={`form-input ${errors.name ? 'invalid' : ''}`}
                       value={editForm.name || ''}
                       onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
                       placeholder="University Name"
                     />
+                    <FormError message={errors.name} />
                   </div>
 
                   <div className="form-row">
                     <div className="form-group">
                       <label className="form-label">Status</label>
                       <select
-                        className="form-select"
+                        className={`form-select ${errors.status ? 'invalid' : ''}`}
                         value={editForm.status || ''}
-                        onChange={(e) => setEditForm({ ...editForm, status: e.target.value })}
+                        onChange={(e) => setEditForm({ ...editForm, status: e.target.value as UniversityStatus })}
                       >
                         <option value="researching">Researching</option>
                         <option value="planning">Planning</option>
@@ -223,43 +296,75 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
                         <option value="rejected">Rejected</option>
                         <option value="waitlisted">Waitlisted</option>
                       </select>
+                      <FormError message={errors.status} />
                     </div>
 
                     <div className="form-group">
                       <label className="form-label">Priority</label>
                       <select
-                        className="form-select"
+                        className={`form-select ${errors.priority ? 'invalid' : ''}`}
                         value={editForm.priority || ''}
-                        onChange={(e) => setEditForm({ ...editForm, priority: e.target.value })}
+                        onChange={(e) => setEditForm({ ...editForm, priority: e.target.value as Priority })}
                       >
                         <option value="high">High Priority</option>
                         <option value="medium">Medium Priority</option>
                         <option value="low">Low Priority</option>
                       </select>
+                      <FormError message={errors.priority} />
                     </div>
                   </div>
 
                   <div className="form-group">
                     <label className="form-label">Regular Deadline</label>
                     <input
-                      className="form-input"
+                      className={`form-input ${errors.deadlineRegular ? 'invalid' : ''}`}
                       type="date"
                       value={editForm.deadlineRegular || ''}
                       onChange={(e) => setEditForm({ ...editForm, deadlineRegular: e.target.value })}
                     />
+                    <FormError message={errors.deadlineRegular} />
+                  </div>
+
+                  <div className="form-row">
+                    <div className="form-group">
+                      <label className="form-label">Annual Tuition</label>
+                      <input
+                        className={`form-input ${errors.tuitionAmount ? 'invalid' : ''}`}
+                        type="number"
+                        min="0"
+                        value={editForm.tuitionAmount ?? ''}
+                        onChange={(e) => setEditForm({ ...editForm, tuitionAmount: e.target.value ? Number(e.target.value) : undefined })}
+                      />
+                      <FormError message={errors.tuitionAmount} />
+                    </div>
+
+                    <div className="form-group">
+                      <label className="form-label">Currency</label>
+                      <input
+                        className={`form-input ${errors.currency ? 'invalid' : ''}`}
+                        value={editForm.currency || ''}
+                        maxLength={3}
+                        placeholder="USD"
+                        onChange={(e) => setEditForm({ ...editForm, currency: e.target.value.toUpperCase() })}
+                      />
+                      <FormError message={errors.currency} />
+                    </div>
                   </div>
 
                   <div className="form-group">
                     <label className="form-label">Notes</label>
                     <textarea
-                      className="form-textarea"
+                      className={`form-textarea ${errors.notes ? 'invalid' : ''}`}
                       value={editForm.notes || ''}
                       onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
                       placeholder="Notes"
                       rows={3}
                     />
+                    <FormError message={errors.notes} />
                   </div>
 
+                  {formError && <div className="form-error-summary">{formError}</div>}
+
                   <div className="edit-actions">
                     <button className="btn btn-primary" onClick={handleSave}>
                       Save Changes
@@ -322,6 +427,14 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
                           </span>
                         </div>
                       )}
+                      {uni.tuitionAmount != null && (
+                        <div className="uni-detail">
+                          <span className="uni-detail-label">Tuition</span>
+                          <span className="uni-detail-value">
+                            <Money amount={uni.tuitionAmount} currency={uni.currency} conversion={conversion} />
+                          </span>
+                        </div>
+                      )}
                       {uni.applicationPortal && (
                         <div className="uni-detail">
                           <span className="uni-detail-label">Portal</span>
@@ -331,23 +444,13 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
                     </div>
 
                     {/* Requirements */}
-                    {(uni.satAvg || uni.ieltsAvg || uni.toeflMin || uni.essaysRequired) && (
+                    {(testChips(uni).length > 0 || uni.essaysRequired) && (
                       <div className="uni-requirements">
-                        {uni.satAvg && (
-                          <div className="requirement-tag">
-                            <span className="label">SAT</span> {uni.satAvg}
+                        {testChips(uni).map(chip => (
+                          <div key={chip.key} className="requirement-tag">
+                            <span className="label">{chip.label}</span> {chip.score}
                           </div>
-                        )}
-                        {uni.ieltsAvg && (
-                          <div className="requirement-tag">
-                            <span className="label">IELTS</span> {uni.ieltsAvg}
-                          </div>
-                        )}
-                        {uni.toeflMin && (
-                          <div className="requirement-tag">
-                            <span className="label">TOEFL</span> {uni.toeflMin}+
-                          </div>
-                        )}
+                        ))}
                         {uni.essaysRequired && uni.essaysRequired > 0 && (
                           <div className="requirement-tag">
                             <span className="label">Essays</span> {uni.essaysRequired}
@@ -409,6 +512,14 @@ export function UniversityList({ universities, loading, onUpdate, onView }: Prop
           ))}
         </div>
       )}
+
+      {nextCursor && (
+        <div className="list-more">
+          <button className="btn btn-secondary" onClick={loadMore}>
+            Load more
+          </button>
+        </div>
+      )}
     </div>
   );
 }
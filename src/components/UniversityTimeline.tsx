@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { api } from '../api';
+import type { HistoryEntry } from '../api';
+
+interface Props {
+  applicantId: number;
+  universityId: number;
+}
+
+const fieldLabels: Record<string, string> = {
+  status: 'Status',
+  priority: 'Priority',
+  deadlineEarly: 'Early deadline',
+  deadlineRegular: 'Regular deadline',
+  deadlineTransfer: 'Transfer deadline',
+  applicationSubmitted: 'Submitted on',
+  decisionReceived: 'Decision received',
+  decisionResult: 'Decision',
+  ranking: 'Ranking',
+  gpa: 'GPA',
+  gpaScale: 'GPA scale',
+  gpaMin: 'GPA minimum',
+  dueDate: 'Due date',
+  completedAt: 'Completed at',
+  snoozedUntil: 'Snoozed until',
+  date: 'Date',
+  time: 'Time',
+  type: 'Round',
+  paidDate: 'Paid on',
+};
+
+const createdText: Record<HistoryEntry['entityType'], string> = {
+  university: 'Added to your list',
+  task: 'Task added',
+  deadline: 'Deadline added',
+  fee: 'Fee added',
+  scholarship: 'Scholarship added',
+  document: 'Document uploaded',
+  recommender: 'Recommender added',
+  essay_prompt: 'Essay prompt added',
+  essay: 'Essay draft started',
+  test_attempt: 'Test score added',
+  profile: 'Profile created',
+};
+
+// Fields whose values are too long or too noisy to show inline
+const opaqueFields = ['requirements', 'notes', 'description', 'prompt', 'sections'];
+
+const formatField = (field: string) =>
+  fieldLabels[field] || field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+const formatValue = (field: string, value: string | null) => {
+  if (value === null) return 'none';
+  if (value === 'true' || value === 'false') return value === 'true' ? 'yes' : 'no';
+  if (field.endsWith('At')) return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return value.replace(/_/g, ' ');
+};
+
+function describe(entry: HistoryEntry): { subject: string | null; text: string } {
+  const subject = entry.entityType === 'task' ? entry.label || 'Deleted task'
+    : entry.entityType === 'deadline' ? entry.label ? `${entry.label.replace(/_/g, ' ')} deadline` : 'Deleted deadline'
+    : entry.entityType === 'fee' ? entry.label || 'Deleted fee'
+    : entry.entityType === 'essay_prompt' || entry.entityType === 'essay' ? entry.label || 'Deleted essay'
+    : null;
+  if (entry.action === 'created') {
+    return { subject, text: createdText[entry.entityType] };
+  }
+  const field = entry.field!;
+  if (opaqueFields.includes(field)) return { subject, text: `${formatField(field)} updated` };
+  return { subject, text: `${formatField(field)}: ${formatValue(field, entry.oldValue)} → ${formatValue(field, entry.newValue)}` };
+}
+
+export function UniversityTimeline({ applicantId, universityId }: Props) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showTasks, setShowTasks] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        setEntries(await api.universities.history(applicantId, universityId));
+      } catch (error) {
+        console.error('Failed to fetch history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [applicantId, universityId]);
+
+  const visible = showTasks ? entries : entries.filter(e => e.entityType !== 'task');
+
+  // Entries arrive newest first; group them by calendar day
+  const days: { day: string; entries: HistoryEntry[] }[] = [];
+  for (const entry of visible) {
+    const day = new Date(entry.changedAt).toLocaleDateString('en-US', { weekday: 'short', month: 'long', day: 'numeric', year: 'numeric' });
+    if (days[days.length - 1]?.day !== day) days.push({ day, entries: [] });
+    days[days.length - 1].entries.push(entry);
+  }
+
+  if (loading) {
+    return <div className="udi-timeline-loading"><div className="uni-detail-spinner" /></div>;
+  }
+
+  return (
+    <div className="udi-timeline">
+      <div className="udi-req-header">
+        <h3 className="udi-section-title">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M3 12a9 9 0 109-9 9.75 9.75 0 00-6.74 2.74L3 8" />
+            <path d="M3 3v5h5M12 7v5l4 2" />
+          </svg>
+          History
+        </h3>
+        <label className="udi-timeline-toggle">
+          <input type="checkbox" checked={showTasks} onChange={(e) => setShowTasks(e.target.checked)} />
+          Include tasks
+        </label>
+      </div>
+
+      {days.length === 0 ? (
+        <p className="udi-empty-hint">No changes recorded yet. Edits made from now on will show up here.</p>
+      ) : (
+        days.map(({ day, entries: dayEntries }) => (
+          <div key={day} className="udi-timeline-day">
+            <div className="udi-timeline-date">{day}</div>
+            {dayEntries.map(entry => {
+              const { subject, text } = describe(entry);
+              return (
+                <div key={entry.id} className={`udi-timeline-entry ${entry.entityType} ${entry.field === 'status' ? 'status' : ''}`}>
+                  <span className="udi-timeline-dot" />
+                  <div className="udi-timeline-body">
+                    {subject && <div className="udi-timeline-subject">{subject}</div>}
+                    <div className="udi-timeline-text">{text}</div>
+                  </div>
+                  <span className="udi-timeline-time">
+                    {new Date(entry.changedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// Countdown helpers. Days are always counted in the user's own timezone: a
+// bare YYYY-MM-DD is that calendar day here, not midnight UTC, and a deadline's
+// exact instant is converted to local time before its day is taken.
+
+// A YYYY-MM-DD date as local midnight
+export function parseLocalDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// A Date as a local YYYY-MM-DD
+export function toLocalDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Calendar days from today until `date`: 0 today, 1 tomorrow, negative once past
+export function daysUntil(date: Date): number {
+  const today = new Date();
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  const end = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((end - start) / (1000 * 60 * 60 * 24));
+}
+
+export const userTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
@@ -0,0 +1,31 @@
+// Money formatting. Amounts keep the currency they were entered in.
+
+// $150, or $150.50 when there are cents; unknown codes fall back to "150 XYZ"
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+}
+
+// Exchange rates (units per US dollar) and the currency costs are also shown in
+export interface Conversion {
+  rates: Record<string, number>;
+  displayCurrency: string;
+}
+
+// Same arithmetic as the server's convert(); undefined when either side has no rate
+export function convertMoney(amount: number, from: string, to: string, rates: Record<string, number>): number | undefined {
+  const source = from.trim().toUpperCase();
+  const target = to.trim().toUpperCase();
+  if (source === target) return amount;
+  const fromRate = source === 'USD' ? 1 : rates[source];
+  const toRate = target === 'USD' ? 1 : rates[target];
+  if (!fromRate || !toRate) return undefined;
+  return (amount / fromRate) * toRate;
+}
@@ -0,0 +1,13 @@
+// Test scores (from the definitions served by GET /api/tests) and GPAs as shown to the user.
+import type { GpaScale, TestDefinition } from './api';
+
+// Same as the server's formatScore(): A-level grades as letters, the rest as numbers
+export function formatScore(definition: TestDefinition | undefined, score: number): string {
+  return definition?.grades?.[score - definition.min] ?? String(score);
+}
+
+// Same as the server's formatGpa(): "3.6/4.0", "92%", "38/45"
+export function formatGpa(value: number, scale: GpaScale): string {
+  if (scale === 'percentage') return `${value}%`;
+  return `${value}/${scale === 'ib' ? 45 : scale === 'gpa5' ? '5.0' : '4.0'}`;
+}